@@ -1,12 +1,16 @@
 import express, { Application, Request, Response } from 'express';
 import corsMiddleware from './middleware/cors';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { requireAuth, requireTab, requireAdmin } from './middleware/auth';
+import { resolveTenant } from './middleware/tenant';
 import { loggers } from './utils/logger';
+import { getCircuitBreakerStates } from './services/cloud9/circuitBreaker';
 
 // Import routes
 import referenceRoutes from './routes/reference';
 import patientRoutes from './routes/patients';
 import appointmentRoutes from './routes/appointments';
+import waitlistRoutes from './routes/waitlist';
 import postmanRoutes from './routes/postman';
 import testMonitorRoutes from './routes/testMonitor';
 import authRoutes from './routes/auth';
@@ -51,21 +55,27 @@ app.use((req: Request, res: Response, next) => {
 
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
+  // Cloud 9 circuit breakers, per environment that has seen traffic
+  const cloud9 = getCircuitBreakerStates();
+  const degraded = Object.values(cloud9).some((breaker) => breaker?.state !== 'closed');
+
   res.json({
-    status: 'ok',
+    status: degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    cloud9,
   });
 });
 
-// API Routes
-app.use('/api/reference', referenceRoutes);
-app.use('/api/patients', patientRoutes);
-app.use('/api/appointments', appointmentRoutes);
-app.use('/api/postman', postmanRoutes);
-app.use('/api/test-monitor', testMonitorRoutes);
+// API Routes (auth handles its own tokens; everything else requires a valid JWT)
 app.use('/api/auth', authRoutes);
-app.use('/api/admin', adminRoutes);
+app.use('/api/reference', requireAuth, resolveTenant, referenceRoutes);
+app.use('/api/patients', requireAuth, requireTab('patients'), resolveTenant, patientRoutes);
+app.use('/api/appointments', requireAuth, requireTab('appointments', 'calendar'), resolveTenant, appointmentRoutes);
+app.use('/api/waitlist', requireAuth, requireTab('appointments', 'calendar'), resolveTenant, waitlistRoutes);
+app.use('/api/postman', requireAuth, postmanRoutes);
+app.use('/api/test-monitor', requireAuth, requireTab('test_monitor'), testMonitorRoutes);
+app.use('/api/admin', requireAuth, requireAdmin, adminRoutes);
 
 // ===========================================
 // Error Handling
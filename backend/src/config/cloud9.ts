@@ -7,7 +7,7 @@ dotenv.config();
  * Cloud 9 API Environment Configuration
  */
 
-export type Environment = 'sandbox' | 'production';
+export type Environment = 'sandbox' | 'production' | 'mock';
 
 export interface Cloud9Config {
   endpoint: string;
@@ -46,6 +46,22 @@ export const PRODUCTION_CONFIG: Cloud9Config = {
   },
 };
 
+/**
+ * Mock Configuration
+ * Local GetData.ashx stand-in (see services/cloud9/mock), started with `npm run mock:cloud9`
+ * or in-process via CLOUD9_MOCK_AUTOSTART=true
+ */
+export const MOCK_CONFIG: Cloud9Config = {
+  endpoint:
+    process.env.CLOUD9_MOCK_ENDPOINT ||
+    'http://localhost:3901/GetData.ashx',
+  credentials: {
+    clientId: process.env.CLOUD9_MOCK_CLIENT_ID || 'mock-client-id',
+    userName: process.env.CLOUD9_MOCK_USERNAME || 'MockVendor',
+    password: process.env.CLOUD9_MOCK_PASSWORD || 'mock-password',
+  },
+};
+
 /**
  * Get configuration for a specific environment
  */
@@ -55,6 +71,8 @@ export function getCloud9Config(environment: Environment): Cloud9Config {
       return SANDBOX_CONFIG;
     case 'production':
       return PRODUCTION_CONFIG;
+    case 'mock':
+      return MOCK_CONFIG;
     default:
       throw new Error(`Invalid environment: ${environment}`);
   }
@@ -78,7 +96,7 @@ export function getEndpoint(environment: Environment): string {
  * Validate environment parameter
  */
 export function isValidEnvironment(env: string): env is Environment {
-  return env === 'sandbox' || env === 'production';
+  return env === 'sandbox' || env === 'production' || env === 'mock';
 }
 
 /**
@@ -96,3 +114,12 @@ export function getDefaultEnvironment(): Environment {
 export function isCachingEnabled(): boolean {
   return process.env.ENABLE_CACHING === 'true';
 }
+
+/**
+ * Check if short-lived response payload caching (e.g. appointment date ranges) is enabled.
+ * Independent of ENABLE_CACHING: these entries are invalidated on every write.
+ * @returns false if ENABLE_PAYLOAD_CACHING is 'false', true otherwise (default: true)
+ */
+export function isPayloadCachingEnabled(): boolean {
+  return process.env.ENABLE_PAYLOAD_CACHING !== 'false';
+}
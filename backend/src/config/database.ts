@@ -11,6 +11,58 @@ const DB_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../../dentix.
 
 let dbInstance: Database.Database | null = null;
 
+const LEGACY_ENVIRONMENT_CHECK = "CHECK(environment IN ('sandbox', 'production'))";
+const ENVIRONMENT_CHECK = "CHECK(environment IN ('sandbox', 'production', 'mock'))";
+
+/**
+ * Allow the mock environment in tables created before it existed.
+ * SQLite can't alter a CHECK constraint, so each affected table is rebuilt
+ * (copy into a new table, drop, rename) and its indexes recreated.
+ */
+function migrateEnvironmentChecks(db: Database.Database): void {
+  const tables = db
+    .prepare("SELECT name, sql FROM sqlite_master WHERE type = 'table' AND instr(sql, ?) > 0")
+    .all(LEGACY_ENVIRONMENT_CHECK) as { name: string; sql: string }[];
+
+  if (tables.length === 0) {
+    return;
+  }
+
+  // Foreign keys can only be toggled outside a transaction
+  db.pragma('foreign_keys = OFF');
+  try {
+    db.transaction(() => {
+      for (const table of tables) {
+        const indexes = db
+          .prepare("SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL")
+          .all(table.name) as { sql: string }[];
+        const newName = `${table.name}_migrated`;
+        const createSql = table.sql
+          .split(LEGACY_ENVIRONMENT_CHECK)
+          .join(ENVIRONMENT_CHECK)
+          .replace(/^CREATE TABLE\s+(IF NOT EXISTS\s+)?["`]?\w+["`]?/i, `CREATE TABLE "${newName}"`);
+
+        db.exec(createSql);
+        db.exec(`INSERT INTO "${newName}" SELECT * FROM "${table.name}"`);
+        db.exec(`DROP TABLE "${table.name}"`);
+        db.exec(`ALTER TABLE "${newName}" RENAME TO "${table.name}"`);
+        indexes.forEach((index) => db.exec(index.sql));
+      }
+
+      const violations = db.pragma('foreign_key_check') as unknown[];
+      if (violations.length > 0) {
+        throw new Error(`Foreign key check failed after migration (${violations.length} rows)`);
+      }
+    })();
+
+    logger.info('Migrated environment constraints to allow mock', {
+      tables: tables.map((table) => table.name),
+    });
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
 /**
  * Get the database instance (singleton pattern)
  */
@@ -27,6 +79,8 @@ export function getDatabase(): Database.Database {
       // Set journal mode to WAL for better concurrency
       dbInstance.pragma('journal_mode = WAL');
 
+      migrateEnvironmentChecks(dbInstance);
+
       logger.info('Database connection established', { path: DB_PATH });
     } catch (error) {
       logger.error('Failed to connect to database', {
@@ -0,0 +1,125 @@
+import dotenv from 'dotenv';
+import { Environment } from './cloud9';
+
+dotenv.config();
+
+/**
+ * Practice Management System (PMS) Configuration
+ *
+ * Which PMS backs an environment: Cloud 9 (the default) or NexHealth.
+ * Practices that are not on Cloud 9 are configured as tenants in PMS_TENANTS
+ * and selected per request with the X-Tenant header.
+ */
+
+export type PmsProvider = 'cloud9' | 'nexhealth';
+
+export interface NexHealthConfig {
+  baseUrl: string;
+  apiKey: string;
+  subdomain: string;
+  locationId: string;
+  /** Provider new patients are assigned to and slots are searched for by default */
+  providerId: string;
+}
+
+export interface PmsConfig {
+  provider: PmsProvider;
+  /** Set when provider is 'nexhealth' */
+  nexhealth?: NexHealthConfig;
+}
+
+/**
+ * A PMS_TENANTS entry. NexHealth fields fall back to the NEXHEALTH_* defaults;
+ * the `sandbox` and `production` blocks override them per environment, e.g.
+ * { "smile-ortho": { "provider": "nexhealth", "subdomain": "smile", "apiKey": "...",
+ *   "sandbox": { "locationId": "1", "providerId": "2" } } }
+ */
+interface TenantEntry extends Partial<Omit<NexHealthConfig, 'baseUrl'>> {
+  provider?: PmsProvider;
+  sandbox?: Partial<Omit<NexHealthConfig, 'baseUrl'>>;
+  production?: Partial<Omit<NexHealthConfig, 'baseUrl'>>;
+}
+
+/**
+ * NexHealth defaults per environment (the practice the NexHealth Node-RED flow talks to)
+ */
+function getDefaultNexHealthConfig(environment: Environment): NexHealthConfig {
+  const isProduction = environment === 'production';
+  return {
+    baseUrl: process.env.NEXHEALTH_API_URL || 'https://nexhealth.info',
+    apiKey: process.env.NEXHEALTH_API_KEY || '',
+    subdomain: process.env.NEXHEALTH_SUBDOMAIN || 'cdm',
+    locationId: isProduction
+      ? process.env.NEXHEALTH_PRODUCTION_LOCATION_ID || '77523'
+      : process.env.NEXHEALTH_SANDBOX_LOCATION_ID || '333725',
+    providerId: isProduction
+      ? process.env.NEXHEALTH_PRODUCTION_PROVIDER_ID || '223076809'
+      : process.env.NEXHEALTH_SANDBOX_PROVIDER_ID || '421458314',
+  };
+}
+
+function isValidProvider(provider: unknown): provider is PmsProvider {
+  return provider === 'cloud9' || provider === 'nexhealth';
+}
+
+/**
+ * PMS used when no tenant is given (PMS_PROVIDER_SANDBOX / PMS_PROVIDER_PRODUCTION)
+ */
+function getEnvironmentProvider(environment: Environment): PmsProvider {
+  const configured =
+    environment === 'production' ? process.env.PMS_PROVIDER_PRODUCTION : process.env.PMS_PROVIDER_SANDBOX;
+  return isValidProvider(configured) ? configured : 'cloud9';
+}
+
+/**
+ * Tenants configured in PMS_TENANTS (JSON object keyed by tenant ID)
+ */
+export function getTenants(): Record<string, TenantEntry> {
+  const raw = process.env.PMS_TENANTS;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * PMS configuration for an environment and optional tenant.
+ * The mock environment is a Cloud 9 stand-in, so it is always Cloud 9.
+ * Returns null for a tenant that is not configured.
+ */
+export function getPmsConfig(environment: Environment, tenant?: string): PmsConfig | null {
+  if (environment === 'mock') {
+    return { provider: 'cloud9' };
+  }
+
+  let provider = getEnvironmentProvider(environment);
+  let overrides: Partial<NexHealthConfig> = {};
+
+  if (tenant) {
+    const entry = getTenants()[tenant];
+    if (!entry) return null;
+
+    const { provider: tenantProvider, sandbox, production, ...shared } = entry;
+    provider = isValidProvider(tenantProvider) ? tenantProvider : 'cloud9';
+    overrides = { ...shared, ...(environment === 'production' ? production : sandbox) };
+  }
+
+  if (provider === 'cloud9') {
+    return { provider };
+  }
+
+  const defaults = getDefaultNexHealthConfig(environment);
+  const nexhealth = { ...defaults, ...overrides };
+  return {
+    provider,
+    nexhealth: {
+      ...nexhealth,
+      locationId: String(nexhealth.locationId),
+      providerId: String(nexhealth.providerId),
+    },
+  };
+}
@@ -1,11 +1,13 @@
 import { Request, Response } from 'express';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
 import { UserModel, TabPermission } from '../models/User';
+import { AuditLogModel, AuditLogEntry, AuditLogFilters } from '../models/AuditLog';
 import { hashPassword, generateTempPassword, verifyToken } from '../services/authService';
+import { toCsv } from '../utils/csv';
 
 /**
  * Admin Controller
- * Handles user management endpoints
+ * Handles user management and PHI audit log endpoints
  */
 
 /**
@@ -294,3 +296,68 @@ export const resetPassword = asyncHandler(async (req: Request, res: Response) =>
     }
   });
 });
+
+/**
+ * Parse audit log filters from query params
+ */
+function parseAuditFilters(req: Request): AuditLogFilters {
+  const { userId, patientGuid, action, startDate, endDate } = req.query;
+  const filters: AuditLogFilters = {};
+
+  if (userId) {
+    const id = parseInt(userId as string);
+    if (isNaN(id)) {
+      throw new AppError('Invalid user ID', 400);
+    }
+    filters.userId = id;
+  }
+  if (patientGuid) filters.patientGuid = patientGuid as string;
+  if (action) filters.action = action as string;
+  if (startDate) filters.startDate = startDate as string;
+  if (endDate) filters.endDate = endDate as string;
+
+  return filters;
+}
+
+const AUDIT_CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  'id', 'created_at', 'user_id', 'user_email', 'environment', 'action',
+  'patient_guid', 'appointment_guid', 'outcome', 'status_code', 'error_message',
+  'details', 'ip_address'
+];
+
+/**
+ * GET /api/admin/audit-log
+ * Search the PHI access audit log
+ */
+export const getAuditLog = asyncHandler(async (req: Request, res: Response) => {
+  requireAdmin(req);
+
+  const filters = parseAuditFilters(req);
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+  const offset = parseInt(req.query.offset as string) || 0;
+
+  const { entries, total } = AuditLogModel.search({ ...filters, limit, offset });
+
+  res.json({
+    status: 'success',
+    data: { entries, total, limit, offset }
+  });
+});
+
+/**
+ * GET /api/admin/audit-log/export
+ * Export matching audit records as CSV
+ */
+export const exportAuditLog = asyncHandler(async (req: Request, res: Response) => {
+  requireAdmin(req);
+
+  const { entries } = AuditLogModel.search(parseAuditFilters(req));
+
+  const csv = toCsv(AUDIT_CSV_COLUMNS, entries.map(entry => AUDIT_CSV_COLUMNS.map(col => entry[col])));
+
+  const fileName = `phi-audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(csv);
+});
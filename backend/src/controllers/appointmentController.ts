@@ -2,10 +2,15 @@ import { Request, Response } from 'express';
 import { createCloud9Client } from '../services/cloud9/client';
 import { Environment, isValidEnvironment } from '../config/cloud9';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
-import { Cloud9Appointment, Cloud9AvailableSlot, Cloud9Location, Cloud9AppointmentType } from '../types/cloud9';
+import { Cloud9Appointment, Cloud9Location, Cloud9AppointmentType } from '../types/cloud9';
 import { AppointmentModel } from '../models/Appointment';
 import { PatientModel } from '../models/Patient';
 import logger from '../utils/logger';
+import { formatCloud9Date, parseCloud9DateTime } from '../utils/cloud9Dates';
+import { createCacheService } from '../services/cacheService';
+import { triggerWaitlistMatching } from '../services/waitlistService';
+import { buildAvailabilityGrid, GRID_BLOCK_MINUTES, GRID_DAYS } from '../services/availabilityGridService';
+import { getPmsAdapter, PmsAdapter, PmsAppointment, PmsSlot } from '../services/pms';
 
 /**
  * Appointment Controller
@@ -22,12 +27,119 @@ function getEnvironment(req: Request): Environment {
     'sandbox';
 
   if (!isValidEnvironment(env)) {
-    throw new AppError('Invalid environment. Must be "sandbox" or "production"', 400);
+    throw new AppError('Invalid environment. Must be "sandbox", "production" or "mock"', 400);
   }
 
   return env;
 }
 
+// Date-range listing limits; GetExistingAppts gets slow on wide ranges
+const MAX_DATE_RANGE_DAYS = 92;
+const DEFAULT_DATE_RANGE_PAGE_SIZE = 500;
+const MAX_DATE_RANGE_PAGE_SIZE = 1000;
+const DATE_RANGE_CACHE_PREFIX = 'appointments:range:';
+
+/**
+ * Parse a date-range query value. YYYY-MM-DD is read as a local date, not UTC midnight.
+ */
+function parseRangeDate(value: string | undefined): Date | null {
+  const iso = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  }
+  return parseCloud9DateTime(value);
+}
+
+/**
+ * Drop cached date-range listings after a booking changes
+ */
+function invalidateDateRangeCache(environment: Environment): void {
+  createCacheService(environment).clearPayloads(DATE_RANGE_CACHE_PREFIX);
+}
+
+/**
+ * All appointments in a range, cached per practice and range until a booking changes
+ */
+async function loadAppointmentsInRange(
+  pms: PmsAdapter,
+  tenant: string | undefined,
+  startDate: string,
+  endDate: string
+): Promise<{ records: PmsAppointment[]; cached: boolean }> {
+  const cache = createCacheService(pms.environment);
+  const cacheKey = `${DATE_RANGE_CACHE_PREFIX}${tenant || 'default'}:${startDate}:${endDate}`;
+  const cachedRecords = cache.getPayload<PmsAppointment[]>(cacheKey);
+
+  if (cachedRecords) {
+    return { records: cachedRecords, cached: true };
+  }
+
+  const records = await pms.getAppointmentsInRange(startDate, endDate);
+  cache.setPayload(cacheKey, records, Number(process.env.CACHE_TTL_APPOINTMENTS) || 300);
+  return { records, cached: false };
+}
+
+/**
+ * Find a live appointment for the patient that overlaps the requested time.
+ * A patient cannot sit in two chairs at once, so any location counts.
+ */
+async function findOverlappingAppointment(
+  pms: PmsAdapter,
+  patientGuid: string,
+  startTime: string,
+  durationMinutes: number,
+  ignoreAppointmentGuid?: string
+): Promise<PmsAppointment | null> {
+  const requestedStart = parseCloud9DateTime(startTime);
+  if (!requestedStart) {
+    return null;
+  }
+  const requestedEnd = requestedStart.getTime() + durationMinutes * 60000;
+
+  let appointments: PmsAppointment[];
+  try {
+    appointments = await pms.getPatientAppointments(patientGuid);
+  } catch (error) {
+    logger.warn('Could not check for overlapping appointments', {
+      patientGuid,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  return (
+    appointments.find((appt) => {
+      if (
+        appt.appointment_guid === ignoreAppointmentGuid ||
+        /cancel/i.test(appt.status_description || '')
+      ) {
+        return false;
+      }
+
+      const existingStart = parseCloud9DateTime(appt.appointment_date_time);
+      if (!existingStart) {
+        return false;
+      }
+      const existingEnd =
+        existingStart.getTime() + (Number(appt.appointment_minutes) || durationMinutes) * 60000;
+
+      return existingStart.getTime() < requestedEnd && requestedStart.getTime() < existingEnd;
+    }) || null
+  );
+}
+
+/**
+ * Cancel an appointment, returning the failure message instead of throwing
+ */
+async function tryCancelAppointment(pms: PmsAdapter, appointmentGuid: string): Promise<string | null> {
+  try {
+    await pms.cancelAppointment(appointmentGuid);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
 /**
  * GET /api/appointments/patient/:patientGuid
  * Get all appointments for a patient and their family members (same phone number)
@@ -42,6 +154,32 @@ export const getPatientAppointments = asyncHandler(
       throw new AppError('Patient GUID is required', 400);
     }
 
+    const pms = getPmsAdapter(environment, req.tenant);
+
+    // Family lookup and enrichment read Cloud 9 patient records; other PMSs list the patient's own appointments
+    if (pms.provider !== 'cloud9') {
+      const scheduledAt = new Map(
+        AppointmentModel.getByPatientGuid(patientGuid).map((a) => [a.appointment_guid, a.cached_at])
+      );
+      const ownAppointments = (await pms.getPatientAppointments(patientGuid)).map((appt) => ({
+        ...appt,
+        environment,
+        scheduled_at: scheduledAt.get(appt.appointment_guid) || null,
+      }));
+      ownAppointments.sort(
+        (a, b) => new Date(b.appointment_date_time).getTime() - new Date(a.appointment_date_time).getTime()
+      );
+
+      res.json({
+        status: 'success',
+        data: ownAppointments,
+        count: ownAppointments.length,
+        familyMembersIncluded: false,
+        environment,
+      });
+      return;
+    }
+
     const client = createCloud9Client(environment);
 
     // Fetch reference data in parallel
@@ -267,83 +405,68 @@ export const createAppointment = asyncHandler(async (req: Request, res: Response
     );
   }
 
-  const client = createCloud9Client(environment);
-
-  // Prepare appointment creation parameters
-  const params = {
-    PatientGUID: patientGuid,
-    StartTime: startTime,
-    ScheduleViewGUID: scheduleViewGuid,
-    ScheduleColumnGUID: scheduleColumnGuid,
-    AppointmentTypeGUID: appointmentTypeGuid,
-    Minutes: durationMinutes,
-    VendorUserName: environment === 'sandbox' ? 'IntelePeerTest' : 'Intelepeer',
-  };
-
-  // Create appointment via Cloud 9 API
-  const response = await client.createAppointment(params);
-
-  // Log the response for debugging
-  logger.info('SetAppointment response', {
-    status: response.status,
-    recordCount: response.records.length,
-    firstRecord: response.records[0],
-    errorMessage: response.errorMessage,
-  });
+  const pms = getPmsAdapter(environment, req.tenant);
+
+  // Pre-flight duplicate guard: the voice bot and the CRM book into the same chairs
+  const overlapping = await findOverlappingAppointment(
+    pms,
+    patientGuid,
+    startTime,
+    Number(durationMinutes)
+  );
 
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to create appointment', 500);
+  if (overlapping) {
+    throw new AppError(
+      `Patient already has an appointment at ${overlapping.appointment_date_time}` +
+        (overlapping.location_name ? ` (${overlapping.location_name})` : ''),
+      409,
+      'DUPLICATE_APPOINTMENT',
+      {
+        existingAppointment: {
+          appointment_guid: overlapping.appointment_guid,
+          patient_guid: overlapping.patient_guid,
+          appointment_date_time: overlapping.appointment_date_time,
+          appointment_type_description: overlapping.appointment_type_description,
+          appointment_minutes: overlapping.appointment_minutes,
+          status_description: overlapping.status_description,
+          location_guid: overlapping.location_guid,
+          location_name: overlapping.location_name,
+          orthodontist_name: overlapping.orthodontist_name,
+        },
+      }
+    );
   }
 
-  // Check if there's a Result field in the response
-  if (response.records.length > 0 && response.records[0].Result) {
-    const resultMessage = response.records[0].Result as string;
+  // Book in the practice's PMS (business failures throw a 400)
+  const createdGuid = await pms.bookAppointment({
+    patientGuid,
+    startTime,
+    scheduleViewGuid,
+    scheduleColumnGuid,
+    appointmentTypeGuid,
+    durationMinutes: Number(durationMinutes),
+  });
 
-    // If Result starts with "Error:", it's an error even though ResponseStatus might be "Success"
-    if (resultMessage.startsWith('Error:')) {
-      throw new AppError(resultMessage, 400);
-    }
+  logger.info('Appointment created successfully', { appointmentGuid: createdGuid });
 
-    // Otherwise, if ResponseStatus is "Success", treat it as successful
-    // (The result message might be a success message or empty)
-    logger.info('Appointment created successfully', { resultMessage });
-  }
+  invalidateDateRangeCache(environment);
 
-  // Fetch the created appointment to get its GUID
-  const appointmentsResponse = await client.getPatientAppointments(patientGuid);
+  // Fetch the created appointment for its details (and GUID, where the PMS doesn't report it)
+  const patientAppointments = await pms.getPatientAppointments(patientGuid).catch((error) => {
+    logger.warn('Could not load the created appointment', {
+      patientGuid,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [] as PmsAppointment[];
+  });
   const scheduledAt = new Date().toISOString();
 
-  if (appointmentsResponse.records.length > 0) {
-    // Find the most recent appointment (should be the one we just created)
-    const appointments = appointmentsResponse.records.map((appt: Cloud9Appointment) => ({
-      appointment_guid: appt.AppointmentGUID,
-      patient_guid: appt.PatientGUID,
-      patient_title: appt.PatientTitle,
-      patient_first_name: appt.PatientFirstName,
-      patient_middle_name: appt.PatientMiddleName,
-      patient_last_name: appt.PatientLastName,
-      patient_suffix: appt.PatientSuffix,
-      patient_greeting: appt.PatientGreeting,
-      patient_gender: appt.PatientGender,
-      appointment_date_time: appt.AppointmentDateTime,
-      appointment_type_guid: appt.AppointmentTypeGUID,
-      appointment_type_description: appt.AppointmentTypeDescription,
-      status: appt.AppointmentStatus,
-      status_description: appt.AppointmentStatusDescription,
-      appointment_note: appt.AppointmentNote,
-      appointment_minutes: appt.AppointmentMinutes,
-      appointment_confirmation: appt.AppointmentConfirmation,
-      orthodontist_guid: appt.OrthodontistGUID,
-      orthodontist_code: appt.OrthodontistCode,
-      orthodontist_name: appt.OrthodontistName,
-      location_guid: appt.LocationGUID,
-      location_code: appt.LocationCode,
-      location_name: appt.LocationName,
-      environment,
-    }));
+  if (patientAppointments.length > 0) {
+    const appointments = patientAppointments.map((appt) => ({ ...appt, environment }));
 
-    // Return the most recent one (likely the newly created appointment)
-    const newAppointment = appointments[0];
+    // The reported appointment, else the most recent one (likely the newly created appointment)
+    const newAppointment =
+      appointments.find((appt) => appt.appointment_guid === createdGuid) || appointments[0];
 
     // Save to local database to track scheduled_at timestamp
     try {
@@ -401,14 +524,11 @@ export const confirmAppointment = asyncHandler(async (req: Request, res: Respons
     throw new AppError('Appointment GUID is required', 400);
   }
 
-  const client = createCloud9Client(environment);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  // Confirm appointment via Cloud 9 API
-  const response = await client.confirmAppointment(appointmentGuid);
+  await pms.confirmAppointment(appointmentGuid);
 
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to confirm appointment', 500);
-  }
+  invalidateDateRangeCache(environment);
 
   res.json({
     status: 'success',
@@ -433,14 +553,14 @@ export const cancelAppointment = asyncHandler(async (req: Request, res: Response
     throw new AppError('Appointment GUID is required', 400);
   }
 
-  const client = createCloud9Client(environment);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  // Cancel appointment via Cloud 9 API
-  const response = await client.cancelAppointment(appointmentGuid);
+  await pms.cancelAppointment(appointmentGuid);
 
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to cancel appointment', 500);
-  }
+  invalidateDateRangeCache(environment);
+
+  // The freed slot may be what a waitlisted patient is waiting for
+  triggerWaitlistMatching(environment, 'cancellation');
 
   res.json({
     status: 'success',
@@ -453,6 +573,208 @@ export const cancelAppointment = asyncHandler(async (req: Request, res: Response
   });
 });
 
+/**
+ * PUT /api/appointments/:appointmentGuid/reschedule
+ * Move an appointment to a new slot in one step.
+ *
+ * The new slot is re-checked against the PMS's open slots and booked
+ * before the original is canceled, so the patient never ends up with no appointment.
+ * If the original cannot be canceled, the new booking is canceled again (compensation).
+ */
+export const rescheduleAppointment = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const { appointmentGuid } = req.params;
+  const { patientGuid, startTime, scheduleViewGuid, scheduleColumnGuid } = req.body;
+
+  if (!patientGuid || !startTime || !scheduleViewGuid || !scheduleColumnGuid) {
+    throw new AppError(
+      'Missing required fields: patientGuid, startTime, scheduleViewGuid, scheduleColumnGuid',
+      400
+    );
+  }
+
+  const requestedStart = parseCloud9DateTime(startTime);
+  if (!requestedStart) {
+    throw new AppError('startTime must be in MM/DD/YYYY h:mm:ss AM/PM format', 400);
+  }
+
+  const pms = getPmsAdapter(environment, req.tenant);
+
+  // Load the original; type and length carry over unless the caller overrides them
+  const original = (await pms.getPatientAppointments(patientGuid)).find(
+    (appt) => appt.appointment_guid === appointmentGuid
+  );
+  if (!original) {
+    throw new AppError('Appointment not found for this patient', 404);
+  }
+  if (/cancel/i.test(original.status_description || original.status || '')) {
+    throw new AppError('Canceled appointments cannot be rescheduled', 409);
+  }
+
+  const appointmentTypeGuid: string | undefined =
+    req.body.appointmentTypeGuid || original.appointment_type_guid;
+  const durationMinutes =
+    Number(req.body.durationMinutes) || Number(original.appointment_minutes) || 0;
+
+  if (!appointmentTypeGuid || !durationMinutes) {
+    throw new AppError('appointmentTypeGuid and durationMinutes are required for this appointment', 400);
+  }
+
+  const overlapping = await findOverlappingAppointment(
+    pms,
+    patientGuid,
+    startTime,
+    durationMinutes,
+    appointmentGuid
+  );
+  if (overlapping) {
+    throw new AppError(
+      `Patient already has an appointment at ${overlapping.appointment_date_time}`,
+      409,
+      'DUPLICATE_APPOINTMENT',
+      {
+        existingAppointment: {
+          appointment_guid: overlapping.appointment_guid,
+          appointment_date_time: overlapping.appointment_date_time,
+          location_name: overlapping.location_name,
+        },
+      }
+    );
+  }
+
+  // 1. Make sure the slot is still offered
+  const day = formatCloud9Date(requestedStart);
+  const slots = await pms.getAvailableSlots({
+    locationGuid: original.location_guid || '',
+    providerGuid: scheduleViewGuid,
+    appointmentTypeGuid,
+    startDate: day,
+    endDate: day,
+  });
+
+  const slotOpen = slots.some(
+    (slot) =>
+      slot.scheduleColumnGuid === scheduleColumnGuid &&
+      parseCloud9DateTime(slot.dateTime)?.getTime() === requestedStart.getTime()
+  );
+  if (!slotOpen) {
+    throw new AppError('The requested time is no longer available', 409, 'SLOT_UNAVAILABLE');
+  }
+
+  // 2. Book the new slot
+  const bookedGuid = await pms.bookAppointment({
+    patientGuid,
+    startTime,
+    scheduleViewGuid,
+    scheduleColumnGuid,
+    appointmentTypeGuid,
+    durationMinutes,
+  });
+
+  invalidateDateRangeCache(environment);
+
+  const newAppointmentGuid =
+    bookedGuid ||
+    (await pms.getPatientAppointments(patientGuid)).find(
+      (appt) =>
+        appt.appointment_guid !== appointmentGuid &&
+        parseCloud9DateTime(appt.appointment_date_time)?.getTime() === requestedStart.getTime()
+    )?.appointment_guid;
+
+  if (!newAppointmentGuid) {
+    // Booked but unidentifiable: leave the original alone rather than risk losing both
+    logger.error('Reschedule booked a new slot but could not identify it; original kept', {
+      appointmentGuid,
+      patientGuid,
+      startTime,
+    });
+    throw new AppError(
+      'The new appointment was booked but could not be identified; the original was not canceled',
+      502,
+      'RESCHEDULE_INCOMPLETE',
+      { originalAppointmentGuid: appointmentGuid }
+    );
+  }
+
+  // 3. Cancel the original, undoing the new booking if that fails
+  const cancelError = await tryCancelAppointment(pms, appointmentGuid);
+  if (cancelError) {
+    const compensationError = await tryCancelAppointment(pms, newAppointmentGuid);
+    const details = {
+      originalAppointmentGuid: appointmentGuid,
+      newAppointmentGuid,
+      cancelError,
+      compensated: !compensationError,
+    };
+
+    if (compensationError) {
+      logger.error('Reschedule compensation failed; patient has two appointments', {
+        ...details,
+        compensationError,
+      });
+      throw new AppError(
+        'The original appointment could not be canceled and the new booking could not be undone. ' +
+          'The patient now has both appointments; cancel one manually.',
+        500,
+        'RESCHEDULE_COMPENSATION_FAILED',
+        details
+      );
+    }
+
+    logger.warn('Reschedule rolled back: original could not be canceled', details);
+    throw new AppError(
+      `The original appointment could not be canceled (${cancelError}); the new booking was undone`,
+      409,
+      'RESCHEDULE_CANCEL_FAILED',
+      details
+    );
+  }
+
+  // Keep the local scheduled_at tracking in step with the PMS
+  try {
+    AppointmentModel.upsert({
+      appointment_guid: newAppointmentGuid,
+      patient_guid: patientGuid,
+      appointment_date_time: startTime,
+      appointment_type_guid: appointmentTypeGuid,
+      appointment_type_description: original.appointment_type_description,
+      location_guid: original.location_guid,
+      location_name: original.location_name,
+      orthodontist_name: original.orthodontist_name,
+      schedule_view_guid: scheduleViewGuid,
+      schedule_column_guid: scheduleColumnGuid,
+      minutes: durationMinutes,
+      status: 'Scheduled',
+      environment,
+    });
+    AppointmentModel.updateStatus(appointmentGuid, 'Canceled');
+  } catch (dbError) {
+    logger.warn('Failed to record reschedule in local database', {
+      error: dbError instanceof Error ? dbError.message : String(dbError),
+    });
+  }
+
+  logger.info('Appointment rescheduled', { appointmentGuid, newAppointmentGuid, startTime });
+  triggerWaitlistMatching(environment, 'reschedule');
+  res.locals.auditDetails = { ...res.locals.auditDetails, newAppointmentGuid, startTime };
+
+  res.json({
+    status: 'success',
+    message: 'Appointment rescheduled successfully',
+    data: {
+      originalAppointmentGuid: appointmentGuid,
+      appointmentGuid: newAppointmentGuid,
+      previousDateTime: original.appointment_date_time,
+      newDateTime: startTime,
+      scheduleViewGuid,
+      scheduleColumnGuid,
+      appointmentTypeGuid,
+      durationMinutes,
+    },
+    environment,
+  });
+});
+
 /**
  * GET /api/appointments/available
  * Get available appointment slots
@@ -477,74 +799,17 @@ export const getAvailableAppointments = asyncHandler(
       );
     }
 
-    const client = createCloud9Client(environment);
-
-    // If no provider is specified, get all providers for this location
-    let scheduleViewGuid = providerGuid as string | undefined;
-
-    if (!scheduleViewGuid && locationGuid) {
-      // Get all providers for this location
-      const providersResponse = await client.getChairSchedules();
-
-      if (providersResponse.status === 'Success' && providersResponse.records.length > 0) {
-        // Filter providers by location and get their schedule view GUIDs
-        const locationProviders = providersResponse.records.filter(
-          (p: any) => p.locGUID === locationGuid
-        );
-
-        logger.info('Provider lookup for location', {
-          locationGuid,
-          totalProviders: providersResponse.records.length,
-          matchingProviders: locationProviders.length,
-          firstFewLocGuids: providersResponse.records.slice(0, 5).map((p: any) => p.locGUID),
-        });
-
-        if (locationProviders.length > 0) {
-          // Use the first provider's schedule view GUID
-          // Note: Cloud 9 API might support comma-separated GUIDs for multiple providers
-          scheduleViewGuid = locationProviders[0].schdvwGUID;
-          logger.info('Using schedule view GUID', { scheduleViewGuid });
-        } else {
-          logger.warn('No providers found for location', { locationGuid });
-        }
-      }
-    }
+    const pms = getPmsAdapter(environment, req.tenant);
 
-    // Prepare parameters for GetAvailableAppts
-    const params = {
+    // Without a providerGuid the adapter picks the location's schedule
+    const slots = await pms.getAvailableSlots({
       locationGuid: locationGuid as string,
       startDate: startDate as string,
       endDate: endDate as string,
-      ...(scheduleViewGuid && { providerGuid: scheduleViewGuid }),
+      ...(providerGuid && { providerGuid: providerGuid as string }),
       ...(appointmentTypeGuid && { appointmentTypeGuid: appointmentTypeGuid as string }),
       ...(durationMinutes && { durationMinutes: parseInt(durationMinutes as string) }),
-    };
-
-    logger.info('GetOnlineReservations params', { params });
-
-    // Fetch available slots from Cloud 9 API
-    const response = await client.getAvailableAppts(params);
-
-    if (response.status === 'Error' || response.errorMessage) {
-      throw new AppError(
-        response.errorMessage || 'Failed to fetch available appointments',
-        500
-      );
-    }
-
-    // Transform slot data to camelCase for frontend
-    const slots = response.records.map((slot: Cloud9AvailableSlot) => ({
-      dateTime: slot.StartTime,
-      endTime: slot.EndTime,
-      scheduleViewGuid: slot.ScheduleViewGUID,
-      scheduleColumnGuid: slot.ScheduleColumnGUID,
-      scheduleViewDescription: slot.ScheduleViewDescription,
-      scheduleColumnDescription: slot.ScheduleColumnDescription,
-      durationMinutes: slot.Minutes,
-      locationGuid: slot.LocationGUID,
-      appointmentTypeGuid: slot.AppointmentTypeGUID,
-      appointmentTypeDescription: slot.AppointmentTypeDescription,
-    }));
+    });
 
     res.json({
       status: 'success',
@@ -557,29 +822,131 @@ export const getAvailableAppointments = asyncHandler(
 
 /**
  * GET /api/appointments/date-range
- * Deprecated: This endpoint is no longer supported since caching is disabled.
- * Cloud 9 API does not provide a direct date range query endpoint.
- * Returns empty array for backward compatibility.
- * Use GET /api/appointments/patient/:patientGuid instead for patient-specific appointments.
+ * Practice-wide appointments between startDate and endDate (YYYY-MM-DD or MM/DD/YYYY)
+ *
+ * Optional filters: locationGuid, providerGuid (orthodontist, schedule view or chair),
+ * appointmentTypeGuid, status. Paged with page (1-based) and pageSize.
+ * The unfiltered result is cached for CACHE_TTL_APPOINTMENTS seconds.
  */
 export const getAppointmentsByDateRange = asyncHandler(
   async (req: Request, res: Response) => {
-    const { startDate, endDate } = req.query;
+    const environment = getEnvironment(req);
+    const { locationGuid, providerGuid, appointmentTypeGuid, status } = req.query as Record<
+      string,
+      string | undefined
+    >;
 
-    // Log deprecation warning
-    logger.warn('Deprecated endpoint called: /api/appointments/date-range', {
-      startDate,
-      endDate,
-      message: 'This endpoint is deprecated. Caching is disabled. Use GET /api/appointments/patient/:patientGuid instead.',
-    });
+    const start = parseRangeDate(req.query.startDate as string | undefined);
+    const end = parseRangeDate(req.query.endDate as string | undefined);
+
+    if (!start || !end) {
+      throw new AppError('startDate and endDate are required (YYYY-MM-DD or MM/DD/YYYY)', 400);
+    }
+    if (end < start) {
+      throw new AppError('endDate must not be before startDate', 400);
+    }
+    if ((end.getTime() - start.getTime()) / 86400000 > MAX_DATE_RANGE_DAYS) {
+      throw new AppError(`Date range cannot exceed ${MAX_DATE_RANGE_DAYS} days`, 400);
+    }
+
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const pageSize = Math.min(
+      Math.max(parseInt(req.query.pageSize as string) || DEFAULT_DATE_RANGE_PAGE_SIZE, 1),
+      MAX_DATE_RANGE_PAGE_SIZE
+    );
+
+    const startDate = formatCloud9Date(start);
+    const endDate = formatCloud9Date(end);
+    res.locals.auditDetails = { startDate, endDate, locationGuid, providerGuid };
+
+    // Cache the whole range once; filters and paging are applied locally
+    const pms = getPmsAdapter(environment, req.tenant);
+    const { records, cached } = await loadAppointmentsInRange(pms, req.tenant, startDate, endDate);
+
+    const statusFilter = status?.toLowerCase();
+    const filtered = records
+      .filter((appt) => !locationGuid || appt.location_guid === locationGuid)
+      .filter(
+        (appt) =>
+          !providerGuid ||
+          [appt.orthodontist_guid, appt.schedule_view_guid, appt.schedule_column_guid].includes(providerGuid)
+      )
+      .filter((appt) => !appointmentTypeGuid || appt.appointment_type_guid === appointmentTypeGuid)
+      .filter(
+        (appt) =>
+          !statusFilter || (appt.status_description || appt.status || '').toLowerCase() === statusFilter
+      )
+      .sort(
+        (a, b) =>
+          (parseCloud9DateTime(a.appointment_date_time)?.getTime() ?? 0) -
+          (parseCloud9DateTime(b.appointment_date_time)?.getTime() ?? 0)
+      );
+
+    const appointments = filtered
+      .slice((page - 1) * pageSize, page * pageSize)
+      .map((appt) => ({ ...appt, environment }));
 
-    // Return empty array for backward compatibility
     res.json({
       status: 'success',
-      data: [],
-      count: 0,
-      deprecated: true,
-      message: 'This endpoint is deprecated. Caching is disabled. Use GET /api/appointments/patient/:patientGuid instead.',
+      data: appointments,
+      count: appointments.length,
+      pagination: {
+        page,
+        pageSize,
+        totalCount: filtered.length,
+        totalPages: Math.ceil(filtered.length / pageSize),
+      },
+      cached,
+      environment,
     });
   }
 );
+
+/**
+ * GET /api/appointments/availability-grid
+ * One location's week as chairs × time blocks (open / booked / closed).
+ * With appointmentTypeGuid, "open" only counts openings long enough for that type.
+ */
+export const getAvailabilityGrid = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const { locationGuid, appointmentTypeGuid } = req.query as Record<string, string | undefined>;
+  const weekStart = parseRangeDate(req.query.weekStart as string | undefined);
+  const blockMinutes = req.query.blockMinutes ? parseInt(req.query.blockMinutes as string) : 30;
+
+  if (!locationGuid || !weekStart) {
+    throw new AppError('locationGuid and weekStart (YYYY-MM-DD) are required', 400);
+  }
+  if (!GRID_BLOCK_MINUTES.includes(blockMinutes)) {
+    throw new AppError(`Invalid blockMinutes. Must be one of: ${GRID_BLOCK_MINUTES.join(', ')}`, 400);
+  }
+
+  const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + GRID_DAYS - 1);
+  const startDate = formatCloud9Date(weekStart);
+  const endDate = formatCloud9Date(weekEnd);
+  const pms = getPmsAdapter(environment, req.tenant);
+
+  const chairs = (await pms.getChairs()).filter((chair) => chair.locationGuid === locationGuid);
+  // NexHealth chairs carry no schedule view; its slot search falls back to the default provider
+  const scheduleViewGuids = Array.from(new Set(chairs.map((chair) => chair.scheduleViewGuid).filter(Boolean)));
+
+  let slots: PmsSlot[] = [];
+  if (chairs.length > 0) {
+    slots = await pms.getAvailableSlots({
+      locationGuid,
+      providerGuid: scheduleViewGuids.join(',') || undefined,
+      startDate,
+      endDate,
+      ...(appointmentTypeGuid && { appointmentTypeGuid }),
+    });
+  }
+
+  const { records: appointments } = await loadAppointmentsInRange(pms, req.tenant, startDate, endDate);
+
+  const grid = buildAvailabilityGrid({ locationGuid, weekStart, blockMinutes, chairs, slots, appointments });
+
+  res.json({
+    status: 'success',
+    data: grid,
+    environment,
+  });
+});
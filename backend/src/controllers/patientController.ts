@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
-import { createCloud9Client } from '../services/cloud9/client';
+import multer from 'multer';
 import { Environment, isValidEnvironment } from '../config/cloud9';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
-import { extractPatientGuidFromResponse } from '../services/cloud9/xmlParser';
+import { importPatientsFromCsv } from '../services/patientImportService';
+import { getPmsAdapter } from '../services/pms';
+import { toCsv } from '../utils/csv';
 import logger from '../utils/logger';
 
 /**
@@ -20,12 +22,48 @@ function getEnvironment(req: Request): Environment {
     'sandbox';
 
   if (!isValidEnvironment(env)) {
-    throw new AppError('Invalid environment. Must be "sandbox" or "production"', 400);
+    throw new AppError('Invalid environment. Must be "sandbox", "production" or "mock"', 400);
   }
 
   return env;
 }
 
+// CSV uploads for POST /api/patients/import
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 2 * 1024 * 1024 }, // 2MB
+  fileFilter: (_req, file, cb) => {
+    const isCsv =
+      ['text/csv', 'application/vnd.ms-excel', 'text/plain'].includes(file.mimetype) ||
+      file.originalname.toLowerCase().endsWith('.csv');
+
+    if (isCsv) {
+      cb(null, true);
+    } else {
+      cb(new AppError(`Unsupported file type: ${file.mimetype}. Upload a .csv file`, 400));
+    }
+  },
+});
+
+// Maximum rows returned by the search export
+const MAX_EXPORT_ROWS = 500;
+
+const PATIENT_CSV_COLUMNS = [
+  'patient_guid',
+  'patient_id',
+  'first_name',
+  'last_name',
+  'birthdate',
+  'phone',
+  'email',
+  'address_street',
+  'address_city',
+  'address_state',
+  'address_postal_code',
+  'provider_guid',
+  'location_guid',
+] as const;
+
 /**
  * GET /api/patients/search
  * Search for patients by name
@@ -40,31 +78,12 @@ export const searchPatients = asyncHandler(async (req: Request, res: Response) =
     throw new AppError('Search query is required', 400);
   }
 
-  const client = createCloud9Client(environment);
+  res.locals.auditDetails = { query, pageIndex, pageSize };
 
-  // Search via Cloud 9 API
-  const response = await client.searchPatients(query, pageIndex, pageSize);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to search patients', 500);
-  }
-
-  // Transform patient data
-  // Note: GetPortalPatientLookup returns limited fields (no email, phone, address)
-  const patients = response.records.map((patient: any) => ({
-    patient_guid: patient.PatientGUID,
-    patient_id: patient.PatientID,
-    first_name: patient.PatientFirstName || patient.PatientFirstName,
-    last_name: patient.PatientLastName || patient.PatientLastName,
-    birthdate: patient.PatientBirthDate || patient.PatientBirthdate,
-    email: patient.PatientEmail || undefined, // Not available in search
-    phone: patient.PatientPhone || undefined, // Not available in search
-    address_street: patient.PatientStreetAddress || patient.AddressStreet,
-    address_city: patient.PatientCity || patient.AddressCity,
-    address_state: patient.PatientState || patient.AddressState,
-    address_postal_code: patient.PatientPostalCode || patient.AddressPostalCode,
-    provider_guid: patient.PatientOrthodontistGUID || patient.ProviderGUID,
-    location_guid: patient.PatientLocationGUID || patient.LocationGUID,
+  const patients = (await pms.searchPatients(query, pageIndex, pageSize)).map((patient) => ({
+    ...patient,
     environment,
   }));
 
@@ -92,53 +111,16 @@ export const getPatient = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('Patient GUID is required', 400);
   }
 
-  const client = createCloud9Client(environment);
-
-  // Fetch from Cloud 9 API
-  const response = await client.getPatientInformation(patientGuid);
-
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(
-      response.errorMessage || 'Failed to fetch patient information',
-      500
-    );
-  }
+  const pms = getPmsAdapter(environment, req.tenant);
+  const patient = await pms.getPatient(patientGuid);
 
-  if (response.records.length === 0) {
+  if (!patient) {
     throw new AppError('Patient not found', 404);
   }
 
-  const patientData = response.records[0] as any;
-
-  // Transform and cache patient data
-  // Note: getPatientInformation returns different fields than searchPatients
-  // PatientFullName needs to be split into first and last name
-  const fullName = patientData.PatientFullName || '';
-  const nameParts = fullName.trim().split(/\s+/);
-  const firstName = nameParts.length > 1 ? nameParts[0] : fullName;
-  const lastName = nameParts.length > 1 ? nameParts.slice(1).join(' ') : fullName;
-
-  const patient = {
-    patient_guid: patientGuid,
-    patient_id: patientData.PatID,
-    first_name: firstName,
-    last_name: lastName,
-    birthdate: patientData.PatientBirthDate,
-    gender: patientData.PatientGender,
-    email: patientData.PatientEmail,
-    phone: patientData.PatientPhone,
-    address_street: patientData.PatientStreet,
-    address_city: patientData.PatientCity,
-    address_state: patientData.PatientState,
-    address_postal_code: patientData.PatientPostalCode,
-    provider_guid: undefined,
-    location_guid: undefined,
-    environment,
-  };
-
   res.json({
     status: 'success',
-    data: patient,
+    data: { ...patient, environment },
     environment,
   });
 });
@@ -181,43 +163,21 @@ export const createPatient = asyncHandler(async (req: Request, res: Response) =>
     );
   }
 
-  const client = createCloud9Client(environment);
-
-  // Format birthdate to Cloud 9's expected format: YYYY-MM-DDTHH:MM:SS
-  const formattedBirthdate = birthdate?.includes('T')
-    ? birthdate
-    : `${birthdate}T00:00:00`;
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  // Prepare patient creation parameters
-  const params: any = {
-    patientFirstName: firstName,
-    patientLastName: lastName,
-    providerGUID: providerGuid,
-    locationGUID: locationGuid,
-    birthdayDateTime: formattedBirthdate,
+  const patientGuid = await pms.createPatient({
+    firstName,
+    lastName,
+    providerGuid,
+    locationGuid,
+    birthdate,
     phoneNumber,
     email,
-    VendorUserName: environment === 'sandbox' ? 'IntelepeerTest' : 'Intelepeer',
-    note: note || '',
-    addressStreet: address?.street || '',
-    addressCity: address?.city || '',
-    addressState: address?.state || '',
-    addressPostalCode: address?.postalCode || '',
-  };
-
-  // Create patient via Cloud 9 API
-  const response = await client.createPatient(params);
-
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to create patient', 500);
-  }
-
-  // Extract patient GUID from response
-  const patientGuid = extractPatientGuidFromResponse(response);
+    note,
+    address,
+  });
 
-  if (!patientGuid) {
-    throw new AppError('Failed to extract patient GUID from response', 500);
-  }
+  res.locals.auditPatientGuid = patientGuid;
 
   // Return the new patient data
   const patient = {
@@ -246,6 +206,65 @@ export const createPatient = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
+/**
+ * POST /api/patients/import
+ * Create patients from an uploaded CSV. With dryRun=true, only validate and check duplicates.
+ */
+export const importPatients = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const dryRun = String(req.body.dryRun ?? req.query.dryRun ?? 'false') === 'true';
+
+  if (!req.file) {
+    throw new AppError('A CSV file is required (multipart field "file")', 400);
+  }
+
+  const pms = getPmsAdapter(environment, req.tenant);
+  const report = await importPatientsFromCsv(pms, req.file.buffer.toString('utf-8'), { dryRun });
+
+  res.locals.auditDetails = {
+    fileName: req.file.originalname,
+    dryRun,
+    totalRows: report.totalRows,
+    ...report.summary,
+    createdPatientGuids: report.rows.filter((row) => row.patientGuid).map((row) => row.patientGuid),
+  };
+
+  res.json({
+    status: 'success',
+    data: report,
+    environment,
+  });
+});
+
+/**
+ * GET /api/patients/export?query=Smith
+ * Download patient search results as CSV (same columns the import understands)
+ */
+export const exportPatients = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const query = req.query.query as string;
+  const pageSize = Math.min(parseInt(req.query.pageSize as string) || MAX_EXPORT_ROWS, MAX_EXPORT_ROWS);
+
+  if (!query || query.trim().length === 0) {
+    throw new AppError('Search query is required', 400);
+  }
+
+  const pms = getPmsAdapter(environment, req.tenant);
+  const patients = await pms.searchPatients(query, 1, pageSize);
+  res.locals.auditDetails = { query, count: patients.length };
+
+  const csv = toCsv(
+    [...PATIENT_CSV_COLUMNS],
+    patients.map((patient) => PATIENT_CSV_COLUMNS.map((column) => patient[column]))
+  );
+
+  const fileName = `patients-${new Date().toISOString().slice(0, 10)}.csv`;
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(csv);
+});
+
 /**
  * PUT /api/patients/:patientGuid
  * Update patient demographic information
@@ -259,73 +278,17 @@ export const updatePatient = asyncHandler(async (req: Request, res: Response) =>
     throw new AppError('Patient GUID is required', 400);
   }
 
-  const client = createCloud9Client(environment);
-
-  // Prepare update parameters (only include fields that are provided)
-  const params: any = {
-    patguid: patientGuid,
-  };
-
-  if (firstName) params.persFirstName = firstName;
-  if (lastName) params.persLastName = lastName;
-  if (birthdate) params.persBirthdate = birthdate;
-  if (email) params.persUseEmail = email;
-  if (phoneNumber) params.persUsePhone = phoneNumber;
-  if (address?.street) params.persStreetAddress = address.street;
-  if (address?.city) params.persCity = address.city;
-  if (address?.state) params.persState = address.state;
-  if (address?.postalCode) params.persPostalCode = address.postalCode;
-
-  // Update patient via Cloud 9 API
-  const response = await client.updatePatient(params);
-
-  if (response.status === 'Error' || response.errorMessage) {
-    const errorMessage = response.errorMessage || 'Failed to update patient';
-
-    // Check for authorization errors (error code 10)
-    if (errorMessage.includes('not authorized')) {
-      throw new AppError(
-        'Patient update is not available. The SetPatientDemographicInfo procedure is not authorized for this API account. Please contact Cloud 9 support to enable this feature.',
-        403
-      );
-    }
+  const pms = getPmsAdapter(environment, req.tenant);
 
-    throw new AppError(errorMessage, 500);
-  }
+  await pms.updatePatient(patientGuid, { firstName, lastName, birthdate, email, phoneNumber, address });
 
-  // Fetch updated patient information
-  const updatedResponse = await client.getPatientInformation(patientGuid);
-
-  if (updatedResponse.records.length > 0) {
-    const patientData = updatedResponse.records[0] as any;
-
-    // Parse full name into first and last
-    const fullName = patientData.PatientFullName || '';
-    const nameParts = fullName.trim().split(/\s+/);
-    const firstName = nameParts.length > 1 ? nameParts[0] : fullName;
-    const lastName = nameParts.length > 1 ? nameParts.slice(1).join(' ') : fullName;
-
-    const patient = {
-      patient_guid: patientGuid,
-      patient_id: patientData.PatID,
-      first_name: firstName,
-      last_name: lastName,
-      birthdate: patientData.PatientBirthDate,
-      gender: patientData.PatientGender,
-      email: patientData.PatientEmail,
-      phone: patientData.PatientPhone,
-      address_street: patientData.PatientStreet,
-      address_city: patientData.PatientCity,
-      address_state: patientData.PatientState,
-      address_postal_code: patientData.PatientPostalCode,
-      provider_guid: undefined,
-      location_guid: undefined,
-      environment,
-    };
+  // Return the updated record
+  const patient = await pms.getPatient(patientGuid);
 
+  if (patient) {
     res.json({
       status: 'success',
-      data: patient,
+      data: { ...patient, environment },
       environment,
     });
   } else {
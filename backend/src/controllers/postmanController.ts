@@ -19,7 +19,7 @@ function getEnvironment(req: Request): Environment {
     'sandbox';
 
   if (!isValidEnvironment(env)) {
-    throw new AppError('Invalid environment. Must be "sandbox" or "production"', 400);
+    throw new AppError('Invalid environment. Must be "sandbox", "production" or "mock"', 400);
   }
 
   return env;
@@ -1,12 +1,8 @@
 import { Request, Response } from 'express';
-import { createCloud9Client } from '../services/cloud9/client';
 import { Environment, isValidEnvironment } from '../config/cloud9';
 import { AppError, asyncHandler } from '../middleware/errorHandler';
-import {
-  Cloud9Location,
-  Cloud9AppointmentType,
-  Cloud9Provider,
-} from '../types/cloud9';
+import { getTenants } from '../config/pms';
+import { getPmsAdapter } from '../services/pms';
 import logger from '../utils/logger';
 
 /**
@@ -24,7 +20,7 @@ function getEnvironment(req: Request): Environment {
     'sandbox';
 
   if (!isValidEnvironment(env)) {
-    throw new AppError('Invalid environment. Must be "sandbox" or "production"', 400);
+    throw new AppError('Invalid environment. Must be "sandbox", "production" or "mock"', 400);
   }
 
   return env;
@@ -32,38 +28,17 @@ function getEnvironment(req: Request): Environment {
 
 /**
  * GET /api/reference/locations
- * Get all practice locations (always fetches from Cloud 9 API in real-time)
+ * Get all practice locations (always fetched from the practice's PMS in real-time)
  */
 export const getLocations = asyncHandler(async (req: Request, res: Response) => {
   const environment = getEnvironment(req);
-  const client = createCloud9Client(environment);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  // Fetch from Cloud 9 API
-  const response = await client.getLocations(false);
-
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to fetch locations', 500);
-  }
-
-  // Transform field names for frontend
-  // Note: Cloud9 API may return city as LocationCity or AddressCity depending on endpoint
-  const transformedLocations = response.records.map((loc: Cloud9Location) => ({
-    guid: loc.LocationGUID,
-    name: loc.LocationName,
-    code: loc.LocationCode,
-    timeZone: loc.TimeZone,
-    address: {
-      street: loc.AddressStreet,
-      city: loc.LocationCity || loc.AddressCity,
-      state: loc.LocationState || loc.AddressState,
-      postalCode: loc.LocationPostalCode || loc.AddressPostalCode,
-    },
-    phoneNumber: loc.PhoneNumber,
-  }));
+  const locations = await pms.getLocations();
 
   return res.json({
     status: 'success',
-    data: transformedLocations,
+    data: locations,
     cached: false,
     environment,
   });
@@ -71,37 +46,17 @@ export const getLocations = asyncHandler(async (req: Request, res: Response) =>
 
 /**
  * GET /api/reference/appointment-types
- * Get all appointment types (always fetches from Cloud 9 API in real-time)
+ * Get all appointment types (always fetched from the practice's PMS in real-time)
  */
 export const getAppointmentTypes = asyncHandler(async (req: Request, res: Response) => {
   const environment = getEnvironment(req);
-  const client = createCloud9Client(environment);
-
-  // Fetch from Cloud 9 API
-  const response = await client.getAppointmentTypes(false);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(
-      response.errorMessage || 'Failed to fetch appointment types',
-      500
-    );
-  }
-
-  // Transform field names for frontend
-  const transformedTypes = response.records.map((type: Cloud9AppointmentType) => ({
-    guid: type.AppointmentTypeGUID,
-    code: type.AppointmentTypeCode,
-    description: type.AppointmentTypeDescription,
-    durationMinutes: Number(type.AppointmentTypeMinutes),
-    allowOnlineScheduling: Boolean(
-      type.AppointmentTypeAllowOnlineScheduling === true ||
-        type.AppointmentTypeAllowOnlineScheduling === 'True'
-    ),
-  }));
+  const appointmentTypes = await pms.getAppointmentTypes();
 
   return res.json({
     status: 'success',
-    data: transformedTypes,
+    data: appointmentTypes,
     cached: false,
     environment,
   });
@@ -109,45 +64,45 @@ export const getAppointmentTypes = asyncHandler(async (req: Request, res: Respon
 
 /**
  * GET /api/reference/providers
- * Get all providers/chair schedules (always fetches from Cloud 9 API in real-time)
+ * Get all providers/chair schedules (always fetched from the practice's PMS in real-time)
  */
 export const getProviders = asyncHandler(async (req: Request, res: Response) => {
   const environment = getEnvironment(req);
   const locationGuid = req.query.locationGuid as string | undefined;
 
-  const client = createCloud9Client(environment);
+  const pms = getPmsAdapter(environment, req.tenant);
 
-  // Fetch from Cloud 9 API
-  const response = await client.getChairSchedules();
-
-  if (response.status === 'Error' || response.errorMessage) {
-    throw new AppError(response.errorMessage || 'Failed to fetch providers', 500);
-  }
-
-  // Transform field names for frontend
-  let transformedProviders = response.records.map((prov: Cloud9Provider) => ({
-    guid: prov.schdcolGUID,
-    locationGuid: prov.locGUID,
-    locationName: '', // Not available in API response, will be populated by frontend if needed
-    scheduleViewGuid: prov.schdvwGUID,
-    scheduleViewDescription: prov.schdvwDescription || '',
-    scheduleColumnGuid: prov.schdcolGUID,
-    scheduleColumnDescription: prov.schdcolDescription || '',
-  }));
+  let providers = await pms.getProviders();
 
   // Filter by location if requested
   if (locationGuid) {
-    transformedProviders = transformedProviders.filter((p) => p.locationGuid === locationGuid);
+    providers = providers.filter((p) => p.locationGuid === locationGuid);
   }
 
   return res.json({
     status: 'success',
-    data: transformedProviders,
+    data: providers,
     cached: false,
     environment,
   });
 });
 
+/**
+ * GET /api/reference/tenants
+ * Practices configured in PMS_TENANTS, for the X-Tenant selector (no credentials)
+ */
+export const getTenantList = asyncHandler(async (_req: Request, res: Response) => {
+  const tenants = Object.entries(getTenants()).map(([id, entry]) => ({
+    id,
+    provider: entry.provider === 'nexhealth' ? 'nexhealth' : 'cloud9',
+  }));
+
+  res.json({
+    status: 'success',
+    data: tenants,
+  });
+});
+
 /**
  * POST /api/reference/refresh
  * No-op endpoint for backward compatibility (caching is disabled)
@@ -19,6 +19,10 @@ import * as comparisonService from '../services/comparisonService';
 import { aiEnhancementService } from '../services/aiEnhancementService';
 import * as documentParserService from '../services/documentParserService';
 import { LangfuseTraceService } from '../services/langfuseTraceService';
+import { deriveGoalTestFromSession } from '../services/productionGoalTestService';
+import * as runExportService from '../services/runExportService';
+import * as flowiseDeployService from '../services/flowiseDeployService';
+import * as noderedDeployService from '../services/noderedDeployService';
 
 // Path to test-agent database
 const TEST_AGENT_DB_PATH = path.resolve(__dirname, '../../../test-agent/data/test-results.db');
@@ -109,6 +113,53 @@ function getTestAgentDb(): BetterSqlite3.Database {
   return new BetterSqlite3(TEST_AGENT_DB_PATH, { readonly: true });
 }
 
+interface RunUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Estimated cost per GenerationPurpose */
+  costByPurpose: Record<string, number>;
+}
+
+/**
+ * LLM usage totals per run (runs without recorded usage are absent)
+ */
+function getRunUsageTotals(db: BetterSqlite3.Database, runIds: string[]): Map<string, RunUsageTotals> {
+  const totals = new Map<string, RunUsageTotals>();
+  const hasUsageTable = db.prepare(`
+    SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'llm_usage'
+  `).get();
+  if (!hasUsageTable || runIds.length === 0) return totals;
+
+  const rows = db.prepare(`
+    SELECT run_id, purpose, SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+           SUM(cost_usd) AS cost_usd
+    FROM llm_usage
+    WHERE run_id IN (${runIds.map(() => '?').join(', ')})
+    GROUP BY run_id, purpose
+  `).all(...runIds) as any[];
+
+  for (const row of rows) {
+    const run = totals.get(row.run_id) || { inputTokens: 0, outputTokens: 0, costUsd: 0, costByPurpose: {} };
+    run.inputTokens += row.input_tokens || 0;
+    run.outputTokens += row.output_tokens || 0;
+    run.costUsd += row.cost_usd || 0;
+    run.costByPurpose[row.purpose] = row.cost_usd || 0;
+    totals.set(row.run_id, run);
+  }
+
+  return totals;
+}
+
+/**
+ * test_runs.run_type expression; databases created before contract runs have no
+ * run_type column and only hold goal test runs
+ */
+function runTypeColumn(db: BetterSqlite3.Database): string {
+  const columns = db.prepare(`PRAGMA table_info(test_runs)`).all() as Array<{ name: string }>;
+  return columns.some(column => column.name === 'run_type') ? 'run_type' : "'goal' AS run_type";
+}
+
 /**
  * Get database connection (read-write) for sandbox operations
  */
@@ -244,7 +295,7 @@ function getTestAgentDbWritable(): BetterSqlite3.Database {
 function getFullRunData(db: BetterSqlite3.Database, runId: string) {
   // Get the run
   const runRow = db.prepare(`
-    SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+    SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, ${runTypeColumn(db)}
     FROM test_runs
     WHERE run_id = ?
   `).get(runId) as any;
@@ -279,6 +330,7 @@ function getFullRunData(db: BetterSqlite3.Database, runId: string) {
       failed: runRow.failed,
       skipped: runRow.skipped,
       summary: runRow.summary ? JSON.parse(runRow.summary) : null,
+      runType: runRow.run_type,
     },
     results: resultRows.map(row => ({
       id: row.id,
@@ -440,21 +492,27 @@ export async function getDashboardStats(_req: Request, res: Response, next: Next
 
 /**
  * GET /api/test-monitor/runs
- * List all test runs
+ * List all test runs (?runType=goal|contract to filter)
  */
 export async function getTestRuns(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
     const limit = parseInt(req.query.limit as string) || 50;
     const offset = parseInt(req.query.offset as string) || 0;
+    const runType = req.query.runType as string | undefined;
 
     const db = getTestAgentDb();
 
     const rows = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
-      FROM test_runs
+      SELECT * FROM (
+        SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, ${runTypeColumn(db)}
+        FROM test_runs
+      )
+      ${runType ? 'WHERE run_type = ?' : ''}
       ORDER BY started_at DESC
       LIMIT ? OFFSET ?
-    `).all(limit, offset) as any[];
+    `).all(...(runType ? [runType] : []), limit, offset) as any[];
+
+    const usageByRun = getRunUsageTotals(db, rows.map(row => row.run_id));
 
     db.close();
 
@@ -468,6 +526,8 @@ export async function getTestRuns(req: Request, res: Response, next: NextFunctio
       failed: row.failed,
       skipped: row.skipped,
       summary: row.summary ? JSON.parse(row.summary) : null,
+      runType: row.run_type,
+      usage: usageByRun.get(row.run_id) ?? null,
     }));
 
     res.json({ success: true, data: runs });
@@ -488,7 +548,7 @@ export async function getTestRun(req: Request, res: Response, next: NextFunction
 
     // Get the run
     const runRow = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, ${runTypeColumn(db)}
       FROM test_runs
       WHERE run_id = ?
     `).get(runId) as any;
@@ -519,6 +579,7 @@ export async function getTestRun(req: Request, res: Response, next: NextFunction
       failed: runRow.failed,
       skipped: runRow.skipped,
       summary: runRow.summary ? JSON.parse(runRow.summary) : null,
+      runType: runRow.run_type,
       results: resultRows.map(row => ({
         id: row.id,
         runId: row.run_id,
@@ -541,6 +602,37 @@ export async function getTestRun(req: Request, res: Response, next: NextFunction
   }
 }
 
+/**
+ * GET /api/test-monitor/runs/:runId/export
+ * Download a run as JUnit XML (default) or SARIF findings
+ */
+export async function exportTestRun(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { runId } = req.params;
+    const format = (req.query.format as string) || 'junit';
+
+    if (!runExportService.RUN_EXPORT_FORMATS.includes(format as runExportService.RunExportFormat)) {
+      res.status(400).json({
+        success: false,
+        error: `Unknown export format "${format}" (expected ${runExportService.RUN_EXPORT_FORMATS.join(', ')})`,
+      });
+      return;
+    }
+
+    const runExport = runExportService.exportRun(runId, format as runExportService.RunExportFormat);
+    if (!runExport) {
+      res.status(404).json({ success: false, error: `Test run ${runId} not found` });
+      return;
+    }
+
+    res.setHeader('Content-Type', runExport.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${runExport.fileName}"`);
+    res.send(runExport.content);
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * GET /api/test-monitor/tests/:testId/transcript
  * Get conversation transcript for a test
@@ -1601,6 +1693,57 @@ export async function markPromptAsDeployed(req: Request, res: Response, next: Ne
   }
 }
 
+/**
+ * POST /api/test-monitor/prompts/:fileKey/deploy
+ * Push a prompt version into the Flowise chatflow of a Flowise config profile,
+ * verify it and record the deployment
+ * Body: { version?, configId?, chatflowId?, notes? }
+ */
+export async function deployPromptToFlowise(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { fileKey } = req.params;
+    const { version, configId, chatflowId, notes } = req.body || {};
+
+    if (version !== undefined && typeof version !== 'number') {
+      res.status(400).json({ success: false, error: 'version must be a number' });
+      return;
+    }
+    if (configId !== undefined && typeof configId !== 'number') {
+      res.status(400).json({ success: false, error: 'configId must be a number' });
+      return;
+    }
+    if (
+      chatflowId !== undefined &&
+      (typeof chatflowId !== 'string' || !flowiseDeployService.FLOWISE_ID_PATTERN.test(chatflowId))
+    ) {
+      res.status(400).json({ success: false, error: 'chatflowId must be a Flowise chatflow ID' });
+      return;
+    }
+
+    const db = getTestAgentDbWritable();
+    try {
+      ensureFlowiseConfigsMigrated(db);
+    } finally {
+      db.close();
+    }
+
+    const result = await flowiseDeployService.deployToFlowise(fileKey, {
+      version,
+      configId,
+      chatflowId,
+      notes,
+      deployedBy: req.user?.email ?? (req.isServiceRequest ? 'service' : undefined),
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof flowiseDeployService.FlowiseDeployError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
 /**
  * GET /api/test-monitor/prompts/:fileKey/deployment-history
  * Get deployment history for a prompt file
@@ -2047,12 +2190,19 @@ interface WorkerStatus {
   currentTestName: string | null;
 }
 
-interface ExecutionProgress {
+export interface ExecutionProgress {
   total: number;
   completed: number;
   passed: number;
   failed: number;
   skipped: number;
+  /** LLM usage so far, from the test-agent's [Usage] lines */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    budgetUsd?: number;
+  };
 }
 
 interface LiveConversation {
@@ -2084,6 +2234,7 @@ interface ExecutionState {
   connections: Set<Response>; // SSE connections for this execution
   concurrency: number;
   liveConversations: Map<string, LiveConversation>; // Live conversation per testId
+  agentRunId?: string; // Run ID the test-agent recorded the run under (from its run-started line)
 }
 
 // Track active test executions
@@ -2259,6 +2410,14 @@ function parseTestAgentOutput(runId: string, line: string): void {
       const jsonData = JSON.parse(line);
       console.log(`[ParseOutput] Parsed JSON type: ${jsonData.type}`);
 
+      // Handle run-started event - the test-agent's own run ID, which differs from ours
+      if (jsonData.type === 'run-started') {
+        if (!execution.agentRunId) {
+          execution.agentRunId = jsonData.runId;
+        }
+        return;
+      }
+
       // Handle test-started event - emitted at the beginning of each test
       if (jsonData.type === 'test-started') {
         console.log(`[ParseOutput] test-started for testId: ${jsonData.testId}, name: ${jsonData.testName}`);
@@ -2517,6 +2676,23 @@ function parseTestAgentOutput(runId: string, line: string): void {
     return;
   }
 
+  // ============================================================================
+  // LLM USAGE PATTERN
+  // ============================================================================
+
+  // Pattern: [Usage] tokens_in=N tokens_out=N cost_usd=X.XXXX [budget_usd=X.XX]
+  const usageMatch = line.match(/^\[Usage\] tokens_in=(\d+) tokens_out=(\d+) cost_usd=([\d.]+)(?: budget_usd=([\d.]+))?/);
+  if (usageMatch) {
+    execution.progress.usage = {
+      inputTokens: parseInt(usageMatch[1], 10),
+      outputTokens: parseInt(usageMatch[2], 10),
+      costUsd: parseFloat(usageMatch[3]),
+      budgetUsd: usageMatch[4] ? parseFloat(usageMatch[4]) : undefined,
+    };
+    emitExecutionEvent(runId, 'progress-update', execution.progress);
+    return;
+  }
+
   // ============================================================================
   // TOTAL COUNT PATTERNS (both modes)
   // ============================================================================
@@ -2553,138 +2729,211 @@ function parseTestAgentOutput(runId: string, line: string): void {
   }
 }
 
+export interface LaunchExecutionOptions {
+  scenarioIds?: string[];
+  categories?: string[];
+  concurrency?: number;
+  /** Stop the run once its estimated LLM cost exceeds this many USD */
+  budgetUsd?: number;
+  /** Extra environment for the test-agent process (e.g. FLOWISE_ENDPOINT_OVERRIDE) */
+  env?: Record<string, string>;
+  /** Called once the test-agent process exits */
+  onComplete?: (result: {
+    runId: string;
+    /** Run ID in test_runs, when the test-agent got as far as creating the run */
+    agentRunId?: string;
+    exitCode: number | null;
+    progress: ExecutionProgress;
+  }) => void;
+}
+
+/** Scenario IDs and categories end up on the npm command line, so only plain IDs are allowed */
+export const TEST_ARG_PATTERN = /^[A-Za-z0-9_-]+$/;
+
 /**
- * POST /api/test-monitor/runs/start
- * Start a new test execution
+ * Spawn the test agent for a set of scenarios/categories and track it as an active execution.
+ * Used by the Start button and by scheduled runs.
  */
-export async function startExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
-  try {
-    const { categories, scenarios: scenarioIds, config } = req.body;
+export function launchTestExecution(options: LaunchExecutionOptions): { runId: string; concurrency: number } {
+  const { scenarioIds, categories, onComplete } = options;
+  const testAgentDir = path.resolve(__dirname, '../../../test-agent');
 
-    if (!categories?.length && !scenarioIds?.length) {
-      res.status(400).json({ success: false, error: 'At least one category or scenario must be specified' });
-      return;
-    }
+  const unsafeArg = [...(scenarioIds || []), ...(categories || [])].find((arg) => !TEST_ARG_PATTERN.test(arg));
+  if (unsafeArg !== undefined) {
+    throw new Error(`Invalid scenario ID or category: ${unsafeArg}`);
+  }
 
-    const testAgentDir = path.resolve(__dirname, '../../../test-agent');
+  // Build command arguments
+  const args = ['run', 'run', '--'];
 
-    // Build command arguments
-    const args = ['run', 'run', '--'];
+  // Add scenario filter if specific scenarios are requested
+  if (scenarioIds?.length) {
+    args.push('--scenarios', scenarioIds.join(','));
+    console.log(`[Execution] Running specific scenarios: ${scenarioIds.join(', ')}`);
+  } else if (categories?.length) {
+    // Only add category filter if no specific scenarios
+    args.push('--category', categories[0]); // test-agent accepts one category at a time
+  }
 
-    // Add scenario filter if specific scenarios are requested
-    if (scenarioIds?.length) {
-      args.push('--scenarios', scenarioIds.join(','));
-      console.log(`[Execution] Running specific scenarios: ${scenarioIds.join(', ')}`);
-    } else if (categories?.length) {
-      // Only add category filter if no specific scenarios
-      args.push('--category', categories[0]); // test-agent accepts one category at a time
-    }
+  // Add concurrency if specified
+  const concurrency = Math.min(Math.max(options.concurrency || 1, 1), 10);
+  if (concurrency > 1) {
+    args.push('--concurrency', String(concurrency));
+    console.log(`[Execution] Parallel execution with ${concurrency} workers`);
+  }
 
-    // Add concurrency if specified
-    const concurrency = Math.min(Math.max(config?.concurrency || 1, 1), 10);
-    if (concurrency > 1) {
-      args.push('--concurrency', String(concurrency));
-      console.log(`[Execution] Parallel execution with ${concurrency} workers`);
-    }
+  if (options.budgetUsd) {
+    args.push('--budget', String(options.budgetUsd));
+  }
 
-    console.log(`[Execution] Starting: npm ${args.join(' ')} in ${testAgentDir}`);
+  console.log(`[Execution] Starting: npm ${args.join(' ')} in ${testAgentDir}`);
 
-    const child = spawn('npm', args, {
-      cwd: testAgentDir,
-      shell: true,
-      env: { ...process.env },
-      detached: false,
+  const child = spawn('npm', args, {
+    cwd: testAgentDir,
+    shell: true,
+    env: { ...process.env, ...options.env },
+    detached: false,
+  });
+
+  // Generate a run ID
+  const tempRunId = `run-${new Date().toISOString().split('T')[0]}-${Math.random().toString(16).slice(2, 10)}`;
+
+  // Initialize execution state
+  const executionState: ExecutionState = {
+    process: child,
+    status: 'running',
+    progress: { total: 0, completed: 0, passed: 0, failed: 0, skipped: 0 },
+    workers: new Map(),
+    connections: new Set(),
+    concurrency,
+    liveConversations: new Map(),
+  };
+
+  // Initialize workers
+  for (let i = 0; i < concurrency; i++) {
+    executionState.workers.set(i, {
+      workerId: i,
+      status: 'idle',
+      currentTestId: null,
+      currentTestName: null,
     });
+  }
 
-    // Generate a run ID
-    const tempRunId = `run-${new Date().toISOString().split('T')[0]}-${Math.random().toString(16).slice(2, 10)}`;
+  activeExecutions.set(tempRunId, executionState);
 
-    // Initialize execution state
-    const executionState: ExecutionState = {
-      process: child,
-      status: 'running',
-      progress: { total: 0, completed: 0, passed: 0, failed: 0, skipped: 0 },
-      workers: new Map(),
-      connections: new Set(),
-      concurrency,
-      liveConversations: new Map(),
-    };
+  // 'close' may or may not follow 'error'; report completion once
+  let completionReported = false;
+  const reportCompletion = (exitCode: number | null) => {
+    if (completionReported) return;
+    completionReported = true;
+    onComplete?.({
+      runId: tempRunId,
+      agentRunId: executionState.agentRunId,
+      exitCode,
+      progress: executionState.progress,
+    });
+  };
 
-    // Initialize workers
-    for (let i = 0; i < concurrency; i++) {
-      executionState.workers.set(i, {
-        workerId: i,
-        status: 'idle',
-        currentTestId: null,
-        currentTestName: null,
-      });
+  // Parse stdout for progress updates
+  child.stdout.on('data', (data) => {
+    const output = data.toString();
+    console.log(`[Execution] ${output.trim()}`);
+
+    // Parse each line for progress info
+    const lines = output.split('\n');
+    for (const line of lines) {
+      if (line.trim()) {
+        parseTestAgentOutput(tempRunId, line.trim());
+      }
     }
+  });
+
+  child.stderr.on('data', (data) => {
+    console.error(`[Execution Error] ${data.toString().trim()}`);
+  });
 
-    activeExecutions.set(tempRunId, executionState);
+  child.on('close', (code) => {
+    console.log(`[Execution] Process exited with code ${code}`);
 
-    // Parse stdout for progress updates
-    child.stdout.on('data', (data) => {
-      const output = data.toString();
-      console.log(`[Execution] ${output.trim()}`);
+    const execution = activeExecutions.get(tempRunId);
+    if (execution) {
+      execution.status = 'completed';
+
+      // Emit completion event
+      emitExecutionEvent(tempRunId, 'execution-completed', {
+        runId: tempRunId,
+        status: code === 0 ? 'completed' : 'failed',
+        progress: execution.progress,
+      });
 
-      // Parse each line for progress info
-      const lines = output.split('\n');
-      for (const line of lines) {
-        if (line.trim()) {
-          parseTestAgentOutput(tempRunId, line.trim());
+      // Close all SSE connections
+      execution.connections.forEach((conn) => {
+        try {
+          conn.write(`event: complete\ndata: ${JSON.stringify({ status: 'completed' })}\n\n`);
+          conn.end();
+        } catch (err) {
+          // Already closed
         }
-      }
-    });
+      });
 
-    child.stderr.on('data', (data) => {
-      console.error(`[Execution Error] ${data.toString().trim()}`);
-    });
+      // Keep execution in memory for a bit so clients can reconnect and get final state
+      setTimeout(() => {
+        activeExecutions.delete(tempRunId);
+      }, 60000); // Keep for 1 minute after completion
+    }
 
-    child.on('close', (code) => {
-      console.log(`[Execution] Process exited with code ${code}`);
+    reportCompletion(code);
+  });
 
-      const execution = activeExecutions.get(tempRunId);
-      if (execution) {
-        execution.status = 'completed';
+  child.on('error', (err) => {
+    console.error(`[Execution] Process error:`, err);
 
-        // Emit completion event
-        emitExecutionEvent(tempRunId, 'execution-completed', {
-          runId: tempRunId,
-          status: code === 0 ? 'completed' : 'failed',
-          progress: execution.progress,
-        });
+    const execution = activeExecutions.get(tempRunId);
+    if (execution) {
+      emitExecutionEvent(tempRunId, 'execution-error', { error: err.message });
+    }
 
-        // Close all SSE connections
-        execution.connections.forEach((conn) => {
-          try {
-            conn.write(`event: complete\ndata: ${JSON.stringify({ status: 'completed' })}\n\n`);
-            conn.end();
-          } catch (err) {
-            // Already closed
-          }
-        });
+    activeExecutions.delete(tempRunId);
+    reportCompletion(null);
+  });
 
-        // Keep execution in memory for a bit so clients can reconnect and get final state
-        setTimeout(() => {
-          activeExecutions.delete(tempRunId);
-        }, 60000); // Keep for 1 minute after completion
-      }
-    });
+  return { runId: tempRunId, concurrency };
+}
 
-    child.on('error', (err) => {
-      console.error(`[Execution] Process error:`, err);
+/**
+ * POST /api/test-monitor/runs/start
+ * Start a new test execution
+ */
+export async function startExecution(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { categories, scenarios: scenarioIds, config } = req.body;
 
-      const execution = activeExecutions.get(tempRunId);
-      if (execution) {
-        emitExecutionEvent(tempRunId, 'execution-error', { error: err.message });
-      }
+    if (!categories?.length && !scenarioIds?.length) {
+      res.status(400).json({ success: false, error: 'At least one category or scenario must be specified' });
+      return;
+    }
 
-      activeExecutions.delete(tempRunId);
+    if ([...(scenarioIds || []), ...(categories || [])].some((arg: unknown) => !TEST_ARG_PATTERN.test(String(arg)))) {
+      res.status(400).json({ success: false, error: 'Scenario IDs and categories may only contain letters, digits, _ and -' });
+      return;
+    }
+
+    const budgetUsd = config?.budgetUsd;
+    if (budgetUsd !== undefined && budgetUsd !== null && !(typeof budgetUsd === 'number' && budgetUsd > 0)) {
+      res.status(400).json({ success: false, error: 'budgetUsd must be a positive number' });
+      return;
+    }
+
+    const { runId } = launchTestExecution({
+      scenarioIds,
+      categories,
+      concurrency: config?.concurrency,
+      budgetUsd: budgetUsd ?? undefined,
     });
 
     res.json({
       success: true,
-      runId: tempRunId,
+      runId,
       status: 'started',
       message: 'Test execution started',
     });
@@ -3707,6 +3956,33 @@ export async function deleteGoalTestCase(req: Request, res: Response, next: Next
   }
 }
 
+/**
+ * PUT /api/test-monitor/goal-tests/:caseId/quarantine
+ * Quarantine or release a goal test case
+ * Body: { quarantined: boolean, reason?: string }
+ */
+export async function setGoalTestQuarantine(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { caseId } = req.params;
+    const { quarantined, reason } = req.body;
+
+    if (typeof quarantined !== 'boolean') {
+      res.status(400).json({ success: false, error: 'quarantined must be a boolean' });
+      return;
+    }
+
+    const testCase = goalTestService.setGoalTestQuarantine(caseId, quarantined, reason);
+    if (!testCase) {
+      res.status(404).json({ success: false, error: 'Goal test case not found' });
+      return;
+    }
+
+    res.json({ success: true, data: testCase });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * POST /api/test-monitor/goal-tests/:caseId/clone
  * Clone a goal-based test case with a new ID
@@ -6175,6 +6451,95 @@ export async function syncV1FilesToNodered(_req: Request, res: Response, next: N
   }
 }
 
+// ============================================================================
+// NODE-RED DEPLOYMENT ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/test-monitor/nodered/diff
+ * Diff the running Node-RED flows against the V1 flow file, node by node
+ */
+export async function getNodeRedDiff(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const diff = await noderedDeployService.getNodeRedDiff();
+    res.json({ success: true, data: diff });
+  } catch (error: any) {
+    if (error instanceof noderedDeployService.NodeRedDeployError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * POST /api/test-monitor/nodered/deploy
+ * Deploy the V1 flow file through the Node-RED admin API, keeping a rollback snapshot
+ * Body: { deploymentType?: 'full' | 'flows' | 'nodes', force?, notes? }
+ */
+export async function deployNodeRedFlows(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { deploymentType, force, notes } = req.body || {};
+
+    const result = await noderedDeployService.deployNodeRedFlows({
+      deploymentType,
+      force: force === true,
+      notes,
+      deployedBy: req.user?.email ?? (req.isServiceRequest ? 'service' : undefined),
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof noderedDeployService.NodeRedDeployError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * GET /api/test-monitor/nodered/deployments
+ * List Node-RED deployments and rollbacks, newest first
+ */
+export async function getNodeRedDeployments(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const deployments = noderedDeployService.listNodeRedDeployments(limit);
+    res.json({ success: true, data: deployments });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/test-monitor/nodered/deployments/:id/rollback
+ * Restore the flows that a deployment replaced
+ * Body: { deploymentType?, notes? }
+ */
+export async function rollbackNodeRedDeployment(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const deploymentId = parseInt(req.params.id);
+    if (isNaN(deploymentId)) {
+      res.status(400).json({ success: false, error: 'Invalid deployment ID' });
+      return;
+    }
+
+    const { deploymentType, notes } = req.body || {};
+    const result = await noderedDeployService.rollbackNodeRedDeployment(deploymentId, {
+      deploymentType,
+      notes,
+      deployedBy: req.user?.email ?? (req.isServiceRequest ? 'service' : undefined),
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    if (error instanceof noderedDeployService.NodeRedDeployError) {
+      res.status(error.statusCode).json({ success: false, error: error.message });
+      return;
+    }
+    next(error);
+  }
+}
+
 // ============================================================================
 // APP SETTINGS API ENDPOINTS
 // ============================================================================
@@ -7768,6 +8133,162 @@ export async function abortTestRun(req: Request, res: Response, next: NextFuncti
   }
 }
 
+// ============================================================================
+// TEST SCHEDULE ENDPOINTS
+// ============================================================================
+
+import * as testScheduleService from '../services/testScheduleService';
+
+/**
+ * GET /api/test-monitor/schedules
+ * List test schedules with their next run time
+ */
+export async function getTestSchedules(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      data: testScheduleService.listSchedules(),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * GET /api/test-monitor/schedules/:id
+ * Get a test schedule with its recent runs
+ */
+export async function getTestSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseInt(req.params.id, 10);
+    const schedule = testScheduleService.getSchedule(id);
+
+    if (!schedule) {
+      res.status(404).json({ success: false, error: `Schedule ${req.params.id} not found` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...schedule,
+        runs: testScheduleService.getScheduleRuns(id, parseInt(req.query.limit as string, 10) || 50),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/test-monitor/schedules
+ * Create a test schedule
+ */
+export async function createTestSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const errors = testScheduleService.validateScheduleInput(req.body);
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, error: errors.join('; ') });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: testScheduleService.createSchedule(req.body),
+    });
+  } catch (error: any) {
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      res.status(400).json({
+        success: false,
+        error: 'A schedule with this name already exists',
+      });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * PUT /api/test-monitor/schedules/:id
+ * Update a test schedule (partial)
+ */
+export async function updateTestSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const errors = testScheduleService.validateScheduleInput(req.body, true);
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, error: errors.join('; ') });
+      return;
+    }
+
+    const schedule = testScheduleService.updateSchedule(parseInt(req.params.id, 10), req.body);
+    if (!schedule) {
+      res.status(404).json({ success: false, error: `Schedule ${req.params.id} not found` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('UNIQUE constraint failed')) {
+      res.status(400).json({
+        success: false,
+        error: 'A schedule with this name already exists',
+      });
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * DELETE /api/test-monitor/schedules/:id
+ * Delete a test schedule and its run history
+ */
+export async function deleteTestSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!testScheduleService.deleteSchedule(parseInt(req.params.id, 10))) {
+      res.status(404).json({ success: false, error: `Schedule ${req.params.id} not found` });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Schedule ${req.params.id} deleted`,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /api/test-monitor/schedules/:id/run
+ * Run a schedule's tests now (results count toward its pass-rate history)
+ */
+export async function runTestScheduleNow(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const id = parseInt(req.params.id, 10);
+    if (!testScheduleService.getSchedule(id)) {
+      res.status(404).json({ success: false, error: `Schedule ${req.params.id} not found` });
+      return;
+    }
+
+    const run = testScheduleService.runSchedule(id, 'manual');
+    if (run.status !== 'running') {
+      res.status(409).json({ success: false, error: run.message, data: run });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ============================================================================
 // PRODUCTION CALLS (LANGFUSE TRACES) ENDPOINTS
 // ============================================================================
@@ -8371,6 +8892,93 @@ function extractAssistantMessage(output: any): string | null {
   return null;
 }
 
+/**
+ * POST /api/test-monitor/production-calls/sessions/:sessionId/goal-test
+ * Turn a production session into a saved goal-oriented regression test
+ */
+export async function createGoalTestFromSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  let db: BetterSqlite3.Database | null = null;
+
+  try {
+    const { sessionId } = req.params;
+    const { configId, category, name, caseId } = req.body;
+
+    if (category && !['happy-path', 'edge-case', 'error-handling'].includes(category)) {
+      res.status(400).json({ success: false, error: 'Invalid category' });
+      return;
+    }
+
+    db = getTestAgentDbWritable();
+    const service = new LangfuseTraceService(db);
+
+    const result = service.getSession(sessionId, configId ? parseInt(configId) : undefined);
+
+    if (!result) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    const { session, traces, observations } = result;
+    const filteredObservations = filterInternalTraces(observations);
+    const callerTurns = buildCombinedTranscript(traces, filteredObservations)
+      .filter((turn) => turn.role === 'user')
+      .map((turn) => turn.content);
+
+    if (callerTurns.length === 0) {
+      res.status(400).json({ success: false, error: 'Session has no caller messages to replay' });
+      return;
+    }
+
+    const derived = deriveGoalTestFromSession(
+      {
+        sessionId: session.session_id,
+        configName: session.config_name,
+        firstTraceAt: session.first_trace_at,
+        errorCount: session.error_count || 0,
+        callerTurns,
+        observations: filteredObservations,
+      },
+      { name, category }
+    );
+
+    const finalCaseId = caseId || goalTestService.generateNextCaseId(derived.testCase.category);
+
+    if (goalTestService.goalTestCaseExists(finalCaseId)) {
+      res.status(409).json({ success: false, error: `Goal test case ${finalCaseId} already exists` });
+      return;
+    }
+
+    const validationErrors = goalTestService.validateGoalTestCase({ ...derived.testCase, caseId: finalCaseId });
+    if (validationErrors.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        validationErrors,
+      });
+      return;
+    }
+
+    const testCase = goalTestService.createGoalTestCase({ ...derived.testCase, caseId: finalCaseId });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        testCase,
+        toolActions: derived.toolActions,
+        defaultedFields: derived.defaultedFields,
+      },
+    });
+  } catch (error) {
+    next(error);
+  } finally {
+    if (db) db.close();
+  }
+}
+
 /**
  * POST /api/test-monitor/production-calls/sessions/rebuild
  * Rebuild session aggregates from existing traces
@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+import { Environment, isValidEnvironment } from '../config/cloud9';
+import { AppError, asyncHandler } from '../middleware/errorHandler';
+import {
+  WaitlistEntry,
+  WaitlistEntryModel,
+  WaitlistMatchedSlot,
+  WaitlistStatus,
+  TimeOfDayPreference,
+} from '../models/WaitlistEntry';
+import { runWaitlistMatching, triggerWaitlistMatching } from '../services/waitlistService';
+
+/**
+ * Waitlist Controller
+ * Handles endpoints for the appointment waitlist and its slot matches
+ */
+
+const WAITLIST_STATUSES: WaitlistStatus[] = ['waiting', 'matched', 'booked', 'removed', 'expired'];
+// Statuses staff can set by hand; matched and expired are set by the matcher
+const SETTABLE_STATUSES: WaitlistStatus[] = ['waiting', 'booked', 'removed'];
+const TIME_OF_DAY: TimeOfDayPreference[] = ['any', 'morning', 'afternoon'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get environment from request header or query
+ */
+function getEnvironment(req: Request): Environment {
+  const env =
+    (req.header('X-Environment') as string) ||
+    (req.query.environment as string) ||
+    'sandbox';
+
+  if (!isValidEnvironment(env)) {
+    throw new AppError('Invalid environment. Must be "sandbox", "production" or "mock"', 400);
+  }
+
+  return env;
+}
+
+/**
+ * Shape an entry for the API (matched slots as an array)
+ */
+function toResponse(entry: WaitlistEntry): Omit<WaitlistEntry, 'matched_slots'> & {
+  matched_slots: WaitlistMatchedSlot[];
+} {
+  return {
+    ...entry,
+    matched_slots: entry.matched_slots ? (JSON.parse(entry.matched_slots) as WaitlistMatchedSlot[]) : [],
+  };
+}
+
+/**
+ * Load the entry named by :id in this environment and practice
+ */
+function getEntryOrThrow(req: Request, res: Response, environment: Environment): WaitlistEntry {
+  const id = parseInt(req.params.id);
+  const entry = Number.isNaN(id) ? null : WaitlistEntryModel.getById(id);
+
+  if (!entry || entry.environment !== environment || (entry.tenant || undefined) !== req.tenant) {
+    throw new AppError('Waitlist entry not found', 404);
+  }
+
+  // Only the entry ID is in the URL; tell the PHI audit which patient this is
+  res.locals.auditPatientGuid = entry.patient_guid;
+
+  return entry;
+}
+
+/**
+ * GET /api/waitlist
+ * List waitlist entries (optionally ?status=waiting,matched)
+ */
+export const getWaitlist = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const statuses = req.query.status
+    ? (String(req.query.status).split(',') as WaitlistStatus[])
+    : undefined;
+
+  if (statuses?.some((status) => !WAITLIST_STATUSES.includes(status))) {
+    throw new AppError(`Invalid status. Must be one of: ${WAITLIST_STATUSES.join(', ')}`, 400);
+  }
+
+  const entries = WaitlistEntryModel.list(environment, statuses, req.tenant ?? null).map(toResponse);
+
+  res.json({
+    status: 'success',
+    data: entries,
+    count: entries.length,
+    environment,
+  });
+});
+
+/**
+ * POST /api/waitlist
+ * Add a patient to the waitlist and check for an opening straight away
+ */
+export const createWaitlistEntry = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const {
+    patientGuid,
+    patientName,
+    locationGuid,
+    appointmentTypeGuid,
+    providerGuid,
+    earliestDate,
+    latestDate,
+    timeOfDay = 'any',
+    notes,
+  } = req.body;
+
+  if (!patientGuid || !locationGuid || !appointmentTypeGuid || !earliestDate || !latestDate) {
+    throw new AppError(
+      'Missing required fields: patientGuid, locationGuid, appointmentTypeGuid, earliestDate, latestDate',
+      400
+    );
+  }
+
+  if (!ISO_DATE.test(earliestDate) || !ISO_DATE.test(latestDate)) {
+    throw new AppError('earliestDate and latestDate must be YYYY-MM-DD', 400);
+  }
+
+  if (latestDate < earliestDate) {
+    throw new AppError('latestDate must not be before earliestDate', 400);
+  }
+
+  if (!TIME_OF_DAY.includes(timeOfDay)) {
+    throw new AppError(`Invalid timeOfDay. Must be one of: ${TIME_OF_DAY.join(', ')}`, 400);
+  }
+
+  const entry = WaitlistEntryModel.create({
+    environment,
+    tenant: req.tenant ?? null,
+    patient_guid: patientGuid,
+    patient_name: patientName || null,
+    location_guid: locationGuid,
+    appointment_type_guid: appointmentTypeGuid,
+    provider_guid: providerGuid || null,
+    earliest_date: earliestDate,
+    latest_date: latestDate,
+    time_of_day: timeOfDay,
+    notes: notes || null,
+    created_by: req.user?.email ?? (req.isServiceRequest ? 'service' : null),
+  });
+
+  res.locals.auditDetails = { waitlistEntryId: entry.id, locationGuid, earliestDate, latestDate };
+
+  triggerWaitlistMatching(environment, 'new entry');
+
+  res.status(201).json({
+    status: 'success',
+    message: 'Patient added to the waitlist',
+    data: toResponse(entry),
+    environment,
+  });
+});
+
+/**
+ * PUT /api/waitlist/:id/status
+ * Mark an entry booked or removed, or put it back to waiting
+ */
+export const updateWaitlistStatus = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const { status } = req.body;
+
+  if (!SETTABLE_STATUSES.includes(status)) {
+    throw new AppError(`Invalid status. Must be one of: ${SETTABLE_STATUSES.join(', ')}`, 400);
+  }
+
+  const entry = getEntryOrThrow(req, res, environment);
+  const updated = WaitlistEntryModel.updateStatus(entry.id, status) as WaitlistEntry;
+
+  res.locals.auditDetails = { waitlistEntryId: entry.id, status };
+
+  if (status === 'waiting') {
+    triggerWaitlistMatching(environment, 'entry reopened');
+  }
+
+  res.json({
+    status: 'success',
+    data: toResponse(updated),
+    environment,
+  });
+});
+
+/**
+ * POST /api/waitlist/match
+ * Run matching now and wait for the result
+ */
+export const runMatching = asyncHandler(async (req: Request, res: Response) => {
+  const environment = getEnvironment(req);
+  const result = await runWaitlistMatching(environment, 'manual');
+
+  res.json({
+    status: 'success',
+    data: result,
+    environment,
+  });
+});
@@ -15,7 +15,7 @@ CREATE TABLE IF NOT EXISTS locations (
   phone TEXT,
   time_zone TEXT,
   is_deleted BOOLEAN DEFAULT 0,
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -27,7 +27,7 @@ CREATE TABLE IF NOT EXISTS appointment_types (
   minutes INTEGER NOT NULL,
   allow_online_scheduling BOOLEAN DEFAULT 0,
   is_deleted BOOLEAN DEFAULT 0,
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
@@ -42,7 +42,7 @@ CREATE TABLE IF NOT EXISTS providers (
   provider_name TEXT,
   start_time TEXT,
   end_time TEXT,
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (location_guid) REFERENCES locations(location_guid)
@@ -75,7 +75,7 @@ CREATE TABLE IF NOT EXISTS patients (
   last_appointment_date TEXT,
   estimated_completion_date TEXT,
   months_in_status INTEGER,
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (location_guid) REFERENCES locations(location_guid),
@@ -105,7 +105,7 @@ CREATE TABLE IF NOT EXISTS appointments (
   schedule_column_description TEXT,
   minutes INTEGER,
   status TEXT, -- 'Scheduled', 'Confirmed', 'Canceled', etc.
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   cached_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY (patient_guid) REFERENCES patients(patient_guid),
@@ -125,7 +125,7 @@ CREATE INDEX IF NOT EXISTS idx_appointments_environment ON appointments(environm
 CREATE TABLE IF NOT EXISTS cache_metadata (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   cache_key TEXT NOT NULL,
-  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production')),
+  environment TEXT NOT NULL CHECK(environment IN ('sandbox', 'production', 'mock')),
   last_refreshed DATETIME DEFAULT CURRENT_TIMESTAMP,
   ttl_seconds INTEGER DEFAULT 3600, -- Default 1 hour
   UNIQUE(cache_key, environment)
@@ -140,6 +140,15 @@ INSERT OR IGNORE INTO cache_metadata (cache_key, environment, ttl_seconds) VALUE
   ('providers', 'sandbox', 43200),
   ('providers', 'production', 43200);
 
+-- Cached Cloud 9 response payloads (short-TTL, e.g. date-range appointment lists)
+CREATE TABLE IF NOT EXISTS cache_entries (
+  cache_key TEXT NOT NULL,
+  environment TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (cache_key, environment)
+);
+
 -- Prompt Version Management Tables
 
 -- Store current working copies of prompts (updated as fixes are applied)
@@ -202,3 +211,75 @@ CREATE TABLE IF NOT EXISTS user_permissions (
 );
 
 CREATE INDEX IF NOT EXISTS idx_user_permissions_user_id ON user_permissions(user_id);
+
+-- PHI Access Audit Log (append-only; UPDATE/DELETE are rejected by triggers)
+CREATE TABLE IF NOT EXISTS phi_audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  user_id INTEGER,
+  user_email TEXT,
+  environment TEXT NOT NULL,
+  action TEXT NOT NULL,
+  patient_guid TEXT,
+  appointment_guid TEXT,
+  outcome TEXT NOT NULL CHECK(outcome IN ('success', 'failure')),
+  status_code INTEGER NOT NULL,
+  error_message TEXT,
+  details TEXT,
+  ip_address TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_phi_audit_log_user ON phi_audit_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_phi_audit_log_patient ON phi_audit_log(patient_guid);
+CREATE INDEX IF NOT EXISTS idx_phi_audit_log_created ON phi_audit_log(created_at);
+
+CREATE TRIGGER IF NOT EXISTS trg_phi_audit_log_no_update
+BEFORE UPDATE ON phi_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'phi_audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_phi_audit_log_no_delete
+BEFORE DELETE ON phi_audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'phi_audit_log is append-only');
+END;
+
+-- Idempotency keys for write endpoints (Idempotency-Key header); rows expire after 24h
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scope_key TEXT NOT NULL UNIQUE,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Waitlist: patients waiting for a matching opening (checked by the waitlist matcher)
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  environment TEXT NOT NULL,
+  tenant TEXT,
+  patient_guid TEXT NOT NULL,
+  patient_name TEXT,
+  location_guid TEXT NOT NULL,
+  appointment_type_guid TEXT NOT NULL,
+  provider_guid TEXT,
+  earliest_date TEXT NOT NULL,
+  latest_date TEXT NOT NULL,
+  time_of_day TEXT NOT NULL DEFAULT 'any' CHECK(time_of_day IN ('any', 'morning', 'afternoon')),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK(status IN ('waiting', 'matched', 'booked', 'removed', 'expired')),
+  matched_slots TEXT,
+  matched_at TEXT,
+  last_checked_at TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(environment, status);
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditAction, AuditLogModel } from '../models/AuditLog';
+import { AppointmentModel } from '../models/Appointment';
+import logger from '../utils/logger';
+
+/**
+ * PHI Audit Middleware
+ * Writes one audit record per patient/appointment request once the response finishes.
+ *
+ * Controllers can set res.locals.auditPatientGuid / res.locals.auditDetails when the
+ * patient GUID is only known after the Cloud 9 call (e.g. patient creation).
+ */
+
+function resolvePatientGuid(
+  req: Request,
+  res: Response,
+  params: Record<string, string>,
+  appointmentGuid: string | null
+): string | null {
+  const fromRequest =
+    res.locals.auditPatientGuid ||
+    params.patientGuid ||
+    req.body?.patientGuid;
+
+  if (fromRequest) {
+    return fromRequest;
+  }
+
+  // Confirm/cancel only carry the appointment GUID; use the local cache to find the patient
+  if (appointmentGuid) {
+    try {
+      return AppointmentModel.getByGuid(appointmentGuid)?.patient_guid || null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+export function auditPhiAccess(action: AuditAction) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Route params are reset if an error propagates out of the router, so capture them now
+    const params = { ...req.params };
+
+    res.on('finish', () => {
+      const appointmentGuid = params.appointmentGuid || null;
+      const outcome = res.statusCode < 400 ? 'success' : 'failure';
+
+      try {
+        AuditLogModel.create({
+          user_id: req.user?.id ?? null,
+          user_email: req.user?.email ?? (req.isServiceRequest ? 'service' : null),
+          environment: (req.header('X-Environment') as string) || (req.query.environment as string) || 'sandbox',
+          action,
+          patient_guid: resolvePatientGuid(req, res, params, appointmentGuid),
+          appointment_guid: appointmentGuid,
+          outcome,
+          status_code: res.statusCode,
+          error_message: outcome === 'failure' ? res.locals.errorMessage || null : null,
+          details: res.locals.auditDetails ? JSON.stringify(res.locals.auditDetails) : null,
+          ip_address: req.ip || null,
+        });
+      } catch (error) {
+        // Never fail the request because of auditing, but make the gap visible
+        logger.error('Failed to write PHI audit record', {
+          action,
+          path: req.originalUrl,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { UserModel, UserWithPermissions } from '../models/User';
+import { verifyToken } from '../services/authService';
+import logger from '../utils/logger';
+
+/**
+ * Auth Middleware
+ * Validates bearer tokens and enforces tab permissions on API routers
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: UserWithPermissions;
+      isServiceRequest?: boolean;
+    }
+  }
+}
+
+// GET routes a browser may open without an Authorization header (EventSource streams, file downloads).
+// Only these accept ?token=, which otherwise ends up in logs, history and Referer headers.
+const QUERY_TOKEN_ROUTES = [/\/stream$/, /\/export$/];
+
+/**
+ * Extract the bearer token from the Authorization header.
+ * EventSource cannot set headers, so SSE and download endpoints fall back to ?token=
+ */
+function extractToken(req: Request): string | null {
+  const authHeader = req.header('Authorization');
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  const allowsQueryToken = req.method === 'GET' && QUERY_TOKEN_ROUTES.some((route) => route.test(req.path));
+  if (allowsQueryToken && typeof req.query.token === 'string' && req.query.token) {
+    return req.query.token;
+  }
+
+  return null;
+}
+
+/**
+ * Require a valid JWT (or service key) and attach the user to the request
+ */
+export function requireAuth(req: Request, _res: Response, next: NextFunction): void {
+  // Shared secret for backend-to-backend calls (test-agent, spawned runners).
+  // Read per request: this module loads before server.ts runs dotenv.config()
+  const serviceApiKey = process.env.SERVICE_API_KEY || '';
+  const serviceKey = req.header('X-Service-Key');
+  if (serviceApiKey && serviceKey && serviceKey === serviceApiKey) {
+    req.isServiceRequest = true;
+    return next();
+  }
+
+  const token = extractToken(req);
+  if (!token) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return next(new AppError('Invalid or expired token', 401));
+  }
+
+  const user = UserModel.getById(payload.userId);
+  if (!user) {
+    return next(new AppError('User not found', 401));
+  }
+
+  if (!user.is_active) {
+    return next(new AppError('Account is disabled', 403));
+  }
+
+  req.user = user;
+  next();
+}
+
+/**
+ * Require access to at least one of the given tabs.
+ * Admins and service requests can access every tab.
+ */
+export function requireTab(...tabKeys: string[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (req.isServiceRequest || req.user?.is_admin) {
+      return next();
+    }
+
+    const permissions = req.user?.permissions || [];
+    const allowed = permissions.some(
+      p => p.can_access && tabKeys.includes(p.tab_key)
+    );
+
+    if (!allowed) {
+      logger.warn(`Permission denied: ${req.user?.email} -> ${req.method} ${req.originalUrl}`);
+      return next(new AppError('You do not have permission to access this resource', 403));
+    }
+
+    next();
+  };
+}
+
+/**
+ * Require an admin user
+ */
+export function requireAdmin(req: Request, _res: Response, next: NextFunction): void {
+  if (!req.user?.is_admin) {
+    logger.warn(`Admin access denied: ${req.user?.email || 'service'} -> ${req.method} ${req.originalUrl}`);
+    return next(new AppError('Admin access required', 403));
+  }
+
+  next();
+}
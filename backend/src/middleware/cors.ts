@@ -38,7 +38,8 @@ export const corsOptions: cors.CorsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Environment'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Environment', 'X-Tenant', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed'],
 };
 
 export default cors(corsOptions);
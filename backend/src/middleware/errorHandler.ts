@@ -7,11 +7,15 @@ import logger from '../utils/logger';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  code?: string;
+  details?: unknown;
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, code?: string, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.code = code;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -40,10 +44,15 @@ export function errorHandler(
     isOperational,
   });
 
+  // Expose the message to response-finish hooks (PHI audit log)
+  res.locals.errorMessage = err.message;
+
   // Send error response
   res.status(statusCode).json({
     status: 'error',
     message: err.message,
+    ...((err as AppError).code && { code: (err as AppError).code }),
+    ...((err as AppError).details !== undefined && { details: (err as AppError).details }),
     ...(process.env.NODE_ENV === 'development' && {
       stack: err.stack,
       error: err,
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { AppError } from './errorHandler';
+import { IdempotencyKeyModel } from '../models/IdempotencyKey';
+import { CLOUD9_WRITE_UNCONFIRMED } from '../services/cloud9/circuitBreaker';
+import logger from '../utils/logger';
+
+/**
+ * Idempotency Middleware
+ * Honors the Idempotency-Key header on write endpoints. The first request with a
+ * key runs normally and its successful response is stored; repeats with the same
+ * key and body replay that response instead of calling Cloud 9 again.
+ *
+ * Failed requests release the key so the client can retry with it, except when
+ * Cloud 9 timed out on the write: the change may still have been saved, so the
+ * key stays claimed and retries get a 409 until it expires.
+ */
+
+const MAX_KEY_LENGTH = 255;
+
+function hashRequest(req: Request): string {
+  return createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex');
+}
+
+export function idempotent(scope: string) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.header('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return next(new AppError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, 400));
+    }
+
+    // Keys are per caller, environment and tenant so two users can never collide
+    const environment = (req.header('X-Environment') as string) || (req.query.environment as string) || 'sandbox';
+    const practice = req.tenant ? `${environment}@${req.tenant}` : environment;
+    const caller = req.user ? `user:${req.user.id}` : req.isServiceRequest ? 'service' : 'anonymous';
+    const scopeKey = `${scope}:${practice}:${caller}:${key}`;
+    const requestHash = hashRequest(req);
+
+    let existing;
+    try {
+      existing = IdempotencyKeyModel.claim(scopeKey, requestHash);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (existing) {
+      if (existing.request_hash !== requestHash) {
+        return next(new AppError('Idempotency-Key was already used with a different request body', 422));
+      }
+
+      if (existing.status === 'in_progress' && existing.response_status !== null) {
+        return next(
+          new AppError(
+            'The request with this Idempotency-Key timed out and may still have been applied. Check its outcome before retrying with a new key',
+            409,
+            CLOUD9_WRITE_UNCONFIRMED
+          )
+        );
+      }
+
+      if (existing.status === 'in_progress') {
+        return next(new AppError('A request with this Idempotency-Key is still being processed', 409));
+      }
+
+      logger.info('Replaying idempotent response', { scope, key, status: existing.response_status });
+      res.locals.auditDetails = { ...res.locals.auditDetails, idempotentReplay: true };
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(existing.response_status || 200).json(JSON.parse(existing.response_body || 'null'));
+      return;
+    }
+
+    // Capture the body the handler sends so it can be replayed later
+    let responseBody: unknown;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    let settled = false;
+    const settle = () => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+
+      try {
+        if (res.writableFinished && res.statusCode >= 200 && res.statusCode < 300) {
+          IdempotencyKeyModel.complete(scopeKey, res.statusCode, responseBody);
+        } else if ((responseBody as { code?: string } | undefined)?.code === CLOUD9_WRITE_UNCONFIRMED) {
+          IdempotencyKeyModel.markUnconfirmed(scopeKey, res.statusCode, responseBody);
+        } else {
+          IdempotencyKeyModel.release(scopeKey);
+        }
+      } catch (error) {
+        logger.error('Failed to store idempotent response', {
+          scope,
+          key,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    };
+
+    res.on('finish', settle);
+    res.on('close', settle);
+
+    next();
+  };
+}
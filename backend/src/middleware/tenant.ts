@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from './errorHandler';
+import { getTenants } from '../config/pms';
+
+/**
+ * Tenant Middleware
+ * Reads the practice a request is for from the X-Tenant header. The tenant picks
+ * the PMS behind the request (see config/pms.ts); without one the environment's
+ * default PMS is used.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      tenant?: string;
+    }
+  }
+}
+
+export function resolveTenant(req: Request, _res: Response, next: NextFunction): void {
+  const tenant = req.header('X-Tenant') || undefined;
+
+  if (tenant && !Object.prototype.hasOwnProperty.call(getTenants(), tenant)) {
+    return next(new AppError(`Unknown tenant: ${tenant}`, 400));
+  }
+
+  req.tenant = tenant;
+  next();
+}
@@ -0,0 +1,208 @@
+import { getDatabase } from '../config/database';
+import { loggers } from '../utils/logger';
+
+/**
+ * Audit Log Model
+ * Append-only record of PHI access through the patient and appointment APIs
+ */
+
+export type AuditAction =
+  | 'patient.search'
+  | 'patient.view'
+  | 'patient.create'
+  | 'patient.update'
+  | 'patient.import'
+  | 'patient.export'
+  | 'appointment.list'
+  | 'appointment.book'
+  | 'appointment.confirm'
+  | 'appointment.cancel'
+  | 'appointment.reschedule'
+  | 'waitlist.view'
+  | 'waitlist.add'
+  | 'waitlist.update';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditLogEntry {
+  id: number;
+  created_at: string;
+  user_id: number | null;
+  user_email: string | null;
+  environment: string;
+  action: AuditAction;
+  patient_guid: string | null;
+  appointment_guid: string | null;
+  outcome: AuditOutcome;
+  status_code: number;
+  error_message: string | null;
+  details: string | null;
+  ip_address: string | null;
+}
+
+export type CreateAuditLogInput = Omit<AuditLogEntry, 'id' | 'created_at'>;
+
+export interface AuditLogFilters {
+  userId?: number;
+  patientGuid?: string;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  offset?: number;
+}
+
+let tableEnsured = false;
+
+export class AuditLogModel {
+  /**
+   * Create the audit table and the triggers that make it append-only.
+   * Existing databases predate schema.sql's definition, so this runs lazily.
+   */
+  static ensureTable(): void {
+    if (tableEnsured) {
+      return;
+    }
+
+    const db = getDatabase();
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS phi_audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        user_id INTEGER,
+        user_email TEXT,
+        environment TEXT NOT NULL,
+        action TEXT NOT NULL,
+        patient_guid TEXT,
+        appointment_guid TEXT,
+        outcome TEXT NOT NULL CHECK(outcome IN ('success', 'failure')),
+        status_code INTEGER NOT NULL,
+        error_message TEXT,
+        details TEXT,
+        ip_address TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_phi_audit_log_user ON phi_audit_log(user_id);
+      CREATE INDEX IF NOT EXISTS idx_phi_audit_log_patient ON phi_audit_log(patient_guid);
+      CREATE INDEX IF NOT EXISTS idx_phi_audit_log_created ON phi_audit_log(created_at);
+
+      CREATE TRIGGER IF NOT EXISTS trg_phi_audit_log_no_update
+      BEFORE UPDATE ON phi_audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'phi_audit_log is append-only');
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS trg_phi_audit_log_no_delete
+      BEFORE DELETE ON phi_audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'phi_audit_log is append-only');
+      END;
+    `);
+
+    tableEnsured = true;
+  }
+
+  /**
+   * Append an audit record
+   */
+  static create(input: CreateAuditLogInput): number {
+    AuditLogModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      const stmt = db.prepare(`
+        INSERT INTO phi_audit_log (
+          user_id, user_email, environment, action, patient_guid, appointment_guid,
+          outcome, status_code, error_message, details, ip_address
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const result = stmt.run(
+        input.user_id,
+        input.user_email,
+        input.environment,
+        input.action,
+        input.patient_guid,
+        input.appointment_guid,
+        input.outcome,
+        input.status_code,
+        input.error_message,
+        input.details,
+        input.ip_address
+      );
+
+      loggers.dbOperation('INSERT', 'phi_audit_log', { action: input.action });
+
+      return result.lastInsertRowid as number;
+    } catch (error) {
+      throw new Error(
+        `Error writing audit record: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Search audit records, newest first
+   */
+  static search(filters: AuditLogFilters): { entries: AuditLogEntry[]; total: number } {
+    AuditLogModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      const conditions: string[] = [];
+      const values: any[] = [];
+
+      if (filters.userId !== undefined) {
+        conditions.push('user_id = ?');
+        values.push(filters.userId);
+      }
+      if (filters.patientGuid) {
+        conditions.push('patient_guid = ?');
+        values.push(filters.patientGuid);
+      }
+      if (filters.action) {
+        conditions.push('action = ?');
+        values.push(filters.action);
+      }
+      if (filters.startDate) {
+        conditions.push('created_at >= ?');
+        values.push(filters.startDate);
+      }
+      if (filters.endDate) {
+        // Date-only end bounds include the whole day
+        conditions.push('created_at <= ?');
+        values.push(filters.endDate.length === 10 ? `${filters.endDate}T23:59:59.999Z` : filters.endDate);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const { total } = db.prepare(`
+        SELECT COUNT(*) as total FROM phi_audit_log ${where}
+      `).get(...values) as { total: number };
+
+      const limitClause = filters.limit !== undefined ? 'LIMIT ? OFFSET ?' : '';
+      const limitValues = filters.limit !== undefined ? [filters.limit, filters.offset || 0] : [];
+
+      const entries = db.prepare(`
+        SELECT * FROM phi_audit_log
+        ${where}
+        ORDER BY created_at DESC, id DESC
+        ${limitClause}
+      `).all(...values, ...limitValues) as AuditLogEntry[];
+
+      loggers.dbOperation('SELECT', 'phi_audit_log', { count: entries.length, total });
+
+      return { entries, total };
+    } catch (error) {
+      throw new Error(
+        `Error searching audit log: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
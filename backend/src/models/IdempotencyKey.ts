@@ -0,0 +1,161 @@
+import { getDatabase } from '../config/database';
+import { loggers } from '../utils/logger';
+
+/**
+ * Idempotency Key Model
+ * Stored results of write requests sent with an Idempotency-Key header, so a
+ * retried or double-submitted request replays the original response
+ */
+
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+export interface IdempotencyRecord {
+  id: number;
+  scope_key: string;
+  request_hash: string;
+  status: IdempotencyStatus;
+  response_status: number | null;
+  response_body: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+// Keys are remembered for a day; clients must not reuse them after that
+const TTL_HOURS = 24;
+
+let tableEnsured = false;
+
+export class IdempotencyKeyModel {
+  /**
+   * Create the table if needed (existing databases predate schema.sql's definition)
+   */
+  static ensureTable(): void {
+    if (tableEnsured) {
+      return;
+    }
+
+    getDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scope_key TEXT NOT NULL UNIQUE,
+        request_hash TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('in_progress', 'completed')),
+        response_status INTEGER,
+        response_body TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+    `);
+
+    tableEnsured = true;
+  }
+
+  /**
+   * Claim a key for a new request.
+   * Returns null when the key was claimed, or the existing record if the key is already in use.
+   */
+  static claim(scopeKey: string, requestHash: string): IdempotencyRecord | null {
+    IdempotencyKeyModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      return db.transaction(() => {
+        db.prepare(`DELETE FROM idempotency_keys WHERE expires_at <= datetime('now')`).run();
+
+        const result = db.prepare(`
+          INSERT OR IGNORE INTO idempotency_keys (scope_key, request_hash, status, expires_at)
+          VALUES (?, ?, 'in_progress', datetime('now', '+${TTL_HOURS} hours'))
+        `).run(scopeKey, requestHash);
+
+        if (result.changes > 0) {
+          loggers.dbOperation('INSERT', 'idempotency_keys', { scopeKey });
+          return null;
+        }
+
+        return db.prepare(`
+          SELECT * FROM idempotency_keys WHERE scope_key = ?
+        `).get(scopeKey) as IdempotencyRecord;
+      })();
+    } catch (error) {
+      throw new Error(
+        `Error claiming idempotency key: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Store the response for a claimed key
+   */
+  static complete(scopeKey: string, responseStatus: number, responseBody: unknown): void {
+    IdempotencyKeyModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      db.prepare(`
+        UPDATE idempotency_keys
+        SET status = 'completed', response_status = ?, response_body = ?
+        WHERE scope_key = ?
+      `).run(responseStatus, JSON.stringify(responseBody ?? null), scopeKey);
+
+      loggers.dbOperation('UPDATE', 'idempotency_keys', { scopeKey, responseStatus });
+    } catch (error) {
+      throw new Error(
+        `Error completing idempotency key: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Keep a claimed key in progress after a write whose outcome is unknown (Cloud 9
+   * timed out), recording the failure response. Retries get a 409 instead of
+   * re-sending a write that may already have been applied.
+   */
+  static markUnconfirmed(scopeKey: string, responseStatus: number, responseBody: unknown): void {
+    IdempotencyKeyModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      db.prepare(`
+        UPDATE idempotency_keys
+        SET response_status = ?, response_body = ?
+        WHERE scope_key = ? AND status = 'in_progress'
+      `).run(responseStatus, JSON.stringify(responseBody ?? null), scopeKey);
+
+      loggers.dbOperation('UPDATE', 'idempotency_keys', { scopeKey, responseStatus, unconfirmed: true });
+    } catch (error) {
+      throw new Error(
+        `Error marking idempotency key unconfirmed: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Release a claimed key (the request failed, so the client may retry with it)
+   */
+  static release(scopeKey: string): void {
+    IdempotencyKeyModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      db.prepare(`
+        DELETE FROM idempotency_keys WHERE scope_key = ? AND status = 'in_progress'
+      `).run(scopeKey);
+
+      loggers.dbOperation('DELETE', 'idempotency_keys', { scopeKey });
+    } catch (error) {
+      throw new Error(
+        `Error releasing idempotency key: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { getDatabase } from '../config/database';
+import { loggers } from '../utils/logger';
+
+/**
+ * Waitlist Entry Model
+ * Patients waiting for an opening that matches their location, appointment type,
+ * date window and time-of-day preference
+ */
+
+export type WaitlistStatus = 'waiting' | 'matched' | 'booked' | 'removed' | 'expired';
+export type TimeOfDayPreference = 'any' | 'morning' | 'afternoon';
+
+export interface WaitlistMatchedSlot {
+  dateTime: string;
+  endTime: string;
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  scheduleViewDescription?: string;
+  scheduleColumnDescription?: string;
+  durationMinutes: number;
+  locationGuid: string;
+  appointmentTypeGuid?: string;
+}
+
+export interface WaitlistEntry {
+  id: number;
+  environment: string;
+  tenant: string | null; // X-Tenant practice, or null for the environment's default PMS
+  patient_guid: string;
+  patient_name: string | null;
+  location_guid: string;
+  appointment_type_guid: string;
+  provider_guid: string | null; // schedule view GUID, or null for any chair at the location
+  earliest_date: string; // YYYY-MM-DD
+  latest_date: string; // YYYY-MM-DD
+  time_of_day: TimeOfDayPreference;
+  notes: string | null;
+  status: WaitlistStatus;
+  matched_slots: string | null; // JSON WaitlistMatchedSlot[]
+  matched_at: string | null;
+  last_checked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateWaitlistEntryInput {
+  environment: string;
+  tenant?: string | null;
+  patient_guid: string;
+  patient_name?: string | null;
+  location_guid: string;
+  appointment_type_guid: string;
+  provider_guid?: string | null;
+  earliest_date: string;
+  latest_date: string;
+  time_of_day: TimeOfDayPreference;
+  notes?: string | null;
+  created_by?: string | null;
+}
+
+// Entries the matcher still works on
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['waiting', 'matched'];
+
+let tableEnsured = false;
+
+export class WaitlistEntryModel {
+  /**
+   * Create the table if needed (existing databases predate schema.sql's definition)
+   */
+  static ensureTable(): void {
+    if (tableEnsured) {
+      return;
+    }
+
+    getDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS waitlist_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        environment TEXT NOT NULL,
+        tenant TEXT,
+        patient_guid TEXT NOT NULL,
+        patient_name TEXT,
+        location_guid TEXT NOT NULL,
+        appointment_type_guid TEXT NOT NULL,
+        provider_guid TEXT,
+        earliest_date TEXT NOT NULL,
+        latest_date TEXT NOT NULL,
+        time_of_day TEXT NOT NULL DEFAULT 'any' CHECK(time_of_day IN ('any', 'morning', 'afternoon')),
+        notes TEXT,
+        status TEXT NOT NULL DEFAULT 'waiting' CHECK(status IN ('waiting', 'matched', 'booked', 'removed', 'expired')),
+        matched_slots TEXT,
+        matched_at TEXT,
+        last_checked_at TEXT,
+        created_by TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_waitlist_entries_status ON waitlist_entries(environment, status);
+    `);
+
+    // Entries created before tenants were tracked belong to the default PMS
+    const columns = getDatabase().prepare(`PRAGMA table_info(waitlist_entries)`).all() as Array<{ name: string }>;
+    if (!columns.some((column) => column.name === 'tenant')) {
+      getDatabase().exec(`ALTER TABLE waitlist_entries ADD COLUMN tenant TEXT`);
+    }
+
+    tableEnsured = true;
+  }
+
+  /**
+   * Add a patient to the waitlist
+   */
+  static create(input: CreateWaitlistEntryInput): WaitlistEntry {
+    WaitlistEntryModel.ensureTable();
+    const db = getDatabase();
+
+    try {
+      const result = db.prepare(`
+        INSERT INTO waitlist_entries (
+          environment, tenant, patient_guid, patient_name, location_guid, appointment_type_guid,
+          provider_guid, earliest_date, latest_date, time_of_day, notes, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        input.environment,
+        input.tenant ?? null,
+        input.patient_guid,
+        input.patient_name ?? null,
+        input.location_guid,
+        input.appointment_type_guid,
+        input.provider_guid ?? null,
+        input.earliest_date,
+        input.latest_date,
+        input.time_of_day,
+        input.notes ?? null,
+        input.created_by ?? null
+      );
+
+      loggers.dbOperation('INSERT', 'waitlist_entries', { id: result.lastInsertRowid });
+      return WaitlistEntryModel.getById(Number(result.lastInsertRowid)) as WaitlistEntry;
+    } catch (error) {
+      throw new Error(
+        `Error creating waitlist entry: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Get a waitlist entry by ID
+   */
+  static getById(id: number): WaitlistEntry | null {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      const entry = getDatabase().prepare(`
+        SELECT * FROM waitlist_entries WHERE id = ?
+      `).get(id) as WaitlistEntry | undefined;
+
+      return entry || null;
+    } catch (error) {
+      throw new Error(
+        `Error fetching waitlist entry: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * List entries for an environment, optionally limited to some statuses (oldest first).
+   * A tenant (null for the default PMS) limits the list to that practice; undefined lists every practice.
+   */
+  static list(environment: string, statuses?: WaitlistStatus[], tenant?: string | null): WaitlistEntry[] {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      const statusClause = statuses?.length
+        ? `AND status IN (${statuses.map(() => '?').join(', ')})`
+        : '';
+      const tenantClause = tenant === undefined ? '' : 'AND tenant IS ?';
+
+      return getDatabase().prepare(`
+        SELECT * FROM waitlist_entries
+        WHERE environment = ? ${statusClause} ${tenantClause}
+        ORDER BY created_at ASC, id ASC
+      `).all(environment, ...(statuses || []), ...(tenant === undefined ? [] : [tenant])) as WaitlistEntry[];
+    } catch (error) {
+      throw new Error(
+        `Error listing waitlist entries: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Environments that have entries the matcher still needs to check
+   */
+  static getActiveEnvironments(): string[] {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      const rows = getDatabase().prepare(`
+        SELECT DISTINCT environment FROM waitlist_entries
+        WHERE status IN (${ACTIVE_WAITLIST_STATUSES.map(() => '?').join(', ')})
+      `).all(...ACTIVE_WAITLIST_STATUSES) as { environment: string }[];
+
+      return rows.map((row) => row.environment);
+    } catch (error) {
+      throw new Error(
+        `Error fetching waitlist environments: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Record the result of a matching pass. Empty slots move a matched entry back to waiting.
+   */
+  static recordCheck(id: number, slots: WaitlistMatchedSlot[]): void {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      if (slots.length > 0) {
+        getDatabase().prepare(`
+          UPDATE waitlist_entries
+          SET status = 'matched',
+              matched_slots = ?,
+              matched_at = CASE WHEN status = 'matched' THEN matched_at ELSE datetime('now') END,
+              last_checked_at = datetime('now'),
+              updated_at = datetime('now')
+          WHERE id = ? AND status IN ('waiting', 'matched')
+        `).run(JSON.stringify(slots), id);
+      } else {
+        getDatabase().prepare(`
+          UPDATE waitlist_entries
+          SET status = 'waiting',
+              matched_slots = NULL,
+              matched_at = NULL,
+              last_checked_at = datetime('now'),
+              updated_at = datetime('now')
+          WHERE id = ? AND status IN ('waiting', 'matched')
+        `).run(id);
+      }
+    } catch (error) {
+      throw new Error(
+        `Error recording waitlist check: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Set an entry's status (booked, removed, expired, or back to waiting)
+   */
+  static updateStatus(id: number, status: WaitlistStatus): WaitlistEntry | null {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      getDatabase().prepare(`
+        UPDATE waitlist_entries
+        SET status = ?,
+            matched_slots = CASE WHEN ? = 'matched' THEN matched_slots ELSE NULL END,
+            matched_at = CASE WHEN ? = 'matched' THEN matched_at ELSE NULL END,
+            updated_at = datetime('now')
+        WHERE id = ?
+      `).run(status, status, status, id);
+
+      loggers.dbOperation('UPDATE', 'waitlist_entries', { id, status });
+      return WaitlistEntryModel.getById(id);
+    } catch (error) {
+      throw new Error(
+        `Error updating waitlist entry: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Expire active entries whose window has passed
+   */
+  static expirePast(environment: string, today: string): number {
+    WaitlistEntryModel.ensureTable();
+
+    try {
+      const result = getDatabase().prepare(`
+        UPDATE waitlist_entries
+        SET status = 'expired', matched_slots = NULL, updated_at = datetime('now')
+        WHERE environment = ? AND status IN ('waiting', 'matched') AND latest_date < ?
+      `).run(environment, today);
+
+      return result.changes;
+    } catch (error) {
+      throw new Error(
+        `Error expiring waitlist entries: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -29,4 +29,10 @@ router.put('/users/:id/permissions', adminController.setUserPermissions);
 // POST /api/admin/users/:id/reset-password
 router.post('/users/:id/reset-password', adminController.resetPassword);
 
+// GET /api/admin/audit-log?userId=1&patientGuid=XXX&startDate=2025-01-01&endDate=2025-01-31
+router.get('/audit-log', adminController.getAuditLog);
+
+// GET /api/admin/audit-log/export (CSV, same filters)
+router.get('/audit-log/export', adminController.exportAuditLog);
+
 export default router;
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as appointmentController from '../controllers/appointmentController';
+import { auditPhiAccess } from '../middleware/audit';
+import { idempotent } from '../middleware/idempotency';
 
 /**
  * Appointment Routes
@@ -11,19 +13,30 @@ const router = Router();
 // GET /api/appointments/patient/:patientGuid
 router.get('/patient/:patientGuid', appointmentController.getPatientAppointments);
 
-// GET /api/appointments/date-range?startDate=2025-01-01&endDate=2025-01-31
-router.get('/date-range', appointmentController.getAppointmentsByDateRange);
+// GET /api/appointments/date-range?startDate=2025-01-01&endDate=2025-01-31[&locationGuid&providerGuid&appointmentTypeGuid&status&page&pageSize]
+router.get('/date-range', auditPhiAccess('appointment.list'), appointmentController.getAppointmentsByDateRange);
 
 // GET /api/appointments/available?locationGuid=XXX&startDate=01/01/2025&endDate=01/31/2025
 router.get('/available', appointmentController.getAvailableAppointments);
 
-// POST /api/appointments
-router.post('/', appointmentController.createAppointment);
+// GET /api/appointments/availability-grid?locationGuid=XXX&weekStart=2025-01-06[&appointmentTypeGuid&blockMinutes=30]
+router.get('/availability-grid', appointmentController.getAvailabilityGrid);
+
+// POST /api/appointments (honors Idempotency-Key)
+router.post('/', auditPhiAccess('appointment.book'), idempotent('appointments.create'), appointmentController.createAppointment);
 
 // PUT /api/appointments/:appointmentGuid/confirm
-router.put('/:appointmentGuid/confirm', appointmentController.confirmAppointment);
+router.put('/:appointmentGuid/confirm', auditPhiAccess('appointment.confirm'), appointmentController.confirmAppointment);
 
 // PUT /api/appointments/:appointmentGuid/cancel
-router.put('/:appointmentGuid/cancel', appointmentController.cancelAppointment);
+router.put('/:appointmentGuid/cancel', auditPhiAccess('appointment.cancel'), appointmentController.cancelAppointment);
+
+// PUT /api/appointments/:appointmentGuid/reschedule (honors Idempotency-Key)
+router.put(
+  '/:appointmentGuid/reschedule',
+  auditPhiAccess('appointment.reschedule'),
+  idempotent('appointments.reschedule'),
+  appointmentController.rescheduleAppointment
+);
 
 export default router;
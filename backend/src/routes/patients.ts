@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as patientController from '../controllers/patientController';
+import { auditPhiAccess } from '../middleware/audit';
+import { idempotent } from '../middleware/idempotency';
 
 /**
  * Patient Routes
@@ -9,15 +11,26 @@ import * as patientController from '../controllers/patientController';
 const router = Router();
 
 // GET /api/patients/search?query=Smith&pageIndex=1&pageSize=25
-router.get('/search', patientController.searchPatients);
+router.get('/search', auditPhiAccess('patient.search'), patientController.searchPatients);
+
+// GET /api/patients/export?query=Smith (CSV)
+router.get('/export', auditPhiAccess('patient.export'), patientController.exportPatients);
 
 // GET /api/patients/:patientGuid
-router.get('/:patientGuid', patientController.getPatient);
+router.get('/:patientGuid', auditPhiAccess('patient.view'), patientController.getPatient);
+
+// POST /api/patients (honors Idempotency-Key)
+router.post('/', auditPhiAccess('patient.create'), idempotent('patients.create'), patientController.createPatient);
 
-// POST /api/patients
-router.post('/', patientController.createPatient);
+// POST /api/patients/import (multipart: file=<csv>, dryRun=true|false)
+router.post(
+  '/import',
+  auditPhiAccess('patient.import'),
+  patientController.csvUpload.single('file'),
+  patientController.importPatients
+);
 
 // PUT /api/patients/:patientGuid
-router.put('/:patientGuid', patientController.updatePatient);
+router.put('/:patientGuid', auditPhiAccess('patient.update'), patientController.updatePatient);
 
 export default router;
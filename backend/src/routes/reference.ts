@@ -17,6 +17,9 @@ router.get('/appointment-types', referenceController.getAppointmentTypes);
 // GET /api/reference/providers
 router.get('/providers', referenceController.getProviders);
 
+// GET /api/reference/tenants
+router.get('/tenants', referenceController.getTenantList);
+
 // POST /api/reference/refresh
 router.post('/refresh', referenceController.refreshAllCaches);
 
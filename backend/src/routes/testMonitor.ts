@@ -55,6 +55,28 @@ router.get('/cleanup/status', testMonitorController.getCleanupStatus);
 // POST /api/test-monitor/cleanup/stale - Manually trigger stale run cleanup
 router.post('/cleanup/stale', testMonitorController.triggerStaleCleanup);
 
+// ============================================================================
+// TEST SCHEDULE ROUTES
+// ============================================================================
+
+// GET /api/test-monitor/schedules - List test schedules
+router.get('/schedules', testMonitorController.getTestSchedules);
+
+// POST /api/test-monitor/schedules - Create a test schedule
+router.post('/schedules', testMonitorController.createTestSchedule);
+
+// GET /api/test-monitor/schedules/:id - Get a schedule with its recent runs
+router.get('/schedules/:id', testMonitorController.getTestSchedule);
+
+// PUT /api/test-monitor/schedules/:id - Update a test schedule
+router.put('/schedules/:id', testMonitorController.updateTestSchedule);
+
+// DELETE /api/test-monitor/schedules/:id - Delete a test schedule
+router.delete('/schedules/:id', testMonitorController.deleteTestSchedule);
+
+// POST /api/test-monitor/schedules/:id/run - Run a schedule now
+router.post('/schedules/:id/run', testMonitorController.runTestScheduleNow);
+
 // POST /api/test-monitor/runs/:runId/abort - Mark a specific run as aborted
 router.post('/runs/:runId/abort', testMonitorController.abortTestRun);
 
@@ -75,6 +97,9 @@ router.get('/runs/:runId/fixes', testMonitorController.getFixesForRun);
 // POST /api/test-monitor/runs/:runId/diagnose - Run failure analysis and generate fixes
 router.post('/runs/:runId/diagnose', testMonitorController.runDiagnosis);
 
+// GET /api/test-monitor/runs/:runId/export - Download a run as JUnit XML (?format=junit) or SARIF findings (?format=sarif)
+router.get('/runs/:runId/export', testMonitorController.exportTestRun);
+
 // GET /api/test-monitor/runs/:runId/error-clusters - Get error clusters for a run
 router.get('/runs/:runId/error-clusters', testMonitorController.getErrorClusters);
 
@@ -160,6 +185,9 @@ router.post('/prompts/:fileKey/reset', testMonitorController.resetPromptFromDisk
 // POST /api/test-monitor/prompts/:fileKey/mark-deployed - Mark a prompt version as deployed
 router.post('/prompts/:fileKey/mark-deployed', testMonitorController.markPromptAsDeployed);
 
+// POST /api/test-monitor/prompts/:fileKey/deploy - Push a prompt version to the Flowise chatflow
+router.post('/prompts/:fileKey/deploy', testMonitorController.deployPromptToFlowise);
+
 // GET /api/test-monitor/prompts/:fileKey/deployment-history - Get deployment history
 router.get('/prompts/:fileKey/deployment-history', testMonitorController.getDeploymentHistory);
 
@@ -236,6 +264,9 @@ router.put('/goal-tests/:caseId', testMonitorController.updateGoalTestCase);
 // DELETE /api/test-monitor/goal-tests/:caseId - Archive/delete goal-based test case
 router.delete('/goal-tests/:caseId', testMonitorController.deleteGoalTestCase);
 
+// PUT /api/test-monitor/goal-tests/:caseId/quarantine - Quarantine or release a goal test case
+router.put('/goal-tests/:caseId/quarantine', testMonitorController.setGoalTestQuarantine);
+
 // POST /api/test-monitor/goal-tests/validate - Validate goal test case without saving
 router.post('/goal-tests/validate', testMonitorController.validateGoalTestCase);
 
@@ -390,6 +421,22 @@ router.get('/v1-files/:fileKey', testMonitorController.getV1File);
 // POST /api/test-monitor/v1-files/:fileKey/validate - Validate V1 file content
 router.post('/v1-files/:fileKey/validate', testMonitorController.validateV1File);
 
+// ============================================================================
+// NODE-RED DEPLOYMENT ROUTES
+// ============================================================================
+
+// GET /api/test-monitor/nodered/diff - Diff running Node-RED flows against the V1 flow file
+router.get('/nodered/diff', testMonitorController.getNodeRedDiff);
+
+// POST /api/test-monitor/nodered/deploy - Deploy the V1 flow file via the Node-RED admin API
+router.post('/nodered/deploy', testMonitorController.deployNodeRedFlows);
+
+// GET /api/test-monitor/nodered/deployments - List Node-RED deployments
+router.get('/nodered/deployments', testMonitorController.getNodeRedDeployments);
+
+// POST /api/test-monitor/nodered/deployments/:id/rollback - Restore the flows a deployment replaced
+router.post('/nodered/deployments/:id/rollback', testMonitorController.rollbackNodeRedDeployment);
+
 // ============================================================================
 // APP SETTINGS ROUTES
 // ============================================================================
@@ -484,6 +531,9 @@ router.post('/production-calls/sessions/rebuild', testMonitorController.rebuildP
 // GET /api/test-monitor/production-calls/sessions/:sessionId - Get single session with all traces
 router.get('/production-calls/sessions/:sessionId', testMonitorController.getProductionSession);
 
+// POST /api/test-monitor/production-calls/sessions/:sessionId/goal-test - Create goal test from session
+router.post('/production-calls/sessions/:sessionId/goal-test', testMonitorController.createGoalTestFromSession);
+
 // GET /api/test-monitor/production-calls/import-history - Get import history
 router.get('/production-calls/import-history', testMonitorController.getImportHistory);
 
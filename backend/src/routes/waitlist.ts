@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import * as waitlistController from '../controllers/waitlistController';
+import { auditPhiAccess } from '../middleware/audit';
+
+/**
+ * Waitlist Routes
+ * /api/waitlist/*
+ */
+
+const router = Router();
+
+// GET /api/waitlist?status=waiting,matched
+router.get('/', auditPhiAccess('waitlist.view'), waitlistController.getWaitlist);
+
+// POST /api/waitlist
+router.post('/', auditPhiAccess('waitlist.add'), waitlistController.createWaitlistEntry);
+
+// POST /api/waitlist/match
+router.post('/match', waitlistController.runMatching);
+
+// PUT /api/waitlist/:id/status
+router.put('/:id/status', auditPhiAccess('waitlist.update'), waitlistController.updateWaitlistStatus);
+
+export default router;
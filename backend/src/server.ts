@@ -4,6 +4,9 @@ import logger from './utils/logger';
 import { getDatabase } from './config/database';
 import { seedMasterAdmin } from './services/authService';
 import { initializeTestRunCleanup, stopPeriodicCleanup } from './services/testRunCleanupService';
+import { startMockCloud9Server } from './services/cloud9/mock/server';
+import { startWaitlistPolling, stopWaitlistPolling } from './services/waitlistService';
+import { startTestScheduler, stopTestScheduler } from './services/testScheduleService';
 
 // Load environment variables
 dotenv.config();
@@ -29,6 +32,15 @@ seedMasterAdmin().catch((error) => {
   });
 });
 
+// Start the local Cloud 9 mock (the 'mock' environment) in-process when requested
+if (process.env.CLOUD9_MOCK_AUTOSTART === 'true') {
+  startMockCloud9Server().catch((error) => {
+    logger.error('Failed to start Cloud 9 mock server', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
 // Start server
 const server = app.listen(Number(PORT), HOST, () => {
   logger.info(`Server started successfully`, {
@@ -55,6 +67,12 @@ const server = app.listen(Number(PORT), HOST, () => {
 
   // Initialize test run cleanup service (marks abandoned runs & starts periodic cleanup)
   initializeTestRunCleanup();
+
+  // Start matching waitlisted patients against open slots
+  startWaitlistPolling();
+
+  // Launch scheduled goal test runs (nightly regressions etc.)
+  startTestScheduler();
 });
 
 // Graceful shutdown
@@ -63,6 +81,8 @@ const gracefulShutdown = (signal: string) => {
 
   // Stop the test run cleanup service
   stopPeriodicCleanup();
+  stopWaitlistPolling();
+  stopTestScheduler();
 
   server.close(() => {
     logger.info('HTTP server closed');
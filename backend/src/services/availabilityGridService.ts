@@ -0,0 +1,177 @@
+/**
+ * Availability Grid Service
+ *
+ * Lays out one location's week as chairs × time blocks:
+ * - open:   an online-bookable opening from the PMS slot search covers the block
+ * - booked: an existing appointment covers the block
+ * - closed: neither (outside the chair's template, blocked time, or too short for the type)
+ *
+ * Booked wins over open when both cover a block.
+ */
+
+import type { PmsAppointment, PmsProviderSchedule, PmsSlot } from './pms/types';
+import { parseCloud9DateTime } from '../utils/cloud9Dates';
+
+// GetOnlineReservations is always asked for 7:00 AM - 5:00 PM (see xmlBuilder)
+export const GRID_DAY_START_HOUR = 7;
+export const GRID_DAY_END_HOUR = 17;
+export const GRID_BLOCK_MINUTES = [15, 30, 60];
+export const GRID_DAYS = 7;
+
+export type AvailabilityCellState = 'open' | 'booked' | 'closed';
+
+export interface AvailabilityChairRow {
+  scheduleViewGuid: string;
+  scheduleViewDescription: string;
+  scheduleColumnGuid: string;
+  scheduleColumnDescription: string;
+  // cells[dayIndex][blockIndex]
+  cells: AvailabilityCellState[][];
+  openBlocks: number;
+  bookedBlocks: number;
+}
+
+export interface AvailabilityGrid {
+  locationGuid: string;
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string; // YYYY-MM-DD
+  blockMinutes: number;
+  days: string[]; // YYYY-MM-DD
+  times: string[]; // HH:mm block start times
+  chairs: AvailabilityChairRow[];
+  // Appointments at the location that could not be put in a chair row (no column GUID)
+  unplacedAppointments: number;
+}
+
+export interface BuildAvailabilityGridInput {
+  locationGuid: string;
+  weekStart: Date;
+  blockMinutes: number;
+  chairs: PmsProviderSchedule[];
+  slots: PmsSlot[];
+  appointments: PmsAppointment[];
+}
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+}
+
+function isCanceled(appointment: PmsAppointment): boolean {
+  return /cancel/i.test(appointment.status_description || appointment.status || '');
+}
+
+/**
+ * Build the grid. Inputs are expected to be for the location and week already;
+ * anything outside the week or the day window is ignored.
+ */
+export function buildAvailabilityGrid(input: BuildAvailabilityGridInput): AvailabilityGrid {
+  const { locationGuid, weekStart, blockMinutes } = input;
+  const blocksPerDay = ((GRID_DAY_END_HOUR - GRID_DAY_START_HOUR) * 60) / blockMinutes;
+
+  const days: Date[] = Array.from(
+    { length: GRID_DAYS },
+    (_, i) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i)
+  );
+  const times = Array.from({ length: blocksPerDay }, (_, i) => {
+    const minutes = GRID_DAY_START_HOUR * 60 + i * blockMinutes;
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  });
+
+  // One row per chair (schedule column); Cloud 9 can repeat a column across views
+  const rows = new Map<string, AvailabilityChairRow>();
+  for (const chair of input.chairs) {
+    if (chair.locationGuid !== locationGuid || rows.has(chair.scheduleColumnGuid)) {
+      continue;
+    }
+    rows.set(chair.scheduleColumnGuid, {
+      scheduleViewGuid: chair.scheduleViewGuid,
+      scheduleViewDescription: chair.scheduleViewDescription || '',
+      scheduleColumnGuid: chair.scheduleColumnGuid,
+      scheduleColumnDescription: chair.scheduleColumnDescription || '',
+      cells: days.map(() => Array<AvailabilityCellState>(blocksPerDay).fill('closed')),
+      openBlocks: 0,
+      bookedBlocks: 0,
+    });
+  }
+
+  // Mark every block that [start, end) overlaps
+  const mark = (row: AvailabilityChairRow, start: Date, end: Date, state: AvailabilityCellState) => {
+    const dayIndex = days.findIndex((day) => toIsoDate(day) === toIsoDate(start));
+    if (dayIndex === -1) {
+      return;
+    }
+
+    const dayStartMinutes = GRID_DAY_START_HOUR * 60;
+    const startMinutes = start.getHours() * 60 + start.getMinutes() - dayStartMinutes;
+    const endMinutes = startMinutes + (end.getTime() - start.getTime()) / 60000;
+    const first = Math.max(Math.floor(startMinutes / blockMinutes), 0);
+    const last = Math.min(Math.ceil(endMinutes / blockMinutes), blocksPerDay);
+
+    for (let block = first; block < last; block++) {
+      if (state === 'booked' || row.cells[dayIndex][block] === 'closed') {
+        row.cells[dayIndex][block] = state;
+      }
+    }
+  };
+
+  for (const slot of input.slots) {
+    const row = rows.get(slot.scheduleColumnGuid);
+    const start = parseCloud9DateTime(slot.dateTime);
+    const end = parseCloud9DateTime(slot.endTime);
+    if (row && start && end) {
+      mark(row, start, end, 'open');
+    }
+  }
+
+  let unplacedAppointments = 0;
+  for (const appointment of input.appointments) {
+    if (appointment.location_guid && appointment.location_guid !== locationGuid) {
+      continue;
+    }
+    if (isCanceled(appointment)) {
+      continue;
+    }
+
+    const start = parseCloud9DateTime(appointment.appointment_date_time);
+    if (!start) {
+      continue;
+    }
+
+    const row = appointment.schedule_column_guid ? rows.get(appointment.schedule_column_guid) : undefined;
+    if (!row) {
+      unplacedAppointments += 1;
+      continue;
+    }
+
+    const minutes = Number(appointment.appointment_minutes) || blockMinutes;
+    mark(row, start, new Date(start.getTime() + minutes * 60000), 'booked');
+  }
+
+  const chairs = Array.from(rows.values())
+    .map((row) => {
+      const cells = row.cells.flat();
+      return {
+        ...row,
+        openBlocks: cells.filter((cell) => cell === 'open').length,
+        bookedBlocks: cells.filter((cell) => cell === 'booked').length,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.scheduleViewDescription.localeCompare(b.scheduleViewDescription) ||
+        a.scheduleColumnDescription.localeCompare(b.scheduleColumnDescription, undefined, { numeric: true })
+    );
+
+  return {
+    locationGuid,
+    weekStart: toIsoDate(days[0]),
+    weekEnd: toIsoDate(days[days.length - 1]),
+    blockMinutes,
+    days: days.map(toIsoDate),
+    times,
+    chairs,
+    unplacedAppointments,
+  };
+}
@@ -1,6 +1,6 @@
 import { getDatabase } from '../config/database';
 import logger, { loggers } from '../utils/logger';
-import { Environment, isCachingEnabled } from '../config/cloud9';
+import { Environment, isCachingEnabled, isPayloadCachingEnabled } from '../config/cloud9';
 
 /**
  * Cache Service
@@ -14,6 +14,8 @@ export interface CacheMetadata {
   environment: Environment;
 }
 
+let payloadTableEnsured = false;
+
 export class CacheService {
   private environment: Environment;
 
@@ -211,6 +213,108 @@ export class CacheService {
     }
   }
 
+  /**
+   * Create the payload table if needed (existing databases predate schema.sql's definition)
+   */
+  private ensurePayloadTable(): void {
+    if (payloadTableEnsured) {
+      return;
+    }
+
+    getDatabase().exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        cache_key TEXT NOT NULL,
+        environment TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        PRIMARY KEY (cache_key, environment)
+      );
+    `);
+
+    payloadTableEnsured = true;
+  }
+
+  /**
+   * Get a cached response payload, or null if missing, expired or payload caching is disabled
+   */
+  getPayload<T>(cacheKey: string): T | null {
+    if (!isPayloadCachingEnabled()) {
+      return null;
+    }
+
+    try {
+      this.ensurePayloadTable();
+      const row = getDatabase().prepare(`
+        SELECT payload
+        FROM cache_entries
+        WHERE cache_key = ? AND environment = ? AND expires_at > datetime('now')
+      `).get(cacheKey, this.environment) as { payload: string } | undefined;
+
+      if (!row) {
+        loggers.cacheMiss(cacheKey, 'payload');
+        return null;
+      }
+
+      loggers.cacheHit(cacheKey, 'payload');
+      return JSON.parse(row.payload) as T;
+    } catch (error) {
+      logger.error('Error reading cached payload', {
+        cacheKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store a response payload for ttl seconds
+   */
+  setPayload(cacheKey: string, payload: unknown, ttl: number): void {
+    if (!isPayloadCachingEnabled()) {
+      return;
+    }
+
+    try {
+      this.ensurePayloadTable();
+      const db = getDatabase();
+      db.prepare(`DELETE FROM cache_entries WHERE expires_at <= datetime('now')`).run();
+      db.prepare(`
+        INSERT OR REPLACE INTO cache_entries (cache_key, environment, payload, expires_at)
+        VALUES (?, ?, ?, datetime('now', ?))
+      `).run(cacheKey, this.environment, JSON.stringify(payload), `+${ttl} seconds`);
+
+      loggers.cacheRefresh(cacheKey, ttl);
+    } catch (error) {
+      logger.error('Error storing cached payload', {
+        cacheKey,
+        ttl,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop cached payloads whose key starts with prefix (e.g. after a write)
+   */
+  clearPayloads(prefix: string): void {
+    try {
+      this.ensurePayloadTable();
+      const result = getDatabase().prepare(`
+        DELETE FROM cache_entries
+        WHERE environment = ? AND substr(cache_key, 1, ?) = ?
+      `).run(this.environment, prefix.length, prefix);
+
+      if (result.changes > 0) {
+        logger.info('Cached payloads cleared', { prefix, environment: this.environment, count: result.changes });
+      }
+    } catch (error) {
+      logger.error('Error clearing cached payloads', {
+        prefix,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Set environment for this cache service instance
    */
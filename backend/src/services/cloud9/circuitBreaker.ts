@@ -0,0 +1,145 @@
+import { Environment } from '../../config/cloud9';
+import { AppError } from '../../middleware/errorHandler';
+import logger from '../../utils/logger';
+
+/**
+ * Cloud 9 Circuit Breaker
+ * One breaker per environment. After a run of transport failures (timeouts,
+ * connection errors, 5xx) the breaker opens and requests fail fast until the
+ * cool-down elapses; then a single probe request decides whether to close again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: string | null;
+  lastFailureMessage: string | null;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+const FAILURE_THRESHOLD = Number(process.env.CLOUD9_BREAKER_FAILURE_THRESHOLD ?? 5);
+const RESET_TIMEOUT_MS = Number(process.env.CLOUD9_BREAKER_RESET_MS ?? 30000);
+
+/**
+ * Error code for a write Cloud 9 never answered: it may or may not have been applied
+ */
+export const CLOUD9_WRITE_UNCONFIRMED = 'CLOUD9_WRITE_UNCONFIRMED';
+
+/**
+ * Thrown instead of the raw HTTP error when Cloud 9 cannot be reached
+ */
+export class Cloud9UnavailableError extends AppError {
+  constructor(message: string = 'Cloud 9 is temporarily unavailable. Please try again in a minute.', code?: string) {
+    super(message, 503, code);
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailureAt: Date | null = null;
+  private lastFailureMessage: string | null = null;
+  private openedAt: Date | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold: number = FAILURE_THRESHOLD,
+    private readonly resetTimeoutMs: number = RESET_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Whether a request may go out now. Moves open -> half_open once the cool-down
+   * has elapsed and lets exactly one probe through.
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.openedAt && Date.now() - this.openedAt.getTime() >= this.resetTimeoutMs) {
+      this.state = 'half_open';
+      this.probeInFlight = false;
+      logger.info('Cloud 9 circuit half-open, probing', { environment: this.name });
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Cloud 9 circuit closed', { environment: this.name });
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(message: string): void {
+    this.consecutiveFailures += 1;
+    this.lastFailureAt = new Date();
+    this.lastFailureMessage = message;
+    this.probeInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.error('Cloud 9 circuit opened', {
+          environment: this.name,
+          consecutiveFailures: this.consecutiveFailures,
+          lastError: message,
+        });
+      }
+      this.state = 'open';
+      this.openedAt = new Date();
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureAt: this.lastFailureAt?.toISOString() ?? null,
+      lastFailureMessage: this.lastFailureMessage,
+      openedAt: this.openedAt?.toISOString() ?? null,
+      retryAt:
+        this.state === 'open' && this.openedAt
+          ? new Date(this.openedAt.getTime() + this.resetTimeoutMs).toISOString()
+          : null,
+    };
+  }
+}
+
+const breakers = new Map<Environment, CircuitBreaker>();
+
+/**
+ * Get (or create) the breaker shared by every client for an environment
+ */
+export function getCircuitBreaker(environment: Environment): CircuitBreaker {
+  let breaker = breakers.get(environment);
+  if (!breaker) {
+    breaker = new CircuitBreaker(environment);
+    breakers.set(environment, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Snapshot of every breaker that has seen traffic (for /health)
+ */
+export function getCircuitBreakerStates(): Partial<Record<Environment, CircuitBreakerSnapshot>> {
+  const states: Partial<Record<Environment, CircuitBreakerSnapshot>> = {};
+  for (const [environment, breaker] of breakers) {
+    states[environment] = breaker.getSnapshot();
+  }
+  return states;
+}
@@ -11,6 +11,7 @@ import {
   buildSetPatientRequest,
   buildSetPatientDemographicInfoRequest,
   buildGetAppointmentListByPatientRequest,
+  buildGetExistingApptsRequest,
   buildSetAppointmentRequest,
   buildSetAppointmentStatusConfirmedRequest,
   buildSetAppointmentStatusCanceledRequest,
@@ -19,10 +20,38 @@ import {
   UpdatePatientParams,
   CreateAppointmentParams,
   GetAvailableApptsParams,
+  GetExistingApptsParams,
 } from './xmlBuilder';
 import { parseXmlResponse, Cloud9Response } from './xmlParser';
 import logger, { loggers } from '../../utils/logger';
-import { Cloud9Procedure } from './procedures';
+import { Cloud9Procedure, getProcedurePolicy } from './procedures';
+import { getCircuitBreaker, Cloud9UnavailableError, CLOUD9_WRITE_UNCONFIRMED } from './circuitBreaker';
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+
+/**
+ * Timeouts, dropped connections and 5xx responses are worth retrying;
+ * anything else (4xx, malformed requests) will fail the same way again
+ */
+function isTransientError(error: AxiosError): boolean {
+  if (!error.response) {
+    return true;
+  }
+  return error.response.status >= 500 || error.response.status === 429;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 /**
  * Cloud 9 API Client
@@ -37,62 +66,105 @@ export class Cloud9Client {
   }
 
   /**
-   * Make a generic request to the Cloud 9 API
+   * Make a request to the Cloud 9 API under the procedure's timeout/retry policy.
+   * Transport failures feed the environment's circuit breaker; while it is open
+   * requests fail fast with a 503 instead of waiting on a dead endpoint.
    */
   private async makeRequest(xmlBody: string, procedure: string): Promise<Cloud9Response> {
     const endpoint = getEndpoint(this.environment);
+    const policy = getProcedurePolicy(procedure);
+    const breaker = getCircuitBreaker(this.environment);
 
-    try {
-      loggers.cloud9Request(procedure, this.environment);
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.canRequest()) {
+        logger.warn('Cloud 9 circuit open, failing fast', { procedure, environment: this.environment });
+        throw new Cloud9UnavailableError();
+      }
+
+      try {
+        loggers.cloud9Request(procedure, this.environment);
 
-      const response = await axios.get(endpoint, {
-        headers: {
-          'Content-Type': 'application/xml',
-        },
-        data: xmlBody,
-        timeout: 30000, // 30 second timeout
-      });
+        const response = await axios.get(endpoint, {
+          headers: {
+            'Content-Type': 'application/xml',
+          },
+          data: xmlBody,
+          timeout: policy.timeoutMs,
+        });
 
-      const parsedResponse = await parseXmlResponse(response.data);
+        // Any well-formed HTTP response means Cloud 9 is up, even if it reports an error
+        breaker.recordSuccess();
 
-      // Log raw XML if there's an error for debugging
-      if (parsedResponse.status === 'Error') {
-        logger.error('Cloud 9 API Error - Raw XML Response', {
+        const parsedResponse = await parseXmlResponse(response.data);
+
+        // Log raw XML if there's an error for debugging
+        if (parsedResponse.status === 'Error') {
+          logger.error('Cloud 9 API Error - Raw XML Response', {
+            procedure,
+            xmlResponse: response.data.substring(0, 1000), // First 1000 chars
+          });
+        }
+
+        loggers.cloud9Response(
           procedure,
-          xmlResponse: response.data.substring(0, 1000), // First 1000 chars
-        });
-      }
+          parsedResponse.status,
+          parsedResponse.records.length,
+          parsedResponse.errorMessage
+        );
+
+        return parsedResponse;
+      } catch (error) {
+        if (!(error instanceof AxiosError)) {
+          logger.error('Cloud 9 API Error', {
+            procedure,
+            environment: this.environment,
+            error: error instanceof Error ? error.message : String(error),
+          });
 
-      loggers.cloud9Response(
-        procedure,
-        parsedResponse.status,
-        parsedResponse.records.length,
-        parsedResponse.errorMessage
-      );
+          throw error;
+        }
 
-      return parsedResponse;
-    } catch (error) {
-      if (error instanceof AxiosError) {
         logger.error('Cloud 9 API HTTP Error', {
           procedure,
           environment: this.environment,
+          attempt: attempt + 1,
           status: error.response?.status,
           message: error.message,
           data: error.response?.data,
         });
 
-        throw new Error(
-          `Cloud 9 API HTTP Error: ${error.message} (${error.response?.status || 'unknown'})`
-        );
+        if (!isTransientError(error)) {
+          // Cloud 9 answered, so this says nothing about its availability
+          breaker.recordSuccess();
+          throw new Error(
+            `Cloud 9 API HTTP Error: ${error.message} (${error.response?.status || 'unknown'})`
+          );
+        }
+
+        breaker.recordFailure(error.message);
+
+        if (attempt < policy.maxRetries) {
+          const delayMs = getBackoffDelay(attempt);
+          logger.warn('Retrying Cloud 9 request', {
+            procedure,
+            environment: this.environment,
+            attempt: attempt + 1,
+            maxRetries: policy.maxRetries,
+            delayMs,
+          });
+          await sleep(delayMs);
+          continue;
+        }
+
+        // Writes are never retried: a timed-out write may still have been applied
+        if (!policy.readOnly) {
+          throw new Cloud9UnavailableError(
+            'Cloud 9 did not respond. The change may still have been saved - check before trying again.',
+            CLOUD9_WRITE_UNCONFIRMED
+          );
+        }
+        throw new Cloud9UnavailableError();
       }
-
-      logger.error('Cloud 9 API Error', {
-        procedure,
-        environment: this.environment,
-        error: error instanceof Error ? error.message : String(error),
-      });
-
-      throw error;
     }
   }
 
@@ -212,6 +284,15 @@ export class Cloud9Client {
     return this.makeRequest(xmlBody, Cloud9Procedure.GET_APPOINTMENT_LIST_BY_PATIENT);
   }
 
+  /**
+   * Get every appointment in a date range (all patients, locations and chairs)
+   */
+  async getExistingAppts(params: GetExistingApptsParams): Promise<Cloud9Response> {
+    const credentials = getCredentials(this.environment);
+    const xmlBody = buildGetExistingApptsRequest(credentials, params);
+    return this.makeRequest(xmlBody, Cloud9Procedure.GET_EXISTING_APPTS);
+  }
+
   /**
    * Create a new appointment
    */
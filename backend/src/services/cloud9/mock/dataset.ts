@@ -0,0 +1,476 @@
+/**
+ * Cloud 9 Mock Dataset
+ * Seedable in-memory practice data backing the mock GetData.ashx server.
+ *
+ * The same seed and reference date always produce the same locations, chairs,
+ * patients, appointments and open slots, so tests can assert on exact values.
+ */
+
+export interface MockLocation {
+  guid: string;
+  name: string;
+  code: string;
+  timeZone: string;
+  printedName: string;
+  address: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  phone: string;
+  deleted: boolean;
+}
+
+export interface MockOrthodontist {
+  guid: string;
+  code: string;
+  name: string;
+}
+
+export interface MockScheduleColumn {
+  guid: string;
+  description: string;
+  order: number;
+}
+
+export interface MockScheduleView {
+  guid: string;
+  locationGuid: string;
+  description: string;
+  orthodontistGuid: string;
+  openHour: number; // 24h, inclusive
+  closeHour: number; // 24h, exclusive
+  columns: MockScheduleColumn[];
+}
+
+export interface MockAppointmentType {
+  guid: string;
+  code: string;
+  description: string;
+  minutes: number;
+  allowOnlineScheduling: boolean;
+  deleted: boolean;
+}
+
+export interface MockPatient {
+  guid: string;
+  personGuid: string;
+  patientId: string;
+  firstName: string;
+  lastName: string;
+  birthDate: Date;
+  gender: string;
+  email: string;
+  phone: string;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  locationGuid: string;
+  orthodontistGuid: string;
+  entryDate: Date;
+  modifiedDate: Date;
+}
+
+export type MockAppointmentStatus = 'Scheduled' | 'Confirmed' | 'Canceled';
+
+export interface MockAppointment {
+  guid: string;
+  patientGuid: string;
+  start: Date;
+  minutes: number;
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  appointmentTypeGuid: string;
+  status: MockAppointmentStatus;
+  confirmation: string;
+  note: string;
+}
+
+export interface MockSlot {
+  start: Date;
+  minutes: number;
+  scheduleView: MockScheduleView;
+  column: MockScheduleColumn;
+}
+
+export interface MockDatasetOptions {
+  seed?: number;
+  /** Day the generated schedule is anchored to (defaults to today) */
+  referenceDate?: Date;
+  patientCount?: number;
+}
+
+const DEFAULT_SEED = 9;
+const DEFAULT_PATIENT_COUNT = 40;
+const SLOT_INTERVAL_MINUTES = 30;
+// Share of chair time already taken by other practices' bookings we never see
+const BLOCKED_SLOT_RATIO = 0.35;
+
+const FIRST_NAMES = [
+  'Emma', 'Liam', 'Olivia', 'Noah', 'Ava', 'Mateo', 'Sophia', 'Lucas', 'Isabella', 'Ethan',
+  'Mia', 'Mason', 'Camila', 'Logan', 'Harper', 'Elijah', 'Luna', 'James', 'Aria', 'Benjamin',
+];
+const LAST_NAMES = [
+  'Garcia', 'Smith', 'Johnson', 'Martinez', 'Brown', 'Lopez', 'Davis', 'Miller', 'Wilson', 'Anderson',
+  'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin', 'Lee', 'Perez', 'Thompson', 'White', 'Harris',
+];
+const STREETS = ['Main St', 'Oak Ave', 'Maple Dr', 'Cedar Ln', 'Pine St', 'Elm Ct', 'Lakeview Rd', 'Hill St'];
+
+const LOCATION_SEEDS = [
+  { name: 'Mock Ortho Downtown', code: 'MDTN', city: 'PITTSBURGH', state: 'PA', postalCode: '15222', timeZone: 'Eastern Standard Time' },
+  { name: 'Mock Ortho Northside', code: 'MNTH', city: 'PITTSBURGH', state: 'PA', postalCode: '15212', timeZone: 'Eastern Standard Time' },
+  { name: 'Mock Ortho Lakeshore', code: 'MLKS', city: 'ERIE', state: 'PA', postalCode: '16501', timeZone: 'Eastern Standard Time' },
+];
+
+const ORTHODONTIST_SEEDS = [
+  { code: 'MKCH', name: 'Dana Kim' },
+  { code: 'MRVS', name: 'Marcus Rivers' },
+  { code: 'MPTL', name: 'Priya Patel' },
+];
+
+const APPOINTMENT_TYPE_SEEDS = [
+  { code: '100', description: '100 Exam - NP Child', minutes: 45, allowOnlineScheduling: true },
+  { code: '101', description: '101 Exam - NP Adult', minutes: 45, allowOnlineScheduling: true },
+  { code: '200', description: '200 Adjustment', minutes: 30, allowOnlineScheduling: true },
+  { code: '300', description: '300 Records', minutes: 60, allowOnlineScheduling: false },
+  { code: '400', description: '400 Debond', minutes: 90, allowOnlineScheduling: false },
+];
+
+/**
+ * mulberry32 - small, fast, deterministic 32-bit PRNG
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Deterministic hash of a string into [0, 1), used for per-slot availability
+ */
+function hashToUnit(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function overlaps(startA: Date, minutesA: number, startB: Date, minutesB: number): boolean {
+  return startA < addMinutes(startB, minutesB) && startB < addMinutes(startA, minutesA);
+}
+
+export class MockCloud9Dataset {
+  readonly seed: number;
+  readonly referenceDate: Date;
+
+  locations: MockLocation[] = [];
+  orthodontists: MockOrthodontist[] = [];
+  scheduleViews: MockScheduleView[] = [];
+  appointmentTypes: MockAppointmentType[] = [];
+  patients: MockPatient[] = [];
+  appointments: MockAppointment[] = [];
+
+  private random: () => number;
+  private patientCounter = 0;
+
+  constructor(options: MockDatasetOptions = {}) {
+    this.seed = options.seed ?? DEFAULT_SEED;
+    this.referenceDate = startOfDay(options.referenceDate ?? new Date());
+    this.random = createRandom(this.seed);
+    this.generate(options.patientCount ?? DEFAULT_PATIENT_COUNT);
+  }
+
+  /**
+   * Deterministic GUID drawn from the dataset's PRNG
+   */
+  newGuid(): string {
+    const hex = Array.from({ length: 32 }, () => Math.floor(this.random() * 16).toString(16)).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  private generate(patientCount: number): void {
+    this.locations = LOCATION_SEEDS.map((seed, index) => ({
+      guid: this.newGuid(),
+      ...seed,
+      printedName: 'Orthodontics',
+      address: `${100 + index * 25} ${STREETS[index]}`,
+      phone: `412555${String(1000 + index).padStart(4, '0')}`,
+      deleted: false,
+    }));
+
+    this.orthodontists = ORTHODONTIST_SEEDS.map((seed) => ({ guid: this.newGuid(), ...seed }));
+
+    // One schedule view per location, two chairs each
+    this.scheduleViews = this.locations.map((location, index) => ({
+      guid: this.newGuid(),
+      locationGuid: location.guid,
+      description: location.name,
+      orthodontistGuid: this.orthodontists[index % this.orthodontists.length].guid,
+      openHour: 8,
+      closeHour: 17,
+      columns: [1, 2].map((order) => ({
+        guid: this.newGuid(),
+        description: `Chair ${order}`,
+        order,
+      })),
+    }));
+
+    this.appointmentTypes = APPOINTMENT_TYPE_SEEDS.map((seed) => ({
+      guid: this.newGuid(),
+      ...seed,
+      deleted: false,
+    }));
+
+    this.patients = [];
+    for (let i = 0; i < patientCount; i++) {
+      const view = this.pick(this.scheduleViews);
+      const birthYear = this.referenceDate.getFullYear() - 8 - Math.floor(this.random() * 30);
+      const entryDate = addMinutes(this.referenceDate, -Math.floor(this.random() * 365) * 24 * 60);
+
+      this.patients.push(
+        this.buildPatient({
+          firstName: this.pick(FIRST_NAMES),
+          lastName: this.pick(LAST_NAMES),
+          birthDate: new Date(birthYear, Math.floor(this.random() * 12), 1 + Math.floor(this.random() * 28)),
+          phone: `412555${String(Math.floor(this.random() * 10000)).padStart(4, '0')}`,
+          street: `${1 + Math.floor(this.random() * 9999)} ${this.pick(STREETS)}`,
+          locationGuid: view.locationGuid,
+          orthodontistGuid: view.orthodontistGuid,
+          entryDate,
+        })
+      );
+    }
+
+    // Give roughly half the patients one past and one upcoming visit
+    this.appointments = [];
+    const onlineTypes = this.appointmentTypes.filter((t) => t.allowOnlineScheduling);
+    this.patients.forEach((patient, index) => {
+      if (index % 2 !== 0) {
+        return;
+      }
+
+      const view = this.scheduleViews.find((v) => v.locationGuid === patient.locationGuid)!;
+      for (const dayOffset of [-(7 + (index % 21)), 1 + (index % 14)]) {
+        const type = this.pick(onlineTypes);
+        const day = addMinutes(this.referenceDate, dayOffset * 24 * 60);
+        const start = addMinutes(day, (view.openHour + (index % 8)) * 60);
+        const column = view.columns[index % view.columns.length];
+
+        if (this.findConflict(column.guid, start, type.minutes)) {
+          continue;
+        }
+
+        this.appointments.push({
+          guid: this.newGuid(),
+          patientGuid: patient.guid,
+          start,
+          minutes: type.minutes,
+          scheduleViewGuid: view.guid,
+          scheduleColumnGuid: column.guid,
+          appointmentTypeGuid: type.guid,
+          status: 'Scheduled',
+          confirmation: '',
+          note: '',
+        });
+      }
+    });
+  }
+
+  private buildPatient(input: {
+    firstName: string;
+    lastName: string;
+    birthDate: Date;
+    phone: string;
+    street: string;
+    locationGuid: string;
+    orthodontistGuid: string;
+    entryDate: Date;
+    email?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+  }): MockPatient {
+    const location = this.getLocation(input.locationGuid);
+    this.patientCounter += 1;
+
+    return {
+      guid: this.newGuid(),
+      personGuid: this.newGuid(),
+      patientId: `MOCK${String(this.patientCounter).padStart(6, '0')}`,
+      firstName: input.firstName,
+      lastName: input.lastName,
+      birthDate: input.birthDate,
+      gender: '',
+      email: input.email ?? `${input.firstName}.${input.lastName}${this.patientCounter}@example.com`.toLowerCase(),
+      phone: input.phone,
+      street: input.street,
+      city: input.city ?? location?.city ?? '',
+      state: input.state ?? location?.state ?? '',
+      postalCode: input.postalCode ?? location?.postalCode ?? '',
+      locationGuid: input.locationGuid,
+      orthodontistGuid: input.orthodontistGuid,
+      entryDate: input.entryDate,
+      modifiedDate: input.entryDate,
+    };
+  }
+
+  getLocation(guid: string): MockLocation | undefined {
+    return this.locations.find((l) => l.guid.toLowerCase() === guid.toLowerCase());
+  }
+
+  getOrthodontist(guid: string): MockOrthodontist | undefined {
+    return this.orthodontists.find((o) => o.guid.toLowerCase() === guid.toLowerCase());
+  }
+
+  getScheduleView(guid: string): MockScheduleView | undefined {
+    return this.scheduleViews.find((v) => v.guid.toLowerCase() === guid.toLowerCase());
+  }
+
+  getAppointmentType(guid: string): MockAppointmentType | undefined {
+    return this.appointmentTypes.find((t) => t.guid.toLowerCase() === guid.toLowerCase());
+  }
+
+  /**
+   * Look up a patient by patient GUID or person GUID (SetPatientDemographicInfo accepts either)
+   */
+  getPatient(guid: string): MockPatient | undefined {
+    const needle = guid.toLowerCase();
+    return this.patients.find(
+      (p) => p.guid.toLowerCase() === needle || p.personGuid.toLowerCase() === needle
+    );
+  }
+
+  getAppointment(guid: string): MockAppointment | undefined {
+    return this.appointments.find((a) => a.guid.toLowerCase() === guid.toLowerCase());
+  }
+
+  /**
+   * Add a patient (SetPatient)
+   */
+  addPatient(input: {
+    firstName: string;
+    lastName: string;
+    birthDate: Date;
+    phone: string;
+    email: string;
+    locationGuid: string;
+    orthodontistGuid: string;
+    street?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+  }, now: Date = new Date()): MockPatient {
+    const patient = this.buildPatient({ ...input, street: input.street ?? '', entryDate: now });
+    this.patients.push(patient);
+    return patient;
+  }
+
+  /**
+   * Find a non-canceled appointment occupying the given chair time
+   */
+  findConflict(columnGuid: string, start: Date, minutes: number): MockAppointment | undefined {
+    return this.appointments.find(
+      (a) =>
+        a.status !== 'Canceled' &&
+        a.scheduleColumnGuid.toLowerCase() === columnGuid.toLowerCase() &&
+        overlaps(a.start, a.minutes, start, minutes)
+    );
+  }
+
+  /**
+   * Whether a chair interval is pre-blocked by the (seeded) background schedule
+   */
+  private isBlocked(columnGuid: string, start: Date): boolean {
+    return hashToUnit(`${this.seed}:${columnGuid}:${start.getTime()}`) < BLOCKED_SLOT_RATIO;
+  }
+
+  /**
+   * Open slots between two instants (GetOnlineReservations).
+   * Weekends are closed; every chair offers a slot every 30 minutes that fits before closing.
+   */
+  getAvailableSlots(options: {
+    start: Date;
+    end: Date;
+    minutes: number;
+    scheduleViewGuids?: string[];
+    morning?: boolean;
+    afternoon?: boolean;
+  }): MockSlot[] {
+    const viewFilter = options.scheduleViewGuids?.map((g) => g.toLowerCase());
+    const views = this.scheduleViews.filter(
+      (v) => !viewFilter || viewFilter.length === 0 || viewFilter.includes(v.guid.toLowerCase())
+    );
+    const slots: MockSlot[] = [];
+
+    for (let day = startOfDay(options.start); day <= options.end; day = addMinutes(day, 24 * 60)) {
+      if (day.getDay() === 0 || day.getDay() === 6) {
+        continue;
+      }
+
+      for (const view of views) {
+        for (
+          let start = addMinutes(day, view.openHour * 60);
+          addMinutes(start, options.minutes) <= addMinutes(day, view.closeHour * 60);
+          start = addMinutes(start, SLOT_INTERVAL_MINUTES)
+        ) {
+          if (start < options.start || addMinutes(start, options.minutes) > options.end) {
+            continue;
+          }
+
+          const isMorning = start.getHours() < 12;
+          if ((isMorning && options.morning === false) || (!isMorning && options.afternoon === false)) {
+            continue;
+          }
+
+          for (const column of view.columns) {
+            if (this.isBlocked(column.guid, start) || this.findConflict(column.guid, start, options.minutes)) {
+              continue;
+            }
+            slots.push({ start, minutes: options.minutes, scheduleView: view, column });
+          }
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  /**
+   * Whether a requested booking lines up with an open slot
+   */
+  isSlotOpen(scheduleViewGuid: string, columnGuid: string, start: Date, minutes: number): boolean {
+    const view = this.getScheduleView(scheduleViewGuid);
+    const column = view?.columns.find((c) => c.guid.toLowerCase() === columnGuid.toLowerCase());
+    if (!view || !column) {
+      return false;
+    }
+
+    const day = startOfDay(start);
+    const opensAt = addMinutes(day, view.openHour * 60);
+    const closesAt = addMinutes(day, view.closeHour * 60);
+    if (start < opensAt || addMinutes(start, minutes) > closesAt || day.getDay() === 0 || day.getDay() === 6) {
+      return false;
+    }
+
+    return !this.isBlocked(column.guid, start) && !this.findConflict(column.guid, start, minutes);
+  }
+}
@@ -0,0 +1,538 @@
+import { Builder, parseStringPromise } from 'xml2js';
+import { MOCK_CONFIG } from '../../../config/cloud9';
+import { Cloud9Procedure } from '../procedures';
+import { MockAppointment, MockCloud9Dataset, MockPatient } from './dataset';
+import {
+  formatCloud9DateTime as formatDateTime,
+  parseCloud9DateTime as parseDate,
+} from '../../../utils/cloud9Dates';
+
+/**
+ * Cloud 9 Mock Request Handler
+ * Answers GetDataRequest XML (as produced by xmlBuilder.buildXmlRequest) with
+ * GetDataResponse XML, mirroring the partner API's record shapes and error styles:
+ *   - transport-level failures: ResponseStatus=Error with ErrorCode/ErrorMessage
+ *   - business-rule failures:   ResponseStatus=Success with Result="Error: ..."
+ */
+
+const XML_NAMESPACE = 'http://schemas.practica.ws/cloud9/partners/';
+
+// Cloud 9 error codes (see Cloud 9 Partner API documentation)
+const ERROR_CODES = {
+  UNKNOWN: 0,
+  INVALID_CREDENTIALS: 1,
+  MISSING_PARAMETER: 2,
+  INVALID_PARAMETER: 3,
+  NOT_AUTHORIZED: 10,
+} as const;
+
+type Params = Record<string, string>;
+type MockRecord = Record<string, string | number>;
+
+interface MockResult {
+  status: 'Success' | 'Error';
+  records: MockRecord[];
+}
+
+class MockRequestError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+function requireParam(params: Params, name: string): string {
+  const value = params[name];
+  if (value === undefined || value === '') {
+    throw new MockRequestError(ERROR_CODES.MISSING_PARAMETER, `Missing required parameter: ${name}`);
+  }
+  return value;
+}
+
+function requireDate(params: Params, name: string): Date {
+  const date = parseDate(requireParam(params, name));
+  if (!date) {
+    throw new MockRequestError(ERROR_CODES.INVALID_PARAMETER, `Invalid value for parameter: ${name}`);
+  }
+  return date;
+}
+
+function splitGuids(value: string | undefined): string[] {
+  return (value || '').split(/[,|]/).map((g) => g.trim()).filter(Boolean);
+}
+
+function isTrue(value: string | undefined): boolean {
+  return value !== undefined && ['true', '1'].includes(value.toLowerCase());
+}
+
+const success = (records: MockRecord[]): MockResult => ({ status: 'Success', records });
+const result = (message: string): MockResult => success([{ Result: message }]);
+
+// ============================================================================
+// RECORD SHAPES
+// ============================================================================
+
+function patientLookupRecord(dataset: MockCloud9Dataset, patient: MockPatient): MockRecord {
+  const location = dataset.getLocation(patient.locationGuid);
+  return {
+    PatientGUID: patient.guid,
+    PatientPersonGUID: patient.personGuid,
+    PatientLastName: patient.lastName,
+    PatientFirstName: patient.firstName,
+    PatientGreeting: '',
+    PatientMiddleName: '',
+    PatientBirthDate: formatDateTime(patient.birthDate),
+    PatientID: patient.patientId,
+    PatientStatusDescription: 'New Patient',
+    PatientIsInactive: 'False',
+    LocationGUID: patient.locationGuid,
+    LocationCode: location?.code || '',
+    LocationName: location?.name || '',
+  };
+}
+
+function patientRecord(dataset: MockCloud9Dataset, patient: MockPatient): MockRecord {
+  const location = dataset.getLocation(patient.locationGuid);
+  const orthodontist = dataset.getOrthodontist(patient.orthodontistGuid);
+  return {
+    PatientGUID: patient.guid,
+    PatientTitle: '',
+    PatientFirstName: patient.firstName,
+    PatientMiddleName: '',
+    PatientLastName: patient.lastName,
+    PatientSuffix: '',
+    PatientBirthdate: formatDateTime(patient.birthDate),
+    PatientGender: patient.gender,
+    PatientID: patient.patientId,
+    PatientStreetAddress: patient.street,
+    PatientCity: patient.city,
+    PatientState: patient.state,
+    PatientPostalCode: patient.postalCode,
+    PatientOrthodontistGUID: patient.orthodontistGuid,
+    PatientOrthodontistCode: orthodontist?.code || '',
+    PatientOrthodontistName: orthodontist?.name || '',
+    PatientLocationGUID: patient.locationGuid,
+    PatientLocationName: location?.name || '',
+    PatientStatusDescription: 'New Patient',
+    EntryDate: formatDateTime(patient.entryDate),
+    LastModifiedDate: formatDateTime(patient.modifiedDate),
+    PersonGUID: patient.personGuid,
+  };
+}
+
+function patientInformationRecord(dataset: MockCloud9Dataset, patient: MockPatient): MockRecord {
+  const location = dataset.getLocation(patient.locationGuid);
+  const orthodontist = dataset.getOrthodontist(patient.orthodontistGuid);
+  const birthDate = patient.birthDate;
+  return {
+    PatientFullName: ` ${patient.firstName} ${patient.lastName} `,
+    PatientGender: patient.gender,
+    PatientBirthDate: `${String(birthDate.getMonth() + 1).padStart(2, '0')}/${String(birthDate.getDate()).padStart(2, '0')}/${birthDate.getFullYear()}`,
+    Location: location?.name || '',
+    Orthodontist: orthodontist?.name || '',
+    PatID: patient.patientId,
+    PatientStreet: patient.street,
+    PatientCity: patient.city,
+    PatientState: patient.state,
+    PatientPostalCode: patient.postalCode,
+    PatientEmail: patient.email,
+    PatientPhone: patient.phone,
+    PatientPhoneDescription: 'Home',
+  };
+}
+
+function appointmentRecord(dataset: MockCloud9Dataset, appointment: MockAppointment): MockRecord {
+  const patient = dataset.getPatient(appointment.patientGuid);
+  const view = dataset.getScheduleView(appointment.scheduleViewGuid);
+  const location = view ? dataset.getLocation(view.locationGuid) : undefined;
+  const orthodontist = view ? dataset.getOrthodontist(view.orthodontistGuid) : undefined;
+  const type = dataset.getAppointmentType(appointment.appointmentTypeGuid);
+  return {
+    AppointmentGUID: appointment.guid,
+    PatientGUID: appointment.patientGuid,
+    PatientTitle: '',
+    PatientFirstName: patient?.firstName || '',
+    PatientMiddleName: '',
+    PatientLastName: patient?.lastName || '',
+    PatientSuffix: '',
+    PatientGreeting: '',
+    PatientGender: patient?.gender || '',
+    AppointmentDateTime: formatDateTime(appointment.start),
+    OrthodontistGUID: orthodontist?.guid || '',
+    OrthodontistCode: orthodontist?.code || '',
+    OrthodontistName: orthodontist?.name || '',
+    LocationGUID: location?.guid || '',
+    LocationCode: location?.code || '',
+    LocationName: location?.name || '',
+    ScheduleViewGUID: appointment.scheduleViewGuid,
+    ScheduleColumnGUID: appointment.scheduleColumnGuid,
+    AppointmentTypeGUID: appointment.appointmentTypeGuid,
+    AppointmentTypeDescription: type?.description || '',
+    AppointmentNote: appointment.note,
+    AppointmentMinutes: appointment.minutes,
+    AppointmentStatusDescription: appointment.status,
+    AppointmentConfirmation: appointment.confirmation,
+  };
+}
+
+function chairScheduleRecords(dataset: MockCloud9Dataset): MockRecord[] {
+  return dataset.scheduleViews.flatMap((view) => {
+    const location = dataset.getLocation(view.locationGuid);
+    return view.columns.map((column) => ({
+      locGUID: view.locationGuid,
+      locName: location?.name || '',
+      schdvwGUID: view.guid,
+      schdvwDescription: view.description,
+      schdvwStartTime: formatDateTime(new Date(1900, 0, 1, view.openHour)),
+      schdvwEndTime: formatDateTime(new Date(1900, 0, 1, view.closeHour)),
+      schdcolGUID: column.guid,
+      schdcolDescription: column.description,
+      svcOrder: column.order,
+    }));
+  });
+}
+
+function locationRecord(location: MockCloud9Dataset['locations'][number]): MockRecord {
+  return {
+    LocationGUID: location.guid,
+    LocationName: location.name,
+    LocationCode: location.code,
+    TimeZone: location.timeZone,
+    LocationPrintedName: location.printedName,
+    LocationAddress: location.address,
+    LocationCity: location.city,
+    LocationState: location.state,
+    LocationPostalCode: location.postalCode,
+    LocationPhone: location.phone,
+  };
+}
+
+// ============================================================================
+// PROCEDURES
+// ============================================================================
+
+function lookupPatients(dataset: MockCloud9Dataset, params: Params): MockResult {
+  const filter = requireParam(params, 'filter').toLowerCase().trim();
+  const pageIndex = Math.max(1, Number(params.pageIndex) || 1);
+  const pageSize = Math.max(1, Number(params.pageSize) || 25);
+
+  // Accept "Last, First", "First Last" or any name/ID fragment
+  const [last, first] = filter.includes(',')
+    ? filter.split(',').map((s) => s.trim())
+    : [filter, ''];
+
+  const matches = dataset.patients.filter((p) => {
+    const lastName = p.lastName.toLowerCase();
+    const firstName = p.firstName.toLowerCase();
+    if (filter.includes(',')) {
+      return lastName.startsWith(last) && firstName.startsWith(first);
+    }
+    return (
+      `${firstName} ${lastName}`.includes(filter) ||
+      `${lastName} ${firstName}`.includes(filter) ||
+      p.patientId.toLowerCase() === filter
+    );
+  });
+
+  return success(
+    matches
+      .slice((pageIndex - 1) * pageSize, pageIndex * pageSize)
+      .map((p) => patientLookupRecord(dataset, p))
+  );
+}
+
+function getPatientOrThrow(dataset: MockCloud9Dataset, params: Params, name: string): MockPatient {
+  const patient = dataset.getPatient(requireParam(params, name));
+  if (!patient) {
+    throw new MockRequestError(ERROR_CODES.INVALID_PARAMETER, `Invalid value for parameter: ${name}`);
+  }
+  return patient;
+}
+
+function createPatient(dataset: MockCloud9Dataset, params: Params): MockResult {
+  for (const name of ['patientFirstName', 'patientLastName', 'providerGUID', 'locationGUID', 'birthdayDateTime']) {
+    requireParam(params, name);
+  }
+
+  const birthDate = requireDate(params, 'birthdayDateTime');
+  if (!dataset.getLocation(params.locationGUID)) {
+    return result('Error: Invalid locationGUID.');
+  }
+
+  const patient = dataset.addPatient({
+    firstName: params.patientFirstName,
+    lastName: params.patientLastName,
+    birthDate,
+    phone: params.phoneNumber || '',
+    email: params.email || '',
+    locationGuid: params.locationGUID,
+    orthodontistGuid: params.providerGUID,
+    street: params.addressStreet,
+    city: params.addressCity,
+    state: params.addressState,
+    postalCode: params.addressPostalCode,
+  });
+
+  return result(`Patient Added: ${patient.guid.toUpperCase()}`);
+}
+
+function updatePatient(dataset: MockCloud9Dataset, params: Params): MockResult {
+  const patient = getPatientOrThrow(dataset, params, 'patguid');
+
+  if (params.persFirstName) patient.firstName = params.persFirstName;
+  if (params.persLastName) patient.lastName = params.persLastName;
+  if (params.persUseEmail) patient.email = params.persUseEmail;
+  if (params.persUsePhone) patient.phone = params.persUsePhone;
+  if (params.persStreetAddress) patient.street = params.persStreetAddress;
+  if (params.persCity) patient.city = params.persCity;
+  if (params.persState) patient.state = params.persState;
+  if (params.persPostalCode) patient.postalCode = params.persPostalCode;
+  if (params.persBirthdate) {
+    patient.birthDate = requireDate(params, 'persBirthdate');
+  }
+  patient.modifiedDate = new Date();
+
+  return result('Patient Demographic Information Updated');
+}
+
+function listAppointments(dataset: MockCloud9Dataset, params: Params): MockResult {
+  const patGuid = params.patGUID?.toLowerCase();
+  const start = parseDate(params.startDate);
+  const end = parseDate(params.endDate);
+
+  const appointments = dataset.appointments
+    .filter((a) => !patGuid || a.patientGuid.toLowerCase() === patGuid)
+    .filter((a) => (!start || a.start >= start) && (!end || a.start <= end))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return success(appointments.map((a) => appointmentRecord(dataset, a)));
+}
+
+function getAvailableAppts(dataset: MockCloud9Dataset, params: Params): MockResult {
+  const start = requireDate(params, 'startDate');
+  const end = requireDate(params, 'endDate');
+  const typeGuid = splitGuids(params.appttypGUIDs)[0];
+  const type = typeGuid ? dataset.getAppointmentType(typeGuid) : undefined;
+
+  const slots = dataset.getAvailableSlots({
+    start,
+    end,
+    minutes: type?.minutes ?? 45,
+    scheduleViewGuids: splitGuids(params.schdvwGUIDs),
+    morning: params.morning === undefined ? undefined : isTrue(params.morning),
+    afternoon: params.afternoon === undefined ? undefined : isTrue(params.afternoon),
+  });
+
+  return success(
+    slots.map((slot) => ({
+      StartTime: formatDateTime(slot.start),
+      EndTime: formatDateTime(new Date(slot.start.getTime() + slot.minutes * 60000)),
+      ScheduleColumnDescription: slot.column.description,
+      ScheduleTemplateName: `${slot.scheduleView.description} ${slot.scheduleView.openHour}-${slot.scheduleView.closeHour}`,
+      AppointmentTypeDescription: type?.description || '',
+      AppointmentTypeGUID: type?.guid || '',
+      ScheduleViewDescription: slot.scheduleView.description,
+      ScheduleColumnGUID: slot.column.guid,
+      ScheduleViewGUID: slot.scheduleView.guid,
+      Minutes: slot.minutes,
+      LocationGUID: slot.scheduleView.locationGuid,
+    }))
+  );
+}
+
+function createAppointment(dataset: MockCloud9Dataset, params: Params): MockResult {
+  const patient = getPatientOrThrow(dataset, params, 'PatientGUID');
+  const start = requireDate(params, 'StartTime');
+  const viewGuid = requireParam(params, 'ScheduleViewGUID');
+  const columnGuid = requireParam(params, 'ScheduleColumnGUID');
+  const type = dataset.getAppointmentType(requireParam(params, 'AppointmentTypeGUID'));
+  const minutes = Number(params.Minutes) || type?.minutes || 0;
+
+  if (!type) {
+    return result('Error: Invalid AppointmentTypeGUID.');
+  }
+  if (start < new Date()) {
+    return result('Error: Appointments cannot be scheduled in the past.');
+  }
+  if (!dataset.isSlotOpen(viewGuid, columnGuid, start, minutes)) {
+    return result('Error: The requested time is not available.');
+  }
+
+  const appointment: MockAppointment = {
+    guid: dataset.newGuid(),
+    patientGuid: patient.guid,
+    start,
+    minutes,
+    scheduleViewGuid: viewGuid,
+    scheduleColumnGuid: columnGuid,
+    appointmentTypeGuid: type.guid,
+    status: 'Scheduled',
+    confirmation: '',
+    note: '',
+  };
+  dataset.appointments.push(appointment);
+
+  return result(`Appointment GUID Added: ${appointment.guid}`);
+}
+
+function setAppointmentStatus(
+  dataset: MockCloud9Dataset,
+  params: Params,
+  status: 'Confirmed' | 'Canceled'
+): MockResult {
+  const appointment = dataset.getAppointment(requireParam(params, 'apptGUID'));
+  if (!appointment) {
+    throw new MockRequestError(ERROR_CODES.INVALID_PARAMETER, 'Invalid value for parameter: apptGUID');
+  }
+
+  if (status === 'Canceled') {
+    if (appointment.start < new Date()) {
+      return result('Error: Appointment in the past cannot be canceled.');
+    }
+    appointment.status = 'Canceled';
+    return result('Appointment canceled successfully');
+  }
+
+  if (appointment.status === 'Canceled') {
+    return result('Error: Canceled appointments cannot be confirmed.');
+  }
+  appointment.status = 'Confirmed';
+  appointment.confirmation = 'Vendor Provided Confirmation';
+  return result('Appointment confirmed successfully');
+}
+
+const PROCEDURE_HANDLERS: Record<Cloud9Procedure, (dataset: MockCloud9Dataset, params: Params) => MockResult> = {
+  [Cloud9Procedure.GET_LOCATIONS]: (dataset, params) =>
+    success(
+      dataset.locations
+        .filter((l) => isTrue(params.showDeleted) || !l.deleted)
+        .map(locationRecord)
+    ),
+  [Cloud9Procedure.GET_LOCATION_INFO]: (dataset, params) => {
+    const location = dataset.getLocation(requireParam(params, 'locGUID'));
+    return success(location ? [locationRecord(location)] : []);
+  },
+  [Cloud9Procedure.GET_DOCTORS]: (dataset) => success(chairScheduleRecords(dataset)),
+  [Cloud9Procedure.GET_PROVIDERS]: (dataset) => success(chairScheduleRecords(dataset)),
+  [Cloud9Procedure.GET_CHAIR_SCHEDULES]: (dataset) => success(chairScheduleRecords(dataset)),
+  [Cloud9Procedure.GET_APPOINTMENT_TYPES]: (dataset, params) =>
+    success(
+      dataset.appointmentTypes
+        .filter((t) => isTrue(params.showDeleted) || !t.deleted)
+        .map((t) => ({
+          AppointmentTypeGUID: t.guid,
+          AppointmentTypeCode: t.code,
+          AppointmentTypeDescription: t.description,
+          AppointmentTypeMinutes: t.minutes,
+          AppointmentTypeDeleted: t.deleted ? 1 : 0,
+          AppointmentTypeAllowOnlineScheduling: t.allowOnlineScheduling ? 'True' : 'False',
+        }))
+    ),
+  [Cloud9Procedure.GET_RECORDS]: lookupPatients,
+  [Cloud9Procedure.GET_PORTAL_PATIENT_LOOKUP]: lookupPatients,
+  [Cloud9Procedure.GET_ALL_RECORDS]: (dataset, params) => {
+    const since = parseDate(params.ModifiedSince);
+    return success(
+      dataset.patients
+        .filter((p) => !since || p.modifiedDate >= since)
+        .map((p) => patientRecord(dataset, p))
+    );
+  },
+  [Cloud9Procedure.GET_PATIENT_LIST]: (dataset, params) => {
+    const locationGuids = splitGuids(params.LocGUIDs).map((g) => g.toLowerCase());
+    return success(
+      dataset.patients
+        .filter((p) => locationGuids.length === 0 || locationGuids.includes(p.locationGuid.toLowerCase()))
+        .map((p) => patientRecord(dataset, p))
+    );
+  },
+  [Cloud9Procedure.GET_PATIENT_INFORMATION]: (dataset, params) =>
+    success([patientInformationRecord(dataset, getPatientOrThrow(dataset, params, 'patguid'))]),
+  [Cloud9Procedure.GET_EMAIL]: (dataset, params) =>
+    success([patientInformationRecord(dataset, getPatientOrThrow(dataset, params, 'patguid'))]),
+  [Cloud9Procedure.SET_PATIENT]: createPatient,
+  [Cloud9Procedure.SET_PATIENT_DEMOGRAPHIC_INFO]: updatePatient,
+  [Cloud9Procedure.GET_AVAILABLE_APPTS]: getAvailableAppts,
+  [Cloud9Procedure.GET_EXISTING_APPTS]: listAppointments,
+  [Cloud9Procedure.GET_APPOINTMENT_LIST_BY_PATIENT]: (dataset, params) => {
+    requireParam(params, 'patGUID');
+    return listAppointments(dataset, params);
+  },
+  [Cloud9Procedure.SET_APPOINTMENT]: createAppointment,
+  [Cloud9Procedure.SET_APPOINTMENT_STATUS_CONFIRMED]: (dataset, params) =>
+    setAppointmentStatus(dataset, params, 'Confirmed'),
+  [Cloud9Procedure.SET_APPOINTMENT_STATUS_CANCELED]: (dataset, params) =>
+    setAppointmentStatus(dataset, params, 'Canceled'),
+};
+
+// ============================================================================
+// REQUEST / RESPONSE XML
+// ============================================================================
+
+function buildResponseXml(response: MockResult): string {
+  const builder = new Builder({
+    xmldec: { version: '1.0', encoding: 'utf-8' },
+    renderOpts: { pretty: false },
+  });
+
+  return builder.buildObject({
+    GetDataResponse: {
+      $: {
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        xmlns: XML_NAMESPACE,
+      },
+      ResponseStatus: response.status,
+      Records: response.records.length > 0 ? { Record: response.records } : '',
+    },
+  });
+}
+
+function errorResponse(code: number, message: string): MockResult {
+  return { status: 'Error', records: [{ ErrorCode: code, ErrorMessage: message }] };
+}
+
+/**
+ * Handle one GetData.ashx request body against the dataset and return the response XML
+ */
+export async function handleGetDataRequest(xmlBody: string, dataset: MockCloud9Dataset): Promise<string> {
+  let request: any;
+  try {
+    const parsed = await parseStringPromise(xmlBody, { explicitArray: false, ignoreAttrs: true });
+    request = parsed?.GetDataRequest;
+  } catch {
+    request = undefined;
+  }
+
+  if (!request) {
+    return buildResponseXml(errorResponse(ERROR_CODES.UNKNOWN, 'Invalid request: Missing GetDataRequest element'));
+  }
+
+  const { credentials } = MOCK_CONFIG;
+  if (
+    request.ClientID !== credentials.clientId ||
+    request.UserName !== credentials.userName ||
+    request.Password !== credentials.password
+  ) {
+    return buildResponseXml(errorResponse(ERROR_CODES.INVALID_CREDENTIALS, 'Invalid client credentials'));
+  }
+
+  const handler = PROCEDURE_HANDLERS[request.Procedure as Cloud9Procedure];
+  if (!handler) {
+    return buildResponseXml(
+      errorResponse(ERROR_CODES.NOT_AUTHORIZED, `Procedure not authorized: ${request.Procedure || ''}`)
+    );
+  }
+
+  // Empty <Parameters/> parses to '' rather than an object
+  const params: Params = typeof request.Parameters === 'object' ? request.Parameters : {};
+
+  try {
+    return buildResponseXml(handler(dataset, params));
+  } catch (error) {
+    if (error instanceof MockRequestError) {
+      return buildResponseXml(errorResponse(error.code, error.message));
+    }
+    return buildResponseXml(
+      errorResponse(ERROR_CODES.UNKNOWN, error instanceof Error ? error.message : String(error))
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import express from 'express';
+import { Server } from 'http';
+import { MOCK_CONFIG } from '../../../config/cloud9';
+import logger from '../../../utils/logger';
+import { MockCloud9Dataset, MockDatasetOptions } from './dataset';
+import { handleGetDataRequest } from './handler';
+
+/**
+ * Cloud 9 Mock Server
+ * Serves the mock GetData.ashx endpoint for the 'mock' environment.
+ *
+ * Run standalone with `npm run mock:cloud9`, or in-process alongside the API
+ * server with CLOUD9_MOCK_AUTOSTART=true.
+ *
+ * Test hooks:
+ *   POST /__mock/reset  { seed?, referenceDate?, patientCount? }  re-seed the dataset
+ */
+
+export interface MockCloud9Server {
+  server: Server;
+  port: number;
+  getDataset(): MockCloud9Dataset;
+  reset(options?: MockDatasetOptions): MockCloud9Dataset;
+  close(): Promise<void>;
+}
+
+/**
+ * Dataset options from CLOUD9_MOCK_SEED / CLOUD9_MOCK_REFERENCE_DATE
+ */
+export function getMockDatasetOptionsFromEnv(): MockDatasetOptions {
+  const seed = process.env.CLOUD9_MOCK_SEED ? Number(process.env.CLOUD9_MOCK_SEED) : undefined;
+  const referenceDate = process.env.CLOUD9_MOCK_REFERENCE_DATE
+    ? new Date(process.env.CLOUD9_MOCK_REFERENCE_DATE)
+    : undefined;
+
+  return {
+    seed: seed !== undefined && !isNaN(seed) ? seed : undefined,
+    referenceDate: referenceDate && !isNaN(referenceDate.getTime()) ? referenceDate : undefined,
+  };
+}
+
+/**
+ * Port from the configured mock endpoint (CLOUD9_MOCK_ENDPOINT)
+ */
+function getConfiguredPort(): number {
+  try {
+    return Number(new URL(MOCK_CONFIG.endpoint).port) || 3901;
+  } catch {
+    return 3901;
+  }
+}
+
+export function startMockCloud9Server(
+  options: MockDatasetOptions & { port?: number } = {}
+): Promise<MockCloud9Server> {
+  const { port = getConfiguredPort(), ...datasetOptions } = options;
+  let dataset = new MockCloud9Dataset({ ...getMockDatasetOptionsFromEnv(), ...datasetOptions });
+
+  const app = express();
+
+  // Cloud 9 sends the XML body on a GET request, so accept any method and content type
+  app.all('/GetData.ashx', express.text({ type: () => true, limit: '1mb' }), async (req, res) => {
+    const xmlBody = typeof req.body === 'string' ? req.body : '';
+    const responseXml = await handleGetDataRequest(xmlBody, dataset);
+    res.type('application/xml').send(responseXml);
+  });
+
+  app.post('/__mock/reset', express.json(), (req, res) => {
+    const { seed, referenceDate, patientCount } = req.body || {};
+    dataset = new MockCloud9Dataset({
+      seed: seed !== undefined ? Number(seed) : dataset.seed,
+      referenceDate: referenceDate ? new Date(referenceDate) : dataset.referenceDate,
+      patientCount: patientCount !== undefined ? Number(patientCount) : undefined,
+    });
+    res.json({ status: 'success', data: { seed: dataset.seed, referenceDate: dataset.referenceDate } });
+  });
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      logger.info('Cloud 9 mock server started', {
+        port: boundPort,
+        seed: dataset.seed,
+        referenceDate: dataset.referenceDate.toISOString(),
+      });
+
+      resolve({
+        server,
+        port: boundPort,
+        getDataset: () => dataset,
+        reset: (resetOptions: MockDatasetOptions = {}) => {
+          dataset = new MockCloud9Dataset({ seed: dataset.seed, referenceDate: dataset.referenceDate, ...resetOptions });
+          return dataset;
+        },
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+
+    server.on('error', reject);
+  });
+}
+
+// Run standalone if this file is executed directly
+if (require.main === module) {
+  startMockCloud9Server().catch((error) => {
+    logger.error('Failed to start Cloud 9 mock server', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  });
+}
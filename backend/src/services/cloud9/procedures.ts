@@ -36,10 +36,12 @@ export enum Cloud9Procedure {
 export interface ProcedureMetadata {
   name: string;
   category: 'reference' | 'patient' | 'appointment';
+  readOnly: boolean; // safe to retry; writes are never retried
   description: string;
   requiresParameters: boolean;
   cacheable: boolean;
   cacheTTL?: number; // in seconds
+  timeoutMs?: number; // overrides DEFAULT_REQUEST_TIMEOUT_MS
 }
 
 export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
@@ -47,6 +49,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_LOCATIONS]: {
     name: 'GetLocations',
     category: 'reference',
+    readOnly: true,
     description: 'Retrieve practice locations',
     requiresParameters: false,
     cacheable: true,
@@ -55,6 +58,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_LOCATION_INFO]: {
     name: 'GetLocationInfo',
     category: 'reference',
+    readOnly: true,
     description: 'Get detailed location information',
     requiresParameters: true,
     cacheable: true,
@@ -63,6 +67,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_DOCTORS]: {
     name: 'GetDoctors',
     category: 'reference',
+    readOnly: true,
     description: 'Retrieve doctor information',
     requiresParameters: false,
     cacheable: true,
@@ -71,6 +76,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_PROVIDERS]: {
     name: 'GetProviders',
     category: 'reference',
+    readOnly: true,
     description: 'Retrieve provider information',
     requiresParameters: false,
     cacheable: true,
@@ -79,6 +85,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_CHAIR_SCHEDULES]: {
     name: 'GetChairSchedules',
     category: 'reference',
+    readOnly: true,
     description: 'Retrieve chair schedules for locations',
     requiresParameters: false,
     cacheable: true,
@@ -87,6 +94,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_APPOINTMENT_TYPES]: {
     name: 'GetAppointmentTypes',
     category: 'reference',
+    readOnly: true,
     description: 'Retrieve available appointment types',
     requiresParameters: false,
     cacheable: true,
@@ -97,6 +105,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_RECORDS]: {
     name: 'GetRecords',
     category: 'patient',
+    readOnly: true,
     description: 'Retrieve filtered patient records',
     requiresParameters: true,
     cacheable: false,
@@ -104,13 +113,16 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_ALL_RECORDS]: {
     name: 'GetAllRecords',
     category: 'patient',
+    readOnly: true,
     description: 'Retrieve all patient records',
     requiresParameters: false,
     cacheable: false,
+    timeoutMs: 60000, // bulk export
   },
   [Cloud9Procedure.GET_PORTAL_PATIENT_LOOKUP]: {
     name: 'GetPortalPatientLookup',
     category: 'patient',
+    readOnly: true,
     description: 'Search for patients by name',
     requiresParameters: true,
     cacheable: false,
@@ -118,13 +130,16 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_PATIENT_LIST]: {
     name: 'GetPatientList',
     category: 'patient',
+    readOnly: true,
     description: 'Get patient list by location',
     requiresParameters: false,
     cacheable: false,
+    timeoutMs: 60000, // bulk export
   },
   [Cloud9Procedure.GET_PATIENT_INFORMATION]: {
     name: 'GetPatientInformation',
     category: 'patient',
+    readOnly: true,
     description: 'Get detailed patient information',
     requiresParameters: true,
     cacheable: false,
@@ -132,6 +147,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_EMAIL]: {
     name: 'GetEmail',
     category: 'patient',
+    readOnly: true,
     description: 'Retrieve patient email information',
     requiresParameters: true,
     cacheable: false,
@@ -139,6 +155,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.SET_PATIENT]: {
     name: 'SetPatient',
     category: 'patient',
+    readOnly: false,
     description: 'Create new patient record',
     requiresParameters: true,
     cacheable: false,
@@ -146,6 +163,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.SET_PATIENT_DEMOGRAPHIC_INFO]: {
     name: 'SetPatientDemographicInfo',
     category: 'patient',
+    readOnly: false,
     description: 'Update patient demographic information',
     requiresParameters: true,
     cacheable: false,
@@ -155,13 +173,16 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_AVAILABLE_APPTS]: {
     name: 'GetAvailableAppts',
     category: 'appointment',
+    readOnly: true,
     description: 'Check appointment availability',
     requiresParameters: true,
     cacheable: false,
+    timeoutMs: 45000, // wide date ranges are slow
   },
   [Cloud9Procedure.GET_EXISTING_APPTS]: {
     name: 'GetExistingAppts',
     category: 'appointment',
+    readOnly: true,
     description: 'Retrieve scheduled appointments',
     requiresParameters: true,
     cacheable: false,
@@ -169,6 +190,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.GET_APPOINTMENT_LIST_BY_PATIENT]: {
     name: 'GetAppointmentListByPatient',
     category: 'appointment',
+    readOnly: true,
     description: 'Retrieve all appointments for a patient',
     requiresParameters: true,
     cacheable: false,
@@ -176,6 +198,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.SET_APPOINTMENT]: {
     name: 'SetAppointment',
     category: 'appointment',
+    readOnly: false,
     description: 'Schedule a new appointment',
     requiresParameters: true,
     cacheable: false,
@@ -183,6 +206,7 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.SET_APPOINTMENT_STATUS_CONFIRMED]: {
     name: 'SetAppointmentStatusConfirmed',
     category: 'appointment',
+    readOnly: false,
     description: 'Confirm an existing appointment',
     requiresParameters: true,
     cacheable: false,
@@ -190,12 +214,40 @@ export const PROCEDURE_METADATA: Record<Cloud9Procedure, ProcedureMetadata> = {
   [Cloud9Procedure.SET_APPOINTMENT_STATUS_CANCELED]: {
     name: 'SetAppointmentStatusCanceled',
     category: 'appointment',
+    readOnly: false,
     description: 'Cancel an existing appointment',
     requiresParameters: true,
     cacheable: false,
   },
 };
 
+/**
+ * Request policy defaults (see getProcedurePolicy)
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+export const DEFAULT_READ_MAX_RETRIES = Number(process.env.CLOUD9_MAX_RETRIES ?? 2);
+
+export interface ProcedurePolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  readOnly: boolean;
+}
+
+/**
+ * Get the timeout/retry policy for a procedure.
+ * Only read procedures are retried: a write that timed out may still have been applied,
+ * and retrying SetAppointment/SetPatient would create duplicates.
+ */
+export function getProcedurePolicy(procedure: string): ProcedurePolicy {
+  const metadata = PROCEDURE_METADATA[procedure as Cloud9Procedure];
+
+  return {
+    timeoutMs: metadata?.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+    maxRetries: metadata?.readOnly ? DEFAULT_READ_MAX_RETRIES : 0,
+    readOnly: metadata?.readOnly ?? false,
+  };
+}
+
 /**
  * Check if a procedure is cacheable
  */
@@ -215,6 +215,29 @@ export function buildGetAppointmentListByPatientRequest(
   });
 }
 
+/**
+ * Helper function to build GetExistingAppts request (all appointments in a date range)
+ */
+export interface GetExistingApptsParams {
+  startDate: string; // Format: MM/DD/YYYY
+  endDate: string; // Format: MM/DD/YYYY
+}
+
+export function buildGetExistingApptsRequest(
+  credentials: Cloud9Credentials,
+  params: GetExistingApptsParams
+): string {
+  // Cover the whole of both end days
+  return buildXmlRequest({
+    procedure: 'GetExistingAppts',
+    parameters: {
+      startDate: `${params.startDate} 12:00:00 AM`,
+      endDate: `${params.endDate} 11:59:59 PM`,
+    },
+    credentials,
+  });
+}
+
 /**
  * Helper function to build SetAppointment request (Create appointment)
  */
@@ -0,0 +1,107 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+/**
+ * Flowise Management API Client
+ * Reads and updates chatflows and custom tools through Flowise's REST API
+ * (/api/v1/chatflows, /api/v1/tools). Authenticates with the same API key as
+ * predictions.
+ */
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export interface FlowiseChatflow {
+  id: string;
+  name: string;
+  /** JSON-encoded { nodes, edges } */
+  flowData: string;
+  [key: string]: unknown;
+}
+
+export interface FlowiseTool {
+  id: string;
+  name: string;
+  description: string;
+  /** JSON-encoded array of input properties */
+  schema: string;
+  func: string;
+  [key: string]: unknown;
+}
+
+export interface FlowiseFlowNode {
+  id: string;
+  data: {
+    id?: string;
+    name: string;
+    label?: string;
+    inputs?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface FlowiseFlowData {
+  nodes: FlowiseFlowNode[];
+  edges: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Split a prediction URL (https://host/api/v1/prediction/<chatflowId>) into
+ * the Flowise base URL and chatflow ID
+ */
+export function parsePredictionUrl(url: string): { baseUrl: string; chatflowId: string } | null {
+  const match = url.match(/^(https?:\/\/.+?)\/api\/v1\/prediction\/([^/?#]+)/);
+  return match ? { baseUrl: match[1], chatflowId: match[2] } : null;
+}
+
+export function parseFlowData(chatflow: FlowiseChatflow): FlowiseFlowData {
+  const flowData = JSON.parse(chatflow.flowData || '{}');
+  return { ...flowData, nodes: flowData.nodes || [], edges: flowData.edges || [] };
+}
+
+export class FlowiseManagementClient {
+  private http: AxiosInstance;
+
+  constructor(baseUrl: string, apiKey?: string | null) {
+    this.http = axios.create({
+      baseURL: `${baseUrl.replace(/\/+$/, '')}/api/v1`,
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+  }
+
+  async getChatflow(chatflowId: string): Promise<FlowiseChatflow> {
+    return this.request(`GET chatflow ${chatflowId}`, () => this.http.get(`/chatflows/${encodeURIComponent(chatflowId)}`));
+  }
+
+  async updateChatflow(chatflowId: string, update: Partial<FlowiseChatflow>): Promise<FlowiseChatflow> {
+    return this.request(`PUT chatflow ${chatflowId}`, () => this.http.put(`/chatflows/${encodeURIComponent(chatflowId)}`, update));
+  }
+
+  async listTools(): Promise<FlowiseTool[]> {
+    return this.request('GET tools', () => this.http.get('/tools'));
+  }
+
+  async getTool(toolId: string): Promise<FlowiseTool> {
+    return this.request(`GET tool ${toolId}`, () => this.http.get(`/tools/${encodeURIComponent(toolId)}`));
+  }
+
+  async updateTool(toolId: string, update: Partial<FlowiseTool>): Promise<FlowiseTool> {
+    return this.request(`PUT tool ${toolId}`, () => this.http.put(`/tools/${encodeURIComponent(toolId)}`, update));
+  }
+
+  /**
+   * Unwrap the response body, turning HTTP errors into readable messages
+   */
+  private async request<T>(label: string, send: () => Promise<{ data: T }>): Promise<T> {
+    try {
+      const response = await send();
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<any>;
+      const status = axiosError.response?.status;
+      const detail = axiosError.response?.data?.message || axiosError.response?.data?.error || axiosError.message;
+      throw new Error(`Flowise ${label} failed${status ? ` (HTTP ${status})` : ''}: ${detail}`);
+    }
+  }
+}
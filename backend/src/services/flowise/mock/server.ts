@@ -0,0 +1,197 @@
+import express from 'express';
+import { Server } from 'http';
+import logger from '../../../utils/logger';
+import type { FlowiseChatflow, FlowiseTool } from '../managementClient';
+
+/**
+ * Flowise Mock Server
+ * Local stub of the Flowise management API (chatflows + custom tools) for
+ * exercising prompt/tool deploys without a real Flowise instance.
+ *
+ * Point a Flowise config profile at http://localhost:<port>/api/v1/prediction/mock-chatflow
+ * and run standalone with `npm run mock:flowise`.
+ *
+ * Test hooks:
+ *   POST /__mock/reset  { chatflows?, tools? }  replace the stored chatflows/tools
+ *   GET  /__mock/state                          dump the stored chatflows/tools
+ */
+
+export interface MockFlowiseState {
+  chatflows: FlowiseChatflow[];
+  tools: FlowiseTool[];
+}
+
+export interface MockFlowiseServer {
+  server: Server;
+  port: number;
+  getState(): MockFlowiseState;
+  reset(state?: Partial<MockFlowiseState>): MockFlowiseState;
+  close(): Promise<void>;
+}
+
+export const MOCK_CHATFLOW_ID = 'mock-chatflow';
+
+function customToolNode(id: string, toolId: string, toolName: string) {
+  return {
+    id,
+    data: {
+      id,
+      name: 'customTool',
+      label: 'Custom Tool',
+      inputs: {
+        selectedTool: toolId,
+        returnDirect: false,
+        customToolName: toolName,
+        customToolDesc: '',
+        customToolSchema: '[]',
+        customToolFunc: '',
+      },
+    },
+  };
+}
+
+/**
+ * A chatflow with a tool agent using the scheduling and patient tools
+ */
+export function createDefaultMockState(): MockFlowiseState {
+  const now = new Date().toISOString();
+  const tools: FlowiseTool[] = [
+    { id: 'mock-tool-scheduling', name: 'schedule_appointment_ortho', description: '', schema: '[]', func: '' },
+    { id: 'mock-tool-patient', name: 'chord_ortho_patient', description: '', schema: '[]', func: '' },
+  ];
+
+  const flowData = {
+    nodes: [
+      {
+        id: 'toolAgent_0',
+        data: { id: 'toolAgent_0', name: 'toolAgent', label: 'Tool Agent', inputs: { systemMessage: '' } },
+      },
+      customToolNode('customTool_0', tools[0].id, tools[0].name),
+      customToolNode('customTool_1', tools[1].id, tools[1].name),
+    ],
+    edges: [],
+  };
+
+  return {
+    chatflows: [{ id: MOCK_CHATFLOW_ID, name: 'Mock Chatflow', flowData: JSON.stringify(flowData), updatedDate: now }],
+    tools,
+  };
+}
+
+function getConfiguredPort(): number {
+  return Number(process.env.FLOWISE_MOCK_PORT) || 3902;
+}
+
+export function startMockFlowiseServer(
+  options: Partial<MockFlowiseState> & { port?: number; apiKey?: string } = {}
+): Promise<MockFlowiseServer> {
+  const { port = getConfiguredPort(), apiKey = process.env.FLOWISE_MOCK_API_KEY, ...initialState } = options;
+  let state: MockFlowiseState = { ...createDefaultMockState(), ...initialState };
+
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  const api = express.Router();
+
+  api.use((req, res, next) => {
+    if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+      res.status(401).json({ message: 'Unauthorized Access' });
+      return;
+    }
+    next();
+  });
+
+  api.get('/chatflows/:id', (req, res) => {
+    const chatflow = state.chatflows.find(c => c.id === req.params.id);
+    if (!chatflow) {
+      res.status(404).json({ message: `Chatflow ${req.params.id} not found` });
+      return;
+    }
+    res.json(chatflow);
+  });
+
+  api.put('/chatflows/:id', (req, res) => {
+    const chatflow = state.chatflows.find(c => c.id === req.params.id);
+    if (!chatflow) {
+      res.status(404).json({ message: `Chatflow ${req.params.id} not found` });
+      return;
+    }
+    Object.assign(chatflow, req.body, { id: chatflow.id, updatedDate: new Date().toISOString() });
+    res.json(chatflow);
+  });
+
+  api.get('/tools', (_req, res) => {
+    res.json(state.tools);
+  });
+
+  api.get('/tools/:id', (req, res) => {
+    const tool = state.tools.find(t => t.id === req.params.id);
+    if (!tool) {
+      res.status(404).json({ message: `Tool ${req.params.id} not found` });
+      return;
+    }
+    res.json(tool);
+  });
+
+  api.put('/tools/:id', (req, res) => {
+    const tool = state.tools.find(t => t.id === req.params.id);
+    if (!tool) {
+      res.status(404).json({ message: `Tool ${req.params.id} not found` });
+      return;
+    }
+    Object.assign(tool, req.body, { id: tool.id });
+    res.json(tool);
+  });
+
+  // Answers the Flowise config profile's connection test
+  api.post('/prediction/:id', (req, res) => {
+    if (!state.chatflows.some(c => c.id === req.params.id)) {
+      res.status(404).json({ message: `Chatflow ${req.params.id} not found` });
+      return;
+    }
+    res.json({ text: `Mock response to: ${req.body?.question ?? ''}` });
+  });
+
+  app.use('/api/v1', api);
+
+  app.post('/__mock/reset', (req, res) => {
+    state = { ...createDefaultMockState(), ...(req.body || {}) };
+    res.json({ status: 'success', data: state });
+  });
+
+  app.get('/__mock/state', (_req, res) => {
+    res.json({ status: 'success', data: state });
+  });
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      logger.info('Flowise mock server started', { port: boundPort, chatflows: state.chatflows.length });
+
+      resolve({
+        server,
+        port: boundPort,
+        getState: () => state,
+        reset: (resetState: Partial<MockFlowiseState> = {}) => {
+          state = { ...createDefaultMockState(), ...resetState };
+          return state;
+        },
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+
+    server.on('error', reject);
+  });
+}
+
+// Run standalone if this file is executed directly
+if (require.main === module) {
+  startMockFlowiseServer().catch((error) => {
+    logger.error('Failed to start Flowise mock server', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  });
+}
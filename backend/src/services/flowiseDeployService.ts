@@ -0,0 +1,376 @@
+/**
+ * Flowise Deploy Service
+ *
+ * Pushes a prompt working-copy version straight into a Flowise chatflow
+ * instead of copy-pasting it by hand:
+ * - system_prompt: written to every agent node's system message in the
+ *   chatflow, escaped with escapeForFlowise (Flowise renders it as a template)
+ * - scheduling_tool / patient_tool: the custom tool with the same name is
+ *   updated (function, schema, description), as are the chatflow's customTool
+ *   nodes that embed a copy of it. Tool code is JavaScript and is not escaped;
+ *   it has to pass validateToolContent (including static analysis) first.
+ *
+ * The target is a Flowise config profile (flowise_configs); its prediction URL
+ * gives the Flowise host and chatflow ID. After the update the chatflow/tool is
+ * read back and compared, and only a verified push is recorded in
+ * prompt_deployments. A push that fails part-way or does not verify puts the
+ * previous chatflow/tool back.
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import path from 'path';
+import { AppError } from '../middleware/errorHandler';
+import * as promptService from './promptService';
+import * as v1FileService from './v1FileService';
+import {
+  FlowiseFlowData,
+  FlowiseManagementClient,
+  parseFlowData,
+  parsePredictionUrl,
+} from './flowise/managementClient';
+
+const TEST_AGENT_DB_PATH = path.resolve(__dirname, '../../../test-agent/data/test-results.db');
+
+/** Agent node inputs that hold the system message (tool agent / conversational agents) */
+const SYSTEM_MESSAGE_INPUTS = ['systemMessage', 'systemMessagePrompt'];
+
+/** customTool node inputs that embed a copy of the tool definition */
+const CUSTOM_TOOL_INPUTS = {
+  func: 'customToolFunc',
+  schema: 'customToolSchema',
+  description: 'customToolDesc',
+} as const;
+
+export const FLOWISE_DEPLOYABLE_FILES = ['system_prompt', 'scheduling_tool', 'patient_tool'];
+
+/** Shape of a Flowise chatflow ID (a UUID); anything else could address another resource */
+export const FLOWISE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class FlowiseDeployError extends AppError {}
+
+export interface FlowiseDeployOptions {
+  /** Prompt version to deploy (default: current working copy) */
+  version?: number;
+  /** Flowise config profile (default: the default profile) */
+  configId?: number;
+  /** Chatflow to update (default: the one in the profile's prediction URL) */
+  chatflowId?: string;
+  deployedBy?: string;
+  notes?: string;
+}
+
+export interface FlowiseDeployUpdate {
+  type: 'chatflow-node' | 'tool';
+  id: string;
+  name: string;
+}
+
+export interface FlowiseDeployResult {
+  fileKey: string;
+  version: number;
+  configName: string;
+  chatflowId: string;
+  updated: FlowiseDeployUpdate[];
+  warnings: string[];
+  message: string;
+}
+
+interface FlowiseTarget {
+  configName: string;
+  baseUrl: string;
+  apiKey: string | null;
+  chatflowId: string;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: string;
+  func: string;
+}
+
+// ============================================================================
+// TARGET + CONTENT RESOLUTION
+// ============================================================================
+
+function resolveTarget(options: FlowiseDeployOptions): FlowiseTarget {
+  const db = new BetterSqlite3(TEST_AGENT_DB_PATH, { readonly: true });
+  let config: { name: string; url: string; api_key: string | null } | undefined;
+
+  try {
+    config = options.configId !== undefined
+      ? db.prepare('SELECT name, url, api_key FROM flowise_configs WHERE id = ?').get(options.configId) as any
+      : db.prepare('SELECT name, url, api_key FROM flowise_configs ORDER BY is_default DESC, id ASC LIMIT 1').get() as any;
+  } finally {
+    db.close();
+  }
+
+  if (!config) {
+    throw new FlowiseDeployError(
+      options.configId !== undefined ? `Flowise config ${options.configId} not found` : 'No Flowise config profile configured',
+      404
+    );
+  }
+
+  const parsed = parsePredictionUrl(config.url);
+  if (!parsed) {
+    throw new FlowiseDeployError(
+      `Flowise config "${config.name}" URL is not a prediction URL (.../api/v1/prediction/<chatflowId>): ${config.url}`,
+      400
+    );
+  }
+
+  return {
+    configName: config.name,
+    baseUrl: parsed.baseUrl,
+    apiKey: config.api_key || null,
+    chatflowId: options.chatflowId || parsed.chatflowId,
+  };
+}
+
+function resolveContent(fileKey: string, version?: number): { content: string; version: number } {
+  if (version !== undefined) {
+    const content = promptService.getVersionContent(fileKey, version);
+    if (content === null) {
+      throw new FlowiseDeployError(`Version ${version} not found for ${fileKey}`, 404);
+    }
+    return { content, version };
+  }
+
+  const current = promptService.getPromptContent(fileKey);
+  if (!current) {
+    throw new FlowiseDeployError(`Prompt file not found: ${fileKey}`, 404);
+  }
+  return current;
+}
+
+/**
+ * Parse a tool working copy (a Flowise tool export)
+ */
+function parseToolDefinition(fileKey: string, content: string): ToolDefinition {
+  let tool: any;
+  try {
+    tool = JSON.parse(content);
+  } catch (error: any) {
+    throw new FlowiseDeployError(`${fileKey} is not valid tool JSON: ${error.message}`, 422);
+  }
+
+  if (!tool?.name || typeof tool.func !== 'string') {
+    throw new FlowiseDeployError(`${fileKey} must be a Flowise tool export with "name" and "func"`, 422);
+  }
+
+  return {
+    name: tool.name,
+    description: tool.description || '',
+    schema: typeof tool.schema === 'string' ? tool.schema : JSON.stringify(tool.schema || []),
+    func: tool.func,
+  };
+}
+
+// ============================================================================
+// DEPLOYMENT
+// ============================================================================
+
+type RestoreStep = [label: string, restore: () => Promise<unknown>];
+
+/**
+ * Undo the writes of a failed deploy, then throw the deploy error saying whether that worked
+ */
+async function failWithRestore(error: any, previous: string, restores: RestoreStep[]): Promise<never> {
+  const restoreErrors: string[] = [];
+  for (const [label, restore] of restores) {
+    await restore().catch((restoreError: any) => {
+      restoreErrors.push(`${label}: ${restoreError.message}`);
+    });
+  }
+
+  const outcome = restoreErrors.length === 0
+    ? `${previous} was restored`
+    : `restoring ${previous} also failed (${restoreErrors.join('; ')})`;
+  throw new FlowiseDeployError(
+    `${error.message}; ${outcome}`,
+    error instanceof FlowiseDeployError ? error.statusCode : 502
+  );
+}
+
+async function deploySystemPrompt(
+  client: FlowiseManagementClient,
+  chatflowId: string,
+  content: string
+): Promise<{ updated: FlowiseDeployUpdate[]; warnings: string[] }> {
+  const systemMessage = promptService.escapeForFlowise(content);
+  const chatflow = await client.getChatflow(chatflowId);
+  const flowData = parseFlowData(chatflow);
+
+  const updated: FlowiseDeployUpdate[] = [];
+  for (const node of flowData.nodes) {
+    const inputs = node.data.inputs || {};
+    for (const input of SYSTEM_MESSAGE_INPUTS) {
+      if (input in inputs) {
+        inputs[input] = systemMessage;
+        updated.push({ type: 'chatflow-node', id: node.id, name: node.data.label || node.data.name });
+      }
+    }
+  }
+
+  if (updated.length === 0) {
+    throw new FlowiseDeployError(`Chatflow "${chatflow.name}" has no agent node with a system message`, 422);
+  }
+
+  try {
+    await client.updateChatflow(chatflowId, { flowData: JSON.stringify(flowData) });
+
+    const deployed = parseFlowData(await client.getChatflow(chatflowId));
+    const mismatched = updated.filter(u => !nodeInputsMatch(deployed, u.id, SYSTEM_MESSAGE_INPUTS, systemMessage));
+    if (mismatched.length > 0) {
+      throw new FlowiseDeployError(
+        `Round-trip verification failed: system message differs on node(s) ${mismatched.map(u => u.id).join(', ')}`,
+        502
+      );
+    }
+  } catch (error: any) {
+    // A failed update may still have been applied, so always put the original back
+    return failWithRestore(error, `the previous system prompt of "${chatflow.name}"`, [
+      ['chatflow', () => client.updateChatflow(chatflowId, { flowData: chatflow.flowData })],
+    ]);
+  }
+
+  return { updated, warnings: [] };
+}
+
+async function deployTool(
+  client: FlowiseManagementClient,
+  chatflowId: string,
+  tool: ToolDefinition
+): Promise<{ updated: FlowiseDeployUpdate[]; warnings: string[] }> {
+  const existing = (await client.listTools()).find(t => t.name === tool.name);
+  if (!existing) {
+    throw new FlowiseDeployError(`Tool "${tool.name}" not found in Flowise; create it once before deploying`, 404);
+  }
+
+  const chatflow = await client.getChatflow(chatflowId);
+  const flowData = parseFlowData(chatflow);
+  const warnings: string[] = [];
+
+  // Snapshot what is live so a failed chatflow update or verification can be undone
+  const previous = await client.getTool(existing.id);
+  const previousTool = { description: previous.description, schema: previous.schema, func: previous.func };
+  let chatflowUpdated = false;
+
+  await client.updateTool(existing.id, {
+    description: tool.description,
+    schema: tool.schema,
+    func: tool.func,
+  });
+  const updated: FlowiseDeployUpdate[] = [{ type: 'tool', id: existing.id, name: tool.name }];
+
+  try {
+    // customTool nodes keep their own copy of the tool, refreshed only when re-selected in the UI
+    const toolNodes = flowData.nodes.filter(
+      node => node.data.name === 'customTool' && node.data.inputs?.selectedTool === existing.id
+    );
+    if (toolNodes.length === 0) {
+      warnings.push(`Tool "${tool.name}" is not used by chatflow "${chatflow.name}"`);
+    }
+
+    const embeddedNodes = toolNodes.filter(node => CUSTOM_TOOL_INPUTS.func in (node.data.inputs || {}));
+    for (const node of embeddedNodes) {
+      const inputs = node.data.inputs!;
+      inputs[CUSTOM_TOOL_INPUTS.func] = tool.func;
+      if (CUSTOM_TOOL_INPUTS.schema in inputs) inputs[CUSTOM_TOOL_INPUTS.schema] = tool.schema;
+      if (CUSTOM_TOOL_INPUTS.description in inputs) inputs[CUSTOM_TOOL_INPUTS.description] = tool.description;
+      updated.push({ type: 'chatflow-node', id: node.id, name: node.data.label || node.data.name });
+    }
+    if (embeddedNodes.length > 0) {
+      // Set first: a failed update may still have been applied
+      chatflowUpdated = true;
+      await client.updateChatflow(chatflowId, { flowData: JSON.stringify(flowData) });
+    }
+
+    const deployedTool = await client.getTool(existing.id);
+    if (deployedTool.func !== tool.func || deployedTool.schema !== tool.schema) {
+      throw new FlowiseDeployError(`Round-trip verification failed: tool "${tool.name}" differs after update`, 502);
+    }
+    if (embeddedNodes.length > 0) {
+      const deployed = parseFlowData(await client.getChatflow(chatflowId));
+      const mismatched = embeddedNodes.filter(
+        node => !nodeInputsMatch(deployed, node.id, [CUSTOM_TOOL_INPUTS.func], tool.func)
+      );
+      if (mismatched.length > 0) {
+        throw new FlowiseDeployError(
+          `Round-trip verification failed: tool function differs on node(s) ${mismatched.map(n => n.id).join(', ')}`,
+          502
+        );
+      }
+    }
+  } catch (error: any) {
+    const restores: RestoreStep[] = [['tool', () => client.updateTool(existing.id, previousTool)]];
+    if (chatflowUpdated) {
+      restores.push(['chatflow', () => client.updateChatflow(chatflowId, { flowData: chatflow.flowData })]);
+    }
+    return failWithRestore(error, `the previous version of "${tool.name}"`, restores);
+  }
+
+  return { updated, warnings };
+}
+
+function nodeInputsMatch(flowData: FlowiseFlowData, nodeId: string, inputs: string[], expected: string): boolean {
+  const node = flowData.nodes.find(n => n.id === nodeId);
+  const nodeInputs = node?.data.inputs || {};
+  return inputs.filter(input => input in nodeInputs).every(input => nodeInputs[input] === expected);
+}
+
+/**
+ * Deploy a prompt version to a Flowise chatflow and record the deployment
+ */
+export async function deployToFlowise(
+  fileKey: string,
+  options: FlowiseDeployOptions = {}
+): Promise<FlowiseDeployResult> {
+  if (!FLOWISE_DEPLOYABLE_FILES.includes(fileKey)) {
+    throw new FlowiseDeployError(
+      `${fileKey} cannot be deployed to Flowise (supported: ${FLOWISE_DEPLOYABLE_FILES.join(', ')})`,
+      400
+    );
+  }
+
+  const { content, version } = resolveContent(fileKey, options.version);
+
+  // Broken tool code must not reach the chatflow
+  let validationWarnings: string[] = [];
+  if (fileKey !== 'system_prompt') {
+    const validation = v1FileService.validateToolContent(content);
+    if (!validation.valid) {
+      throw new FlowiseDeployError(`${fileKey} v${version} failed validation: ${validation.errors.join('; ')}`, 422);
+    }
+    validationWarnings = validation.warnings;
+  }
+
+  const target = resolveTarget(options);
+  const client = new FlowiseManagementClient(target.baseUrl, target.apiKey);
+
+  let outcome: { updated: FlowiseDeployUpdate[]; warnings: string[] };
+  try {
+    outcome = fileKey === 'system_prompt'
+      ? await deploySystemPrompt(client, target.chatflowId, content)
+      : await deployTool(client, target.chatflowId, parseToolDefinition(fileKey, content));
+  } catch (error: any) {
+    if (error instanceof FlowiseDeployError) throw error;
+    throw new FlowiseDeployError(error.message, 502);
+  }
+
+  const notes = [`Deployed to Flowise "${target.configName}" chatflow ${target.chatflowId}`, options.notes]
+    .filter(Boolean)
+    .join(' - ');
+  promptService.markAsDeployed(fileKey, version, options.deployedBy, notes);
+
+  return {
+    fileKey,
+    version,
+    configName: target.configName,
+    chatflowId: target.chatflowId,
+    updated: outcome.updated,
+    warnings: [...validationWarnings, ...outcome.warnings],
+    message: `Deployed ${fileKey} v${version} to Flowise "${target.configName}"`,
+  };
+}
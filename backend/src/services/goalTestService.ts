@@ -6,6 +6,7 @@
 import BetterSqlite3 from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
+import { Database as TestAgentDatabase } from '../../../test-agent/src/storage/database';
 
 // Path to test-agent database
 const TEST_AGENT_DB_PATH = path.resolve(__dirname, '../../../test-agent/data/test-results.db');
@@ -46,6 +47,17 @@ export interface PersonaTraitsDTO {
   providesExtraInfo: boolean;
   patienceLevel?: 'patient' | 'moderate' | 'impatient';
   techSavviness?: 'low' | 'moderate' | 'high';
+  /** Language the persona speaks on the call (default 'en') */
+  language?: 'en' | 'es';
+  /** Simulated speech-recognition noise and keypad input; rates are 0-1 */
+  voice?: {
+    spokenDigits?: boolean;
+    spokenEmails?: boolean;
+    nameHomophoneRate?: number;
+    wordDropRate?: number;
+    dtmfRate?: number;
+    seed?: number;
+  };
 }
 
 export interface UserPersonaDTO {
@@ -111,6 +123,11 @@ export interface GoalTestCaseRecord {
   responseConfig: ResponseConfigDTO;
   initialMessage: string;
   isArchived: boolean;
+  /** Share of recent same-prompt-version runs where the result flipped (0-1); absent until the test has run */
+  flakyScore?: number;
+  /** Quarantined tests still run but are excluded from the run pass rate and regression checks */
+  isQuarantined?: boolean;
+  quarantineReason?: string;
   version: number;
   createdAt: string;
   updatedAt: string;
@@ -301,6 +318,39 @@ function getReadOnlyDb(): BetterSqlite3.Database {
   return new BetterSqlite3(TEST_AGENT_DB_PATH, { readonly: true });
 }
 
+type TestHealth = Pick<GoalTestCaseRecord, 'flakyScore' | 'isQuarantined' | 'quarantineReason'>;
+
+/**
+ * Flakiness and quarantine state per test ID, from tables the test-agent maintains
+ * (empty if the test-agent has not created them yet)
+ */
+function getTestHealth(db: BetterSqlite3.Database): Map<string, TestHealth> {
+  const health = new Map<string, TestHealth>();
+  const tables = new Set(
+    (db.prepare(`
+      SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('test_history_stats', 'test_quarantine')
+    `).all() as any[]).map(row => row.name)
+  );
+
+  if (tables.has('test_history_stats')) {
+    for (const row of db.prepare('SELECT test_id, flaky_score FROM test_history_stats').all() as any[]) {
+      health.set(row.test_id, { flakyScore: row.flaky_score ?? 0, isQuarantined: false });
+    }
+  }
+
+  if (tables.has('test_quarantine')) {
+    for (const row of db.prepare('SELECT test_id, reason FROM test_quarantine').all() as any[]) {
+      health.set(row.test_id, {
+        ...health.get(row.test_id),
+        isQuarantined: true,
+        quarantineReason: row.reason || undefined,
+      });
+    }
+  }
+
+  return health;
+}
+
 // ============================================================================
 // CRUD OPERATIONS
 // ============================================================================
@@ -336,6 +386,7 @@ export function getGoalTestCases(options?: { category?: string; includeArchived?
     query += ' ORDER BY category, case_id';
 
     const rows = db.prepare(query).all(...params) as any[];
+    const health = getTestHealth(db);
 
     return rows.map(row => ({
       id: row.id,
@@ -350,6 +401,8 @@ export function getGoalTestCases(options?: { category?: string; includeArchived?
       responseConfig: JSON.parse(row.response_config_json),
       initialMessage: row.initial_message,
       isArchived: row.is_archived === 1,
+      isQuarantined: false,
+      ...health.get(row.case_id),
       version: row.version,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -388,6 +441,8 @@ export function getGoalTestCase(caseId: string): GoalTestCaseRecord | null {
       responseConfig: JSON.parse(row.response_config_json),
       initialMessage: row.initial_message,
       isArchived: row.is_archived === 1,
+      isQuarantined: false,
+      ...getTestHealth(db).get(row.case_id),
       version: row.version,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
@@ -539,6 +594,29 @@ export function archiveGoalTestCase(caseId: string): boolean {
   }
 }
 
+/**
+ * Quarantine or release a goal test case
+ * Returns the updated test case, or null if it does not exist
+ */
+export function setGoalTestQuarantine(caseId: string, quarantined: boolean, reason?: string): GoalTestCaseRecord | null {
+  if (!goalTestCaseExists(caseId)) return null;
+
+  // The quarantine table belongs to the test-agent, which reads it when computing run results
+  const agentDb = new TestAgentDatabase();
+  agentDb.initialize();
+  try {
+    if (quarantined) {
+      agentDb.quarantineTest(caseId, reason);
+    } else {
+      agentDb.releaseQuarantine(caseId);
+    }
+  } finally {
+    agentDb.close();
+  }
+
+  return getGoalTestCase(caseId);
+}
+
 /**
  * Permanently delete a goal test case
  */
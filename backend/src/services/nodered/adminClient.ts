@@ -0,0 +1,106 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+
+/**
+ * Node-RED Admin API Client
+ * Reads and deploys the running flow configuration through Node-RED's admin
+ * API (GET/POST /flows, API version v2 so deploys carry a revision).
+ * Authenticates with a bearer token, or exchanges a username/password for one
+ * via /auth/token when adminAuth is enabled.
+ */
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export type NodeRedDeploymentType = 'full' | 'flows' | 'nodes';
+
+export interface NodeRedNode {
+  id: string;
+  type: string;
+  /** Tab (or subflow) the node belongs to; absent for tabs and config nodes */
+  z?: string;
+  name?: string;
+  label?: string;
+  [key: string]: unknown;
+}
+
+export interface NodeRedFlows {
+  rev: string;
+  flows: NodeRedNode[];
+}
+
+export interface NodeRedAdminCredentials {
+  token?: string | null;
+  username?: string | null;
+  password?: string | null;
+}
+
+/**
+ * HTTP failure from the admin API, keeping the status so callers can tell
+ * revision conflicts (409) apart from outages
+ */
+export class NodeRedAdminError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'NodeRedAdminError';
+  }
+}
+
+export class NodeRedAdminClient {
+  private http: AxiosInstance;
+  private token: string | null;
+
+  constructor(baseUrl: string, private credentials: NodeRedAdminCredentials = {}) {
+    this.http = axios.create({
+      baseURL: baseUrl.replace(/\/+$/, ''),
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: { 'Node-RED-API-Version': 'v2' },
+    });
+    this.token = credentials.token || null;
+  }
+
+  async getFlows(): Promise<NodeRedFlows> {
+    const headers = await this.authHeaders();
+    return this.request('GET flows', () => this.http.get('/flows', { headers }));
+  }
+
+  /**
+   * Replace the running flow configuration
+   * Passing the revision read with getFlows makes Node-RED reject the deploy
+   * (409) if someone else deployed in between.
+   */
+  async setFlows(flows: NodeRedNode[], rev: string | null, deploymentType: NodeRedDeploymentType): Promise<{ rev: string }> {
+    const headers = { ...(await this.authHeaders()), 'Node-RED-Deployment-Type': deploymentType };
+    const body = rev ? { flows, rev } : { flows };
+    return this.request(`POST flows (${deploymentType})`, () => this.http.post('/flows', body, { headers }));
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    if (!this.token && this.credentials.username) {
+      const response = await this.request<{ access_token: string }>('POST auth/token', () =>
+        this.http.post('/auth/token', {
+          client_id: 'node-red-admin',
+          grant_type: 'password',
+          scope: '*',
+          username: this.credentials.username,
+          password: this.credentials.password || '',
+        })
+      );
+      this.token = response.access_token;
+    }
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+
+  /**
+   * Unwrap the response body, turning HTTP errors into readable messages
+   */
+  private async request<T>(label: string, send: () => Promise<{ data: T }>): Promise<T> {
+    try {
+      const response = await send();
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<any>;
+      const status = axiosError.response?.status;
+      const detail = axiosError.response?.data?.message || axiosError.response?.data?.error || axiosError.message;
+      throw new NodeRedAdminError(`Node-RED ${label} failed${status ? ` (HTTP ${status})` : ''}: ${detail}`, status);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import express from 'express';
+import crypto from 'crypto';
+import { Server } from 'http';
+import logger from '../../../utils/logger';
+import type { NodeRedDeploymentType, NodeRedNode } from '../adminClient';
+
+/**
+ * Node-RED Mock Server
+ * Local stub of the Node-RED admin API (GET/POST /flows, /auth/token) for
+ * exercising flow deploys, diffs and rollbacks without a Node-RED runtime.
+ * Flows are stored, not executed.
+ *
+ * Set NODERED_ADMIN_URL=http://localhost:<port> and run standalone with
+ * `npm run mock:nodered`.
+ *
+ * Test hooks:
+ *   POST /__mock/reset  { flows? }  replace the stored flows
+ *   GET  /__mock/state              dump the stored flows, revision and deploy history
+ */
+
+export interface MockNodeRedState {
+  flows: NodeRedNode[];
+  rev: string;
+  deployments: Array<{ rev: string; deploymentType: NodeRedDeploymentType; nodes: number; at: string }>;
+}
+
+export interface MockNodeRedServer {
+  server: Server;
+  port: number;
+  getState(): MockNodeRedState;
+  reset(flows?: NodeRedNode[]): MockNodeRedState;
+  close(): Promise<void>;
+}
+
+/** Node-RED derives the revision from the flow content */
+function flowsRev(flows: NodeRedNode[]): string {
+  return crypto.createHash('md5').update(JSON.stringify(flows)).digest('hex');
+}
+
+function createState(flows: NodeRedNode[] = []): MockNodeRedState {
+  return { flows, rev: flowsRev(flows), deployments: [] };
+}
+
+function getConfiguredPort(): number {
+  return Number(process.env.NODERED_MOCK_PORT) || 3903;
+}
+
+export function startMockNodeRedServer(
+  options: { port?: number; flows?: NodeRedNode[]; username?: string; password?: string } = {}
+): Promise<MockNodeRedServer> {
+  const {
+    port = getConfiguredPort(),
+    flows = [],
+    username = process.env.NODERED_MOCK_USERNAME,
+    password = process.env.NODERED_MOCK_PASSWORD || '',
+  } = options;
+  let state = createState(flows);
+  const tokens = new Set<string>();
+
+  const app = express();
+  app.use(express.json({ limit: '20mb' }));
+
+  // Mirrors adminAuth: only enforced when a username is configured
+  const requireAuth: express.RequestHandler = (req, res, next) => {
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+    if (username && (!token || !tokens.has(token))) {
+      res.status(401).json({ code: 'unauthorized', message: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+
+  app.post('/auth/token', (req, res) => {
+    if (!username || req.body?.username !== username || req.body?.password !== password) {
+      res.status(401).json({ code: 'unauthorized', message: 'Invalid credentials' });
+      return;
+    }
+    const token = crypto.randomBytes(16).toString('hex');
+    tokens.add(token);
+    res.json({ access_token: token, expires_in: 604800, token_type: 'Bearer' });
+  });
+
+  app.get('/flows', requireAuth, (req, res) => {
+    if (req.headers['node-red-api-version'] === 'v2') {
+      res.json({ rev: state.rev, flows: state.flows });
+      return;
+    }
+    res.json(state.flows);
+  });
+
+  app.post('/flows', requireAuth, (req, res) => {
+    const isV2 = req.headers['node-red-api-version'] === 'v2';
+    const flows = isV2 ? req.body?.flows : req.body;
+    const deploymentType = (req.headers['node-red-deployment-type'] || 'full') as NodeRedDeploymentType;
+
+    if (!Array.isArray(flows)) {
+      res.status(400).json({ code: 'invalid_api_version', message: 'Invalid flows' });
+      return;
+    }
+    if (isV2 && req.body.rev && req.body.rev !== state.rev) {
+      res.status(409).json({ code: 'version_mismatch', message: 'Flows have changed since they were read' });
+      return;
+    }
+
+    const rev = flowsRev(flows);
+    state = {
+      flows,
+      rev,
+      deployments: [...state.deployments, { rev, deploymentType, nodes: flows.length, at: new Date().toISOString() }],
+    };
+
+    if (isV2) {
+      res.json({ rev });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.post('/__mock/reset', (req, res) => {
+    state = createState(req.body?.flows || []);
+    res.json({ status: 'success', data: state });
+  });
+
+  app.get('/__mock/state', (_req, res) => {
+    res.json({ status: 'success', data: state });
+  });
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      logger.info('Node-RED mock server started', { port: boundPort, nodes: state.flows.length });
+
+      resolve({
+        server,
+        port: boundPort,
+        getState: () => state,
+        reset: (resetFlows: NodeRedNode[] = []) => {
+          state = createState(resetFlows);
+          return state;
+        },
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+
+    server.on('error', reject);
+  });
+}
+
+// Run standalone if this file is executed directly
+if (require.main === module) {
+  startMockNodeRedServer().catch((error) => {
+    logger.error('Failed to start Node-RED mock server', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,641 @@
+/**
+ * Node-RED Deploy Service
+ *
+ * Deploys the V1 flow file (nodered_Cloud9_flows.json) to a running Node-RED
+ * through its admin API instead of just copying the file around:
+ * - diff: the running flows are compared node by node with the V1 file
+ *   (function bodies, `http in` endpoints, wiring); editor layout is ignored
+ * - deploy: the V1 file's tabs replace their running counterparts, nodes on
+ *   other tabs are left alone, and the result is posted with the revision read
+ *   beforehand so a concurrent deploy is rejected instead of overwritten
+ * - rollback: every deploy snapshots the full running flow set first
+ *   (nodered_deployments); rolling back re-posts that snapshot. A deploy whose
+ *   round-trip check fails is still recorded as deployed (with the error), since
+ *   its flows are live, so it can be rolled back
+ *
+ * The target comes from NODERED_ADMIN_URL, with NODERED_ADMIN_TOKEN or
+ * NODERED_ADMIN_USERNAME/NODERED_ADMIN_PASSWORD when adminAuth is enabled.
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import path from 'path';
+import crypto from 'crypto';
+import { AppError } from '../middleware/errorHandler';
+import * as v1FileService from './v1FileService';
+import {
+  NodeRedAdminClient,
+  NodeRedAdminError,
+  NodeRedDeploymentType,
+  NodeRedNode,
+} from './nodered/adminClient';
+
+const TEST_AGENT_DB_PATH = path.resolve(__dirname, '../../../test-agent/data/test-results.db');
+
+const FLOW_FILE_KEY = 'nodered_flow';
+
+/** Editor-only node properties, not part of a node's behaviour */
+const LAYOUT_FIELDS = new Set(['x', 'y', 'w', 'h']);
+
+/** Node types that own other nodes through their `z` property */
+const CONTAINER_TYPES = new Set(['tab', 'subflow']);
+
+export const NODERED_DEPLOYMENT_TYPES: NodeRedDeploymentType[] = ['full', 'flows', 'nodes'];
+
+export class NodeRedDeployError extends AppError {}
+
+export interface NodeRedNodeChange {
+  id: string;
+  type: string;
+  name: string | null;
+  /** Label of the tab the node sits on */
+  tab: string | null;
+  status: 'added' | 'removed' | 'changed';
+  changedFields: string[];
+  /** `http in` nodes: "METHOD /url" on each side */
+  endpoint?: { running: string | null; repo: string | null };
+  /** function nodes: line counts of the function body change */
+  funcDiff?: { addedLines: number; removedLines: number };
+}
+
+export interface NodeRedFlowDiff {
+  inSync: boolean;
+  /** Revision of the running flows the diff was taken against */
+  rev: string;
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+    /** Running nodes on tabs the V1 file does not define (left untouched by deploys) */
+    outsideScope: number;
+  };
+  changes: NodeRedNodeChange[];
+}
+
+export interface NodeRedDeployOptions {
+  deploymentType?: NodeRedDeploymentType;
+  /** Deploy even when the running flows already match the V1 file */
+  force?: boolean;
+  deployedBy?: string;
+  notes?: string;
+}
+
+export interface NodeRedDeployResult {
+  deployed: boolean;
+  /** nodered_deployments row holding the rollback snapshot (null when nothing was deployed) */
+  deploymentId: number | null;
+  deploymentType: NodeRedDeploymentType;
+  previousRev: string;
+  rev: string;
+  diff: NodeRedFlowDiff;
+  message: string;
+}
+
+export interface NodeRedDeployment {
+  id: number;
+  action: 'deploy' | 'rollback';
+  status: 'pending' | 'deployed' | 'failed';
+  deploymentType: NodeRedDeploymentType;
+  adminUrl: string;
+  previousRev: string | null;
+  deployedRev: string | null;
+  sourceHash: string | null;
+  summary: NodeRedFlowDiff['summary'] | null;
+  rollbackOf: number | null;
+  deployedBy: string | null;
+  notes: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// ============================================================================
+// CONFIGURATION + DATABASE
+// ============================================================================
+
+function getAdminUrl(): string {
+  const adminUrl = process.env.NODERED_ADMIN_URL;
+  if (!adminUrl) {
+    throw new NodeRedDeployError('Node-RED admin API is not configured (set NODERED_ADMIN_URL)', 503);
+  }
+  return adminUrl;
+}
+
+function createClient(adminUrl: string): NodeRedAdminClient {
+  return new NodeRedAdminClient(adminUrl, {
+    token: process.env.NODERED_ADMIN_TOKEN,
+    username: process.env.NODERED_ADMIN_USERNAME,
+    password: process.env.NODERED_ADMIN_PASSWORD,
+  });
+}
+
+/**
+ * Get writable database connection, creating the deployment table if needed
+ */
+function getDb(): BetterSqlite3.Database {
+  const db = new BetterSqlite3(TEST_AGENT_DB_PATH);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS nodered_deployments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT CHECK(action IN ('deploy', 'rollback')) NOT NULL DEFAULT 'deploy',
+      status TEXT CHECK(status IN ('pending', 'deployed', 'failed')) NOT NULL DEFAULT 'pending',
+      deployment_type TEXT NOT NULL,
+      admin_url TEXT NOT NULL,
+      previous_rev TEXT,
+      previous_flows TEXT NOT NULL,
+      deployed_rev TEXT,
+      source_hash TEXT,
+      summary_json TEXT,
+      rollback_of INTEGER,
+      deployed_by TEXT,
+      notes TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      completed_at TEXT
+    )
+  `);
+
+  return db;
+}
+
+function mapDeployment(row: any): NodeRedDeployment {
+  return {
+    id: row.id,
+    action: row.action,
+    status: row.status,
+    deploymentType: row.deployment_type,
+    adminUrl: row.admin_url,
+    previousRev: row.previous_rev,
+    deployedRev: row.deployed_rev,
+    sourceHash: row.source_hash,
+    summary: row.summary_json ? JSON.parse(row.summary_json) : null,
+    rollbackOf: row.rollback_of,
+    deployedBy: row.deployed_by,
+    notes: row.notes,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+/**
+ * Record the running flows before a deploy replaces them
+ */
+function insertSnapshot(entry: {
+  action: 'deploy' | 'rollback';
+  deploymentType: NodeRedDeploymentType;
+  adminUrl: string;
+  previousRev: string;
+  previousFlows: NodeRedNode[];
+  sourceHash: string;
+  summary: NodeRedFlowDiff['summary'] | null;
+  rollbackOf?: number;
+  deployedBy?: string;
+  notes?: string;
+}): number {
+  const db = getDb();
+  try {
+    const result = db.prepare(`
+      INSERT INTO nodered_deployments (
+        action, status, deployment_type, admin_url, previous_rev, previous_flows,
+        source_hash, summary_json, rollback_of, deployed_by, notes, created_at
+      ) VALUES (?, 'pending', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      entry.action,
+      entry.deploymentType,
+      entry.adminUrl,
+      entry.previousRev,
+      JSON.stringify(entry.previousFlows),
+      entry.sourceHash,
+      entry.summary ? JSON.stringify(entry.summary) : null,
+      entry.rollbackOf ?? null,
+      entry.deployedBy || null,
+      entry.notes || null,
+      new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Record how a deployment ended. A rev means the flows reached Node-RED (status deployed,
+ * so it can be rolled back), even when an error from the verification afterwards is stored too.
+ */
+function completeDeployment(id: number, outcome: { rev: string; error?: string } | { error: string }): void {
+  const db = getDb();
+  try {
+    db.prepare(`
+      UPDATE nodered_deployments
+      SET status = ?, deployed_rev = ?, error = ?, completed_at = ?
+      WHERE id = ?
+    `).run(
+      'rev' in outcome ? 'deployed' : 'failed',
+      'rev' in outcome ? outcome.rev : null,
+      outcome.error ?? null,
+      new Date().toISOString(),
+      id
+    );
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function hashFlows(flows: NodeRedNode[]): string {
+  return crypto.createHash('md5').update(JSON.stringify(flows)).digest('hex');
+}
+
+/**
+ * Load and validate the V1 flow file
+ */
+function readRepoFlows(): { nodes: NodeRedNode[]; hash: string } {
+  const file = v1FileService.readV1File(FLOW_FILE_KEY);
+  if (!file) {
+    throw new NodeRedDeployError('V1 Node-RED flow file not found', 404);
+  }
+
+  const validation = v1FileService.validateV1FileContent(FLOW_FILE_KEY, file.content);
+  if (!validation.valid) {
+    throw new NodeRedDeployError(`V1 Node-RED flow file is invalid: ${validation.errors.join('; ')}`, 422);
+  }
+
+  const nodes = JSON.parse(file.content) as NodeRedNode[];
+  return { nodes, hash: hashFlows(nodes) };
+}
+
+/**
+ * Running nodes the V1 file owns: its own node IDs plus anything placed on
+ * one of its tabs/subflows (so nodes added to those tabs by hand show up as removed)
+ */
+function createScope(repoNodes: NodeRedNode[]): (node: NodeRedNode) => boolean {
+  const ids = new Set(repoNodes.map(n => n.id));
+  const containerIds = new Set(repoNodes.filter(n => CONTAINER_TYPES.has(n.type)).map(n => n.id));
+  return node => ids.has(node.id) || (!!node.z && containerIds.has(node.z));
+}
+
+function httpEndpoint(node: NodeRedNode | undefined): string | null {
+  if (!node || node.type !== 'http in') return null;
+  return `${String(node.method || 'get').toUpperCase()} ${node.url || ''}`;
+}
+
+/**
+ * Lines only present on one side of a function body (order-insensitive)
+ */
+function diffLines(running: string, repo: string): { addedLines: number; removedLines: number } {
+  const counts = new Map<string, number>();
+  for (const line of running.split('\n')) counts.set(line, (counts.get(line) || 0) + 1);
+
+  let addedLines = 0;
+  for (const line of repo.split('\n')) {
+    const remaining = counts.get(line) || 0;
+    if (remaining > 0) {
+      counts.set(line, remaining - 1);
+    } else {
+      addedLines++;
+    }
+  }
+
+  let removedLines = 0;
+  for (const remaining of counts.values()) removedLines += remaining;
+
+  return { addedLines, removedLines };
+}
+
+function changedFields(running: NodeRedNode, repo: NodeRedNode): string[] {
+  const fields = new Set([...Object.keys(running), ...Object.keys(repo)]);
+  return [...fields]
+    .filter(field => !LAYOUT_FIELDS.has(field))
+    .filter(field => JSON.stringify(running[field]) !== JSON.stringify(repo[field]))
+    .sort();
+}
+
+/**
+ * Compare the running flows with the V1 file node by node
+ * With fullReplace every running node is in scope (the target replaces the whole flow set).
+ */
+export function diffFlows(
+  running: NodeRedNode[],
+  repoNodes: NodeRedNode[],
+  rev: string,
+  fullReplace: boolean = false
+): NodeRedFlowDiff {
+  const inScope = fullReplace ? () => true : createScope(repoNodes);
+  const scopedRunning = running.filter(inScope);
+  const runningById = new Map(scopedRunning.map(n => [n.id, n]));
+  const repoById = new Map(repoNodes.map(n => [n.id, n]));
+
+  const tabLabels = new Map<string, string>();
+  for (const node of [...running, ...repoNodes]) {
+    if (CONTAINER_TYPES.has(node.type)) tabLabels.set(node.id, node.label || node.name || node.id);
+  }
+
+  const describe = (node: NodeRedNode) => ({
+    id: node.id,
+    type: node.type,
+    name: node.name || null,
+    tab: node.z ? tabLabels.get(node.z) || node.z : null,
+  });
+
+  const changes: NodeRedNodeChange[] = [];
+  let unchanged = 0;
+
+  for (const repo of repoNodes) {
+    const current = runningById.get(repo.id);
+    if (!current) {
+      changes.push({
+        ...describe(repo),
+        status: 'added',
+        changedFields: [],
+        ...(repo.type === 'http in' ? { endpoint: { running: null, repo: httpEndpoint(repo) } } : {}),
+      });
+      continue;
+    }
+
+    const fields = changedFields(current, repo);
+    if (fields.length === 0) {
+      unchanged++;
+      continue;
+    }
+
+    const change: NodeRedNodeChange = { ...describe(repo), status: 'changed', changedFields: fields };
+    if (repo.type === 'http in' || current.type === 'http in') {
+      change.endpoint = { running: httpEndpoint(current), repo: httpEndpoint(repo) };
+    }
+    if (fields.includes('func')) {
+      change.funcDiff = diffLines(String(current.func ?? ''), String(repo.func ?? ''));
+    }
+    changes.push(change);
+  }
+
+  for (const current of scopedRunning) {
+    if (repoById.has(current.id)) continue;
+    changes.push({
+      ...describe(current),
+      status: 'removed',
+      changedFields: [],
+      ...(current.type === 'http in' ? { endpoint: { running: httpEndpoint(current), repo: null } } : {}),
+    });
+  }
+
+  const count = (status: NodeRedNodeChange['status']) => changes.filter(c => c.status === status).length;
+
+  return {
+    inSync: changes.length === 0,
+    rev,
+    summary: {
+      added: count('added'),
+      removed: count('removed'),
+      changed: count('changed'),
+      unchanged,
+      outsideScope: running.length - scopedRunning.length,
+    },
+    changes,
+  };
+}
+
+/**
+ * Replace the V1 file's tabs in the running flow set, keeping every other
+ * node (and the position of the replaced tabs in the tab order)
+ */
+export function mergeFlows(running: NodeRedNode[], repoNodes: NodeRedNode[]): NodeRedNode[] {
+  const inScope = createScope(repoNodes);
+  const merged: NodeRedNode[] = [];
+  let inserted = false;
+
+  for (const node of running) {
+    if (!inScope(node)) {
+      merged.push(node);
+    } else if (!inserted) {
+      merged.push(...repoNodes);
+      inserted = true;
+    }
+  }
+
+  if (!inserted) merged.push(...repoNodes);
+  return merged;
+}
+
+// ============================================================================
+// DEPLOYMENT
+// ============================================================================
+
+function toDeployError(error: any): NodeRedDeployError {
+  if (error instanceof NodeRedDeployError) return error;
+  if (error instanceof NodeRedAdminError && error.status === 409) {
+    return new NodeRedDeployError(
+      'Node-RED flows were deployed by someone else while this deploy was running; review the diff and retry',
+      409
+    );
+  }
+  return new NodeRedDeployError(error.message, 502);
+}
+
+function resolveDeploymentType(deploymentType?: NodeRedDeploymentType): NodeRedDeploymentType {
+  const type = deploymentType || 'flows';
+  if (!NODERED_DEPLOYMENT_TYPES.includes(type)) {
+    throw new NodeRedDeployError(
+      `Invalid deployment type: ${type} (supported: ${NODERED_DEPLOYMENT_TYPES.join(', ')})`,
+      400
+    );
+  }
+  return type;
+}
+
+/**
+ * Diff the running Node-RED flows against the V1 flow file
+ */
+export async function getNodeRedDiff(): Promise<NodeRedFlowDiff> {
+  const client = createClient(getAdminUrl());
+  const repo = readRepoFlows();
+
+  try {
+    const running = await client.getFlows();
+    return diffFlows(running.flows, repo.nodes, running.rev);
+  } catch (error: any) {
+    throw toDeployError(error);
+  }
+}
+
+/**
+ * Deploy the V1 flow file to Node-RED, snapshotting the running flows first
+ */
+export async function deployNodeRedFlows(options: NodeRedDeployOptions = {}): Promise<NodeRedDeployResult> {
+  const deploymentType = resolveDeploymentType(options.deploymentType);
+  const adminUrl = getAdminUrl();
+  const client = createClient(adminUrl);
+  const repo = readRepoFlows();
+
+  let running;
+  try {
+    running = await client.getFlows();
+  } catch (error: any) {
+    throw toDeployError(error);
+  }
+
+  const diff = diffFlows(running.flows, repo.nodes, running.rev);
+  if (diff.inSync && !options.force) {
+    return {
+      deployed: false,
+      deploymentId: null,
+      deploymentType,
+      previousRev: running.rev,
+      rev: running.rev,
+      diff,
+      message: 'Running Node-RED flows already match the V1 flow file',
+    };
+  }
+
+  const deploymentId = insertSnapshot({
+    action: 'deploy',
+    deploymentType,
+    adminUrl,
+    previousRev: running.rev,
+    previousFlows: running.flows,
+    sourceHash: repo.hash,
+    summary: diff.summary,
+    deployedBy: options.deployedBy,
+    notes: options.notes,
+  });
+
+  let rev: string;
+  try {
+    ({ rev } = await client.setFlows(mergeFlows(running.flows, repo.nodes), running.rev, deploymentType));
+  } catch (error: any) {
+    const deployError = toDeployError(error);
+    completeDeployment(deploymentId, { error: deployError.message });
+    throw deployError;
+  }
+
+  // The new flows are live from here on; a failed check still leaves the deployment rollbackable
+  try {
+    const deployed = await client.getFlows();
+    const verification = diffFlows(deployed.flows, repo.nodes, deployed.rev);
+    if (!verification.inSync) {
+      throw new NodeRedDeployError(
+        `Round-trip verification failed: ${verification.changes.length} node(s) differ after deploy`,
+        502
+      );
+    }
+  } catch (error: any) {
+    const verifyError = toDeployError(error);
+    completeDeployment(deploymentId, { rev, error: verifyError.message });
+    throw new NodeRedDeployError(
+      `${verifyError.message}; the new flows are live, roll back deployment ${deploymentId} to undo them`,
+      verifyError.statusCode
+    );
+  }
+
+  completeDeployment(deploymentId, { rev });
+  return {
+    deployed: true,
+    deploymentId,
+    deploymentType,
+    previousRev: running.rev,
+    rev,
+    diff,
+    message: `Deployed V1 flows to Node-RED (${diff.summary.added} added, ${diff.summary.changed} changed, ${diff.summary.removed} removed)`,
+  };
+}
+
+/**
+ * List Node-RED deployments, newest first (without the flow snapshots)
+ */
+export function listNodeRedDeployments(limit: number = 20): NodeRedDeployment[] {
+  const db = getDb();
+  try {
+    const rows = db.prepare(`
+      SELECT id, action, status, deployment_type, admin_url, previous_rev, deployed_rev, source_hash,
+             summary_json, rollback_of, deployed_by, notes, error, created_at, completed_at
+      FROM nodered_deployments
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(limit);
+    return rows.map(mapDeployment);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Restore the flows a deployment replaced
+ * The rollback is itself recorded with a snapshot, so it can be undone too.
+ */
+export async function rollbackNodeRedDeployment(
+  deploymentId: number,
+  options: Pick<NodeRedDeployOptions, 'deploymentType' | 'deployedBy' | 'notes'> = {}
+): Promise<NodeRedDeployResult> {
+  const deploymentType = resolveDeploymentType(options.deploymentType);
+
+  const db = getDb();
+  let row: { status: string; previous_flows: string; admin_url: string } | undefined;
+  try {
+    row = db.prepare('SELECT status, previous_flows, admin_url FROM nodered_deployments WHERE id = ?')
+      .get(deploymentId) as any;
+  } finally {
+    db.close();
+  }
+
+  if (!row) {
+    throw new NodeRedDeployError(`Node-RED deployment ${deploymentId} not found`, 404);
+  }
+  if (row.status !== 'deployed') {
+    throw new NodeRedDeployError(`Node-RED deployment ${deploymentId} is ${row.status} and cannot be rolled back`, 409);
+  }
+
+  const adminUrl = getAdminUrl();
+  if (row.admin_url !== adminUrl) {
+    throw new NodeRedDeployError(
+      `Node-RED deployment ${deploymentId} targeted ${row.admin_url}, not the configured ${adminUrl}`,
+      409
+    );
+  }
+
+  const snapshot = JSON.parse(row.previous_flows) as NodeRedNode[];
+  const client = createClient(adminUrl);
+
+  let running;
+  try {
+    running = await client.getFlows();
+  } catch (error: any) {
+    throw toDeployError(error);
+  }
+
+  // The snapshot is a complete flow set, so it replaces everything that is running
+  const diff = diffFlows(running.flows, snapshot, running.rev, true);
+  const rollbackId = insertSnapshot({
+    action: 'rollback',
+    deploymentType,
+    adminUrl,
+    previousRev: running.rev,
+    previousFlows: running.flows,
+    sourceHash: hashFlows(snapshot),
+    summary: diff.summary,
+    rollbackOf: deploymentId,
+    deployedBy: options.deployedBy,
+    notes: options.notes,
+  });
+
+  try {
+    const { rev } = await client.setFlows(snapshot, running.rev, deploymentType);
+    completeDeployment(rollbackId, { rev });
+    return {
+      deployed: true,
+      deploymentId: rollbackId,
+      deploymentType,
+      previousRev: running.rev,
+      rev,
+      diff,
+      message: `Rolled Node-RED back to the flows replaced by deployment ${deploymentId}`,
+    };
+  } catch (error: any) {
+    const deployError = toDeployError(error);
+    completeDeployment(rollbackId, { error: deployError.message });
+    throw deployError;
+  }
+}
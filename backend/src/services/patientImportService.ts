@@ -0,0 +1,380 @@
+/**
+ * Patient Import Service
+ *
+ * Creates patients in bulk from a CSV (e.g. weekly referral lists). Each row is:
+ * 1. Validated against what SetPatient needs (names, DOB, phone, email, location, provider)
+ * 2. Checked for duplicates, within the file and in the practice's PMS
+ * 3. Created through the PMS adapter, unless this is a dry run
+ *
+ * Rows are processed one at a time and never abort the import; every row gets a result.
+ * Re-running an import is safe: rows created the first time come back as duplicates.
+ */
+
+import { Environment } from '../config/cloud9';
+import { AppError } from '../middleware/errorHandler';
+import { CreatePatientParams } from './cloud9/xmlBuilder';
+import type { PmsAdapter, PmsLocation, PmsProviderSchedule } from './pms/types';
+import { parseCsv } from '../utils/csv';
+import { parseCloud9DateTime } from '../utils/cloud9Dates';
+import logger from '../utils/logger';
+
+export const MAX_IMPORT_ROWS = 500;
+
+export type PatientImportRowStatus = 'valid' | 'created' | 'duplicate' | 'invalid' | 'failed';
+
+export interface PatientImportRowResult {
+  row: number; // line in the file (the header is line 1)
+  firstName: string;
+  lastName: string;
+  birthdate: string;
+  status: PatientImportRowStatus;
+  errors: string[];
+  locationGuid?: string;
+  providerGuid?: string;
+  patientGuid?: string; // created patient
+  duplicateOf?: string; // existing PatientGUID, or "row N" for a repeat within the file
+}
+
+export interface PatientImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  summary: Record<PatientImportRowStatus, number>;
+  rows: PatientImportRowResult[];
+}
+
+export interface NewPatientInput {
+  firstName: string;
+  lastName: string;
+  birthdate: string; // YYYY-MM-DD or YYYY-MM-DDTHH:MM:SS
+  phoneNumber: string;
+  email: string;
+  providerGuid: string;
+  locationGuid: string;
+  note?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+  };
+}
+
+type ImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'birthdate'
+  | 'phone'
+  | 'email'
+  | 'location'
+  | 'provider'
+  | 'note'
+  | 'street'
+  | 'city'
+  | 'state'
+  | 'postalCode';
+
+// Header spellings seen in referral lists, compared lowercase with punctuation removed
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  firstName: ['firstname', 'first', 'patientfirstname', 'givenname'],
+  lastName: ['lastname', 'last', 'patientlastname', 'surname', 'familyname'],
+  birthdate: ['birthdate', 'dob', 'dateofbirth', 'birthday', 'patientbirthdate'],
+  phone: ['phone', 'phonenumber', 'mobile', 'cell', 'cellphone'],
+  email: ['email', 'emailaddress'],
+  location: ['location', 'locationguid', 'locationname', 'office'],
+  provider: ['provider', 'providerguid', 'providername', 'chair'],
+  note: ['note', 'notes', 'referral', 'referredby'],
+  street: ['street', 'address', 'addressstreet', 'streetaddress'],
+  city: ['city', 'addresscity'],
+  state: ['state', 'addressstate'],
+  postalCode: ['postalcode', 'zip', 'zipcode', 'addresspostalcode'],
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['firstName', 'lastName', 'birthdate', 'phone', 'email', 'location', 'provider'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * SetPatient parameters for a new patient (shared with POST /api/patients)
+ */
+export function buildSetPatientParams(environment: Environment, input: NewPatientInput): CreatePatientParams {
+  return {
+    patientFirstName: input.firstName,
+    patientLastName: input.lastName,
+    providerGUID: input.providerGuid,
+    locationGUID: input.locationGuid,
+    // Cloud 9 expects YYYY-MM-DDTHH:MM:SS
+    birthdayDateTime: input.birthdate.includes('T') ? input.birthdate : `${input.birthdate}T00:00:00`,
+    phoneNumber: input.phoneNumber,
+    email: input.email,
+    VendorUserName: environment === 'sandbox' ? 'IntelepeerTest' : 'Intelepeer',
+    note: input.note || '',
+    addressStreet: input.address?.street || '',
+    addressCity: input.address?.city || '',
+    addressState: input.address?.state || '',
+    addressPostalCode: input.address?.postalCode || '',
+  };
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map each known field to its column index
+ */
+function mapColumns(header: string[]): Partial<Record<ImportField, number>> {
+  const columns: Partial<Record<ImportField, number>> = {};
+  const normalized = header.map(normalizeHeader);
+
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [ImportField, string[]][]) {
+    const index = normalized.findIndex((name) => aliases.includes(name));
+    if (index !== -1) {
+      columns[field] = index;
+    }
+  }
+
+  return columns;
+}
+
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a date of birth (YYYY-MM-DD, or M/D/YYYY with an optional Cloud 9 time) to YYYY-MM-DD
+ */
+function parseBirthdate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = iso
+    ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    : /^\d{1,2}\/\d{1,2}\/\d{4}(\s|$)/.test(value)
+      ? parseCloud9DateTime(value)
+      : null;
+
+  if (!date || isNaN(date.getTime())) {
+    return null;
+  }
+
+  return toIsoDate(date);
+}
+
+/**
+ * Normalize a US phone number to 10 digits
+ */
+function parsePhone(value: string): string | null {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) {
+    return digits.slice(1);
+  }
+  return digits.length === 10 ? digits : null;
+}
+
+function sameText(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function findLocation(locations: PmsLocation[], value: string): PmsLocation | undefined {
+  return locations.find(
+    (loc) => sameText(loc.guid, value) || sameText(loc.name, value) || sameText(loc.code, value)
+  );
+}
+
+/**
+ * Resolve a provider (chair GUID, schedule view GUID, or description) at a location to the
+ * chair GUID the Patients page sends as providerGuid
+ */
+function findProviderGuid(chairs: PmsProviderSchedule[], locationGuid: string, value: string): string | undefined {
+  const atLocation = chairs.filter((chair) => chair.locationGuid === locationGuid);
+  const chair =
+    atLocation.find((c) => sameText(c.guid, value) || sameText(c.scheduleViewGuid, value)) ||
+    atLocation.find(
+      (c) =>
+        sameText(c.scheduleColumnDescription, value) ||
+        sameText(c.scheduleViewDescription, value) ||
+        sameText(`${c.scheduleViewDescription} - ${c.scheduleColumnDescription}`, value)
+    );
+  return chair?.guid;
+}
+
+/**
+ * Look for an existing patient with the same name and date of birth
+ */
+async function findExistingPatient(
+  pms: PmsAdapter,
+  firstName: string,
+  lastName: string,
+  birthdate: string
+): Promise<string | null> {
+  const patients = await pms.searchPatients(`${lastName}, ${firstName}`, 1, 50);
+
+  const match = patients.find((patient) => {
+    // ISO values are date-only in practice; take the date part rather than parse them as UTC
+    const rawBirthdate = patient.birthdate || '';
+    const isoPrefix = rawBirthdate.match(/^\d{4}-\d{2}-\d{2}/);
+    const parsed = isoPrefix ? null : parseCloud9DateTime(rawBirthdate);
+    const existingBirthdate = isoPrefix ? isoPrefix[0] : parsed ? toIsoDate(parsed) : null;
+
+    return (
+      sameText(patient.first_name, firstName) &&
+      sameText(patient.last_name, lastName) &&
+      existingBirthdate === birthdate
+    );
+  });
+
+  return match ? match.patient_guid : null;
+}
+
+/**
+ * Validate (and unless dryRun, create) every patient in a CSV
+ */
+export async function importPatientsFromCsv(
+  pms: PmsAdapter,
+  csvText: string,
+  options: { dryRun: boolean }
+): Promise<PatientImportReport> {
+  const [header, ...dataRows] = parseCsv(csvText);
+
+  if (!header) {
+    throw new AppError('CSV file is empty', 400);
+  }
+
+  const columns = mapColumns(header);
+  const missing = REQUIRED_FIELDS.filter((field) => columns[field] === undefined);
+  if (missing.length > 0) {
+    throw new AppError(`CSV is missing required columns: ${missing.join(', ')}`, 400, 'IMPORT_MISSING_COLUMNS', {
+      missing,
+      header,
+    });
+  }
+
+  if (dataRows.length === 0) {
+    throw new AppError('CSV has no patient rows', 400);
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`CSV has ${dataRows.length} rows; the limit is ${MAX_IMPORT_ROWS} per import`, 400);
+  }
+
+  const [locations, chairs] = await Promise.all([pms.getLocations(), pms.getProviders()]);
+
+  const seen = new Map<string, number>();
+  const rows: PatientImportRowResult[] = [];
+
+  for (const [index, cells] of dataRows.entries()) {
+    const value = (field: ImportField) => {
+      const column = columns[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const result: PatientImportRowResult = {
+      row: index + 2,
+      firstName: value('firstName'),
+      lastName: value('lastName'),
+      birthdate: value('birthdate'),
+      status: 'valid',
+      errors: [],
+    };
+    rows.push(result);
+
+    // 1. Validate
+    if (!result.firstName) result.errors.push('First name is required');
+    if (!result.lastName) result.errors.push('Last name is required');
+
+    const birthdate = parseBirthdate(result.birthdate);
+    if (!birthdate) {
+      result.errors.push('Date of birth must be YYYY-MM-DD or MM/DD/YYYY');
+    } else if (new Date(`${birthdate}T00:00:00`) > new Date()) {
+      result.errors.push('Date of birth is in the future');
+    } else {
+      result.birthdate = birthdate;
+    }
+
+    const phone = parsePhone(value('phone'));
+    if (!phone) result.errors.push('Phone must be a 10-digit US number');
+
+    const email = value('email');
+    if (!EMAIL_PATTERN.test(email)) result.errors.push('Email is not valid');
+
+    const location = findLocation(locations, value('location'));
+    if (!location) {
+      result.errors.push(`Unknown location "${value('location')}"`);
+    } else {
+      result.locationGuid = location.guid;
+      result.providerGuid = findProviderGuid(chairs, location.guid, value('provider'));
+      if (!result.providerGuid) {
+        result.errors.push(`Unknown provider "${value('provider')}" at ${location.name}`);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      result.status = 'invalid';
+      continue;
+    }
+
+    // 2. Duplicates: earlier row in this file, then the PMS
+    const key = `${result.lastName}|${result.firstName}|${result.birthdate}`.toLowerCase();
+    const earlierRow = seen.get(key);
+    if (earlierRow !== undefined) {
+      result.status = 'duplicate';
+      result.duplicateOf = `row ${earlierRow}`;
+      continue;
+    }
+    seen.set(key, result.row);
+
+    try {
+      const existingGuid = await findExistingPatient(pms, result.firstName, result.lastName, result.birthdate);
+      if (existingGuid) {
+        result.status = 'duplicate';
+        result.duplicateOf = existingGuid;
+        continue;
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.errors.push(`Duplicate check failed: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    if (options.dryRun) {
+      continue;
+    }
+
+    // 3. Create
+    try {
+      result.patientGuid = await pms.createPatient({
+        firstName: result.firstName,
+        lastName: result.lastName,
+        birthdate: result.birthdate,
+        phoneNumber: phone as string,
+        email,
+        providerGuid: result.providerGuid as string,
+        locationGuid: result.locationGuid as string,
+        note: value('note'),
+        address: {
+          street: value('street'),
+          city: value('city'),
+          state: value('state'),
+          postalCode: value('postalCode'),
+        },
+      });
+      result.status = 'created';
+    } catch (error) {
+      result.status = 'failed';
+      result.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const summary: Record<PatientImportRowStatus, number> = { valid: 0, created: 0, duplicate: 0, invalid: 0, failed: 0 };
+  for (const row of rows) {
+    summary[row.status] += 1;
+  }
+
+  logger.info('[PatientImport] Import finished', {
+    environment: pms.environment,
+    provider: pms.provider,
+    dryRun: options.dryRun,
+    ...summary,
+  });
+
+  return { dryRun: options.dryRun, totalRows: rows.length, summary, rows };
+}
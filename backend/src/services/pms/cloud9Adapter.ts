@@ -0,0 +1,361 @@
+import { Cloud9Client, createCloud9Client } from '../cloud9/client';
+import { UpdatePatientParams } from '../cloud9/xmlBuilder';
+import { Cloud9Response, extractPatientGuidFromResponse } from '../cloud9/xmlParser';
+import { Environment } from '../../config/cloud9';
+import { AppError } from '../../middleware/errorHandler';
+import {
+  Cloud9Appointment,
+  Cloud9AppointmentType,
+  Cloud9AvailableSlot,
+  Cloud9Location,
+  Cloud9Provider,
+} from '../../types/cloud9';
+import { buildSetPatientParams } from '../patientImportService';
+import { formatCloud9Date, parseCloud9DateTime } from '../../utils/cloud9Dates';
+import logger from '../../utils/logger';
+import {
+  PmsAdapter,
+  PmsAppointment,
+  PmsAppointmentType,
+  PmsLocation,
+  PmsNewAppointment,
+  PmsNewPatient,
+  PmsPatient,
+  PmsPatientUpdate,
+  PmsProviderSchedule,
+  PmsSlot,
+  PmsSlotQuery,
+} from './types';
+
+/**
+ * Cloud 9 Adapter
+ * The PMS adapter over the Cloud 9 XML API (GetData.ashx procedures)
+ */
+
+/**
+ * Shape a GetPortalPatientLookup record
+ * Note: GetPortalPatientLookup returns limited fields (no email, phone, address)
+ */
+export function toPmsPatient(patient: any): PmsPatient {
+  return {
+    patient_guid: patient.PatientGUID,
+    patient_id: patient.PatientID,
+    first_name: patient.PatientFirstName,
+    last_name: patient.PatientLastName,
+    birthdate: patient.PatientBirthDate || patient.PatientBirthdate,
+    email: patient.PatientEmail || undefined, // Not available in search
+    phone: patient.PatientPhone || undefined, // Not available in search
+    address_street: patient.PatientStreetAddress || patient.AddressStreet,
+    address_city: patient.PatientCity || patient.AddressCity,
+    address_state: patient.PatientState || patient.AddressState,
+    address_postal_code: patient.PatientPostalCode || patient.AddressPostalCode,
+    provider_guid: patient.PatientOrthodontistGUID || patient.ProviderGUID,
+    location_guid: patient.PatientLocationGUID || patient.LocationGUID,
+  };
+}
+
+export function toPmsAppointment(appt: Cloud9Appointment): PmsAppointment {
+  return {
+    appointment_guid: appt.AppointmentGUID,
+    patient_guid: appt.PatientGUID,
+    patient_title: appt.PatientTitle,
+    patient_first_name: appt.PatientFirstName,
+    patient_middle_name: appt.PatientMiddleName,
+    patient_last_name: appt.PatientLastName,
+    patient_suffix: appt.PatientSuffix,
+    patient_greeting: appt.PatientGreeting,
+    patient_gender: appt.PatientGender,
+    appointment_date_time: appt.AppointmentDateTime,
+    appointment_type_guid: appt.AppointmentTypeGUID,
+    appointment_type_description: appt.AppointmentTypeDescription,
+    status: appt.AppointmentStatus,
+    status_description: appt.AppointmentStatusDescription,
+    appointment_note: appt.AppointmentNote,
+    appointment_minutes: appt.AppointmentMinutes || appt.DurationMinutes,
+    appointment_confirmation: appt.AppointmentConfirmation,
+    orthodontist_guid: appt.OrthodontistGUID,
+    orthodontist_code: appt.OrthodontistCode,
+    orthodontist_name: appt.OrthodontistName,
+    location_guid: appt.LocationGUID,
+    location_code: appt.LocationCode,
+    location_name: appt.LocationName,
+    schedule_view_guid: appt.ScheduleViewGUID,
+    schedule_column_guid: appt.ScheduleColumnGUID,
+  };
+}
+
+/**
+ * Shape a GetPatientInformation record (full name only, no provider or location)
+ */
+function toPmsPatientDetails(patientGuid: string, patient: any): PmsPatient {
+  const fullName = patient.PatientFullName || '';
+  const nameParts = fullName.trim().split(/\s+/);
+
+  return {
+    patient_guid: patientGuid,
+    patient_id: patient.PatID,
+    first_name: nameParts.length > 1 ? nameParts[0] : fullName,
+    last_name: nameParts.length > 1 ? nameParts.slice(1).join(' ') : fullName,
+    birthdate: patient.PatientBirthDate,
+    gender: patient.PatientGender,
+    email: patient.PatientEmail,
+    phone: patient.PatientPhone,
+    address_street: patient.PatientStreet,
+    address_city: patient.PatientCity,
+    address_state: patient.PatientState,
+    address_postal_code: patient.PatientPostalCode,
+    provider_guid: undefined,
+    location_guid: undefined,
+  };
+}
+
+/**
+ * "MM/DD/YYYY" or "YYYY-MM-DD" as M/D/YYYY
+ */
+function toCloud9Date(value: string): string {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : parseCloud9DateTime(value);
+  if (!date) {
+    throw new AppError(`Invalid date: ${value}`, 400);
+  }
+  return formatCloud9Date(date);
+}
+
+export class Cloud9Adapter implements PmsAdapter {
+  readonly provider = 'cloud9' as const;
+  private client: Cloud9Client;
+
+  constructor(readonly environment: Environment) {
+    this.client = createCloud9Client(environment);
+  }
+
+  async getLocations(): Promise<PmsLocation[]> {
+    const response = this.check(await this.client.getLocations(false), 'Failed to fetch locations');
+
+    // Note: Cloud9 API may return city as LocationCity or AddressCity depending on endpoint
+    return response.records.map((loc: Cloud9Location) => ({
+      guid: loc.LocationGUID,
+      name: loc.LocationName,
+      code: loc.LocationCode,
+      timeZone: loc.TimeZone,
+      address: {
+        street: loc.AddressStreet,
+        city: loc.LocationCity || loc.AddressCity,
+        state: loc.LocationState || loc.AddressState,
+        postalCode: loc.LocationPostalCode || loc.AddressPostalCode,
+      },
+      phoneNumber: loc.PhoneNumber,
+    }));
+  }
+
+  async getProviders(): Promise<PmsProviderSchedule[]> {
+    const response = this.check(await this.client.getChairSchedules(), 'Failed to fetch providers');
+
+    return response.records.map((prov: Cloud9Provider) => ({
+      guid: prov.schdcolGUID,
+      locationGuid: prov.locGUID,
+      locationName: '', // Not available in API response, will be populated by frontend if needed
+      scheduleViewGuid: prov.schdvwGUID,
+      scheduleViewDescription: prov.schdvwDescription || '',
+      scheduleColumnGuid: prov.schdcolGUID,
+      scheduleColumnDescription: prov.schdcolDescription || '',
+    }));
+  }
+
+  async getChairs(): Promise<PmsProviderSchedule[]> {
+    // GetChairSchedules already lists one entry per chair (schedule column)
+    return this.getProviders();
+  }
+
+  async getAppointmentTypes(): Promise<PmsAppointmentType[]> {
+    const response = this.check(await this.client.getAppointmentTypes(false), 'Failed to fetch appointment types');
+
+    return response.records.map((type: Cloud9AppointmentType) => ({
+      guid: type.AppointmentTypeGUID,
+      code: type.AppointmentTypeCode,
+      description: type.AppointmentTypeDescription,
+      durationMinutes: Number(type.AppointmentTypeMinutes),
+      allowOnlineScheduling: Boolean(
+        type.AppointmentTypeAllowOnlineScheduling === true ||
+          type.AppointmentTypeAllowOnlineScheduling === 'True'
+      ),
+    }));
+  }
+
+  async searchPatients(query: string, pageIndex: number, pageSize: number): Promise<PmsPatient[]> {
+    const response = this.check(
+      await this.client.searchPatients(query, pageIndex, pageSize),
+      'Failed to search patients'
+    );
+    return response.records.map(toPmsPatient);
+  }
+
+  async getPatient(patientGuid: string): Promise<PmsPatient | null> {
+    const response = this.check(
+      await this.client.getPatientInformation(patientGuid),
+      'Failed to fetch patient information'
+    );
+    return response.records.length > 0 ? toPmsPatientDetails(patientGuid, response.records[0]) : null;
+  }
+
+  async createPatient(patient: PmsNewPatient): Promise<string> {
+    const response = this.check(
+      await this.client.createPatient(buildSetPatientParams(this.environment, patient)),
+      'Failed to create patient'
+    );
+
+    const patientGuid = extractPatientGuidFromResponse(response);
+    if (!patientGuid) {
+      throw new AppError('Failed to extract patient GUID from response', 500);
+    }
+    return patientGuid;
+  }
+
+  async updatePatient(patientGuid: string, update: PmsPatientUpdate): Promise<void> {
+    const params: UpdatePatientParams = { patguid: patientGuid };
+
+    if (update.firstName) params.persFirstName = update.firstName;
+    if (update.lastName) params.persLastName = update.lastName;
+    if (update.birthdate) params.persBirthdate = update.birthdate;
+    if (update.email) params.persUseEmail = update.email;
+    if (update.phoneNumber) params.persUsePhone = update.phoneNumber;
+    if (update.address?.street) params.persStreetAddress = update.address.street;
+    if (update.address?.city) params.persCity = update.address.city;
+    if (update.address?.state) params.persState = update.address.state;
+    if (update.address?.postalCode) params.persPostalCode = update.address.postalCode;
+
+    const response = await this.client.updatePatient(params);
+
+    // Error code 10: SetPatientDemographicInfo is not enabled for this API account
+    if (response.errorMessage?.includes('not authorized')) {
+      throw new AppError(
+        'Patient update is not available. The SetPatientDemographicInfo procedure is not authorized for this API account. Please contact Cloud 9 support to enable this feature.',
+        403
+      );
+    }
+    this.check(response, 'Failed to update patient');
+  }
+
+  async getAvailableSlots(query: PmsSlotQuery): Promise<PmsSlot[]> {
+    // Without a provider, search the first schedule view at the location
+    let scheduleViewGuid = query.providerGuid;
+
+    if (!scheduleViewGuid) {
+      const providersResponse = await this.client.getChairSchedules();
+
+      if (providersResponse.status === 'Success' && providersResponse.records.length > 0) {
+        const locationProviders = providersResponse.records.filter(
+          (p: Cloud9Provider) => p.locGUID === query.locationGuid
+        );
+
+        logger.info('Provider lookup for location', {
+          locationGuid: query.locationGuid,
+          totalProviders: providersResponse.records.length,
+          matchingProviders: locationProviders.length,
+          firstFewLocGuids: providersResponse.records.slice(0, 5).map((p: Cloud9Provider) => p.locGUID),
+        });
+
+        if (locationProviders.length > 0) {
+          // Note: Cloud 9 API might support comma-separated GUIDs for multiple providers
+          scheduleViewGuid = locationProviders[0].schdvwGUID;
+          logger.info('Using schedule view GUID', { scheduleViewGuid });
+        } else {
+          logger.warn('No providers found for location', { locationGuid: query.locationGuid });
+        }
+      }
+    }
+
+    const params = {
+      locationGuid: query.locationGuid,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      ...(scheduleViewGuid && { providerGuid: scheduleViewGuid }),
+      ...(query.appointmentTypeGuid && { appointmentTypeGuid: query.appointmentTypeGuid }),
+      ...(query.durationMinutes && { durationMinutes: query.durationMinutes }),
+    };
+
+    logger.info('GetOnlineReservations params', { params });
+
+    const response = this.check(
+      await this.client.getAvailableAppts(params),
+      'Failed to fetch available appointments'
+    );
+
+    return response.records.map((slot: Cloud9AvailableSlot) => ({
+      dateTime: slot.StartTime,
+      endTime: slot.EndTime,
+      scheduleViewGuid: slot.ScheduleViewGUID,
+      scheduleColumnGuid: slot.ScheduleColumnGUID,
+      scheduleViewDescription: slot.ScheduleViewDescription,
+      scheduleColumnDescription: slot.ScheduleColumnDescription,
+      durationMinutes: slot.Minutes,
+      locationGuid: slot.LocationGUID,
+      appointmentTypeGuid: slot.AppointmentTypeGUID,
+      appointmentTypeDescription: slot.AppointmentTypeDescription,
+    }));
+  }
+
+  async getPatientAppointments(patientGuid: string): Promise<PmsAppointment[]> {
+    const response = this.check(
+      await this.client.getPatientAppointments(patientGuid),
+      'Failed to load patient appointments'
+    );
+    return (response.records as Cloud9Appointment[]).map(toPmsAppointment);
+  }
+
+  async getAppointmentsInRange(startDate: string, endDate: string): Promise<PmsAppointment[]> {
+    const response = this.check(
+      await this.client.getExistingAppts({ startDate: toCloud9Date(startDate), endDate: toCloud9Date(endDate) }),
+      'Failed to fetch appointments'
+    );
+    return (response.records as Cloud9Appointment[]).map(toPmsAppointment);
+  }
+
+  async bookAppointment(appointment: PmsNewAppointment): Promise<string | null> {
+    const response = await this.client.createAppointment({
+      PatientGUID: appointment.patientGuid,
+      StartTime: appointment.startTime,
+      ScheduleViewGUID: appointment.scheduleViewGuid,
+      ScheduleColumnGUID: appointment.scheduleColumnGuid,
+      AppointmentTypeGUID: appointment.appointmentTypeGuid,
+      Minutes: appointment.durationMinutes,
+      VendorUserName: this.environment === 'sandbox' ? 'IntelePeerTest' : 'Intelepeer',
+    });
+
+    logger.info('SetAppointment response', {
+      status: response.status,
+      recordCount: response.records.length,
+      firstRecord: response.records[0],
+      errorMessage: response.errorMessage,
+    });
+
+    const result = this.checkResult(this.check(response, 'Failed to create appointment'));
+    return String(result || '').match(/Added:\s*([0-9a-f-]{36})/i)?.[1] || null;
+  }
+
+  async confirmAppointment(appointmentGuid: string): Promise<void> {
+    this.check(await this.client.confirmAppointment(appointmentGuid), 'Failed to confirm appointment');
+  }
+
+  async cancelAppointment(appointmentGuid: string): Promise<void> {
+    this.checkResult(this.check(await this.client.cancelAppointment(appointmentGuid), 'Failed to cancel appointment'));
+  }
+
+  private check(response: Cloud9Response, failureMessage: string): Cloud9Response {
+    if (response.status === 'Error' || response.errorMessage) {
+      throw new AppError(response.errorMessage || failureMessage, 500);
+    }
+    return response;
+  }
+
+  /**
+   * Business failures come back as "Result: Error: ..." on a successful response
+   */
+  private checkResult(response: Cloud9Response): unknown {
+    const result = response.records[0]?.Result;
+    if (typeof result === 'string' && result.startsWith('Error:')) {
+      throw new AppError(result, 400);
+    }
+    return result;
+  }
+}
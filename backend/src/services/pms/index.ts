@@ -0,0 +1,34 @@
+/**
+ * Practice Management System adapters
+ *
+ * Controllers talk to the practice's PMS through a PmsAdapter instead of the
+ * Cloud 9 client directly: Cloud 9 (XML API) by default, NexHealth (REST)
+ * for environments or tenants configured for it (see config/pms.ts).
+ */
+
+import { Environment } from '../../config/cloud9';
+import { getPmsConfig } from '../../config/pms';
+import { AppError } from '../../middleware/errorHandler';
+import { Cloud9Adapter } from './cloud9Adapter';
+import { NexHealthAdapter } from './nexhealthAdapter';
+import { PmsAdapter } from './types';
+
+export * from './types';
+export { Cloud9Adapter } from './cloud9Adapter';
+export { NexHealthAdapter } from './nexhealthAdapter';
+
+/**
+ * Adapter for the PMS behind an environment and optional tenant (X-Tenant header)
+ */
+export function getPmsAdapter(environment: Environment, tenant?: string): PmsAdapter {
+  const config = getPmsConfig(environment, tenant || undefined);
+  if (!config) {
+    throw new AppError(`Unknown tenant: ${tenant}`, 400);
+  }
+
+  if (config.provider === 'nexhealth') {
+    return new NexHealthAdapter(environment, config.nexhealth!);
+  }
+  return new Cloud9Adapter(environment);
+}
+
@@ -0,0 +1,508 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Environment } from '../../config/cloud9';
+import { NexHealthConfig } from '../../config/pms';
+import { AppError } from '../../middleware/errorHandler';
+import { parseCloud9DateTime } from '../../utils/cloud9Dates';
+import logger from '../../utils/logger';
+import {
+  PmsAdapter,
+  PmsAppointment,
+  PmsAppointmentType,
+  PmsLocation,
+  PmsNewAppointment,
+  PmsNewPatient,
+  PmsPatient,
+  PmsPatientUpdate,
+  PmsProviderSchedule,
+  PmsSlot,
+  PmsSlotQuery,
+} from './types';
+
+/**
+ * NexHealth Adapter
+ * The PMS adapter over the NexHealth REST API, making the same calls as the
+ * NexHealth Node-RED flow (nodered_NexHealth_flows.json):
+ * - POST /authenticates trades the API key for a bearer token (valid ~1 hour)
+ * - one location per practice; its ID and the subdomain scope every request
+ * - NexHealth IDs are numeric and are returned as strings in the GUID fields;
+ *   a slot's provider and operatory map onto scheduleViewGuid/scheduleColumnGuid
+ */
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/** Renew tokens well before NexHealth's one hour expiry */
+const TOKEN_TTL_MS = 50 * 60 * 1000;
+
+/** Window searched for a patient's appointments (NexHealth requires start and end) */
+const APPOINTMENT_LOOKBACK_DAYS = 730;
+const APPOINTMENT_LOOKAHEAD_DAYS = 730;
+
+/** Page size for NexHealth list endpoints */
+const PAGE_SIZE = 300;
+
+const ACCEPT_V2 = 'application/vnd.Nexhealth+json;version=2';
+
+/** Dated API version the flow uses for patient and appointment-list endpoints */
+const DATED_API_VERSION = 'v20240412';
+
+// Tokens are shared by every adapter for the same API key
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+/**
+ * "MM/DD/YYYY" or "YYYY-MM-DD" as YYYY-MM-DD
+ */
+function toIsoDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+
+  const date = parseCloud9DateTime(value);
+  if (!date) {
+    throw new AppError(`Invalid date: ${value}`, 400);
+  }
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function minutesBetween(start: string | undefined, end: string | undefined): number {
+  if (!start || !end) return 0;
+  return Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+}
+
+function optionalId(id: unknown): string | undefined {
+  return id === null || id === undefined ? undefined : String(id);
+}
+
+function toPmsPatient(patient: any, locationId: string): PmsPatient {
+  const bio = patient.bio || {};
+  return {
+    patient_guid: String(patient.id),
+    patient_id: String(patient.id),
+    first_name: patient.first_name,
+    last_name: patient.last_name,
+    birthdate: bio.date_of_birth,
+    email: patient.email || undefined,
+    phone: bio.phone_number || bio.cell_phone_number || undefined,
+    address_street: bio.street_address,
+    address_city: bio.city,
+    address_state: bio.state,
+    address_postal_code: bio.zip_code,
+    provider_guid: optionalId(patient.provider_id),
+    location_guid: optionalId(patient.location_ids?.[0]) || locationId,
+  };
+}
+
+function toPmsAppointment(appt: any): PmsAppointment {
+  const status = appt.cancelled ? 'Cancelled' : appt.confirmed ? 'Confirmed' : 'Scheduled';
+  return {
+    appointment_guid: String(appt.id),
+    patient_guid: String(appt.patient_id),
+    patient_first_name: appt.patient?.first_name,
+    patient_last_name: appt.patient?.last_name,
+    appointment_date_time: appt.start_time,
+    appointment_type_guid: optionalId(appt.appointment_type_id),
+    appointment_type_description: appt.appointment_type?.name,
+    status,
+    status_description: status,
+    appointment_note: appt.note || undefined,
+    appointment_minutes: minutesBetween(appt.start_time, appt.end_time),
+    orthodontist_guid: optionalId(appt.provider_id),
+    orthodontist_name: appt.provider_name,
+    location_guid: optionalId(appt.location_id),
+    schedule_view_guid: optionalId(appt.provider_id),
+    schedule_column_guid: optionalId(appt.operatory_id),
+  };
+}
+
+/**
+ * NexHealth bio fields for a patient create or update (unset fields are left out)
+ */
+function toBio(fields: PmsPatientUpdate): Record<string, string | undefined> {
+  return {
+    phone_number: fields.phoneNumber || undefined,
+    date_of_birth: fields.birthdate ? toIsoDate(fields.birthdate.split('T')[0]) : undefined,
+    street_address: fields.address?.street || undefined,
+    city: fields.address?.city || undefined,
+    state: fields.address?.state || undefined,
+    zip_code: fields.address?.postalCode || undefined,
+  };
+}
+
+export class NexHealthAdapter implements PmsAdapter {
+  readonly provider = 'nexhealth' as const;
+  private http: AxiosInstance;
+
+  constructor(readonly environment: Environment, private config: NexHealthConfig) {
+    this.http = axios.create({
+      baseURL: config.baseUrl.replace(/\/+$/, ''),
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  async getLocations(): Promise<PmsLocation[]> {
+    const location = await this.request<any>('get location', {
+      method: 'GET',
+      url: `/locations/${this.config.locationId}`,
+      params: { subdomain: this.config.subdomain },
+    });
+
+    return [
+      {
+        guid: String(location.id),
+        name: location.name,
+        code: String(location.id),
+        timeZone: location.tz,
+        address: {
+          street: location.street_address,
+          city: location.city,
+          state: location.state,
+          postalCode: location.zip_code,
+        },
+        phoneNumber: location.phone_number,
+      },
+    ];
+  }
+
+  async getProviders(): Promise<PmsProviderSchedule[]> {
+    const providers = await this.request<any[]>('get providers', {
+      method: 'GET',
+      url: '/providers',
+      params: { subdomain: this.config.subdomain, location_id: this.config.locationId, per_page: PAGE_SIZE },
+    });
+
+    return (providers || []).map((provider) => ({
+      guid: String(provider.id),
+      locationGuid: this.config.locationId,
+      locationName: '',
+      scheduleViewGuid: String(provider.id),
+      scheduleViewDescription: provider.name || `${provider.first_name || ''} ${provider.last_name || ''}`.trim(),
+      // Operatories are assigned per slot
+      scheduleColumnGuid: '',
+      scheduleColumnDescription: '',
+    }));
+  }
+
+  async getChairs(): Promise<PmsProviderSchedule[]> {
+    const operatories = await this.request<any[]>('get operatories', {
+      method: 'GET',
+      url: '/operatories',
+      params: { subdomain: this.config.subdomain, location_id: this.config.locationId, per_page: PAGE_SIZE },
+    });
+
+    // Providers are assigned per slot, so the search falls back to the default provider
+    return (operatories || []).map((operatory) => ({
+      guid: String(operatory.id),
+      locationGuid: this.config.locationId,
+      locationName: '',
+      scheduleViewGuid: '',
+      scheduleViewDescription: '',
+      scheduleColumnGuid: String(operatory.id),
+      scheduleColumnDescription: operatory.name || String(operatory.id),
+    }));
+  }
+
+  async getAppointmentTypes(): Promise<PmsAppointmentType[]> {
+    const types = await this.request<any[]>('get appointment types', {
+      method: 'GET',
+      url: '/appointment_types',
+      params: { subdomain: this.config.subdomain, location_id: this.config.locationId },
+    });
+
+    return (types || []).map((type) => ({
+      guid: String(type.id),
+      code: String(type.id),
+      description: type.name,
+      durationMinutes: Number(type.minutes),
+      allowOnlineScheduling: type.bookable_online === true,
+    }));
+  }
+
+  async searchPatients(query: string, pageIndex: number, pageSize: number): Promise<PmsPatient[]> {
+    const patients = await this.request<any[]>(
+      'search patients',
+      {
+        method: 'GET',
+        url: '/patients',
+        params: {
+          subdomain: this.config.subdomain,
+          location_id: this.config.locationId,
+          name: query,
+          page: pageIndex,
+          per_page: pageSize,
+        },
+      },
+      true
+    );
+
+    // No matches can come back as a null payload
+    const records = patients == null ? [] : Array.isArray(patients) ? patients : [patients];
+    return records.map((patient) =>
+      toPmsPatient(patient, this.config.locationId)
+    );
+  }
+
+  async getPatient(patientGuid: string): Promise<PmsPatient | null> {
+    try {
+      const patient = await this.request<any>(
+        'get patient',
+        {
+          method: 'GET',
+          url: `/patients/${encodeURIComponent(patientGuid)}`,
+          params: { subdomain: this.config.subdomain, location_id: this.config.locationId },
+        },
+        true
+      );
+      return patient ? toPmsPatient(patient, this.config.locationId) : null;
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createPatient(patient: PmsNewPatient): Promise<string> {
+    const data = await this.request<any>(
+      'create patient',
+      {
+        method: 'POST',
+        url: '/patients',
+        params: { subdomain: this.config.subdomain, location_id: this.config.locationId },
+        data: {
+          provider: { provider_id: Number(patient.providerGuid) || Number(this.config.providerId) },
+          patient: {
+            first_name: patient.firstName,
+            last_name: patient.lastName,
+            email: patient.email,
+            bio: toBio(patient),
+          },
+        },
+      },
+      true
+    );
+
+    const patientId = data?.user?.id;
+    if (!patientId) {
+      throw new AppError('NexHealth did not return the new patient ID', 500);
+    }
+    return String(patientId);
+  }
+
+  async updatePatient(patientGuid: string, update: PmsPatientUpdate): Promise<void> {
+    await this.request(
+      'update patient',
+      {
+        method: 'PATCH',
+        url: `/patients/${encodeURIComponent(patientGuid)}`,
+        params: { subdomain: this.config.subdomain, location_id: this.config.locationId },
+        data: {
+          patient: {
+            first_name: update.firstName || undefined,
+            last_name: update.lastName || undefined,
+            email: update.email || undefined,
+            bio: toBio(update),
+          },
+        },
+      },
+      true
+    );
+  }
+
+  async getAvailableSlots(query: PmsSlotQuery): Promise<PmsSlot[]> {
+    const startDate = toIsoDate(query.startDate);
+    const days = Math.max(
+      1,
+      Math.round((new Date(toIsoDate(query.endDate)).getTime() - new Date(startDate).getTime()) / 86400000) + 1
+    );
+    const providerIds = query.providerGuid ? query.providerGuid.split(',') : [this.config.providerId];
+
+    const results = await this.request<any[]>('get appointment slots', {
+      method: 'GET',
+      url: '/appointment_slots',
+      params: {
+        subdomain: this.config.subdomain,
+        'lids[]': query.locationGuid,
+        'pids[]': providerIds,
+        start_date: startDate,
+        days,
+        location_id: query.locationGuid,
+        ...(query.appointmentTypeGuid && { appointment_type_id: query.appointmentTypeGuid }),
+        ...(query.durationMinutes && { slot_length: query.durationMinutes }),
+      },
+    });
+
+    // One entry per location/provider pair
+    return results.flatMap((result: any) =>
+      (result.slots || []).map((slot: any) => ({
+        dateTime: slot.time,
+        endTime: slot.end_time,
+        scheduleViewGuid: String(slot.provider_id ?? result.pid),
+        scheduleColumnGuid: optionalId(slot.operatory_id) || '',
+        durationMinutes: minutesBetween(slot.time, slot.end_time),
+        locationGuid: String(result.lid ?? query.locationGuid),
+        appointmentTypeGuid: query.appointmentTypeGuid,
+      }))
+    );
+  }
+
+  async getPatientAppointments(patientGuid: string): Promise<PmsAppointment[]> {
+    const now = Date.now();
+    const appointments = await this.request<any[]>(
+      'get patient appointments',
+      {
+        method: 'GET',
+        url: '/appointments',
+        params: {
+          subdomain: this.config.subdomain,
+          location_id: this.config.locationId,
+          'patient_ids[]': patientGuid,
+          start: new Date(now - APPOINTMENT_LOOKBACK_DAYS * 86400000).toISOString(),
+          end: new Date(now + APPOINTMENT_LOOKAHEAD_DAYS * 86400000).toISOString(),
+          per_page: PAGE_SIZE,
+        },
+      },
+      true
+    );
+
+    return (appointments || []).map(toPmsAppointment);
+  }
+
+  async getAppointmentsInRange(startDate: string, endDate: string): Promise<PmsAppointment[]> {
+    const [startYear, startMonth, startDay] = toIsoDate(startDate).split('-').map(Number);
+    const [endYear, endMonth, endDay] = toIsoDate(endDate).split('-').map(Number);
+    const start = new Date(startYear, startMonth - 1, startDay).toISOString();
+    // Whole of the end day
+    const end = new Date(endYear, endMonth - 1, endDay + 1).toISOString();
+
+    const appointments: any[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.request<any[]>(
+        'get appointments',
+        {
+          method: 'GET',
+          url: '/appointments',
+          params: {
+            subdomain: this.config.subdomain,
+            location_id: this.config.locationId,
+            start,
+            end,
+            page,
+            per_page: PAGE_SIZE,
+          },
+        },
+        true
+      );
+
+      appointments.push(...(batch || []));
+      if (!batch || batch.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return appointments.map(toPmsAppointment);
+  }
+
+  async bookAppointment(appointment: PmsNewAppointment): Promise<string | null> {
+    const data = await this.request<any>('create appointment', {
+      method: 'POST',
+      url: '/appointments',
+      params: { subdomain: this.config.subdomain, location_id: this.config.locationId, notify_patient: false },
+      data: {
+        appt: {
+          patient_id: Number(appointment.patientGuid),
+          provider_id: Number(appointment.scheduleViewGuid),
+          operatory_id: appointment.scheduleColumnGuid ? Number(appointment.scheduleColumnGuid) : undefined,
+          appointment_type_id: Number(appointment.appointmentTypeGuid) || undefined,
+          start_time: appointment.startTime,
+        },
+        appointments_per_timeslot: 1,
+      },
+    });
+
+    logger.info('NexHealth appointment created', { appointmentId: data?.appt?.id });
+    return optionalId(data?.appt?.id) || null;
+  }
+
+  async confirmAppointment(appointmentGuid: string): Promise<void> {
+    await this.updateAppointment(appointmentGuid, { confirmed: true, cancelled: false }, 'confirm appointment');
+  }
+
+  async cancelAppointment(appointmentGuid: string): Promise<void> {
+    await this.updateAppointment(appointmentGuid, { confirmed: false, cancelled: true }, 'cancel appointment');
+  }
+
+  private async updateAppointment(appointmentGuid: string, appt: Record<string, boolean>, label: string): Promise<void> {
+    await this.request(label, {
+      method: 'PATCH',
+      url: `/appointments/${encodeURIComponent(appointmentGuid)}`,
+      params: { subdomain: this.config.subdomain },
+      data: { appt },
+    });
+  }
+
+  private async getToken(forceRefresh = false): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new AppError('NexHealth API key is not configured (NEXHEALTH_API_KEY or the tenant apiKey)', 500);
+    }
+
+    const cacheKey = `${this.config.baseUrl}|${this.config.apiKey}`;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && !forceRefresh && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    try {
+      const response = await this.http.post('/authenticates', null, {
+        headers: { Accept: ACCEPT_V2, Authorization: this.config.apiKey },
+      });
+      const token = response.data?.data?.token;
+      if (!token) {
+        throw new Error('no token in response');
+      }
+      tokenCache.set(cacheKey, { token, expiresAt: Date.now() + TOKEN_TTL_MS });
+      return token;
+    } catch (error) {
+      tokenCache.delete(cacheKey);
+      throw new AppError(`NexHealth authentication failed: ${(error as Error).message}`, 502);
+    }
+  }
+
+  /**
+   * Send an authenticated request and unwrap NexHealth's { data } envelope.
+   * An expired token is renewed once; NexHealth's 4xx answers keep their status.
+   */
+  private async request<T>(label: string, config: AxiosRequestConfig, datedVersion = false): Promise<T> {
+    const send = async (forceRefresh: boolean) => {
+      const token = await this.getToken(forceRefresh);
+      return this.http.request({
+        ...config,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(datedVersion ? { 'Nex-Api-Version': DATED_API_VERSION, Accept: 'application/json' } : { Accept: ACCEPT_V2 }),
+        },
+      });
+    };
+
+    try {
+      let response;
+      try {
+        response = await send(false);
+      } catch (error) {
+        if ((error as AxiosError).response?.status !== 401) throw error;
+        response = await send(true);
+      }
+      return response.data?.data as T;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+
+      const axiosError = error as AxiosError<any>;
+      const status = axiosError.response?.status;
+      const detail = axiosError.response?.data?.error || axiosError.response?.data?.description || axiosError.message;
+      const message = `NexHealth ${label} failed${status ? ` (HTTP ${status})` : ''}: ${
+        Array.isArray(detail) ? detail.join('; ') : detail
+      }`;
+      throw new AppError(message, status && status >= 400 && status < 500 && status !== 401 ? status : 500);
+    }
+  }
+}
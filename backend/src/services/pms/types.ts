@@ -0,0 +1,177 @@
+import { Environment } from '../../config/cloud9';
+import { PmsProvider } from '../../config/pms';
+import { NewPatientInput } from '../patientImportService';
+
+/**
+ * Practice Management System adapter types
+ * Records are normalized to the shapes the API already returns for Cloud 9,
+ * so controllers and the frontend don't care which PMS a practice is on.
+ * IDs of PMSs with numeric IDs (NexHealth) are passed around as strings in the GUID fields.
+ */
+
+export interface PmsLocation {
+  guid: string;
+  name: string;
+  code: string;
+  timeZone?: string;
+  address: {
+    street?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+  };
+  phoneNumber?: string;
+}
+
+export interface PmsAppointmentType {
+  guid: string;
+  code: string;
+  description: string;
+  durationMinutes: number;
+  allowOnlineScheduling: boolean;
+}
+
+/**
+ * A bookable schedule. Cloud 9: a chair (schedule column) of a schedule view.
+ * NexHealth: a provider; the operatory is assigned per slot.
+ */
+export interface PmsProviderSchedule {
+  guid: string;
+  locationGuid: string;
+  locationName: string;
+  scheduleViewGuid: string;
+  scheduleViewDescription: string;
+  scheduleColumnGuid: string;
+  scheduleColumnDescription: string;
+}
+
+export interface PmsPatient {
+  patient_guid: string;
+  patient_id?: string;
+  first_name?: string;
+  last_name?: string;
+  birthdate?: string;
+  gender?: string;
+  email?: string;
+  phone?: string;
+  address_street?: string;
+  address_city?: string;
+  address_state?: string;
+  address_postal_code?: string;
+  provider_guid?: string;
+  location_guid?: string;
+}
+
+/** Demographic changes; only the fields given are updated */
+export interface PmsPatientUpdate {
+  firstName?: string;
+  lastName?: string;
+  birthdate?: string;
+  email?: string;
+  phoneNumber?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+  };
+}
+
+export interface PmsSlotQuery {
+  locationGuid: string;
+  /** Cloud 9: schedule view GUID(s); NexHealth: provider ID(s), comma-separated */
+  providerGuid?: string;
+  appointmentTypeGuid?: string;
+  /** MM/DD/YYYY or YYYY-MM-DD */
+  startDate: string;
+  /** MM/DD/YYYY or YYYY-MM-DD */
+  endDate: string;
+  durationMinutes?: number;
+}
+
+export interface PmsSlot {
+  /** Pass back unchanged as startTime when booking */
+  dateTime: string;
+  endTime: string;
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  scheduleViewDescription?: string;
+  scheduleColumnDescription?: string;
+  durationMinutes: number;
+  locationGuid: string;
+  appointmentTypeGuid?: string;
+  appointmentTypeDescription?: string;
+}
+
+export interface PmsAppointment {
+  appointment_guid: string;
+  patient_guid: string;
+  patient_title?: string;
+  patient_first_name?: string;
+  patient_middle_name?: string;
+  patient_last_name?: string;
+  patient_suffix?: string;
+  patient_greeting?: string;
+  patient_gender?: string;
+  appointment_date_time: string;
+  appointment_type_guid?: string;
+  appointment_type_description?: string;
+  status?: string;
+  status_description?: string;
+  appointment_note?: string;
+  appointment_minutes?: number;
+  appointment_confirmation?: string;
+  orthodontist_guid?: string;
+  orthodontist_code?: string;
+  orthodontist_name?: string;
+  location_guid?: string;
+  location_code?: string;
+  location_name?: string;
+  /** Cloud 9: schedule view; NexHealth: provider */
+  schedule_view_guid?: string;
+  /** Cloud 9: chair (schedule column); NexHealth: operatory */
+  schedule_column_guid?: string;
+}
+
+export interface PmsNewAppointment {
+  patientGuid: string;
+  startTime: string;
+  /** Cloud 9: schedule view GUID; NexHealth: provider ID */
+  scheduleViewGuid: string;
+  /** Cloud 9: schedule column GUID; NexHealth: operatory ID */
+  scheduleColumnGuid: string;
+  appointmentTypeGuid: string;
+  durationMinutes: number;
+}
+
+export type PmsNewPatient = NewPatientInput;
+
+/**
+ * One practice management system. Methods throw AppError on failure.
+ */
+export interface PmsAdapter {
+  readonly provider: PmsProvider;
+  readonly environment: Environment;
+
+  getLocations(): Promise<PmsLocation[]>;
+  getProviders(): Promise<PmsProviderSchedule[]>;
+  /** Chairs appointments are booked into (NexHealth: operatories), one entry per chair */
+  getChairs(): Promise<PmsProviderSchedule[]>;
+  getAppointmentTypes(): Promise<PmsAppointmentType[]>;
+
+  searchPatients(query: string, pageIndex: number, pageSize: number): Promise<PmsPatient[]>;
+  /** Null when the patient does not exist */
+  getPatient(patientGuid: string): Promise<PmsPatient | null>;
+  /** Returns the new patient's GUID */
+  createPatient(patient: PmsNewPatient): Promise<string>;
+  updatePatient(patientGuid: string, update: PmsPatientUpdate): Promise<void>;
+
+  getAvailableSlots(query: PmsSlotQuery): Promise<PmsSlot[]>;
+  getPatientAppointments(patientGuid: string): Promise<PmsAppointment[]>;
+  /** Every appointment at the practice between two dates (MM/DD/YYYY or YYYY-MM-DD), inclusive */
+  getAppointmentsInRange(startDate: string, endDate: string): Promise<PmsAppointment[]>;
+  /** Returns the new appointment's GUID when the PMS reports it */
+  bookAppointment(appointment: PmsNewAppointment): Promise<string | null>;
+  confirmAppointment(appointmentGuid: string): Promise<void>;
+  cancelAppointment(appointmentGuid: string): Promise<void>;
+}
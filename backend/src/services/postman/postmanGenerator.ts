@@ -18,7 +18,7 @@ function escapeForShell(str: string): string {
  *
  * @param procedure - Cloud 9 procedure name (e.g., "GetPortalPatientLookup")
  * @param parameters - Procedure-specific parameters
- * @param environment - Environment ("sandbox" or "production")
+ * @param environment - Environment ("sandbox", "production" or "mock")
  * @returns cURL command string
  */
 export function generateCurlCommand(
@@ -0,0 +1,479 @@
+/**
+ * Production Goal Test Service
+ * Derives a replayable goal-oriented test case from an imported production session
+ */
+
+import {
+  DEFAULT_PERSONA,
+  DEFAULT_RESPONSE_CONFIG,
+  DEFAULT_TRAITS,
+  ChildDataDTO,
+  CollectableFieldDTO,
+  ConversationGoalDTO,
+  DataInventoryDTO,
+  GoalTestCaseRecord,
+  PersonaTraitsDTO,
+  TestConstraintDTO,
+} from './goalTestService';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type GoalTestCategory = GoalTestCaseRecord['category'];
+
+export interface ProductionSessionSource {
+  sessionId: string;
+  configName?: string;
+  firstTraceAt?: string;
+  errorCount: number;
+  /** Caller utterances in conversation order */
+  callerTurns: string[];
+  /** Session observations (Langfuse rows) with internal Langchain spans removed */
+  observations: any[];
+}
+
+export interface ObservedToolAction {
+  tool: string;
+  action: string;
+  failed: boolean;
+}
+
+export interface DerivedGoalTest {
+  testCase: Omit<GoalTestCaseRecord, 'id' | 'caseId' | 'version' | 'createdAt' | 'updatedAt'>;
+  toolActions: ObservedToolAction[];
+  /** Inventory fields that could not be found in the call and were filled with defaults */
+  defaultedFields: string[];
+}
+
+// ============================================================================
+// TOOL CALL DETECTION
+// ============================================================================
+
+const ESCALATION_TOOL_PATTERN = /escalation/i;
+const TOOL_NAME_PATTERN = /^(chord_|schedule_appointment_)/;
+
+function parseJson(value: unknown): any {
+  if (typeof value !== 'string') return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function isFailedObservation(obs: any): boolean {
+  if (obs.level === 'ERROR') return true;
+  const output = parseJson(obs.output);
+  return !!output && typeof output === 'object' && (output.success === false || !!output.error);
+}
+
+/**
+ * List the tool actions the agent ran, in call order (e.g. schedule_appointment_ortho/book_child)
+ */
+export function extractToolActions(observations: any[]): ObservedToolAction[] {
+  const actions: ObservedToolAction[] = [];
+
+  for (const obs of observations) {
+    const name: string = obs.name || '';
+    if (!TOOL_NAME_PATTERN.test(name) && !ESCALATION_TOOL_PATTERN.test(name)) continue;
+
+    const input = parseJson(obs.input);
+    const action = input && typeof input === 'object' && typeof input.action === 'string'
+      ? input.action
+      : ESCALATION_TOOL_PATTERN.test(name) ? 'escalate' : 'call';
+
+    actions.push({ tool: name, action, failed: isFailedObservation(obs) });
+  }
+
+  return actions;
+}
+
+/**
+ * Children the agent tried to create as patients, from the patient tool's create inputs
+ */
+function extractCreatedChildren(observations: any[]): ChildDataDTO[] {
+  const children: ChildDataDTO[] = [];
+
+  for (const obs of observations) {
+    const input = parseJson(obs.input);
+    if (!input || input.action !== 'create' || !input.patientFirstName) continue;
+
+    const exists = children.some(
+      (child) => child.firstName.toLowerCase() === String(input.patientFirstName).toLowerCase()
+    );
+    if (exists) continue;
+
+    children.push({
+      firstName: String(input.patientFirstName),
+      lastName: String(input.patientLastName || ''),
+      dateOfBirth: normalizeDate(String(input.birthdayDateTime || '')) || '',
+      isNewPatient: true,
+    });
+  }
+
+  return children;
+}
+
+// ============================================================================
+// CALLER TURN EXTRACTION
+// ============================================================================
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const NAME = "[A-Z][a-zA-Z'-]+";
+const PARENT_NAME_PATTERN = new RegExp(`\\b(?:[Mm]y name is|[Tt]his is|I am|I'm)\\s+(${NAME})(?:\\s+(${NAME}))?`);
+const CHILD_NAME_PATTERN = new RegExp(
+  `\\b(?:son|daughter|child|kid|grandson|granddaughter)(?:'s name is|,| is| named|)\\s+(${NAME})(?:\\s+(${NAME}))?`,
+  'g'
+);
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?(\d{3})\)?[\s.-]?(\d{3})[\s.-]?(\d{4})\b/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const NUMERIC_DATE_PATTERN = /\b(\d{1,2})[/-](\d{1,2})[/-](\d{4})\b/g;
+const WRITTEN_DATE_PATTERN = new RegExp(`\\b(${MONTHS.join('|')})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi');
+const NO_INSURANCE_PATTERN = /\b(?:no insurance|don'?t have (?:any )?insurance|do not have (?:any )?insurance|self[- ]pay)\b/i;
+const INSURANCE_PATTERN = /\b(?:[Ii]nsurance (?:is|through|with)|[Ww]e have|I have|[Cc]overed by)\s+([A-Z][\w&]*(?:\s+[A-Z][\w&]*){0,3})/;
+const NAME_STOP_WORDS = new Set(['Calling', 'Looking', 'Trying', 'Wondering', 'Just', 'Not', 'The', 'Here']);
+
+/** Drop a possessive ("Jake's first visit") */
+function cleanName(name: string | undefined): string | undefined {
+  return name?.replace(/'s$/, '');
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Normalize MM/DD/YYYY or YYYY-MM-DD(Txx) to YYYY-MM-DD
+ */
+function normalizeDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return toIsoDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  return null;
+}
+
+function extractDates(text: string): string[] {
+  const dates: { index: number; date: string }[] = [];
+
+  for (const match of text.matchAll(NUMERIC_DATE_PATTERN)) {
+    const date = toIsoDate(Number(match[3]), Number(match[1]), Number(match[2]));
+    if (date) dates.push({ index: match.index ?? 0, date });
+  }
+  for (const match of text.matchAll(WRITTEN_DATE_PATTERN)) {
+    const date = toIsoDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+    if (date) dates.push({ index: match.index ?? 0, date });
+  }
+
+  return dates.sort((a, b) => a.index - b.index).map((entry) => entry.date);
+}
+
+interface CallerFacts {
+  parentFirstName?: string;
+  parentLastName?: string;
+  parentPhone?: string;
+  parentEmail?: string;
+  childNames: { firstName: string; lastName?: string }[];
+  dates: string[];
+  hasInsurance?: boolean;
+  insuranceProvider?: string;
+  preferredTimeOfDay?: DataInventoryDTO['preferredTimeOfDay'];
+  isNewPatient?: boolean;
+  previousOrthoTreatment?: boolean;
+}
+
+/**
+ * Pull persona facts out of what the caller said
+ */
+export function extractCallerFacts(callerTurns: string[]): CallerFacts {
+  const facts: CallerFacts = { childNames: [], dates: [] };
+
+  for (const turn of callerTurns) {
+    const parentMatch = turn.match(PARENT_NAME_PATTERN);
+    if (parentMatch && !facts.parentFirstName && !NAME_STOP_WORDS.has(parentMatch[1])) {
+      facts.parentFirstName = cleanName(parentMatch[1]);
+      facts.parentLastName = cleanName(parentMatch[2]);
+    }
+
+    for (const match of turn.matchAll(CHILD_NAME_PATTERN)) {
+      const firstName = cleanName(match[1]) as string;
+      if (NAME_STOP_WORDS.has(firstName)) continue;
+      if (!facts.childNames.some((child) => child.firstName === firstName)) {
+        // A possessive first name ends the name ("Jake's appointment")
+        facts.childNames.push({ firstName, lastName: firstName !== match[1] ? undefined : cleanName(match[2]) });
+      }
+    }
+
+    const phoneMatch = turn.match(PHONE_PATTERN);
+    if (phoneMatch && !facts.parentPhone) {
+      facts.parentPhone = `${phoneMatch[1]}${phoneMatch[2]}${phoneMatch[3]}`;
+    }
+
+    const emailMatch = turn.match(EMAIL_PATTERN);
+    if (emailMatch && !facts.parentEmail) {
+      facts.parentEmail = emailMatch[0];
+    }
+
+    facts.dates.push(...extractDates(turn));
+
+    if (NO_INSURANCE_PATTERN.test(turn)) {
+      facts.hasInsurance = false;
+    } else {
+      const insuranceMatch = turn.match(INSURANCE_PATTERN);
+      if (insuranceMatch && facts.hasInsurance === undefined) {
+        facts.hasInsurance = true;
+        facts.insuranceProvider = insuranceMatch[1];
+      }
+    }
+
+    if (!facts.preferredTimeOfDay) {
+      if (/\bmornings?\b/i.test(turn)) facts.preferredTimeOfDay = 'morning';
+      else if (/\bafternoons?\b/i.test(turn)) facts.preferredTimeOfDay = 'afternoon';
+    }
+
+    if (facts.isNewPatient === undefined) {
+      if (/\b(?:first time|never been|new patient)\b/i.test(turn)) facts.isNewPatient = true;
+      else if (/\b(?:existing patient|been (?:there|here|in) before|returning patient)\b/i.test(turn)) facts.isNewPatient = false;
+    }
+
+    if (facts.previousOrthoTreatment === undefined && /\b(?:had|wore) braces\b/i.test(turn)) {
+      facts.previousOrthoTreatment = true;
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Classify how much the caller talks, from average words per turn
+ */
+function inferTraits(callerTurns: string[]): PersonaTraitsDTO {
+  if (callerTurns.length === 0) return DEFAULT_TRAITS;
+
+  const words = callerTurns.reduce((sum, turn) => sum + turn.split(/\s+/).filter(Boolean).length, 0);
+  const average = words / callerTurns.length;
+  const verbosity: PersonaTraitsDTO['verbosity'] = average < 5 ? 'terse' : average > 20 ? 'verbose' : 'normal';
+
+  // Spanish callers: enough common Spanish function words across the call
+  const spanishWords = callerTurns.join(' ').match(/\b(hola|necesito|para|mi|hija|hijo|cita|gracias|tengo|seguro|por favor)\b/gi) || [];
+  const language: PersonaTraitsDTO['language'] = spanishWords.length >= Math.max(3, words * 0.15) ? 'es' : 'en';
+
+  return {
+    ...DEFAULT_TRAITS,
+    verbosity,
+    providesExtraInfo: verbosity === 'verbose',
+    ...(language === 'es' && { language }),
+  };
+}
+
+// ============================================================================
+// DERIVATION
+// ============================================================================
+
+/**
+ * Build the inventory from caller facts, falling back to tool inputs and then to defaults
+ */
+function buildInventory(
+  facts: CallerFacts,
+  createdChildren: ChildDataDTO[],
+  defaultedFields: string[]
+): DataInventoryDTO {
+  const fallback = DEFAULT_PERSONA.inventory;
+  const parentLastName = facts.parentLastName || createdChildren[0]?.lastName || facts.childNames[0]?.lastName;
+
+  const childSources = createdChildren.length > 0
+    ? createdChildren
+    : facts.childNames.map((child, index): ChildDataDTO => ({
+      firstName: child.firstName,
+      lastName: child.lastName || parentLastName || '',
+      dateOfBirth: facts.dates[index] || '',
+      isNewPatient: facts.isNewPatient ?? true,
+    }));
+
+  const children = childSources.map((child, index) => {
+    const dateOfBirth = child.dateOfBirth || facts.dates[index] || '';
+    if (!dateOfBirth) defaultedFields.push(`children[${index}].dateOfBirth`);
+    return {
+      ...child,
+      lastName: child.lastName || parentLastName || fallback.parentLastName,
+      dateOfBirth: dateOfBirth || fallback.children[0].dateOfBirth,
+      isNewPatient: facts.isNewPatient ?? child.isNewPatient,
+      ...(facts.previousOrthoTreatment ? { hadBracesBefore: true } : {}),
+    };
+  });
+
+  if (children.length === 0) {
+    defaultedFields.push('children');
+    children.push({ ...fallback.children[0], lastName: parentLastName || fallback.children[0].lastName });
+  }
+  if (!facts.parentFirstName) defaultedFields.push('parentFirstName');
+  if (!facts.parentPhone) defaultedFields.push('parentPhone');
+
+  const inventory: DataInventoryDTO = {
+    parentFirstName: facts.parentFirstName || fallback.parentFirstName,
+    parentLastName: parentLastName || fallback.parentLastName,
+    parentPhone: facts.parentPhone || fallback.parentPhone,
+    children,
+  };
+
+  if (facts.parentEmail) inventory.parentEmail = facts.parentEmail;
+  if (facts.hasInsurance !== undefined) inventory.hasInsurance = facts.hasInsurance;
+  if (facts.insuranceProvider) inventory.insuranceProvider = facts.insuranceProvider;
+  if (facts.preferredTimeOfDay) inventory.preferredTimeOfDay = facts.preferredTimeOfDay;
+  if (facts.isNewPatient === false) inventory.previousVisitToOffice = true;
+  if (facts.previousOrthoTreatment) inventory.previousOrthoTreatment = true;
+
+  return inventory;
+}
+
+/**
+ * Infer goals from the tool calls seen: a book_child call means the caller wanted a booking,
+ * an escalation means they needed a live agent. Data collection covers what the caller gave.
+ */
+function inferGoals(
+  facts: CallerFacts,
+  inventory: DataInventoryDTO,
+  toolActions: ObservedToolAction[]
+): ConversationGoalDTO[] {
+  const goals: ConversationGoalDTO[] = [];
+  const booked = toolActions.some((call) => call.action === 'book_child');
+  const escalated = toolActions.some((call) => call.action === 'escalate');
+
+  const parentFields: CollectableFieldDTO[] = ['parent_name'];
+  if (facts.parentPhone) parentFields.push('parent_phone');
+  if (facts.parentEmail) parentFields.push('parent_email');
+  goals.push({
+    id: 'collect-parent-info',
+    type: 'data_collection',
+    description: 'Agent collects parent name and contact info',
+    requiredFields: parentFields,
+    priority: 1,
+    required: booked,
+  });
+
+  if (booked || facts.childNames.length > 0) {
+    goals.push({
+      id: 'collect-child-info',
+      type: 'data_collection',
+      description: 'Agent collects child name and date of birth',
+      requiredFields: ['child_names', 'child_dob'],
+      priority: 2,
+      required: booked,
+    });
+  }
+
+  if (inventory.hasInsurance !== undefined) {
+    goals.push({
+      id: 'collect-insurance',
+      type: 'data_collection',
+      description: 'Agent collects insurance information',
+      requiredFields: ['insurance'],
+      priority: 3,
+      required: false,
+    });
+  }
+
+  if (booked) {
+    goals.push({
+      id: 'booking-confirmed',
+      type: 'booking_confirmed',
+      description: 'Agent confirms the appointment is booked',
+      priority: 10,
+      required: true,
+    });
+  }
+
+  if (escalated) {
+    goals.push({
+      id: 'transfer-initiated',
+      type: 'transfer_initiated',
+      description: 'Agent transfers to live agent',
+      priority: 10,
+      required: !booked,
+    });
+  }
+
+  goals.push({
+    id: 'conversation-ended',
+    type: 'conversation_ended',
+    description: 'Conversation ended with proper goodbye',
+    priority: 11,
+    required: !booked && !escalated,
+  });
+
+  return goals;
+}
+
+/**
+ * Derive a goal test case draft from a production session.
+ * The first caller utterance becomes the initial message so the replay opens the same way.
+ */
+export function deriveGoalTestFromSession(
+  source: ProductionSessionSource,
+  options: { name?: string; category?: GoalTestCategory } = {}
+): DerivedGoalTest {
+  const callerTurns = source.callerTurns.map((turn) => turn.trim()).filter(Boolean);
+  const toolActions = extractToolActions(source.observations);
+  const facts = extractCallerFacts(callerTurns);
+  const defaultedFields: string[] = [];
+  const inventory = buildInventory(facts, extractCreatedChildren(source.observations), defaultedFields);
+  const goals = inferGoals(facts, inventory, toolActions);
+
+  const failedActions = toolActions.filter((call) => call.failed);
+  const category: GoalTestCategory = options.category
+    || (source.errorCount > 0 || failedActions.length > 0 ? 'error-handling' : 'edge-case');
+
+  // Give the replay room beyond what the real call needed, but keep it bounded
+  const maxTurns = Math.max(DEFAULT_RESPONSE_CONFIG.maxTurns, callerTurns.length * 2);
+  const constraints: TestConstraintDTO[] = [
+    { type: 'max_turns', description: `Complete within ${maxTurns} turns`, severity: 'medium', maxTurns },
+  ];
+
+  const shortId = source.sessionId.slice(0, 8);
+  const actionSummary = toolActions.length > 0
+    ? Array.from(new Set(toolActions.map((call) => `${call.action}${call.failed ? ' (failed)' : ''}`))).join(', ')
+    : 'none';
+  const description = [
+    `Replay of production session ${source.sessionId}${source.configName ? ` (${source.configName})` : ''}`,
+    source.firstTraceAt ? `from ${source.firstTraceAt}` : null,
+    `with ${callerTurns.length} caller turns. Tool actions seen: ${actionSummary}.`,
+  ].filter(Boolean).join(' ');
+
+  const personaName = [inventory.parentFirstName, facts.parentLastName].filter(Boolean).join(' ');
+  const tags = ['production', 'regression', `session-${shortId}`];
+  if (goals.some((goal) => goal.type === 'booking_confirmed')) tags.push('booking');
+  if (goals.some((goal) => goal.type === 'transfer_initiated')) tags.push('transfer');
+
+  return {
+    testCase: {
+      name: options.name || `Production call ${shortId}`,
+      description,
+      category,
+      tags,
+      persona: {
+        name: facts.parentFirstName ? personaName : 'Production Caller',
+        description: `Caller from production session ${source.sessionId}`,
+        inventory,
+        traits: inferTraits(callerTurns),
+      },
+      goals,
+      constraints,
+      responseConfig: {
+        ...DEFAULT_RESPONSE_CONFIG,
+        maxTurns,
+        // Real callers go off-script; template responses cannot follow them
+        useLlmResponses: true,
+      },
+      initialMessage: callerTurns[0] || 'Hi, I need to schedule an appointment',
+      isArchived: false,
+    },
+    toolActions,
+    defaultedFields,
+  };
+}
@@ -17,6 +17,7 @@ import BetterSqlite3 from 'better-sqlite3';
 import fs from 'fs';
 import path from 'path';
 import vm from 'vm';
+import { validateToolContent } from './v1FileService';
 
 // ============================================================================
 // FLOWISE BRACE ESCAPING
@@ -234,16 +235,10 @@ function validateJsonSyntax(content: string, fileKey: string): ValidationResult
         }
       }
     } else if (fileKey.includes('tool')) {
-      // Flowise tool validation
-      const requiredFields = ['name', 'description', 'schema', 'func'];
-      for (const field of requiredFields) {
-        if (!parsed[field]) {
-          errors.push(`Missing required field: ${field}`);
-        }
-      }
-      if (parsed.schema && !parsed.schema.properties) {
-        errors.push('Schema missing properties definition');
-      }
+      // Flowise tool validation, including static analysis of the tool code
+      const toolValidation = validateToolContent(content);
+      errors.push(...toolValidation.errors);
+      warnings.push(...toolValidation.warnings);
     }
   } catch (error: any) {
     errors.push(`Invalid JSON: ${error.message}`);
@@ -0,0 +1,54 @@
+/**
+ * Run Export Service
+ * Wraps the test-agent's JUnit reporter and findings exporter so the API
+ * produces the same files as `report --format junit|sarif`
+ */
+
+import { Database } from '../../../test-agent/src/storage/database';
+import { loadRunExportData } from '../../../test-agent/src/reporters/run-export';
+import { JUnitReporter } from '../../../test-agent/src/reporters/junit-reporter';
+import { FindingsExporter } from '../../../test-agent/src/reporters/findings-exporter';
+
+export type RunExportFormat = 'junit' | 'sarif';
+
+export const RUN_EXPORT_FORMATS: RunExportFormat[] = ['junit', 'sarif'];
+
+export interface RunExport {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+const junitReporter = new JUnitReporter();
+const findingsExporter = new FindingsExporter();
+
+/**
+ * Export a run, or null if it does not exist
+ */
+export function exportRun(runId: string, format: RunExportFormat): RunExport | null {
+  const db = new Database();
+  db.initialize();
+
+  try {
+    const data = loadRunExportData(db, runId);
+    if (!data) {
+      return null;
+    }
+
+    if (format === 'junit') {
+      return {
+        content: junitReporter.generateReport(data),
+        contentType: 'application/xml; charset=utf-8',
+        fileName: `${runId}-junit.xml`,
+      };
+    }
+
+    return {
+      content: findingsExporter.generateReport(data),
+      contentType: 'application/sarif+json; charset=utf-8',
+      fileName: `${runId}-findings.sarif`,
+    };
+  } finally {
+    db.close();
+  }
+}
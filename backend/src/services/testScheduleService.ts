@@ -0,0 +1,738 @@
+/**
+ * Test Schedule Service
+ *
+ * Runs goal tests on cron schedules (e.g. nightly regression runs) and alerts
+ * when a run's pass rate drops below the recent average.
+ *
+ * Each schedule stores which tests to run, the concurrency and, optionally,
+ * the Flowise config profile to run against. Runs are launched through the
+ * same spawn path as the dashboard's Start button, so they show up as active
+ * executions while running.
+ *
+ * Alerting: once a scheduled run finishes, its pass rate is compared to the
+ * average of the schedule's previous N completed runs. If it is lower by more
+ * than the schedule's drop threshold (percentage points), an alert is POSTed
+ * to the webhook (signed with HMAC-SHA256 in X-Test-Schedule-Signature when a
+ * secret is set) and/or mailed through the local SMTP relay.
+ */
+
+import BetterSqlite3 from 'better-sqlite3';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import path from 'path';
+import { launchTestExecution, ExecutionProgress, TEST_ARG_PATTERN } from '../controllers/testMonitorController';
+import { CronSchedule, cronMatches, getNextCronTime, parseCronExpression, validateCronExpression } from '../utils/cron';
+import { sendSmtpMail } from '../utils/smtp';
+import logger from '../utils/logger';
+
+// Configuration
+const TEST_AGENT_DB_PATH = path.resolve(__dirname, '../../../test-agent/data/test-results.db');
+const SCHEDULER_ENABLED = process.env.TEST_SCHEDULER_ENABLED !== 'false';
+// Checked twice a minute so a slow tick never skips a cron minute
+const TICK_INTERVAL_MS = 30 * 1000;
+const WEBHOOK_URL = process.env.TEST_SCHEDULE_WEBHOOK_URL || '';
+const WEBHOOK_SECRET = process.env.TEST_SCHEDULE_WEBHOOK_SECRET || '';
+const WEBHOOK_TIMEOUT_MS = 10000;
+const SMTP_HOST = process.env.TEST_SCHEDULE_SMTP_HOST || '';
+const SMTP_PORT = Number(process.env.TEST_SCHEDULE_SMTP_PORT || 25);
+const SMTP_FROM = process.env.TEST_SCHEDULE_SMTP_FROM || 'test-monitor@localhost';
+const ALERT_EMAILS = (process.env.TEST_SCHEDULE_ALERT_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim())
+  .filter(Boolean);
+
+const DEFAULT_DROP_THRESHOLD = 10;
+const DEFAULT_COMPARISON_WINDOW = 5;
+
+export type ScheduledRunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface TestSchedule {
+  id: number;
+  name: string;
+  cronExpression: string;
+  scenarioIds: string[];
+  category: string | null;
+  concurrency: number;
+  flowiseConfigId: number | null;
+  enabled: boolean;
+  /** Alert when the pass rate is this many percentage points below the recent average */
+  alertDropThreshold: number;
+  /** Number of previous completed runs the pass rate is compared against */
+  comparisonWindow: number;
+  /** Overrides TEST_SCHEDULE_WEBHOOK_URL for this schedule */
+  alertWebhookUrl: string | null;
+  /** Overrides TEST_SCHEDULE_ALERT_EMAILS for this schedule */
+  alertEmails: string[];
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledRun {
+  id: number;
+  scheduleId: number;
+  executionRunId: string | null;
+  testRunId: string | null;
+  trigger: 'cron' | 'manual';
+  status: ScheduledRunStatus;
+  startedAt: string;
+  completedAt: string | null;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  passRate: number | null;
+  baselinePassRate: number | null;
+  alertSent: boolean;
+  message: string | null;
+}
+
+export type TestScheduleInput = Partial<
+  Pick<
+    TestSchedule,
+    | 'name'
+    | 'cronExpression'
+    | 'scenarioIds'
+    | 'category'
+    | 'concurrency'
+    | 'flowiseConfigId'
+    | 'enabled'
+    | 'alertDropThreshold'
+    | 'comparisonWindow'
+    | 'alertWebhookUrl'
+    | 'alertEmails'
+  >
+>;
+
+/**
+ * Get writable database connection, creating the schedule tables if needed
+ */
+function getTestAgentDb(): BetterSqlite3.Database {
+  const db = new BetterSqlite3(TEST_AGENT_DB_PATH, { readonly: false });
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS test_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      cron_expression TEXT NOT NULL,
+      scenario_ids TEXT NOT NULL DEFAULT '[]',
+      category TEXT,
+      concurrency INTEGER NOT NULL DEFAULT 1,
+      flowise_config_id INTEGER,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      alert_drop_threshold REAL NOT NULL DEFAULT ${DEFAULT_DROP_THRESHOLD},
+      comparison_window INTEGER NOT NULL DEFAULT ${DEFAULT_COMPARISON_WINDOW},
+      alert_webhook_url TEXT,
+      alert_emails TEXT NOT NULL DEFAULT '[]',
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS test_schedule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id INTEGER NOT NULL,
+      execution_run_id TEXT,
+      test_run_id TEXT,
+      trigger_type TEXT CHECK(trigger_type IN ('cron', 'manual')) NOT NULL DEFAULT 'cron',
+      status TEXT CHECK(status IN ('running', 'completed', 'failed', 'skipped')) NOT NULL DEFAULT 'running',
+      started_at TEXT NOT NULL,
+      completed_at TEXT,
+      total_tests INTEGER NOT NULL DEFAULT 0,
+      passed INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0,
+      pass_rate REAL,
+      baseline_pass_rate REAL,
+      alert_sent INTEGER NOT NULL DEFAULT 0,
+      message TEXT,
+      FOREIGN KEY (schedule_id) REFERENCES test_schedules(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_test_schedule_runs_schedule ON test_schedule_runs(schedule_id, started_at);
+  `);
+
+  return db;
+}
+
+function parseJsonArray<T>(value: string | null): T[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function nextRunAt(cronExpression: string, enabled: boolean): string | null {
+  if (!enabled) return null;
+  try {
+    return getNextCronTime(parseCronExpression(cronExpression))?.toISOString() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function toSchedule(row: any): TestSchedule {
+  return {
+    id: row.id,
+    name: row.name,
+    cronExpression: row.cron_expression,
+    scenarioIds: parseJsonArray<string>(row.scenario_ids),
+    category: row.category,
+    concurrency: row.concurrency,
+    flowiseConfigId: row.flowise_config_id,
+    enabled: !!row.enabled,
+    alertDropThreshold: row.alert_drop_threshold,
+    comparisonWindow: row.comparison_window,
+    alertWebhookUrl: row.alert_webhook_url,
+    alertEmails: parseJsonArray<string>(row.alert_emails),
+    lastRunAt: row.last_run_at,
+    nextRunAt: nextRunAt(row.cron_expression, !!row.enabled),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toScheduledRun(row: any): ScheduledRun {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    executionRunId: row.execution_run_id,
+    testRunId: row.test_run_id,
+    trigger: row.trigger_type,
+    status: row.status,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    totalTests: row.total_tests,
+    passed: row.passed,
+    failed: row.failed,
+    passRate: row.pass_rate,
+    baselinePassRate: row.baseline_pass_rate,
+    alertSent: !!row.alert_sent,
+    message: row.message,
+  };
+}
+
+/**
+ * Validation errors for a schedule create/update (empty when valid)
+ */
+export function validateScheduleInput(input: TestScheduleInput, isUpdate = false): string[] {
+  const errors: string[] = [];
+
+  if (!isUpdate || input.name !== undefined) {
+    if (!input.name || typeof input.name !== 'string') errors.push('name is required');
+  }
+  if (!isUpdate || input.cronExpression !== undefined) {
+    const cronError = input.cronExpression
+      ? validateCronExpression(input.cronExpression)
+      : 'cronExpression is required';
+    if (cronError) errors.push(cronError);
+  }
+  if (!isUpdate && !input.scenarioIds?.length && !input.category) {
+    errors.push('At least one scenario or a category must be specified');
+  }
+  if (input.scenarioIds !== undefined && !Array.isArray(input.scenarioIds)) {
+    errors.push('scenarioIds must be an array');
+  } else if (input.scenarioIds?.some((id) => typeof id !== 'string' || !TEST_ARG_PATTERN.test(id))) {
+    errors.push('scenarioIds may only contain letters, digits, _ and -');
+  }
+  if (input.category && (typeof input.category !== 'string' || !TEST_ARG_PATTERN.test(input.category))) {
+    errors.push('category may only contain letters, digits, _ and -');
+  }
+  if (input.concurrency !== undefined && !(Number.isInteger(input.concurrency) && input.concurrency >= 1 && input.concurrency <= 10)) {
+    errors.push('concurrency must be an integer between 1 and 10');
+  }
+  if (input.alertDropThreshold !== undefined && !(input.alertDropThreshold >= 0 && input.alertDropThreshold <= 100)) {
+    errors.push('alertDropThreshold must be between 0 and 100 percentage points');
+  }
+  if (input.comparisonWindow !== undefined && !(Number.isInteger(input.comparisonWindow) && input.comparisonWindow >= 1)) {
+    errors.push('comparisonWindow must be a positive integer');
+  }
+  if (input.alertEmails !== undefined && !Array.isArray(input.alertEmails)) {
+    errors.push('alertEmails must be an array');
+  }
+
+  return errors;
+}
+
+export function listSchedules(): TestSchedule[] {
+  const db = getTestAgentDb();
+  try {
+    return db.prepare('SELECT * FROM test_schedules ORDER BY name ASC').all().map(toSchedule);
+  } finally {
+    db.close();
+  }
+}
+
+export function getSchedule(id: number): TestSchedule | null {
+  const db = getTestAgentDb();
+  try {
+    const row = db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(id);
+    return row ? toSchedule(row) : null;
+  } finally {
+    db.close();
+  }
+}
+
+export function createSchedule(input: TestScheduleInput): TestSchedule {
+  const db = getTestAgentDb();
+  try {
+    const now = new Date().toISOString();
+    const result = db.prepare(`
+      INSERT INTO test_schedules (
+        name, cron_expression, scenario_ids, category, concurrency, flowise_config_id, enabled,
+        alert_drop_threshold, comparison_window, alert_webhook_url, alert_emails, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      input.name,
+      input.cronExpression!.trim(),
+      JSON.stringify(input.scenarioIds || []),
+      input.category || null,
+      input.concurrency ?? 1,
+      input.flowiseConfigId ?? null,
+      input.enabled === false ? 0 : 1,
+      input.alertDropThreshold ?? DEFAULT_DROP_THRESHOLD,
+      input.comparisonWindow ?? DEFAULT_COMPARISON_WINDOW,
+      input.alertWebhookUrl || null,
+      JSON.stringify(input.alertEmails || []),
+      now,
+      now
+    );
+
+    return toSchedule(db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(result.lastInsertRowid));
+  } finally {
+    db.close();
+  }
+}
+
+export function updateSchedule(id: number, input: TestScheduleInput): TestSchedule | null {
+  const db = getTestAgentDb();
+  try {
+    const existing = db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(id);
+    if (!existing) return null;
+
+    const columns: Record<string, unknown> = {
+      name: input.name,
+      cron_expression: input.cronExpression?.trim(),
+      scenario_ids: input.scenarioIds && JSON.stringify(input.scenarioIds),
+      category: input.category,
+      concurrency: input.concurrency,
+      flowise_config_id: input.flowiseConfigId,
+      enabled: input.enabled === undefined ? undefined : input.enabled ? 1 : 0,
+      alert_drop_threshold: input.alertDropThreshold,
+      comparison_window: input.comparisonWindow,
+      alert_webhook_url: input.alertWebhookUrl,
+      alert_emails: input.alertEmails && JSON.stringify(input.alertEmails),
+    };
+
+    const updates = Object.entries(columns).filter(([, value]) => value !== undefined);
+    db.prepare(`
+      UPDATE test_schedules
+      SET ${[...updates.map(([column]) => `${column} = ?`), 'updated_at = ?'].join(', ')}
+      WHERE id = ?
+    `).run(...updates.map(([, value]) => value), new Date().toISOString(), id);
+
+    return toSchedule(db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(id));
+  } finally {
+    db.close();
+  }
+}
+
+export function deleteSchedule(id: number): boolean {
+  const db = getTestAgentDb();
+  try {
+    db.prepare('DELETE FROM test_schedule_runs WHERE schedule_id = ?').run(id);
+    return db.prepare('DELETE FROM test_schedules WHERE id = ?').run(id).changes > 0;
+  } finally {
+    db.close();
+  }
+}
+
+export function getScheduleRuns(scheduleId: number, limit = 50): ScheduledRun[] {
+  const db = getTestAgentDb();
+  try {
+    return db.prepare(`
+      SELECT * FROM test_schedule_runs
+      WHERE schedule_id = ?
+      ORDER BY started_at DESC
+      LIMIT ?
+    `).all(scheduleId, limit).map(toScheduledRun);
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// RUNNING SCHEDULES
+// ============================================================================
+
+/**
+ * Environment for the test agent when a schedule pins a Flowise config profile
+ * (picked up through the test agent's FLOWISE_ENDPOINT_OVERRIDE)
+ */
+function getFlowiseEnv(db: BetterSqlite3.Database, flowiseConfigId: number | null): Record<string, string> {
+  if (flowiseConfigId === null) return {};
+
+  const config = db.prepare('SELECT url, api_key FROM flowise_configs WHERE id = ?').get(flowiseConfigId) as
+    | { url: string; api_key: string | null }
+    | undefined;
+  if (!config) {
+    throw new Error(`Flowise config ${flowiseConfigId} not found`);
+  }
+
+  return {
+    FLOWISE_ENDPOINT_OVERRIDE: config.url,
+    ...(config.api_key ? { FLOWISE_API_KEY: config.api_key } : {}),
+  };
+}
+
+/**
+ * Launch a schedule's tests now. Skipped (and recorded as such) while the
+ * schedule's previous run is still going.
+ */
+export function runSchedule(scheduleId: number, trigger: 'cron' | 'manual' = 'manual'): ScheduledRun {
+  const db = getTestAgentDb();
+  try {
+    const row = db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(scheduleId);
+    if (!row) {
+      throw new Error(`Schedule ${scheduleId} not found`);
+    }
+    const schedule = toSchedule(row);
+    const startedAt = new Date().toISOString();
+
+    db.prepare('UPDATE test_schedules SET last_run_at = ? WHERE id = ?').run(startedAt, scheduleId);
+
+    const insertRun = db.prepare(`
+      INSERT INTO test_schedule_runs (schedule_id, execution_run_id, trigger_type, status, started_at, completed_at, message)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const recordRun = (executionRunId: string | null, status: ScheduledRunStatus, message: string | null) => {
+      const completedAt = status === 'running' ? null : startedAt;
+      const result = insertRun.run(scheduleId, executionRunId, trigger, status, startedAt, completedAt, message);
+      return toScheduledRun(db.prepare('SELECT * FROM test_schedule_runs WHERE id = ?').get(result.lastInsertRowid));
+    };
+
+    const stillRunning = db.prepare(`
+      SELECT id FROM test_schedule_runs WHERE schedule_id = ? AND status = 'running'
+    `).get(scheduleId);
+    if (stillRunning) {
+      logger.warn('[TestSchedule] Previous run still in progress, skipping', { scheduleId, name: schedule.name });
+      return recordRun(null, 'skipped', 'Previous run still in progress');
+    }
+
+    let env: Record<string, string>;
+    try {
+      env = getFlowiseEnv(db, schedule.flowiseConfigId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('[TestSchedule] Cannot start run', { scheduleId, error: message });
+      return recordRun(null, 'failed', message);
+    }
+
+    // Filled in by the launcher synchronously; onComplete always fires later
+    let scheduledRunId = 0;
+    let runId: string;
+    try {
+      ({ runId } = launchTestExecution({
+        scenarioIds: schedule.scenarioIds,
+        categories: schedule.category ? [schedule.category] : undefined,
+        concurrency: schedule.concurrency,
+        env,
+        onComplete: ({ agentRunId, exitCode, progress }) => {
+          completeScheduledRun(scheduledRunId, agentRunId, exitCode, progress).catch((error) => {
+            logger.error('[TestSchedule] Error completing scheduled run', {
+              scheduleId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        },
+      }));
+    } catch (error) {
+      // Schedules saved before scenario IDs were validated can still hold unsafe values
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('[TestSchedule] Cannot start run', { scheduleId, error: message });
+      return recordRun(null, 'failed', message);
+    }
+
+    const run = recordRun(runId, 'running', null);
+    scheduledRunId = run.id;
+    logger.info('[TestSchedule] Started scheduled run', { scheduleId, name: schedule.name, trigger, runId });
+    return run;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Record a finished run's results and alert on a pass-rate drop
+ */
+async function completeScheduledRun(
+  scheduledRunId: number,
+  agentRunId: string | undefined,
+  exitCode: number | null,
+  progress: ExecutionProgress
+): Promise<void> {
+  const db = getTestAgentDb();
+  let alert: { schedule: TestSchedule; run: ScheduledRun } | null = null;
+
+  try {
+    // Prefer the counts the test agent stored for the run it reported creating;
+    // fall back to what was parsed from its output
+    const testRun = (agentRunId
+      ? db.prepare('SELECT run_id, total_tests, passed, failed FROM test_runs WHERE run_id = ?').get(agentRunId)
+      : undefined) as { run_id: string; total_tests: number; passed: number; failed: number } | undefined;
+
+    const total = testRun?.total_tests ?? progress.total;
+    const passed = testRun?.passed ?? progress.passed;
+    const failed = testRun?.failed ?? progress.failed;
+    const passRate = total > 0 ? (passed / total) * 100 : null;
+    const status: ScheduledRunStatus = exitCode === 0 || total > 0 ? 'completed' : 'failed';
+
+    const runRow = db.prepare('SELECT * FROM test_schedule_runs WHERE id = ?').get(scheduledRunId) as any;
+    if (!runRow) {
+      // Schedule was deleted while the run was in progress
+      return;
+    }
+    const schedule = toSchedule(db.prepare('SELECT * FROM test_schedules WHERE id = ?').get(runRow.schedule_id));
+
+    const previous = db.prepare(`
+      SELECT pass_rate FROM test_schedule_runs
+      WHERE schedule_id = ? AND id != ? AND status = 'completed' AND pass_rate IS NOT NULL
+      ORDER BY started_at DESC
+      LIMIT ?
+    `).all(schedule.id, scheduledRunId, schedule.comparisonWindow) as Array<{ pass_rate: number }>;
+    const baselinePassRate = previous.length > 0
+      ? previous.reduce((sum, r) => sum + r.pass_rate, 0) / previous.length
+      : null;
+
+    const dropped = passRate !== null && baselinePassRate !== null
+      && baselinePassRate - passRate > schedule.alertDropThreshold;
+
+    db.prepare(`
+      UPDATE test_schedule_runs
+      SET test_run_id = ?, status = ?, completed_at = ?, total_tests = ?, passed = ?, failed = ?,
+          pass_rate = ?, baseline_pass_rate = ?, alert_sent = ?, message = ?
+      WHERE id = ?
+    `).run(
+      testRun?.run_id ?? null,
+      status,
+      new Date().toISOString(),
+      total,
+      passed,
+      failed,
+      passRate,
+      baselinePassRate,
+      dropped ? 1 : 0,
+      status === 'failed' ? `Test agent exited with code ${exitCode}` : null,
+      scheduledRunId
+    );
+
+    logger.info('[TestSchedule] Scheduled run finished', {
+      scheduleId: schedule.id,
+      testRunId: testRun?.run_id,
+      passRate,
+      baselinePassRate,
+      alert: dropped,
+    });
+
+    if (dropped) {
+      alert = { schedule, run: toScheduledRun(db.prepare('SELECT * FROM test_schedule_runs WHERE id = ?').get(scheduledRunId)) };
+    }
+  } finally {
+    db.close();
+  }
+
+  if (alert) {
+    await sendPassRateAlert(alert.schedule, alert.run);
+  }
+}
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+function formatRate(rate: number | null): string {
+  return rate === null ? 'n/a' : `${rate.toFixed(1)}%`;
+}
+
+/**
+ * Send a pass-rate-drop alert to the webhook and mail recipients.
+ * Failures are logged, never thrown.
+ */
+async function sendPassRateAlert(schedule: TestSchedule, run: ScheduledRun): Promise<void> {
+  const webhookUrl = schedule.alertWebhookUrl || WEBHOOK_URL;
+  const recipients = schedule.alertEmails.length > 0 ? schedule.alertEmails : ALERT_EMAILS;
+
+  const summary = `Pass rate for "${schedule.name}" dropped to ${formatRate(run.passRate)} ` +
+    `(average of previous ${schedule.comparisonWindow} runs: ${formatRate(run.baselinePassRate)})`;
+
+  if (webhookUrl) {
+    const body = JSON.stringify({
+      event: 'test-schedule.pass-rate-drop',
+      sentAt: new Date().toISOString(),
+      schedule: { id: schedule.id, name: schedule.name, cronExpression: schedule.cronExpression },
+      run: {
+        testRunId: run.testRunId,
+        startedAt: run.startedAt,
+        completedAt: run.completedAt,
+        totalTests: run.totalTests,
+        passed: run.passed,
+        failed: run.failed,
+        passRate: run.passRate,
+        baselinePassRate: run.baselinePassRate,
+        dropThreshold: schedule.alertDropThreshold,
+      },
+      summary,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (WEBHOOK_SECRET) {
+      headers['X-Test-Schedule-Signature'] = `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex')}`;
+    }
+
+    try {
+      await axios.post(webhookUrl, body, { headers, timeout: WEBHOOK_TIMEOUT_MS });
+      logger.info('[TestSchedule] Pass-rate alert webhook sent', { scheduleId: schedule.id });
+    } catch (error) {
+      logger.error('[TestSchedule] Pass-rate alert webhook failed', {
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (SMTP_HOST && recipients.length > 0) {
+    try {
+      await sendSmtpMail({
+        host: SMTP_HOST,
+        port: SMTP_PORT,
+        from: SMTP_FROM,
+        to: recipients,
+        subject: `[Test Monitor] Pass rate drop: ${schedule.name}`,
+        text: [
+          summary,
+          '',
+          `Run: ${run.testRunId ?? run.executionRunId ?? 'unknown'}`,
+          `Passed: ${run.passed}/${run.totalTests} (${run.failed} failed)`,
+          `Drop threshold: ${schedule.alertDropThreshold} percentage points`,
+          `Started: ${run.startedAt}`,
+        ].join('\n'),
+      });
+      logger.info('[TestSchedule] Pass-rate alert email sent', { scheduleId: schedule.id, recipients });
+    } catch (error) {
+      logger.error('[TestSchedule] Pass-rate alert email failed', {
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+let tickIntervalHandle: NodeJS.Timeout | null = null;
+// Parsed expressions, keyed by expression text
+const parsedCronCache = new Map<string, CronSchedule>();
+
+function getParsedCron(expression: string): CronSchedule {
+  let parsed = parsedCronCache.get(expression);
+  if (!parsed) {
+    parsed = parseCronExpression(expression);
+    parsedCronCache.set(expression, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Launch every enabled schedule due in the current minute that hasn't run in it yet
+ */
+export function runDueSchedules(now: Date = new Date()): number {
+  const minuteStart = new Date(now);
+  minuteStart.setSeconds(0, 0);
+
+  let launched = 0;
+  for (const schedule of listSchedules()) {
+    if (!schedule.enabled) continue;
+    if (schedule.lastRunAt && new Date(schedule.lastRunAt) >= minuteStart) continue;
+
+    try {
+      if (!cronMatches(getParsedCron(schedule.cronExpression), now)) continue;
+      runSchedule(schedule.id, 'cron');
+      launched++;
+    } catch (error) {
+      logger.error('[TestSchedule] Error running schedule', {
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return launched;
+}
+
+/**
+ * Mark runs left 'running' by a server restart as failed (their process is gone)
+ */
+function failInterruptedRuns(): void {
+  const db = getTestAgentDb();
+  try {
+    const result = db.prepare(`
+      UPDATE test_schedule_runs
+      SET status = 'failed', completed_at = ?, message = 'Server restarted while the run was in progress'
+      WHERE status = 'running'
+    `).run(new Date().toISOString());
+
+    if (result.changes > 0) {
+      logger.info('[TestSchedule] Marked interrupted scheduled runs as failed', { count: result.changes });
+    }
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Start the scheduler tick
+ */
+export function startTestScheduler(intervalMs: number = TICK_INTERVAL_MS): void {
+  if (tickIntervalHandle) {
+    logger.warn('[TestSchedule] Scheduler already running');
+    return;
+  }
+
+  if (!SCHEDULER_ENABLED) {
+    logger.info('[TestSchedule] Scheduler disabled');
+    return;
+  }
+
+  try {
+    failInterruptedRuns();
+  } catch (error) {
+    logger.error('[TestSchedule] Error cleaning up interrupted runs', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  logger.info('[TestSchedule] Starting scheduler', { intervalSeconds: intervalMs / 1000 });
+
+  tickIntervalHandle = setInterval(() => {
+    try {
+      runDueSchedules();
+    } catch (error) {
+      logger.error('[TestSchedule] Error during scheduler tick', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop the scheduler tick
+ */
+export function stopTestScheduler(): void {
+  if (tickIntervalHandle) {
+    clearInterval(tickIntervalHandle);
+    tickIntervalHandle = null;
+    logger.info('[TestSchedule] Scheduler stopped');
+  }
+}
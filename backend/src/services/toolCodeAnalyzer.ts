@@ -0,0 +1,334 @@
+/**
+ * Tool Code Analyzer
+ *
+ * Static analysis of the JavaScript in a Flowise custom tool export (the
+ * patient and scheduling tools). The `func` body is parsed with acorn the way
+ * Flowise runs it - as the body of an async function - and checked for:
+ * - syntax errors
+ * - `$vars.<name>` / `$flow.<name>` references Flowise does not provide
+ * - `$<argument>` reads that don't match the tool's declared `schema`
+ *   (Flowise only defines `$<argument>` for arguments the LLM actually passed)
+ * - Node-RED URLs that no `http in` node in the V1 flow serves
+ * - `fetch` calls outside a try block (a rejected fetch fails the whole tool call)
+ *
+ * The analyzer is pure; callers pass the Node-RED endpoints to check against.
+ */
+
+import * as acorn from 'acorn';
+import * as walk from 'acorn-walk';
+
+export type ToolCodeRule =
+  | 'syntax'
+  | 'undeclared-variable'
+  | 'unknown-argument'
+  | 'unguarded-argument'
+  | 'unused-argument'
+  | 'unknown-endpoint'
+  | 'unguarded-fetch';
+
+export interface ToolCodeIssue {
+  rule: ToolCodeRule;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Line within the tool's func */
+  line?: number;
+}
+
+export interface ToolCodeAnalysis {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  issues: ToolCodeIssue[];
+}
+
+export interface ToolSchemaProperty {
+  name: string;
+  required: boolean;
+}
+
+export interface ToolCodeAnalysisOptions {
+  /** `http in` URLs of the Node-RED flow (e.g. /chord/ortho/getApptSlots); URL checks are skipped without them */
+  noderedEndpoints?: string[];
+  /** Flowise variables available as $vars.<name> (default: FLOWISE_TOOL_VARIABLES) */
+  flowiseVariables?: string[];
+}
+
+/** Properties Flowise sets on $flow */
+const FLOW_PROPERTIES = ['sessionId', 'chatId', 'chatflowId', 'input', 'state'];
+
+const DEFAULT_FLOWISE_VARIABLES = ['c1mg_uui'];
+
+function getConfiguredFlowiseVariables(): string[] {
+  const configured = process.env.FLOWISE_TOOL_VARIABLES;
+  if (!configured) return DEFAULT_FLOWISE_VARIABLES;
+  return configured.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Arguments declared by a tool schema. Flowise exports the schema as a JSON
+ * string of [{ property, type, required }]; a JSON Schema object is accepted too.
+ * Returns null when the schema can't be read
+ */
+export function parseToolSchema(schema: unknown): ToolSchemaProperty[] | null {
+  let parsed = schema;
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+
+  if (Array.isArray(parsed)) {
+    if (!parsed.every(item => typeof item?.property === 'string')) return null;
+    return parsed.map(item => ({ name: item.property, required: item.required === true }));
+  }
+
+  if (parsed && typeof parsed === 'object' && (parsed as any).properties) {
+    const required: string[] = Array.isArray((parsed as any).required) ? (parsed as any).required : [];
+    return Object.keys((parsed as any).properties).map(name => ({ name, required: required.includes(name) }));
+  }
+
+  return null;
+}
+
+/**
+ * URLs of the `http in` nodes of a Node-RED flow export
+ */
+export function getHttpInEndpoints(flows: unknown): string[] {
+  if (!Array.isArray(flows)) return [];
+  return flows
+    .filter((node: any) => node?.type === 'http in' && typeof node.url === 'string')
+    .map((node: any) => (node.url.startsWith('/') ? node.url : `/${node.url}`));
+}
+
+/**
+ * Value of a string expression built from literals and string constants, or null
+ */
+function resolveString(node: any, constants: Map<string, string>): string | null {
+  switch (node?.type) {
+    case 'Literal':
+      return typeof node.value === 'string' ? node.value : null;
+    case 'Identifier':
+      return constants.get(node.name) ?? null;
+    case 'TemplateLiteral': {
+      let value = node.quasis[0].value.cooked ?? '';
+      for (let i = 0; i < node.expressions.length; i++) {
+        const part = resolveString(node.expressions[i], constants);
+        if (part === null) return null;
+        value += part + (node.quasis[i + 1].value.cooked ?? '');
+      }
+      return value;
+    }
+    case 'BinaryExpression': {
+      if (node.operator !== '+') return null;
+      const left = resolveString(node.left, constants);
+      const right = resolveString(node.right, constants);
+      return left !== null && right !== null ? left + right : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * How a call deals with a rejection: 'handled' (try block or .catch() on its
+ * promise chain), the name of the enclosing function (handled wherever that
+ * function is called), or 'unhandled'
+ */
+function getErrorHandling(ancestors: any[]): string {
+  for (let i = ancestors.length - 2; i >= 0; i--) {
+    const ancestor = ancestors[i];
+    const child = ancestors[i + 1];
+    if (ancestor.type === 'TryStatement' && ancestor.block === child) return 'handled';
+    if (
+      ancestor.type === 'MemberExpression' &&
+      ancestor.object === child &&
+      !ancestor.computed &&
+      ancestor.property.name === 'catch'
+    ) {
+      return 'handled';
+    }
+    if (ancestor.type.includes('Function')) {
+      if (ancestor.id?.name) return ancestor.id.name;
+      const declarator = ancestors[i - 1];
+      return declarator?.type === 'VariableDeclarator' && declarator.id.type === 'Identifier'
+        ? declarator.id.name
+        : 'unhandled';
+    }
+  }
+  return 'unhandled';
+}
+
+/**
+ * Analyze a tool's func against its schema and the Node-RED flow
+ */
+export function analyzeToolCode(
+  tool: { schema?: unknown; func: string },
+  options: ToolCodeAnalysisOptions = {}
+): ToolCodeAnalysis {
+  const issues: ToolCodeIssue[] = [];
+  const report = (rule: ToolCodeRule, severity: ToolCodeIssue['severity'], message: string, node?: any) => {
+    issues.push({ rule, severity, message, line: node?.loc?.start.line });
+  };
+
+  let ast: acorn.Node;
+  try {
+    ast = acorn.parse(tool.func, {
+      ecmaVersion: 'latest',
+      sourceType: 'script',
+      // Flowise wraps func in an async function
+      allowReturnOutsideFunction: true,
+      allowAwaitOutsideFunction: true,
+      locations: true,
+    });
+  } catch (error: any) {
+    issues.push({ rule: 'syntax', severity: 'error', message: `Syntax error: ${error.message}`, line: error.loc?.line });
+    return summarize(issues);
+  }
+
+  const flowiseVariables = options.flowiseVariables ?? getConfiguredFlowiseVariables();
+  const constants = new Map<string, string>();
+  const declared = new Set<string>();
+  walk.full(ast, (node: any) => {
+    if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier') {
+      declared.add(node.id.name);
+      const value = resolveString(node.init, constants);
+      if (value !== null && node.init.type !== 'Identifier') constants.set(node.id.name, value);
+    }
+  });
+
+  const argumentReads = new Map<string, any>();
+  const guardedArguments = new Set<string>();
+  const urls: Array<{ url: string; node: any }> = [];
+  // Error handling of every call to a named function, and fetches that rely on their caller's
+  const callHandling = new Map<string, string[]>();
+  const fetchesInFunctions: Array<{ functionName: string; node: any }> = [];
+
+  walk.fullAncestor(ast, (node: any, _state, ancestors: any[]) => {
+    const parent = ancestors[ancestors.length - 2];
+
+    if (node.type === 'Identifier' && node.name.startsWith('$') && !declared.has(node.name)) {
+      if (node.name === '$vars' || node.name === '$flow') {
+        if (parent?.type !== 'MemberExpression' || parent.object !== node) return;
+        const property = parent.computed ? parent.property.value : parent.property.name;
+        if (typeof property !== 'string') return;
+
+        const known = node.name === '$vars' ? flowiseVariables : FLOW_PROPERTIES;
+        if (!known.includes(property)) {
+          report(
+            'undeclared-variable',
+            'error',
+            `${node.name}.${property} is not defined in Flowise (known: ${known.join(', ') || 'none'})`,
+            node
+          );
+        }
+        return;
+      }
+
+      const name = node.name.slice(1);
+      if (parent?.type === 'UnaryExpression' && parent.operator === 'typeof') {
+        guardedArguments.add(name);
+      } else if (!argumentReads.has(name)) {
+        argumentReads.set(name, node);
+      }
+      return;
+    }
+
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier') {
+      const handling = getErrorHandling(ancestors);
+      if (node.callee.name === 'fetch') {
+        if (handling === 'unhandled') {
+          report('unguarded-fetch', 'error', 'fetch() is not inside a try block; a network error fails the tool call', node);
+        } else if (handling !== 'handled') {
+          fetchesInFunctions.push({ functionName: handling, node });
+        }
+      } else {
+        callHandling.set(node.callee.name, [...(callHandling.get(node.callee.name) || []), handling]);
+      }
+      return;
+    }
+
+    // Whole string expressions only, not the pieces of a concatenation
+    const isStringExpression =
+      node.type === 'Literal' || node.type === 'TemplateLiteral' || node.type === 'BinaryExpression';
+    if (isStringExpression && !(parent?.type === 'BinaryExpression' || parent?.type === 'TemplateLiteral')) {
+      const value = resolveString(node, constants);
+      if (value && /^https?:\/\//.test(value)) urls.push({ url: value, node });
+    }
+  });
+
+  // One level deep: a helper that fetches is fine when every call to it is handled
+  for (const { functionName, node } of fetchesInFunctions) {
+    const calls = callHandling.get(functionName) || [];
+    if (calls.length === 0 || calls.some(handling => handling !== 'handled')) {
+      report(
+        'unguarded-fetch',
+        'error',
+        `fetch() in ${functionName}() is not inside a try block, and not every call to ${functionName}() is`,
+        node
+      );
+    }
+  }
+
+  const schema = parseToolSchema(tool.schema);
+  if (schema) {
+    const schemaNames = new Set(schema.map(property => property.name));
+
+    for (const [name, node] of argumentReads) {
+      if (!schemaNames.has(name)) {
+        report(
+          'unknown-argument',
+          guardedArguments.has(name) ? 'warning' : 'error',
+          guardedArguments.has(name)
+            ? `Reads $${name}, which the schema does not declare; it is never set`
+            : `Reads $${name}, which the schema does not declare; throws ReferenceError`,
+          node
+        );
+      } else if (!guardedArguments.has(name) && !schema.find(property => property.name === name)!.required) {
+        report(
+          'unguarded-argument',
+          'warning',
+          `Reads optional argument $${name} without a typeof check; throws ReferenceError when the LLM omits it`,
+          node
+        );
+      }
+    }
+
+    for (const property of schema) {
+      if (!argumentReads.has(property.name) && !guardedArguments.has(property.name)) {
+        report('unused-argument', 'warning', `Schema declares "${property.name}" but the code never reads $${property.name}`);
+      }
+    }
+  }
+
+  if (options.noderedEndpoints?.length) {
+    // Node-RED URLs are the ones under the flow's top-level path segments (e.g. /chord/)
+    const roots = [...new Set(options.noderedEndpoints.map(endpoint => `/${endpoint.split('/')[1]}/`))];
+    // Base URL constants are prefixes of the endpoint URLs built from them
+    const endpointUrls = urls.filter(({ url }) => !urls.some(other => other.url !== url && other.url.startsWith(url)));
+
+    for (const { url, node } of endpointUrls) {
+      let pathname: string;
+      try {
+        pathname = new URL(url).pathname.replace(/\/+$/, '');
+      } catch {
+        continue;
+      }
+      if (!roots.some(root => pathname.includes(root))) continue;
+
+      if (!options.noderedEndpoints.some(endpoint => pathname.endsWith(endpoint))) {
+        report('unknown-endpoint', 'error', `Calls ${url}, which no http in node in the Node-RED flow serves`, node);
+      }
+    }
+  }
+
+  return summarize(issues);
+}
+
+function summarize(issues: ToolCodeIssue[]): ToolCodeAnalysis {
+  const format = (issue: ToolCodeIssue) => (issue.line ? `func line ${issue.line}: ${issue.message}` : issue.message);
+  const errors = issues.filter(issue => issue.severity === 'error').map(format);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(format);
+  return { valid: errors.length === 0, errors, warnings, issues };
+}
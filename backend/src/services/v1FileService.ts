@@ -15,6 +15,7 @@
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { analyzeToolCode, getHttpInEndpoints, parseToolSchema } from './toolCodeAnalyzer';
 
 // ============================================================================
 // V1 FILE CONFIGURATION
@@ -169,6 +170,7 @@ export function writeV1File(fileKey: string, content: string): { success: boolea
 
 /**
  * Sync V1 file to nodered directory
+ * File copy only; noderedDeployService deploys the flow file to a running Node-RED.
  */
 export function syncToNodered(fileKey: string): { success: boolean; error?: string } {
   const meta = V1_FILES[fileKey];
@@ -306,9 +308,23 @@ function validateFlowContent(content: string): { valid: boolean; errors: string[
 }
 
 /**
- * Validate Flowise tool JSON
+ * `http in` URLs of the V1 Node-RED flow (undefined when the file is missing or invalid)
  */
-function validateToolContent(content: string): { valid: boolean; errors: string[]; warnings: string[] } {
+function getV1NodeRedEndpoints(): string[] | undefined {
+  const file = readV1File('nodered_flow');
+  if (!file) return undefined;
+
+  try {
+    return getHttpInEndpoints(JSON.parse(file.content));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Validate Flowise tool JSON, including static analysis of its func (see toolCodeAnalyzer)
+ */
+export function validateToolContent(content: string): { valid: boolean; errors: string[]; warnings: string[] } {
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -323,27 +339,23 @@ function validateToolContent(content: string): { valid: boolean; errors: string[
       }
     }
 
-    // Validate schema structure
-    if (tool.schema) {
-      if (!tool.schema.type || tool.schema.type !== 'object') {
-        warnings.push('Schema should have type "object"');
-      }
-      if (!tool.schema.properties) {
-        errors.push('Schema missing properties definition');
-      }
-      if (!tool.schema.required || !Array.isArray(tool.schema.required)) {
-        warnings.push('Schema should have required array');
-      }
+    // Validate schema structure (Flowise exports [{ property, type, required }] as a JSON string)
+    if (tool.schema && !parseToolSchema(tool.schema)) {
+      errors.push('Schema must be a list of { property, type, required } or a JSON Schema with properties');
     }
 
     // Check function content
-    if (tool.func) {
+    if (typeof tool.func === 'string' && tool.func) {
       if (!tool.func.includes('async function')) {
         warnings.push('Function should use async pattern');
       }
       if (!tool.func.includes('return')) {
         warnings.push('Function should have a return statement');
       }
+
+      const analysis = analyzeToolCode(tool, { noderedEndpoints: getV1NodeRedEndpoints() });
+      errors.push(...analysis.errors);
+      warnings.push(...analysis.warnings);
     }
 
   } catch (error: any) {
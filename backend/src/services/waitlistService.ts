@@ -0,0 +1,322 @@
+/**
+ * Waitlist Service
+ *
+ * Matches waitlisted patients against open slots in their practice's PMS
+ * (the entry's tenant, or the environment's default PMS).
+ *
+ * Matching runs:
+ * 1. Periodically for every environment with active entries
+ * 2. Immediately after an appointment is canceled through the API
+ *
+ * When an entry goes from waiting to matched, a webhook is sent (if configured)
+ * and the entry shows up in the Dashboard's waitlist matches.
+ */
+
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { Environment, isValidEnvironment } from '../config/cloud9';
+import { getPmsAdapter, PmsAdapter, PmsProviderSchedule } from './pms';
+import { WaitlistEntry, WaitlistEntryModel, WaitlistMatchedSlot, ACTIVE_WAITLIST_STATUSES } from '../models/WaitlistEntry';
+import { formatCloud9Date, parseCloud9DateTime } from '../utils/cloud9Dates';
+import logger from '../utils/logger';
+
+// Configuration
+const POLL_INTERVAL_MS = Number(process.env.WAITLIST_POLL_INTERVAL_MS ?? 15 * 60 * 1000);
+const WEBHOOK_URL = process.env.WAITLIST_WEBHOOK_URL || '';
+const WEBHOOK_SECRET = process.env.WAITLIST_WEBHOOK_SECRET || '';
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Wide slot searches are slow; look at most this far ahead per pass
+const MAX_SEARCH_DAYS = 28;
+// Slots kept per entry for staff to choose from
+const MAX_SLOTS_PER_ENTRY = 5;
+
+export interface WaitlistMatchResult {
+  environment: Environment;
+  reason: string;
+  checked: number;
+  newMatches: number;
+  expired: number;
+  errors: number;
+}
+
+// Shared by every entry of one practice in a matching pass
+interface MatchContext {
+  pms: PmsAdapter;
+  providers?: Promise<PmsProviderSchedule[]>;
+}
+
+/**
+ * Local YYYY-MM-DD (waitlist windows are practice-local dates)
+ */
+function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+}
+
+function fromIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Schedule views to search: the entry's provider, or every provider schedule at the location
+ */
+async function getScheduleViewGuids(context: MatchContext, entry: WaitlistEntry): Promise<string[]> {
+  if (entry.provider_guid) {
+    return [entry.provider_guid];
+  }
+
+  if (!context.providers) {
+    context.providers = context.pms.getProviders().catch((error) => {
+      logger.warn('[Waitlist] Could not load providers', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    });
+  }
+
+  const providers = await context.providers;
+  return Array.from(
+    new Set(providers.filter((p) => p.locationGuid === entry.location_guid).map((p) => p.scheduleViewGuid))
+  );
+}
+
+/**
+ * Find open slots for one entry within its window and time-of-day preference
+ */
+async function findSlotsForEntry(context: MatchContext, entry: WaitlistEntry): Promise<WaitlistMatchedSlot[]> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const start = fromIsoDate(entry.earliest_date) > today ? fromIsoDate(entry.earliest_date) : today;
+  const searchLimit = new Date(start.getTime() + MAX_SEARCH_DAYS * 86400000);
+  const latest = fromIsoDate(entry.latest_date);
+  const end = latest < searchLimit ? latest : searchLimit;
+
+  if (end < start) {
+    return [];
+  }
+
+  const scheduleViewGuids = await getScheduleViewGuids(context, entry);
+  if (scheduleViewGuids.length === 0) {
+    logger.warn('[Waitlist] No schedule views for location', { locationGuid: entry.location_guid });
+    return [];
+  }
+
+  const slots = await context.pms.getAvailableSlots({
+    locationGuid: entry.location_guid,
+    providerGuid: scheduleViewGuids.join(','),
+    appointmentTypeGuid: entry.appointment_type_guid,
+    startDate: formatCloud9Date(start),
+    endDate: formatCloud9Date(end),
+  });
+
+  const now = Date.now();
+  return slots
+    .filter((slot) => {
+      const slotStart = parseCloud9DateTime(slot.dateTime);
+      if (!slotStart || slotStart.getTime() <= now) {
+        return false;
+      }
+      if (entry.time_of_day === 'morning') {
+        return slotStart.getHours() < 12;
+      }
+      if (entry.time_of_day === 'afternoon') {
+        return slotStart.getHours() >= 12;
+      }
+      return true;
+    })
+    .slice(0, MAX_SLOTS_PER_ENTRY)
+    .map((slot) => ({
+      dateTime: slot.dateTime,
+      endTime: slot.endTime,
+      scheduleViewGuid: slot.scheduleViewGuid,
+      scheduleColumnGuid: slot.scheduleColumnGuid,
+      scheduleViewDescription: slot.scheduleViewDescription,
+      scheduleColumnDescription: slot.scheduleColumnDescription,
+      durationMinutes: Number(slot.durationMinutes),
+      locationGuid: slot.locationGuid || entry.location_guid,
+      appointmentTypeGuid: slot.appointmentTypeGuid || entry.appointment_type_guid,
+    }));
+}
+
+/**
+ * POST a match to the configured webhook. Failures are logged, never thrown.
+ */
+async function sendMatchWebhook(entry: WaitlistEntry, slots: WaitlistMatchedSlot[]): Promise<void> {
+  if (!WEBHOOK_URL) {
+    return;
+  }
+
+  const body = JSON.stringify({
+    event: 'waitlist.match',
+    sentAt: new Date().toISOString(),
+    entry: {
+      id: entry.id,
+      environment: entry.environment,
+      tenant: entry.tenant,
+      patientGuid: entry.patient_guid,
+      patientName: entry.patient_name,
+      locationGuid: entry.location_guid,
+      appointmentTypeGuid: entry.appointment_type_guid,
+      earliestDate: entry.earliest_date,
+      latestDate: entry.latest_date,
+      timeOfDay: entry.time_of_day,
+    },
+    slots,
+  });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (WEBHOOK_SECRET) {
+    headers['X-Waitlist-Signature'] = `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex')}`;
+  }
+
+  try {
+    await axios.post(WEBHOOK_URL, body, { headers, timeout: WEBHOOK_TIMEOUT_MS });
+    logger.info('[Waitlist] Match webhook sent', { entryId: entry.id });
+  } catch (error) {
+    logger.error('[Waitlist] Match webhook failed', {
+      entryId: entry.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// One matching pass per environment at a time; requests during a pass queue one more pass
+const runningPasses = new Map<Environment, Promise<WaitlistMatchResult>>();
+const rerunRequested = new Set<Environment>();
+
+async function runMatchingPass(environment: Environment, reason: string): Promise<WaitlistMatchResult> {
+  const result: WaitlistMatchResult = { environment, reason, checked: 0, newMatches: 0, expired: 0, errors: 0 };
+
+  result.expired = WaitlistEntryModel.expirePast(environment, toIsoDate(new Date()));
+
+  const entries = WaitlistEntryModel.list(environment, ACTIVE_WAITLIST_STATUSES);
+  if (entries.length === 0) {
+    return result;
+  }
+
+  // One context per practice; entries without a tenant use the environment's default PMS
+  const contexts = new Map<string, MatchContext>();
+  const getContext = (tenant: string | null): MatchContext => {
+    const key = tenant || '';
+    let context = contexts.get(key);
+    if (!context) {
+      context = { pms: getPmsAdapter(environment, tenant || undefined) };
+      contexts.set(key, context);
+    }
+    return context;
+  };
+
+  // Sequential on purpose: keeps the load on the PMS predictable
+  for (const entry of entries) {
+    try {
+      const slots = await findSlotsForEntry(getContext(entry.tenant), entry);
+      WaitlistEntryModel.recordCheck(entry.id, slots);
+      result.checked += 1;
+
+      if (slots.length > 0 && entry.status === 'waiting') {
+        result.newMatches += 1;
+        logger.info('[Waitlist] Entry matched', {
+          entryId: entry.id,
+          environment,
+          tenant: entry.tenant,
+          slots: slots.length,
+          reason,
+        });
+        await sendMatchWebhook(entry, slots);
+      }
+    } catch (error) {
+      result.errors += 1;
+      logger.error('[Waitlist] Error matching entry', {
+        entryId: entry.id,
+        environment,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run matching for an environment. If a pass is already running, one more pass
+ * is queued after it (a cancellation may have opened a slot it already checked).
+ */
+export function runWaitlistMatching(environment: Environment, reason: string): Promise<WaitlistMatchResult> {
+  const running = runningPasses.get(environment);
+  if (running) {
+    rerunRequested.add(environment);
+    return running;
+  }
+
+  const pass = runMatchingPass(environment, reason).finally(() => {
+    runningPasses.delete(environment);
+    if (rerunRequested.delete(environment)) {
+      void runWaitlistMatching(environment, 'queued');
+    }
+  });
+
+  runningPasses.set(environment, pass);
+  return pass;
+}
+
+/**
+ * Fire-and-forget matching after an appointment was canceled or moved
+ */
+export function triggerWaitlistMatching(environment: Environment, reason: string): void {
+  runWaitlistMatching(environment, reason).catch((error) => {
+    logger.error('[Waitlist] Matching failed', {
+      environment,
+      reason,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  });
+}
+
+// Interval handle for the polling job
+let pollIntervalHandle: NodeJS.Timeout | null = null;
+
+/**
+ * Start polling every environment that has active waitlist entries
+ */
+export function startWaitlistPolling(intervalMs: number = POLL_INTERVAL_MS): void {
+  if (pollIntervalHandle) {
+    logger.warn('[Waitlist] Polling already running');
+    return;
+  }
+
+  if (intervalMs <= 0) {
+    logger.info('[Waitlist] Polling disabled');
+    return;
+  }
+
+  logger.info('[Waitlist] Starting polling job', { intervalMinutes: intervalMs / 60000 });
+
+  pollIntervalHandle = setInterval(() => {
+    try {
+      for (const environment of WaitlistEntryModel.getActiveEnvironments()) {
+        if (isValidEnvironment(environment)) {
+          triggerWaitlistMatching(environment, 'poll');
+        }
+      }
+    } catch (error) {
+      logger.error('[Waitlist] Error during polling', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop the polling job
+ */
+export function stopWaitlistPolling(): void {
+  if (pollIntervalHandle) {
+    clearInterval(pollIntervalHandle);
+    pollIntervalHandle = null;
+    logger.info('[Waitlist] Stopped polling job');
+  }
+}
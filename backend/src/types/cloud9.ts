@@ -83,6 +83,8 @@ export interface Cloud9Appointment {
   LocationGUID?: string;
   LocationCode?: string;
   LocationName?: string;
+  ScheduleViewGUID?: string;
+  ScheduleColumnGUID?: string;
   DurationMinutes?: number;
 }
 
@@ -79,5 +79,5 @@ export interface DbCacheMetadata {
   cache_key: string;
   last_updated: string;
   ttl_seconds: number;
-  environment: 'sandbox' | 'production';
+  environment: 'sandbox' | 'production' | 'mock';
 }
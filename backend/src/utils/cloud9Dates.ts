@@ -0,0 +1,47 @@
+/**
+ * Cloud 9 date helpers
+ * Cloud 9 exchanges local practice times as US-style strings, e.g. "11/5/2025 8:30:00 AM"
+ */
+
+/**
+ * Parse "MM/DD/YYYY[ h:mm[:ss] AM|PM]" (or an ISO 8601 string) into a local Date
+ */
+export function parseCloud9DateTime(value: string | undefined | null): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = value
+    .trim()
+    .match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i);
+
+  if (match) {
+    const [, month, day, year, hour = '0', minute = '0', second = '0', meridiem] = match;
+    let hours = Number(hour);
+    if (meridiem) {
+      hours = (hours % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    return new Date(Number(year), Number(month) - 1, Number(day), hours, Number(minute), Number(second));
+  }
+
+  const parsed = new Date(value.trim());
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Format a Date as "M/D/YYYY"
+ */
+export function formatCloud9Date(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+}
+
+/**
+ * Format a Date as "M/D/YYYY h:mm:ss AM"
+ */
+export function formatCloud9DateTime(date: Date): string {
+  const hours = date.getHours();
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  const seconds = String(date.getSeconds()).padStart(2, '0');
+  return `${formatCloud9Date(date)} ${hour12}:${minutes}:${seconds} ${hours < 12 ? 'AM' : 'PM'}`;
+}
@@ -0,0 +1,184 @@
+/**
+ * Cron Expression Helpers
+ *
+ * Standard 5-field cron ("minute hour day-of-month month day-of-week"),
+ * evaluated in the server's local time. Supports `*`, lists (`1,15`),
+ * ranges (`1-5`), steps (`0-59/15`, `5/10`), month/day names (`jan`, `mon`)
+ * and the @hourly / @daily / @nightly / @weekly / @monthly shortcuts.
+ *
+ * As in classic cron, when both day-of-month and day-of-week are restricted
+ * a time matches if either one does.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month / day-of-week were given explicitly (not `*`) */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@nightly': '0 2 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset added to a name's index (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : Number(value);
+
+  if (!/^\w+$/.test(value) || !Number.isInteger(parsed) || parsed < spec.min || parsed > spec.max) {
+    throw new Error(`Invalid ${spec.name} value "${value}" (expected ${spec.min}-${spec.max})`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} step "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error when it is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got "${expression}"`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Error message for an invalid expression, or null when it is valid
+ */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Whether the schedule fires in the minute containing `date`
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours())) {
+    return false;
+  }
+  if (!schedule.months.has(date.getMonth() + 1)) {
+    return false;
+  }
+
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time the schedule fires strictly after `after` (null if none within a year)
+ */
+export function getNextCronTime(schedule: CronSchedule, after: Date = new Date()): Date | null {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = after.getTime() + 366 * 24 * 60 * 60 * 1000;
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      // Skip to the first minute of next month
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+      continue;
+    }
+    if (cronMatches(schedule, candidate)) {
+      return candidate;
+    }
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+
+  return null;
+}
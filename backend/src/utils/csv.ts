@@ -0,0 +1,82 @@
+/**
+ * CSV helpers (RFC 4180: comma separated, double-quote escaping, CRLF or LF line endings)
+ */
+
+// Leading characters spreadsheets treat as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a value for a CSV cell. Text that a spreadsheet would run as a formula
+ * is prefixed with ' so it opens as plain text (CSV injection).
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const raw = String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns.join(','), ...rows.map((row) => row.map(toCsvCell).join(','))].join('\n');
+}
+
+/**
+ * Parse CSV text into rows of cells. Blank lines are skipped; a leading BOM is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal SMTP Client
+ *
+ * Plain-text mail to a local/internal relay (Postfix, MailHog, smtp4dev) over
+ * an unauthenticated, unencrypted connection. Not meant for public providers -
+ * there is no STARTTLS or AUTH.
+ */
+
+import net from 'net';
+import os from 'os';
+
+export interface SmtpMessage {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Reads complete (possibly multi-line) SMTP replies from a socket
+ */
+function createReplyReader(socket: net.Socket): () => Promise<{ code: number; text: string }> {
+  let buffer = '';
+  const waiting: Array<(line: string) => void> = [];
+  const lines: string[] = [];
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString();
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve(line);
+      } else {
+        lines.push(line);
+      }
+    }
+  });
+
+  const nextLine = () =>
+    new Promise<string>((resolve) => {
+      const line = lines.shift();
+      if (line !== undefined) {
+        resolve(line);
+      } else {
+        waiting.push(resolve);
+      }
+    });
+
+  return async () => {
+    const replyLines: string[] = [];
+    let line: string;
+    // "250-..." continues the reply, "250 ..." ends it
+    do {
+      line = await nextLine();
+      replyLines.push(line);
+    } while (line.charAt(3) === '-');
+
+    return { code: parseInt(line.slice(0, 3), 10), text: replyLines.join('\n') };
+  };
+}
+
+function formatMessage(message: SmtpMessage): string {
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+  ];
+
+  // Dot-stuff lines that start with "." so they don't end the DATA section
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+/**
+ * Send a plain-text message. Rejects on connection errors, timeouts or an unexpected reply.
+ */
+export async function sendSmtpMail(message: SmtpMessage): Promise<void> {
+  const socket = net.createConnection({ host: message.host, port: message.port });
+  socket.setTimeout(message.timeoutMs ?? 10000);
+
+  const failure = new Promise<never>((_resolve, reject) => {
+    socket.on('error', reject);
+    socket.on('timeout', () => reject(new Error(`SMTP timeout talking to ${message.host}:${message.port}`)));
+  });
+  // Errors after the conversation finished (e.g. on close) are not interesting
+  failure.catch(() => undefined);
+  const readReply = createReplyReader(socket);
+
+  const expect = async (command: string | null, expectedCode: number, label = command?.split(' ')[0] || 'greeting') => {
+    if (command !== null) {
+      socket.write(`${command}\r\n`);
+    }
+    const reply = await Promise.race([readReply(), failure]);
+    // Compare the reply class (2xx/3xx) - relays may answer RCPT with 251
+    if (Math.floor(reply.code / 100) !== Math.floor(expectedCode / 100)) {
+      throw new Error(`SMTP ${label} failed: ${reply.text}`);
+    }
+  };
+
+  try {
+    await expect(null, 220);
+    await expect(`EHLO ${os.hostname()}`, 250);
+    await expect(`MAIL FROM:<${message.from}>`, 250);
+    for (const recipient of message.to) {
+      await expect(`RCPT TO:<${recipient}>`, 250);
+    }
+    await expect('DATA', 354);
+    await expect(formatMessage(message), 250, 'message');
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.end();
+  }
+}
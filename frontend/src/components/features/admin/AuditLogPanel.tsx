@@ -0,0 +1,237 @@
+/**
+ * Audit Log Panel
+ * Search and export the PHI access audit log (admin only)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, Button, Input, Select, Spinner } from '../../ui';
+import * as adminApi from '../../../services/api/adminApi';
+import { getErrorMessage } from '../../../services/utils/apiUtils';
+import type { User, AuditAction, AuditLogEntry, AuditLogFilters } from '../../../types/auth.types';
+
+const PAGE_SIZE = 50;
+
+const ACTION_OPTIONS: { value: AuditAction | ''; label: string }[] = [
+  { value: '', label: 'All actions' },
+  { value: 'patient.search', label: 'Patient search' },
+  { value: 'patient.view', label: 'Patient view' },
+  { value: 'patient.create', label: 'Patient create' },
+  { value: 'patient.update', label: 'Patient update' },
+  { value: 'patient.import', label: 'Patient import' },
+  { value: 'patient.export', label: 'Patient export' },
+  { value: 'appointment.list', label: 'Appointment list' },
+  { value: 'appointment.book', label: 'Appointment book' },
+  { value: 'appointment.confirm', label: 'Appointment confirm' },
+  { value: 'appointment.cancel', label: 'Appointment cancel' },
+  { value: 'appointment.reschedule', label: 'Appointment reschedule' },
+  { value: 'waitlist.view', label: 'Waitlist view' },
+  { value: 'waitlist.add', label: 'Waitlist add' },
+  { value: 'waitlist.update', label: 'Waitlist update' },
+];
+
+interface AuditLogPanelProps {
+  users: User[];
+}
+
+export function AuditLogPanel({ users }: AuditLogPanelProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Draft filters are edited in the form; applied filters drive the query
+  const [userId, setUserId] = useState('');
+  const [patientGuid, setPatientGuid] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await adminApi.getAuditLog(filters, PAGE_SIZE, offset);
+      setEntries(response.data.entries);
+      setTotal(response.data.total);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters({
+      ...(userId && { userId: Number(userId) }),
+      ...(patientGuid.trim() && { patientGuid: patientGuid.trim() }),
+      ...(action && { action }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+    });
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const blob = await adminApi.exportAuditLog(filters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `phi-audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(getErrorMessage(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const userOptions = [
+    { value: '', label: 'All users' },
+    ...users.map((u) => ({ value: String(u.id), label: u.display_name || u.email })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end p-4">
+          <Select label="User" options={userOptions} value={userId} onChange={setUserId} />
+          <Input
+            label="Patient GUID"
+            value={patientGuid}
+            onChange={(e) => setPatientGuid(e.target.value)}
+            placeholder="Any patient"
+          />
+          <Select
+            label="Action"
+            options={ACTION_OPTIONS}
+            value={action}
+            onChange={(value) => setAction(value as AuditAction | '')}
+          />
+          <Input label="From" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          <Input label="To" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm">Search</Button>
+            <Button type="button" size="sm" variant="outline" onClick={handleExport} isLoading={exporting}>
+              Export CSV
+            </Button>
+          </div>
+        </form>
+      </Card>
+
+      {error && (
+        <div className="p-4 rounded-md bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      <Card>
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner />
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            No audit records match these filters
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">User</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Env</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Action</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Patient</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Outcome</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">
+                      {entry.user_email || '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                          entry.environment === 'production'
+                            ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-400'
+                            : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {entry.environment}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 font-mono">
+                      {entry.action}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-400 font-mono">
+                      {entry.patient_guid || '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {entry.outcome === 'success' ? (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-400">
+                          {entry.status_code}
+                        </span>
+                      ) : (
+                        <span
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-400"
+                          title={entry.error_message || undefined}
+                        >
+                          {entry.status_code}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+export default AuditLogPanel;
@@ -1 +1,2 @@
 export { UserFormModal } from './UserFormModal';
+export { AuditLogPanel } from './AuditLogPanel';
@@ -11,6 +11,7 @@ export interface AppointmentCardProps {
   appointment: Appointment;
   onConfirm?: (appointment: Appointment) => void;
   onCancel?: (appointment: Appointment) => void;
+  onReschedule?: (appointment: Appointment) => void;
   showPatientName?: boolean;
   isLoading?: boolean;
 }
@@ -19,6 +20,7 @@ export function AppointmentCard({
   appointment,
   onConfirm,
   onCancel,
+  onReschedule,
   showPatientName = false,
   isLoading = false,
 }: AppointmentCardProps) {
@@ -260,6 +262,17 @@ export function AppointmentCard({
                 ✓ Confirm Appointment
               </Button>
             )}
+            {onReschedule && (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => onReschedule(appointment)}
+                disabled={isLoading}
+                className="flex-1 font-semibold shadow-md hover:shadow-lg transition-all"
+              >
+                ↻ Reschedule
+              </Button>
+            )}
             {onCancel && (
               <Button
                 size="sm"
@@ -11,6 +11,7 @@ export interface AppointmentListProps {
   appointments: Appointment[];
   onConfirm?: (appointment: Appointment) => void;
   onCancel?: (appointment: Appointment) => void;
+  onReschedule?: (appointment: Appointment) => void;
   showPatientName?: boolean;
   isLoading?: boolean;
   emptyMessage?: string;
@@ -20,6 +21,7 @@ export function AppointmentList({
   appointments,
   onConfirm,
   onCancel,
+  onReschedule,
   showPatientName = false,
   isLoading = false,
   emptyMessage = 'No appointments found.',
@@ -48,6 +50,7 @@ export function AppointmentList({
           appointment={appointment}
           onConfirm={onConfirm}
           onCancel={onCancel}
+          onReschedule={onReschedule}
           showPatientName={showPatientName}
         />
       ))}
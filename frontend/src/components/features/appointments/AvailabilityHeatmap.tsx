@@ -0,0 +1,162 @@
+/**
+ * AvailabilityHeatmap Component
+ * Chairs × time blocks grid for one location's week, colored by open/booked
+ */
+
+import { Fragment } from 'react';
+import { format } from 'date-fns';
+import { cn } from '../../../utils/cn';
+import type { AvailabilityCellState, AvailabilityGrid } from '../../../types';
+
+export interface AvailabilityHeatmapProps {
+  grid: AvailabilityGrid;
+  className?: string;
+}
+
+const CELL_STYLES: Record<AvailabilityCellState, string> = {
+  open: 'bg-green-500 dark:bg-green-600',
+  booked: 'bg-blue-500 dark:bg-blue-600',
+  closed: 'bg-gray-100 dark:bg-gray-700',
+};
+
+const CELL_LABELS: Record<AvailabilityCellState, string> = {
+  open: 'Open',
+  booked: 'Booked',
+  closed: 'Closed',
+};
+
+function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function formatBlockTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return format(new Date(2000, 0, 1, hours, minutes), 'h:mm a');
+}
+
+export function AvailabilityHeatmap({ grid, className }: AvailabilityHeatmapProps) {
+  const days = grid.days.map(parseIsoDate);
+  // Label the hour marks only, so narrow blocks stay readable
+  const blocksPerHour = 60 / grid.blockMinutes;
+
+  const dayTotals = grid.days.map((_, dayIndex) =>
+    grid.chairs.reduce(
+      (totals, chair) => {
+        for (const cell of chair.cells[dayIndex]) {
+          if (cell === 'open') totals.open += 1;
+          if (cell === 'booked') totals.booked += 1;
+        }
+        return totals;
+      },
+      { open: 0, booked: 0 }
+    )
+  );
+
+  if (grid.chairs.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        <p className="font-medium">No chairs found for this location</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+        {(Object.keys(CELL_STYLES) as AvailabilityCellState[]).map((state) => (
+          <span key={state} className="flex items-center gap-1.5">
+            <span className={cn('inline-block w-3 h-3 rounded-sm', CELL_STYLES[state])} />
+            {CELL_LABELS[state]}
+          </span>
+        ))}
+        <span className="ml-auto text-xs">
+          {grid.blockMinutes}-minute blocks, {formatBlockTime(grid.times[0])} –{' '}
+          {formatBlockTime(grid.times[grid.times.length - 1])}
+        </span>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="border-collapse text-xs">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-gray-800">
+              <th
+                rowSpan={2}
+                className="sticky left-0 z-10 bg-gray-50 dark:bg-gray-800 px-3 py-2 text-left font-semibold text-gray-900 dark:text-white border-r border-gray-200 dark:border-gray-700"
+              >
+                Chair
+              </th>
+              {days.map((day, dayIndex) => (
+                <th
+                  key={grid.days[dayIndex]}
+                  colSpan={grid.times.length}
+                  className="px-2 py-1 text-center font-semibold text-gray-900 dark:text-white border-r border-gray-200 dark:border-gray-700"
+                >
+                  {format(day, 'EEE M/d')}
+                  <span className="block font-normal text-gray-500 dark:text-gray-400">
+                    {dayTotals[dayIndex].open} open · {dayTotals[dayIndex].booked} booked
+                  </span>
+                </th>
+              ))}
+            </tr>
+            <tr className="bg-gray-50 dark:bg-gray-800">
+              {grid.days.map((day) =>
+                grid.times.map((time, blockIndex) => (
+                  <th
+                    key={`${day}-${time}`}
+                    className={cn(
+                      'w-3 min-w-[0.75rem] h-6 font-normal text-[10px] text-gray-400 align-bottom',
+                      blockIndex === grid.times.length - 1 && 'border-r border-gray-200 dark:border-gray-700'
+                    )}
+                  >
+                    {blockIndex % (blocksPerHour * 2) === 0 ? time.replace(/:00$/, '').replace(/^0/, '') : ''}
+                  </th>
+                ))
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.chairs.map((chair) => (
+              <tr key={chair.scheduleColumnGuid} className="border-t border-gray-100 dark:border-gray-700">
+                <td className="sticky left-0 z-10 bg-white dark:bg-gray-900 px-3 py-1.5 whitespace-nowrap border-r border-gray-200 dark:border-gray-700">
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {chair.scheduleColumnDescription || chair.scheduleColumnGuid}
+                  </div>
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {chair.scheduleViewDescription} · {chair.openBlocks} open / {chair.bookedBlocks} booked
+                  </div>
+                </td>
+                {chair.cells.map((dayCells, dayIndex) => (
+                  <Fragment key={grid.days[dayIndex]}>
+                    {dayCells.map((cell, blockIndex) => (
+                      <td
+                        key={blockIndex}
+                        className={cn(
+                          'p-px',
+                          blockIndex === dayCells.length - 1 && 'border-r border-gray-200 dark:border-gray-700'
+                        )}
+                        title={`${chair.scheduleColumnDescription} · ${format(days[dayIndex], 'EEE M/d')} ${formatBlockTime(
+                          grid.times[blockIndex]
+                        )} · ${CELL_LABELS[cell]}`}
+                      >
+                        <div className={cn('w-3 h-6 rounded-sm', CELL_STYLES[cell])} />
+                      </td>
+                    ))}
+                  </Fragment>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {grid.unplacedAppointments > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {grid.unplacedAppointments} appointment{grid.unplacedAppointments === 1 ? '' : 's'} at this location
+          had no chair assignment and are not shown.
+        </p>
+      )}
+    </div>
+  );
+}
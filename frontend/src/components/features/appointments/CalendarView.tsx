@@ -8,13 +8,15 @@ import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
-import type { EventClickArg, DateSelectArg } from '@fullcalendar/core';
+import type { EventClickArg, DateSelectArg, DatesSetArg } from '@fullcalendar/core';
 import type { Appointment } from '../../../types';
 
 export interface CalendarViewProps {
   appointments: Appointment[];
   onEventClick?: (appointment: Appointment) => void;
   onDateSelect?: (start: Date, end: Date) => void;
+  /** Called with the visible range whenever the user changes view or navigates (end is exclusive) */
+  onRangeChange?: (start: Date, end: Date) => void;
   initialView?: 'dayGridMonth' | 'timeGridWeek' | 'timeGridDay';
 }
 
@@ -22,6 +24,7 @@ export function CalendarView({
   appointments,
   onEventClick,
   onDateSelect,
+  onRangeChange,
   initialView = 'dayGridMonth',
 }: CalendarViewProps) {
   // Convert appointments to FullCalendar events
@@ -67,6 +70,12 @@ export function CalendarView({
     }
   };
 
+  const handleDatesSet = (arg: DatesSetArg) => {
+    if (onRangeChange) {
+      onRangeChange(arg.start, arg.end);
+    }
+  };
+
   return (
     <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-4">
       <FullCalendar
@@ -80,6 +89,7 @@ export function CalendarView({
         events={events}
         eventClick={handleEventClick}
         select={handleDateSelect}
+        datesSet={handleDatesSet}
         selectable={!!onDateSelect}
         selectMirror={true}
         dayMaxEvents={true}
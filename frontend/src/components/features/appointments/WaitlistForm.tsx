@@ -0,0 +1,138 @@
+/**
+ * WaitlistForm Component
+ * Modal for putting a patient on the waitlist when no acceptable slot is open
+ */
+
+import { useState } from 'react';
+import { Button, Input, Modal, Select } from '../../ui';
+import { useToast } from '../../../hooks/useToast';
+import { addToWaitlist } from '../../../services/api/waitlistApi';
+import { getErrorMessage } from '../../../services/utils/apiUtils';
+import type { TimeOfDayPreference, WaitlistEntry } from '../../../types';
+
+export interface WaitlistFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  patientGuid: string;
+  patientName?: string;
+  locationGuid: string;
+  appointmentTypeGuid: string;
+  providerGuid?: string;
+  /** Initial date window (YYYY-MM-DD), e.g. the range that was just searched */
+  earliestDate?: string;
+  latestDate?: string;
+  onAdded?: (entry: WaitlistEntry) => void;
+}
+
+const TIME_OF_DAY_OPTIONS: { value: TimeOfDayPreference; label: string }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'morning', label: 'Morning (before noon)' },
+  { value: 'afternoon', label: 'Afternoon (noon and later)' },
+];
+
+function todayIso(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(
+    now.getDate()
+  ).padStart(2, '0')}`;
+}
+
+export function WaitlistForm({
+  isOpen,
+  onClose,
+  patientGuid,
+  patientName,
+  locationGuid,
+  appointmentTypeGuid,
+  providerGuid,
+  earliestDate,
+  latestDate,
+  onAdded,
+}: WaitlistFormProps) {
+  const toast = useToast();
+  const [windowStart, setWindowStart] = useState(earliestDate || todayIso());
+  const [windowEnd, setWindowEnd] = useState(latestDate || '');
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDayPreference>('any');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isValid = !!patientGuid && !!windowStart && !!windowEnd && windowEnd >= windowStart;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    setIsSubmitting(true);
+
+    try {
+      const entry = await addToWaitlist({
+        patientGuid,
+        patientName,
+        locationGuid,
+        appointmentTypeGuid,
+        providerGuid: providerGuid || undefined,
+        earliestDate: windowStart,
+        latestDate: windowEnd,
+        timeOfDay,
+        notes: notes || undefined,
+      });
+      toast.showSuccess(`${patientName || 'Patient'} added to the waitlist`);
+      onAdded?.(entry);
+      onClose();
+    } catch (error) {
+      toast.showError(getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add to Waitlist" size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {patientName || 'This patient'} will be matched against new openings for the same
+          location and appointment type. Matches appear on the Dashboard.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            type="date"
+            label="Earliest date"
+            value={windowStart}
+            min={todayIso()}
+            onChange={(e) => setWindowStart(e.target.value)}
+          />
+          <Input
+            type="date"
+            label="Latest date"
+            value={windowEnd}
+            min={windowStart}
+            onChange={(e) => setWindowEnd(e.target.value)}
+            error={windowEnd && windowEnd < windowStart ? 'Must be on or after the earliest date' : undefined}
+          />
+        </div>
+
+        <Select
+          label="Time of day"
+          options={TIME_OF_DAY_OPTIONS}
+          value={timeOfDay}
+          onChange={(value) => setTimeOfDay(value as TimeOfDayPreference)}
+        />
+
+        <Input
+          label="Notes"
+          value={notes}
+          placeholder="Optional, e.g. can come at short notice"
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isSubmitting}>
+            {isSubmitting ? 'Adding...' : 'Add to Waitlist'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -11,3 +11,9 @@ export type { AppointmentListProps } from './AppointmentList';
 
 export { CalendarView } from './CalendarView';
 export type { CalendarViewProps } from './CalendarView';
+
+export { WaitlistForm } from './WaitlistForm';
+export type { WaitlistFormProps } from './WaitlistForm';
+
+export { AvailabilityHeatmap } from './AvailabilityHeatmap';
+export type { AvailabilityHeatmapProps } from './AvailabilityHeatmap';
@@ -1,11 +1,12 @@
 /**
  * Appointment Wizard
- * Main wizard container for multi-step appointment booking
+ * Main wizard container for multi-step appointment booking.
+ * In reschedule mode the patient and appointment type come from the appointment being moved.
  */
 
 import { useState } from 'react';
 import { useAppDispatch } from '../../../../store/hooks';
-import { createAppointment } from '../../../../store/slices/appointmentSlice';
+import { createAppointment, rescheduleAppointment } from '../../../../store/slices/appointmentSlice';
 import { Modal } from '../../../ui/Modal';
 import { Stepper } from '../../../ui/Stepper';
 import { PatientSelectionStep } from './PatientSelectionStep';
@@ -13,8 +14,14 @@ import { SlotSelectionStep } from './SlotSelectionStep';
 import { AppointmentDetailsStep } from './AppointmentDetailsStep';
 import { ConfirmationStep } from './ConfirmationStep';
 import { useToast } from '../../../../hooks/useToast';
+import { newIdempotencyKey } from '../../../../utils/idempotency';
 import type { WizardStep, AppointmentWizardData } from '../../../../types';
-import type { AvailableSlot, Appointment, Patient } from '../../../../types';
+import type {
+  AvailableSlot,
+  Appointment,
+  Patient,
+  RescheduleAppointmentResult,
+} from '../../../../types';
 import { format } from 'date-fns';
 
 export interface AppointmentWizardProps {
@@ -23,50 +30,21 @@ export interface AppointmentWizardProps {
   initialPatient?: Patient;
   initialPatientGuid?: string;
   onSuccess?: (appointment: Appointment) => void;
+  /** Appointment to move; read when the wizard mounts, so mount it per reschedule */
+  rescheduleAppointment?: Appointment;
+  onRescheduled?: (result: RescheduleAppointmentResult) => void;
 }
 
 const TOTAL_STEPS = 4;
 
-export function AppointmentWizard({
-  isOpen,
-  onClose,
-  initialPatient,
-  initialPatientGuid,
-  onSuccess,
-}: AppointmentWizardProps) {
-  const dispatch = useAppDispatch();
-  const toast = useToast();
-
-  // Derive initial patient guid from either initialPatient or initialPatientGuid
-  const effectivePatientGuid = initialPatient?.patient_guid || initialPatientGuid || '';
-  const effectivePatientName = initialPatient
-    ? `${initialPatient.first_name || ''} ${initialPatient.last_name || ''}`.trim()
-    : '';
-
-  const [currentStep, setCurrentStep] = useState(0);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [wizardData, setWizardData] = useState<AppointmentWizardData>({
-    patientGuid: effectivePatientGuid,
-    patientName: effectivePatientName,
-    locationGuid: '',
-    providerGuid: '',
-    appointmentTypeGuid: '',
-    selectedDateTime: '',
-    scheduleViewGuid: '',
-    scheduleColumnGuid: '',
-    durationMinutes: 30,
-    notes: '',
-    currentStep: 0,
-    totalSteps: TOTAL_STEPS,
-  });
-
-  const [steps, setSteps] = useState<WizardStep[]>([
+function buildInitialSteps(patientSelected: boolean): WizardStep[] {
+  return [
     {
       id: 'patient',
       title: 'Patient',
       description: '',
-      isComplete: !!effectivePatientGuid,
-      isValid: !!effectivePatientGuid,
+      isComplete: patientSelected,
+      isValid: patientSelected,
     },
     {
       id: 'slot',
@@ -89,7 +67,55 @@ export function AppointmentWizard({
       isComplete: false,
       isValid: false,
     },
-  ]);
+  ];
+}
+
+export function AppointmentWizard({
+  isOpen,
+  onClose,
+  initialPatient,
+  initialPatientGuid,
+  onSuccess,
+  rescheduleAppointment: appointmentToMove,
+  onRescheduled,
+}: AppointmentWizardProps) {
+  const dispatch = useAppDispatch();
+  const toast = useToast();
+
+  const isReschedule = !!appointmentToMove;
+
+  // Derive initial patient from the appointment being moved, initialPatient or initialPatientGuid
+  const effectivePatientGuid =
+    appointmentToMove?.patient_guid || initialPatient?.patient_guid || initialPatientGuid || '';
+  const effectivePatientName = appointmentToMove
+    ? `${appointmentToMove.patient_first_name || ''} ${appointmentToMove.patient_last_name || ''}`.trim()
+    : initialPatient
+      ? `${initialPatient.first_name || ''} ${initialPatient.last_name || ''}`.trim()
+      : '';
+  // Reschedules start on the slot step
+  const initialStep = isReschedule ? 1 : 0;
+
+  const buildInitialData = (): AppointmentWizardData => ({
+    patientGuid: effectivePatientGuid,
+    patientName: effectivePatientName,
+    locationGuid: appointmentToMove?.location_guid || '',
+    providerGuid: '',
+    appointmentTypeGuid: appointmentToMove?.appointment_type_guid || '',
+    selectedDateTime: '',
+    scheduleViewGuid: '',
+    scheduleColumnGuid: '',
+    durationMinutes: Number(appointmentToMove?.appointment_minutes) || 30,
+    notes: '',
+    currentStep: initialStep,
+    totalSteps: TOTAL_STEPS,
+  });
+
+  const [currentStep, setCurrentStep] = useState(initialStep);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // One key per booking attempt, so a double click or retry cannot book twice
+  const [idempotencyKey, setIdempotencyKey] = useState(newIdempotencyKey);
+  const [wizardData, setWizardData] = useState<AppointmentWizardData>(buildInitialData);
+  const [steps, setSteps] = useState<WizardStep[]>(() => buildInitialSteps(!!effectivePatientGuid));
 
   const updateWizardData = (data: Partial<AppointmentWizardData>) => {
     setWizardData((prev) => ({
@@ -121,15 +147,15 @@ export function AppointmentWizard({
   };
 
   const handleBack = () => {
-    if (currentStep > 0) {
+    if (currentStep > initialStep) {
       setCurrentStep((prev) => prev - 1);
       setWizardData((prev) => ({ ...prev, currentStep: currentStep - 1 }));
     }
   };
 
   const handleStepClick = (stepIndex: number) => {
-    // Only allow navigation to completed steps
-    if (steps[stepIndex].isComplete) {
+    // Only allow navigation to completed steps; the patient of a reschedule is fixed
+    if (steps[stepIndex].isComplete && !(isReschedule && stepIndex === 0)) {
       setCurrentStep(stepIndex);
       setWizardData((prev) => ({ ...prev, currentStep: stepIndex }));
     }
@@ -169,6 +195,27 @@ export function AppointmentWizard({
       const appointmentDateTime = new Date(wizardData.selectedDateTime);
       const formattedDateTime = format(appointmentDateTime, 'MM/dd/yyyy hh:mm:ss a');
 
+      if (appointmentToMove) {
+        const result = await dispatch(
+          rescheduleAppointment({
+            appointmentGuid: appointmentToMove.appointment_guid,
+            patientGuid: wizardData.patientGuid,
+            startTime: formattedDateTime,
+            scheduleViewGuid: wizardData.scheduleViewGuid,
+            scheduleColumnGuid: wizardData.scheduleColumnGuid,
+            appointmentTypeGuid: wizardData.appointmentTypeGuid,
+            durationMinutes: wizardData.durationMinutes,
+            idempotencyKey,
+          })
+        ).unwrap();
+
+        setIdempotencyKey(newIdempotencyKey());
+        toast.showSuccess('Appointment rescheduled successfully!');
+        onRescheduled?.(result);
+        handleClose();
+        return;
+      }
+
       // Create appointment
       const result = await dispatch(
         createAppointment({
@@ -178,10 +225,12 @@ export function AppointmentWizard({
           scheduleColumnGuid: wizardData.scheduleColumnGuid,
           appointmentTypeGuid: wizardData.appointmentTypeGuid,
           durationMinutes: wizardData.durationMinutes,
+          idempotencyKey,
         })
       ).unwrap();
 
       // Success!
+      setIdempotencyKey(newIdempotencyKey());
       toast.showSuccess('Appointment created successfully!');
 
       if (onSuccess) {
@@ -192,7 +241,13 @@ export function AppointmentWizard({
       handleClose();
     } catch (error) {
       toast.showError(
-        error instanceof Error ? error.message : 'Failed to create appointment'
+        error instanceof Error
+          ? error.message
+          : typeof error === 'string'
+            ? error
+            : isReschedule
+              ? 'Failed to reschedule appointment'
+              : 'Failed to create appointment'
       );
     } finally {
       setIsSubmitting(false);
@@ -207,7 +262,7 @@ export function AppointmentWizard({
       wizardData.locationGuid ||
       wizardData.appointmentTypeGuid;
 
-    if (hasData && currentStep > 0 && !isSubmitting) {
+    if (hasData && currentStep > initialStep && !isSubmitting) {
       const confirmClose = window.confirm(
         'Are you sure you want to close? Your progress will be lost.'
       );
@@ -215,57 +270,20 @@ export function AppointmentWizard({
     }
 
     // Reset wizard state
-    setCurrentStep(0);
-    setWizardData({
-      patientGuid: effectivePatientGuid,
-      patientName: effectivePatientName,
-      locationGuid: '',
-      providerGuid: '',
-      appointmentTypeGuid: '',
-      selectedDateTime: '',
-      scheduleViewGuid: '',
-      scheduleColumnGuid: '',
-      durationMinutes: 30,
-      notes: '',
-      currentStep: 0,
-      totalSteps: TOTAL_STEPS,
-    });
-    setSteps([
-      {
-        id: 'patient',
-        title: 'Patient',
-        description: '',
-        isComplete: !!effectivePatientGuid,
-        isValid: !!effectivePatientGuid,
-      },
-      {
-        id: 'slot',
-        title: 'Time Slot',
-        description: '',
-        isComplete: false,
-        isValid: false,
-      },
-      {
-        id: 'details',
-        title: 'Details',
-        description: '',
-        isComplete: false,
-        isValid: false,
-      },
-      {
-        id: 'confirm',
-        title: 'Confirm',
-        description: '',
-        isComplete: false,
-        isValid: false,
-      },
-    ]);
+    setCurrentStep(initialStep);
+    setWizardData(buildInitialData());
+    setSteps(buildInitialSteps(!!effectivePatientGuid));
 
     onClose();
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={handleClose} size="xl" title="Schedule New Appointment">
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      size="xl"
+      title={isReschedule ? 'Reschedule Appointment' : 'Schedule New Appointment'}
+    >
       <div className="space-y-4">
         {/* Stepper */}
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30 -mx-8 -mt-8 px-8 pt-4 pb-3 border-b border-blue-200 dark:border-blue-800">
@@ -314,6 +332,7 @@ export function AppointmentWizard({
               onBack={handleBack}
               onEditStep={handleStepClick}
               isSubmitting={isSubmitting}
+              originalDateTime={appointmentToMove?.appointment_date_time}
             />
           )}
         </div>
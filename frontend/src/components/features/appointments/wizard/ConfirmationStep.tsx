@@ -17,6 +17,8 @@ export interface ConfirmationStepProps {
   onBack: () => void;
   onEditStep: (stepIndex: number) => void;
   isSubmitting: boolean;
+  /** Set when rescheduling: the date/time of the appointment being moved */
+  originalDateTime?: string;
   className?: string;
 }
 
@@ -26,6 +28,7 @@ export function ConfirmationStep({
   onBack,
   onEditStep,
   isSubmitting,
+  originalDateTime,
   className,
 }: ConfirmationStepProps) {
   const { locations, appointmentTypes, providers } = useReference();
@@ -55,6 +58,12 @@ export function ConfirmationStep({
         <p className="text-lg text-gray-600 dark:text-gray-400">
           Please review all appointment details before confirming
         </p>
+        {originalDateTime && (
+          <p className="mt-3 text-base font-medium text-amber-700 dark:text-amber-400">
+            Moving from {new Date(originalDateTime).toLocaleString()}. The original appointment is
+            canceled only after the new time is booked.
+          </p>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -339,11 +348,11 @@ export function ConfirmationStep({
           {isSubmitting ? (
             <>
               <Spinner size="sm" className="mr-3" />
-              Creating Appointment...
+              {originalDateTime ? 'Rescheduling...' : 'Creating Appointment...'}
             </>
           ) : (
             <>
-              <span>Confirm Appointment</span>
+              <span>{originalDateTime ? 'Confirm Reschedule' : 'Confirm Appointment'}</span>
               <svg className="ml-2 w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
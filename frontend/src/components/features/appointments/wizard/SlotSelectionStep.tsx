@@ -25,6 +25,7 @@ import type { AppointmentWizardData } from '../../../../types';
 import type { AvailableSlot } from '../../../../types';
 import { format } from 'date-fns';
 import { CopyToPostmanButton } from '../../postman/CopyToPostmanButton';
+import { WaitlistForm } from '../WaitlistForm';
 
 export interface SlotSelectionStepProps {
   wizardData: AppointmentWizardData;
@@ -61,6 +62,7 @@ export function SlotSelectionStep({
   const [endDate, setEndDate] = useState<string | null>(null);
   const [showingSlots, setShowingSlots] = useState(false);
   const [selectingEndDate, setSelectingEndDate] = useState(false);
+  const [showWaitlistForm, setShowWaitlistForm] = useState(false);
 
   // Fetch available slots when filters and date range are complete
   useEffect(() => {
@@ -215,6 +217,7 @@ export function SlotSelectionStep({
   const canProceed = selectedSlot !== null;
   const canSearch = localFilters.locationGuid && localFilters.appointmentTypeGuid;
   const canSelectDates = canSearch && !showingSlots;
+  const canWaitlist = !!wizardData.patientGuid && !!canSearch && showingSlots && !slotsLoading && !slotsError;
 
   // Filter providers by selected location
   const filteredProviders = localFilters.locationGuid
@@ -513,6 +516,20 @@ export function SlotSelectionStep({
           <div className="text-center py-12 text-gray-500">
             <p className="font-medium">No available slots found</p>
             <p className="text-sm mt-2">Try adjusting your filters or selecting a different date range</p>
+            {canWaitlist && (
+              <Button variant="secondary" size="sm" className="mt-4" onClick={() => setShowWaitlistForm(true)}>
+                Add to Waitlist
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canWaitlist && availableSlots.length > 0 && (
+          <div className="flex items-center justify-end gap-3 px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+            <span>None of these times work?</span>
+            <Button variant="secondary" size="sm" onClick={() => setShowWaitlistForm(true)}>
+              Add to Waitlist
+            </Button>
           </div>
         )}
 
@@ -545,6 +562,20 @@ export function SlotSelectionStep({
           Next: Appointment Details
         </Button>
       </div>
+
+      {showWaitlistForm && startDate && endDate && (
+        <WaitlistForm
+          isOpen={showWaitlistForm}
+          onClose={() => setShowWaitlistForm(false)}
+          patientGuid={wizardData.patientGuid}
+          patientName={wizardData.patientName}
+          locationGuid={localFilters.locationGuid}
+          appointmentTypeGuid={localFilters.appointmentTypeGuid}
+          providerGuid={localFilters.providerGuid}
+          earliestDate={startDate}
+          latestDate={endDate}
+        />
+      )}
     </div>
   );
 }
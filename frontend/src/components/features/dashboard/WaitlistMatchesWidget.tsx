@@ -0,0 +1,134 @@
+/**
+ * WaitlistMatchesWidget Component
+ * Lists waitlisted patients with a matching opening on the Dashboard
+ */
+
+import { useEffect, useState } from 'react';
+import { Card } from '../../ui';
+import { Button } from '../../ui';
+import { useToast } from '../../../hooks/useToast';
+import { getWaitlist, updateWaitlistStatus } from '../../../services/api/waitlistApi';
+import { getErrorMessage } from '../../../services/utils/apiUtils';
+import { formatDate } from '../../../utils/formatters';
+import type { WaitlistEntry } from '../../../types';
+
+// Slots shown per entry; the rest are summarized
+const SLOTS_PREVIEW = 3;
+
+export function WaitlistMatchesWidget() {
+  const toast = useToast();
+  const [matches, setMatches] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchMatches();
+    // Matching runs in the background, so refresh every minute
+    const interval = setInterval(fetchMatches, 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchMatches = async () => {
+    try {
+      setMatches(await getWaitlist(['matched']));
+      setError(null);
+    } catch (err) {
+      setError('Failed to load waitlist matches');
+      console.error('Failed to fetch waitlist matches:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdate = async (entry: WaitlistEntry, status: 'booked' | 'removed') => {
+    setUpdatingId(entry.id);
+    try {
+      await updateWaitlistStatus(entry.id, status);
+      setMatches((current) => current.filter((m) => m.id !== entry.id));
+      toast.showSuccess(
+        status === 'booked'
+          ? `${entry.patient_name || 'Patient'} marked as booked`
+          : `${entry.patient_name || 'Patient'} removed from the waitlist`
+      );
+    } catch (err) {
+      toast.showError(getErrorMessage(err));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Nothing to act on: keep the Dashboard uncluttered
+  if (loading || (!error && matches.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Waitlist Matches
+          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+            {matches.length} patient{matches.length === 1 ? '' : 's'}
+          </span>
+        </h3>
+        <Button size="sm" variant="ghost" onClick={fetchMatches}>
+          Refresh
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">{error}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {matches.map((entry) => (
+            <li key={entry.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100">
+                  {entry.patient_name || entry.patient_guid}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  Wants {formatDate(entry.earliest_date, 'MMM d')} – {formatDate(entry.latest_date, 'MMM d')}
+                  {entry.time_of_day !== 'any' && ` · ${entry.time_of_day}`}
+                </p>
+                {entry.matched_slots.slice(0, SLOTS_PREVIEW).map((slot) => (
+                  <p
+                    key={`${slot.scheduleColumnGuid}-${slot.dateTime}`}
+                    className="text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    • {formatDate(slot.dateTime, 'EEE MMM d, h:mm a')}
+                    {slot.scheduleColumnDescription && ` · ${slot.scheduleColumnDescription}`}
+                  </p>
+                ))}
+                {entry.matched_slots.length > SLOTS_PREVIEW && (
+                  <p className="text-xs text-gray-500 dark:text-gray-500">
+                    +{entry.matched_slots.length - SLOTS_PREVIEW} more
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  onClick={() => handleUpdate(entry, 'booked')}
+                  disabled={updatingId === entry.id}
+                >
+                  Booked
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleUpdate(entry, 'removed')}
+                  disabled={updatingId === entry.id}
+                >
+                  Remove
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+export default WaitlistMatchesWidget;
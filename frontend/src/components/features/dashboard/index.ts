@@ -3,3 +3,4 @@
  */
 
 export { TestHealthWidget } from './TestHealthWidget';
+export { WaitlistMatchesWidget } from './WaitlistMatchesWidget';
@@ -5,7 +5,7 @@
 
 import { useState } from 'react';
 import { clsx } from 'clsx';
-import { CATEGORY_STYLES, type GoalTestCaseRecord, type TestCategory } from '../../../types/testMonitor.types';
+import { CATEGORY_STYLES, FLAKY_SCORE_THRESHOLD, type GoalTestCaseRecord, type TestCategory } from '../../../types/testMonitor.types';
 
 // Icons
 const GripIcon = () => (
@@ -38,6 +38,12 @@ const ArchiveIcon = () => (
   </svg>
 );
 
+const QuarantineIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+  </svg>
+);
+
 const MoreIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
@@ -56,6 +62,12 @@ const TargetIcon = () => (
   </svg>
 );
 
+const FlakyIcon = () => (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+  </svg>
+);
+
 const ShieldIcon = () => (
   <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
@@ -71,6 +83,7 @@ interface GoalTestCardProps {
   onEdit: () => void;
   onClone: () => void;
   onArchive: () => void;
+  onToggleQuarantine?: () => void;
   isDragging?: boolean;
   dragHandleProps?: React.HTMLAttributes<HTMLDivElement>;
 }
@@ -84,11 +97,13 @@ export function GoalTestCard({
   onEdit,
   onClone,
   onArchive,
+  onToggleQuarantine,
   isDragging = false,
   dragHandleProps,
 }: GoalTestCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const styles = CATEGORY_STYLES[testCase.category as TestCategory];
+  const isFlaky = (testCase.flakyScore ?? 0) >= FLAKY_SCORE_THRESHOLD;
 
   const handleCheckboxClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -144,9 +159,19 @@ export function GoalTestCard({
           {/* Content */}
           <div className="flex-1 min-w-0">
             {/* Case ID */}
-            <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
-              {testCase.caseId}
-            </p>
+            <div className="flex items-center gap-2">
+              <p className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                {testCase.caseId}
+              </p>
+              {testCase.isQuarantined && (
+                <span
+                  className="px-1.5 py-0.5 text-xs font-medium rounded bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400"
+                  title={testCase.quarantineReason || 'Runs, but excluded from the pass rate and regression checks'}
+                >
+                  Quarantined
+                </span>
+              )}
+            </div>
 
             {/* Name */}
             <h3 className="font-medium text-gray-900 dark:text-gray-100 truncate mt-0.5">
@@ -169,6 +194,18 @@ export function GoalTestCard({
                   {testCase.constraints.length}
                 </span>
               )}
+              {testCase.flakyScore !== undefined && (
+                <span
+                  className={clsx(
+                    'inline-flex items-center gap-1',
+                    isFlaky && 'text-amber-600 dark:text-amber-400 font-medium'
+                  )}
+                  title="Pass/fail flips between runs on the same prompt version"
+                >
+                  <FlakyIcon />
+                  {isFlaky ? 'Flaky ' : ''}{Math.round(testCase.flakyScore * 100)}%
+                </span>
+              )}
             </div>
 
             {/* Tags */}
@@ -255,6 +292,19 @@ export function GoalTestCard({
                       <CopyIcon />
                       Clone
                     </button>
+                    {onToggleQuarantine && (
+                      <button
+                        onClick={(e) => handleActionClick(e, onToggleQuarantine)}
+                        className={clsx(
+                          'w-full flex items-center gap-2 px-3 py-2 text-sm',
+                          'text-gray-700 dark:text-gray-300',
+                          'hover:bg-gray-100 dark:hover:bg-gray-700'
+                        )}
+                      >
+                        <QuarantineIcon />
+                        {testCase.isQuarantined ? 'Release' : 'Quarantine'}
+                      </button>
+                    )}
                     <button
                       onClick={(e) => handleActionClick(e, onArchive)}
                       className={clsx(
@@ -4,7 +4,7 @@
  */
 
 import { clsx } from 'clsx';
-import { CATEGORY_STYLES, type GoalTestCaseRecord, type TestCategory } from '../../../types/testMonitor.types';
+import { CATEGORY_STYLES, FLAKY_SCORE_THRESHOLD, type GoalTestCaseRecord, type TestCategory } from '../../../types/testMonitor.types';
 
 // Icons
 const PlayIcon = () => (
@@ -31,6 +31,12 @@ const TargetIcon = () => (
   </svg>
 );
 
+const FlakyIcon = () => (
+  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+  </svg>
+);
+
 interface GoalTestListItemProps {
   testCase: GoalTestCaseRecord;
   isSelected: boolean;
@@ -51,6 +57,7 @@ export function GoalTestListItem({
   onEdit,
 }: GoalTestListItemProps) {
   const styles = CATEGORY_STYLES[testCase.category as TestCategory];
+  const isFlaky = (testCase.flakyScore ?? 0) >= FLAKY_SCORE_THRESHOLD;
 
   const handleCheckboxClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -113,6 +120,15 @@ export function GoalTestListItem({
             <TargetIcon />
             {testCase.goals.length}
           </span>
+          {isFlaky && (
+            <span
+              className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400 font-medium"
+              title="Pass/fail flips between runs on the same prompt version"
+            >
+              <FlakyIcon />
+              {Math.round((testCase.flakyScore ?? 0) * 100)}%
+            </span>
+          )}
           {testCase.tags.length > 0 && (
             <span className="inline-flex items-center gap-1 truncate">
               <span className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
@@ -152,6 +168,16 @@ export function GoalTestListItem({
         </button>
       </div>
 
+      {/* Quarantined badge */}
+      {testCase.isQuarantined && (
+        <span
+          className="flex-shrink-0 px-1.5 py-0.5 text-xs font-medium rounded bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400"
+          title={testCase.quarantineReason || 'Runs, but excluded from the pass rate and regression checks'}
+        >
+          Quarantined
+        </span>
+      )}
+
       {/* Archived badge */}
       {testCase.isArchived && (
         <span className="flex-shrink-0 px-1.5 py-0.5 text-xs font-medium rounded bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400">
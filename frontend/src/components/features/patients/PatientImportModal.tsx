@@ -0,0 +1,160 @@
+/**
+ * PatientImportModal Component
+ * Upload a CSV of patients, preview the result (dry run), then import
+ */
+
+import { useState } from 'react';
+import { Button, Modal } from '../../ui';
+import { useToast } from '../../../hooks/useToast';
+import { importPatients } from '../../../services/api/patientApi';
+import { getErrorMessage } from '../../../services/utils/apiUtils';
+import { cn } from '../../../utils/cn';
+import type { PatientImportReport, PatientImportRowStatus } from '../../../types';
+
+export interface PatientImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EXPECTED_COLUMNS = 'first_name, last_name, birthdate, phone, email, location, provider';
+
+const STATUS_STYLES: Record<PatientImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  created: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  duplicate: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  invalid: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const STATUS_LABELS: Record<PatientImportRowStatus, string> = {
+  valid: 'Ready',
+  created: 'Created',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  failed: 'Failed',
+};
+
+export function PatientImportModal({ isOpen, onClose }: PatientImportModalProps) {
+  const toast = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<PatientImportReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleClose = () => {
+    setFile(null);
+    setReport(null);
+    onClose();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setReport(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsRunning(true);
+
+    try {
+      const result = await importPatients(file, dryRun);
+      setReport(result);
+      if (!dryRun) {
+        toast.showSuccess(
+          `Imported ${result.summary.created} patient${result.summary.created === 1 ? '' : 's'}`
+        );
+      }
+    } catch (error) {
+      toast.showError(getErrorMessage(error));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canImport = !!report?.dryRun && report.summary.valid > 0;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Patients from CSV" size="xl">
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+            Columns: <span className="font-mono text-xs">{EXPECTED_COLUMNS}</span> (optional: note,
+            street, city, state, zip). Location is a name, code or GUID; provider is a chair name or
+            GUID at that location. Patients that already exist (same name and date of birth) are skipped.
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-700 dark:text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+        </div>
+
+        {report && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="font-medium text-gray-900 dark:text-white">
+                {report.dryRun ? 'Preview' : 'Result'}: {report.totalRows} rows
+              </span>
+              {(Object.keys(report.summary) as PatientImportRowStatus[])
+                .filter((status) => report.summary[status] > 0)
+                .map((status) => (
+                  <span key={status} className={cn('px-2 py-0.5 rounded text-xs font-medium', STATUS_STYLES[status])}>
+                    {STATUS_LABELS[status]}: {report.summary[status]}
+                  </span>
+                ))}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                  <tr className="text-left text-gray-700 dark:text-gray-300">
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Patient</th>
+                    <th className="px-3 py-2 font-medium">DOB</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {report.rows.map((row) => (
+                    <tr key={row.row} className="text-gray-900 dark:text-gray-100">
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2">
+                        {row.lastName}, {row.firstName}
+                      </td>
+                      <td className="px-3 py-2">{row.birthdate}</td>
+                      <td className="px-3 py-2">
+                        <span className={cn('px-2 py-0.5 rounded text-xs font-medium', STATUS_STYLES[row.status])}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600 dark:text-gray-400">
+                        {row.errors.length > 0 && row.errors.join('; ')}
+                        {row.duplicateOf && `Matches ${row.duplicateOf}`}
+                        {row.patientGuid && <span className="font-mono">{row.patientGuid}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button variant="secondary" onClick={handleClose} disabled={isRunning}>
+            {report && !report.dryRun ? 'Done' : 'Cancel'}
+          </Button>
+          <Button variant="secondary" onClick={() => runImport(true)} disabled={!file || isRunning}>
+            {isRunning && !canImport ? 'Checking...' : 'Preview'}
+          </Button>
+          <Button onClick={() => runImport(false)} disabled={!canImport || isRunning}>
+            {isRunning && canImport
+              ? 'Importing...'
+              : `Import ${report?.dryRun ? report.summary.valid : ''} Patient${report?.dryRun && report.summary.valid === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -17,3 +17,6 @@ export type { PatientSearchResultCardProps } from './PatientSearchResultCard';
 
 export { PatientSearchResultGrid } from './PatientSearchResultGrid';
 export type { PatientSearchResultGridProps } from './PatientSearchResultGrid';
+
+export { PatientImportModal } from './PatientImportModal';
+export type { PatientImportModalProps } from './PatientImportModal';
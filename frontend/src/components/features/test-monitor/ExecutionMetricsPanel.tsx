@@ -127,6 +127,13 @@ function formatDuration(ms: number): string {
   return `${minutes}m ${seconds}s`;
 }
 
+// Format token counts for display
+function formatTokens(count: number): string {
+  if (count < 1000) return `${count}`;
+  if (count < 1000000) return `${Math.round(count / 100) / 10}k`;
+  return `${Math.round(count / 100000) / 10}M`;
+}
+
 // Format time for display
 function formatTime(isoString: string): string {
   return new Date(isoString).toLocaleTimeString('en-US', {
@@ -153,6 +160,12 @@ export function ExecutionMetricsPanel({
       ? Math.round((progress.completed / progress.total) * 100)
       : 0;
 
+  const usage = progress.usage;
+  const budgetPercentage =
+    usage?.budgetUsd
+      ? Math.min(100, Math.round((usage.costUsd / usage.budgetUsd) * 100))
+      : null;
+
   return (
     <Card>
       <div className="p-4">
@@ -358,6 +371,47 @@ export function ExecutionMetricsPanel({
             </span>
           </div>
         </div>
+
+        {/* LLM Cost */}
+        {usage && (
+          <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <div className="grid grid-cols-3 gap-4 text-center text-sm">
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">Tokens in: </span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {formatTokens(usage.inputTokens)}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">Tokens out: </span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {formatTokens(usage.outputTokens)}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500 dark:text-gray-400">LLM Cost: </span>
+                <span className="font-medium text-gray-900 dark:text-white">
+                  ${usage.costUsd.toFixed(2)}
+                  {usage.budgetUsd ? ` / $${usage.budgetUsd.toFixed(2)}` : ''}
+                </span>
+              </div>
+            </div>
+            {budgetPercentage !== null && (
+              <div className="mt-2 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-300 ${
+                    budgetPercentage >= 90
+                      ? 'bg-red-500'
+                      : budgetPercentage >= 70
+                        ? 'bg-amber-500'
+                        : 'bg-blue-500'
+                  }`}
+                  style={{ width: `${budgetPercentage}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </Card>
   );
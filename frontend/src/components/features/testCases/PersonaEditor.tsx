@@ -458,6 +458,20 @@ export function PersonaEditor({ persona, onChange, readOnly = false }: PersonaEd
               <option value="impatient">Impatient</option>
             </select>
           </div>
+          <div>
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+              Language
+            </label>
+            <select
+              value={persona.traits.language || 'en'}
+              onChange={(e) => updateTraits('language', e.target.value as 'en' | 'es')}
+              disabled={readOnly}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <option value="en">English</option>
+              <option value="es">Spanish</option>
+            </select>
+          </div>
         </div>
 
         <TristateToggle
@@ -8,6 +8,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Spinner } from '../../ui';
 import { cn } from '../../../utils/cn';
+import { getAuthHeaders } from '../../../services/api/client';
 import type { ConversationTurn } from '../../../types/testMonitor.types';
 
 interface ConversationDiffViewerProps {
@@ -110,8 +111,8 @@ export function ConversationDiffViewer({
       try {
         // Fetch both transcripts in parallel
         const [baseRes, compareRes] = await Promise.all([
-          fetch(`/api/test-monitor/tests/${testId}/transcript?runId=${baseRunId}`),
-          fetch(`/api/test-monitor/tests/${testId}/transcript?runId=${compareRunId}`),
+          fetch(`/api/test-monitor/tests/${testId}/transcript?runId=${baseRunId}`, { headers: getAuthHeaders() }),
+          fetch(`/api/test-monitor/tests/${testId}/transcript?runId=${compareRunId}`, { headers: getAuthHeaders() }),
         ]);
 
         const baseData = await baseRes.json();
@@ -8,6 +8,7 @@
 import { useState, useEffect } from 'react';
 import { Spinner } from '../../ui';
 import { cn } from '../../../utils/cn';
+import { getAuthHeaders } from '../../../services/api/client';
 
 interface Finding {
   id: number;
@@ -83,7 +84,7 @@ export function ErrorClusteringPanel({ runId, onTestSelect }: ErrorClusteringPan
       setError(null);
 
       try {
-        const response = await fetch(`/api/test-monitor/runs/${runId}/error-clusters`);
+        const response = await fetch(`/api/test-monitor/runs/${runId}/error-clusters`, { headers: getAuthHeaders() });
         const data = await response.json();
 
         if (data.success) {
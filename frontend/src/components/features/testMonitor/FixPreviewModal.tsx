@@ -8,6 +8,7 @@
 import { useState, useEffect } from 'react';
 import { Spinner } from '../../ui';
 import { cn } from '../../../utils/cn';
+import { getAuthHeaders } from '../../../services/api/client';
 
 interface DiffHunk {
   oldStart: number;
@@ -74,6 +75,7 @@ export function FixPreviewModal({ fixId, fixDescription, onClose, onApply }: Fix
       try {
         const response = await fetch(`/api/test-monitor/fixes/${fixId}/preview`, {
           method: 'POST',
+          headers: getAuthHeaders(),
         });
         const data = await response.json();
 
@@ -32,6 +32,8 @@ interface SyncStatusIndicatorProps {
   deployedVersions?: Record<string, number>;
   /** Callback to mark a prompt as deployed */
   onMarkDeployed?: (fileKey: string, version: number) => Promise<void>;
+  /** Callback to push a prompt version to Flowise (rejects with the error message) */
+  onDeployToFlowise?: (fileKey: string, version: number) => Promise<void>;
   /** Callback to copy full prompt content */
   onCopyPrompt?: (fileKey: string) => Promise<string | null>;
   /** Whether actions are loading */
@@ -44,6 +46,9 @@ interface SyncStatusIndicatorProps {
   environment?: PromptContext;
 }
 
+/** Files the backend can push to Flowise directly (Node Red flows are deployed elsewhere) */
+const FLOWISE_DEPLOYABLE_FILES = ['system_prompt', 'scheduling_tool', 'patient_tool'];
+
 const statusStyles = {
   synced: {
     bg: 'bg-green-100 dark:bg-green-900/30',
@@ -81,6 +86,7 @@ export function SyncStatusIndicator({
   promptFiles,
   deployedVersions = {},
   onMarkDeployed,
+  onDeployToFlowise,
   onCopyPrompt,
   loading = false,
   hasRecentlyAppliedFixes = false,
@@ -91,6 +97,8 @@ export function SyncStatusIndicator({
   const [copyingKey, setCopyingKey] = useState<string | null>(null);
   const [copyErrorKey, setCopyErrorKey] = useState<string | null>(null);
   const [markingKey, setMarkingKey] = useState<string | null>(null);
+  const [deployingKey, setDeployingKey] = useState<string | null>(null);
+  const [deployErrors, setDeployErrors] = useState<Record<string, string>>({});
   const [expanded, setExpanded] = useState(false);
 
   // Compute sync status for each file
@@ -162,6 +170,26 @@ export function SyncStatusIndicator({
     }
   }, [onMarkDeployed]);
 
+  // Handle deploy to Flowise
+  const handleDeploy = useCallback(async (fileKey: string, version: number) => {
+    if (!onDeployToFlowise) return;
+
+    setDeployingKey(fileKey);
+    setDeployErrors(prev => {
+      const next = { ...prev };
+      delete next[fileKey];
+      return next;
+    });
+    try {
+      await onDeployToFlowise(fileKey, version);
+    } catch (err) {
+      console.error('Failed to deploy to Flowise:', err);
+      setDeployErrors(prev => ({ ...prev, [fileKey]: String(err) }));
+    } finally {
+      setDeployingKey(null);
+    }
+  }, [onDeployToFlowise]);
+
   if (promptFiles.length === 0) {
     return null;
   }
@@ -253,6 +281,8 @@ export function SyncStatusIndicator({
               const isCopying = copyingKey === status.fileKey;
               const hasCopyError = copyErrorKey === status.fileKey;
               const isMarking = markingKey === status.fileKey;
+              const isDeploying = deployingKey === status.fileKey;
+              const canDeploy = !!onDeployToFlowise && FLOWISE_DEPLOYABLE_FILES.includes(status.fileKey);
 
               return (
                 <div
@@ -316,6 +346,24 @@ export function SyncStatusIndicator({
                       </button>
                     )}
 
+                    {/* Deploy to Flowise button */}
+                    {canDeploy && status.syncStatus !== 'synced' && (
+                      <button
+                        onClick={() => handleDeploy(status.fileKey, status.localVersion)}
+                        disabled={loading || isDeploying}
+                        className="px-3 py-1.5 text-xs font-medium rounded bg-green-600 hover:bg-green-700 text-white transition-colors disabled:opacity-50"
+                      >
+                        {isDeploying ? (
+                          <span className="flex items-center gap-1">
+                            <Spinner size="sm" />
+                            Deploying...
+                          </span>
+                        ) : (
+                          'Deploy to Flowise'
+                        )}
+                      </button>
+                    )}
+
                     {/* Mark deployed button */}
                     {onMarkDeployed && status.syncStatus !== 'synced' && (
                       <button
@@ -334,14 +382,23 @@ export function SyncStatusIndicator({
                       </button>
                     )}
                   </div>
+
+                  {deployErrors[status.fileKey] && (
+                    <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                      {deployErrors[status.fileKey]}
+                    </p>
+                  )}
                 </div>
               );
             })}
 
             {/* Help text */}
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+              {onDeployToFlowise && (
+                <>Use "Deploy to Flowise" to push a version to the default Flowise profile's chatflow. </>
+              )}
               Use "Copy for Flowise" to copy the full prompt, then paste it into Flowise.
-              After deploying, click "Mark as Deployed" to track the version.
+              After deploying by hand, click "Mark as Deployed" to track the version.
             </p>
           </div>
         )}
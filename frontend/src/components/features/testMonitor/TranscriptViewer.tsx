@@ -11,6 +11,7 @@ import { Link } from 'react-router-dom';
 import { Spinner } from '../../ui';
 import type { ConversationTurn, ApiCall } from '../../../types/testMonitor.types';
 import { cn } from '../../../utils/cn';
+import { getAuthHeaders } from '../../../services/api/client';
 import {
   extractPatientsFromApiCalls,
   extractPatientsFromApiCall,
@@ -856,7 +857,8 @@ export function TranscriptViewer({
     const fetchAgentExecutorId = async () => {
       try {
         const response = await fetch(
-          `/api/test-monitor/langfuse/session/${encodeURIComponent(flowiseSessionId)}/agent-executor`
+          `/api/test-monitor/langfuse/session/${encodeURIComponent(flowiseSessionId)}/agent-executor`,
+          { headers: getAuthHeaders() }
         );
         if (response.ok) {
           const data = await response.json();
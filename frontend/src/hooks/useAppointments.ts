@@ -3,6 +3,7 @@
  * Appointment operations and state management
  */
 
+import { useCallback } from 'react';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import {
   fetchPatientAppointments,
@@ -43,17 +44,22 @@ export function useAppointments() {
     }
   };
 
-  const handleFetchAppointments = async (params?: GetAppointmentsParams) => {
+  const handleFetchAppointments = useCallback(async (params?: GetAppointmentsParams) => {
     try {
       await dispatch(fetchAppointments(params)).unwrap();
     } catch (err) {
       toast.showError(err as string);
     }
-  };
+  }, [dispatch, toast]);
 
-  const handleCreateAppointment = async (appointmentData: CreateAppointmentRequest) => {
+  const handleCreateAppointment = async (
+    appointmentData: CreateAppointmentRequest,
+    idempotencyKey?: string
+  ) => {
     try {
-      const appointment = await dispatch(createAppointment(appointmentData)).unwrap();
+      const appointment = await dispatch(
+        createAppointment({ ...appointmentData, idempotencyKey })
+      ).unwrap();
       toast.showSuccess('Appointment created successfully');
       return appointment;
     } catch (err) {
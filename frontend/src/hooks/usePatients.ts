@@ -49,9 +49,14 @@ export function usePatients() {
     }
   };
 
-  const handleCreatePatient = async (patientData: CreatePatientRequest) => {
+  const handleCreatePatient = async (
+    patientData: CreatePatientRequest,
+    idempotencyKey?: string
+  ) => {
     try {
-      const patient = await dispatch(createPatient(patientData)).unwrap();
+      const patient = await dispatch(
+        createPatient({ ...patientData, idempotencyKey })
+      ).unwrap();
       toast.showSuccess('Patient created successfully');
       return patient;
     } catch (err) {
@@ -3,6 +3,7 @@
  * Simplified toast notification helpers
  */
 
+import { useMemo } from 'react';
 import { useAppDispatch } from '../store/hooks';
 import { showToast } from '../store/slices/uiSlice';
 import type { ToastType } from '../types';
@@ -10,14 +11,17 @@ import type { ToastType } from '../types';
 export function useToast() {
   const dispatch = useAppDispatch();
 
-  const show = (type: ToastType, message: string, duration?: number) => {
-    dispatch(showToast({ type, message, duration }));
-  };
+  // Stable across renders so callers can list it as an effect dependency
+  return useMemo(() => {
+    const show = (type: ToastType, message: string, duration?: number) => {
+      dispatch(showToast({ type, message, duration }));
+    };
 
-  return {
-    showSuccess: (message: string, duration?: number) => show('success', message, duration),
-    showError: (message: string, duration?: number) => show('error', message, duration),
-    showWarning: (message: string, duration?: number) => show('warning', message, duration),
-    showInfo: (message: string, duration?: number) => show('info', message, duration),
-  };
+    return {
+      showSuccess: (message: string, duration?: number) => show('success', message, duration),
+      showError: (message: string, duration?: number) => show('error', message, duration),
+      showWarning: (message: string, duration?: number) => show('warning', message, duration),
+      showInfo: (message: string, duration?: number) => show('info', message, duration),
+    };
+  }, [dispatch]);
 }
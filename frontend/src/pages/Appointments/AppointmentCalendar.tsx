@@ -9,7 +9,7 @@ import { Modal, Button } from '../../components/ui';
 import { CalendarView, AppointmentCard } from '../../components/features';
 import { AppointmentWizard } from '../../components/features/appointments/wizard';
 import { useAppointments } from '../../hooks';
-import type { Appointment } from '../../types';
+import type { Appointment, GetAppointmentsParams } from '../../types';
 
 export function AppointmentCalendar() {
   const {
@@ -26,25 +26,41 @@ export function AppointmentCalendar() {
   );
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Appointment | null>(null);
   const [selectedDate, setSelectedDate] = useState<{ start: Date; end: Date } | null>(
     null
   );
 
-  // Helper to get current month date range
-  const getCurrentMonthRange = () => {
-    const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    return {
-      startDate: startOfMonth.toISOString().split('T')[0],
-      endDate: endOfMonth.toISOString().split('T')[0],
-    };
+  // Visible calendar range; set by CalendarView once it renders
+  const [visibleRange, setVisibleRange] = useState<GetAppointmentsParams | null>(null);
+
+  const formatDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+      date.getDate()
+    ).padStart(2, '0')}`;
+
+  const handleRangeChange = (start: Date, end: Date) => {
+    // FullCalendar's end is exclusive
+    const lastDay = new Date(end.getTime() - 86400000);
+    const range = { startDate: formatDate(start), endDate: formatDate(lastDay) };
+    // Keep the same object when the range is unchanged so the fetch effect doesn't re-run
+    setVisibleRange((prev) =>
+      prev?.startDate === range.startDate && prev?.endDate === range.endDate ? prev : range
+    );
+  };
+
+  const refreshAppointments = () => {
+    if (visibleRange) {
+      fetchAppointments(visibleRange);
+    }
   };
 
   useEffect(() => {
-    // Fetch appointments for the current month
-    fetchAppointments(getCurrentMonthRange());
-  }, []);
+    // Fetch the whole practice schedule for the visible day, week or month
+    if (visibleRange) {
+      fetchAppointments(visibleRange);
+    }
+  }, [visibleRange, fetchAppointments]);
 
   const handleEventClick = (appointment: Appointment) => {
     setSelectedAppointment(appointment);
@@ -60,7 +76,7 @@ export function AppointmentCalendar() {
     setIsScheduleModalOpen(false);
     setSelectedDate(null);
     // Refresh appointments
-    fetchAppointments(getCurrentMonthRange());
+    refreshAppointments();
   };
 
   const handleConfirmAppointment = async () => {
@@ -69,7 +85,7 @@ export function AppointmentCalendar() {
       appointmentGuid: selectedAppointment.appointment_guid,
     });
     setIsDetailModalOpen(false);
-    fetchAppointments(getCurrentMonthRange());
+    refreshAppointments();
   };
 
   const handleCancelAppointment = async () => {
@@ -78,7 +94,17 @@ export function AppointmentCalendar() {
       appointmentGuid: selectedAppointment.appointment_guid,
     });
     setIsDetailModalOpen(false);
-    fetchAppointments(getCurrentMonthRange());
+    refreshAppointments();
+  };
+
+  const handleRescheduleAppointment = (appointment: Appointment) => {
+    setIsDetailModalOpen(false);
+    setRescheduleTarget(appointment);
+  };
+
+  const handleRescheduled = () => {
+    setRescheduleTarget(null);
+    refreshAppointments();
   };
 
   return (
@@ -98,6 +124,7 @@ export function AppointmentCalendar() {
         appointments={appointments}
         onEventClick={handleEventClick}
         onDateSelect={handleDateSelect}
+        onRangeChange={handleRangeChange}
       />
 
       {/* Appointment Detail Modal */}
@@ -112,6 +139,7 @@ export function AppointmentCalendar() {
             appointment={selectedAppointment}
             onConfirm={handleConfirmAppointment}
             onCancel={handleCancelAppointment}
+            onReschedule={handleRescheduleAppointment}
             showPatientName={true}
             isLoading={loading}
           />
@@ -127,6 +155,16 @@ export function AppointmentCalendar() {
         }}
         onSuccess={handleAppointmentCreated}
       />
+
+      {/* Reschedule Wizard (mounted per appointment so it preloads patient and type) */}
+      {rescheduleTarget && (
+        <AppointmentWizard
+          isOpen={true}
+          onClose={() => setRescheduleTarget(null)}
+          rescheduleAppointment={rescheduleTarget}
+          onRescheduled={handleRescheduled}
+        />
+      )}
     </div>
   );
 }
@@ -11,7 +11,7 @@ import { AppointmentList as AppointmentListComponent } from '../../components/fe
 import { CopyToPostmanButton } from '../../components/features/postman/CopyToPostmanButton';
 import { AppointmentWizard } from '../../components/features/appointments/wizard';
 import { useAppointments, useReference } from '../../hooks';
-import type { GetAppointmentsParams } from '../../types';
+import type { Appointment, GetAppointmentsParams } from '../../types';
 
 export function AppointmentList() {
   const {
@@ -39,6 +39,7 @@ export function AppointmentList() {
   const patientName = localPatientName || urlPatientName;
 
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Appointment | null>(null);
   const [filters, setFilters] = useState<GetAppointmentsParams>(() => {
     // Default to current month
     const now = new Date();
@@ -94,6 +95,15 @@ export function AppointmentList() {
     fetchAppointments(filters);
   };
 
+  const handleRescheduled = () => {
+    setRescheduleTarget(null);
+    if (patientGuid) {
+      fetchPatientAppointments(patientGuid, filters);
+    } else {
+      fetchAppointments(filters);
+    }
+  };
+
   const handleClearFilters = () => {
     // Reset to current month
     const now = new Date();
@@ -259,6 +269,7 @@ export function AppointmentList() {
         appointments={appointments}
         onConfirm={handleConfirmAppointment}
         onCancel={handleCancelAppointment}
+        onReschedule={setRescheduleTarget}
         showPatientName={true}
         isLoading={loading}
         emptyMessage="No appointments found. Try adjusting your filters or schedule a new appointment."
@@ -271,6 +282,16 @@ export function AppointmentList() {
         initialPatientGuid={patientGuid || undefined}
         onSuccess={handleAppointmentCreated}
       />
+
+      {/* Reschedule Wizard (mounted per appointment so it preloads patient and type) */}
+      {rescheduleTarget && (
+        <AppointmentWizard
+          isOpen={true}
+          onClose={() => setRescheduleTarget(null)}
+          rescheduleAppointment={rescheduleTarget}
+          onRescheduled={handleRescheduled}
+        />
+      )}
     </div>
   );
 }
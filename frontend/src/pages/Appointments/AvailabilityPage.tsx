@@ -0,0 +1,180 @@
+/**
+ * Availability Page
+ * Week heatmap of open and booked chair time for a location
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { PageHeader } from '../../components/layout';
+import { Button, Card, Select, Spinner } from '../../components/ui';
+import { AvailabilityHeatmap } from '../../components/features';
+import { useReference } from '../../hooks/useReference';
+import { getAvailabilityGrid } from '../../services/api/appointmentApi';
+import { getErrorMessage } from '../../services/utils/apiUtils';
+import type { AvailabilityGrid, GetAvailabilityGridParams } from '../../types';
+
+type BlockMinutes = NonNullable<GetAvailabilityGridParams['blockMinutes']>;
+
+const BLOCK_OPTIONS: { value: string; label: string }[] = [
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+];
+
+export function AvailabilityPage() {
+  const { locations, appointmentTypes, providers, loading: refLoading } = useReference();
+
+  const [locationGuid, setLocationGuid] = useState('');
+  const [appointmentTypeGuid, setAppointmentTypeGuid] = useState('');
+  const [chairGuid, setChairGuid] = useState('');
+  const [blockMinutes, setBlockMinutes] = useState<BlockMinutes>(30);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+
+  const [grid, setGrid] = useState<AvailabilityGrid | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the first location once reference data arrives
+  useEffect(() => {
+    if (!locationGuid && locations.length > 0) {
+      setLocationGuid(locations[0].guid);
+    }
+  }, [locations, locationGuid]);
+
+  const fetchGrid = useCallback(async () => {
+    if (!locationGuid) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getAvailabilityGrid({
+        locationGuid,
+        weekStart: format(weekStart, 'yyyy-MM-dd'),
+        appointmentTypeGuid: appointmentTypeGuid || undefined,
+        blockMinutes,
+      });
+      setGrid(data);
+    } catch (err) {
+      setGrid(null);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [locationGuid, appointmentTypeGuid, blockMinutes, weekStart]);
+
+  useEffect(() => {
+    fetchGrid();
+  }, [fetchGrid]);
+
+  const locationChairs = providers.filter((p) => p.locationGuid === locationGuid);
+  const visibleGrid =
+    grid && chairGuid
+      ? { ...grid, chairs: grid.chairs.filter((chair) => chair.scheduleColumnGuid === chairGuid) }
+      : grid;
+
+  const handleLocationChange = (value: string) => {
+    setLocationGuid(value);
+    setChairGuid('');
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Availability"
+        subtitle="Where chair capacity is open or booked across a week"
+        actions={
+          <Button variant="secondary" onClick={fetchGrid} disabled={loading || !locationGuid}>
+            Refresh
+          </Button>
+        }
+      />
+
+      <Card className="mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Select
+            label="Location"
+            value={locationGuid}
+            onChange={handleLocationChange}
+            disabled={refLoading}
+            options={locations.map((loc) => ({ value: loc.guid, label: loc.name }))}
+          />
+          <Select
+            label="Appointment Type"
+            value={appointmentTypeGuid}
+            onChange={setAppointmentTypeGuid}
+            disabled={refLoading}
+            options={[
+              { value: '', label: 'Any duration' },
+              ...appointmentTypes.map((type) => ({
+                value: type.guid,
+                label: `${type.description} (${type.durationMinutes} min)`,
+              })),
+            ]}
+          />
+          <Select
+            label="Chair"
+            value={chairGuid}
+            onChange={setChairGuid}
+            disabled={refLoading || !locationGuid}
+            options={[
+              { value: '', label: 'All chairs' },
+              ...locationChairs.map((prov) => ({
+                value: prov.scheduleColumnGuid,
+                label: prov.scheduleColumnDescription,
+              })),
+            ]}
+          />
+          <Select
+            label="Block Size"
+            value={String(blockMinutes)}
+            onChange={(value) => setBlockMinutes(Number(value) as BlockMinutes)}
+            options={BLOCK_OPTIONS}
+          />
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          <Button variant="secondary" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+            Previous Week
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}
+          >
+            This Week
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+            Next Week
+          </Button>
+          <span className="ml-2 text-sm font-medium text-gray-900 dark:text-white">
+            {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+          </span>
+        </div>
+      </Card>
+
+      <Card>
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="lg" />
+            <span className="ml-3 text-gray-600 dark:text-gray-400">Loading availability...</span>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-800 font-medium">Error loading availability</p>
+            <p className="text-red-600 text-sm mt-1">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && visibleGrid && <AvailabilityHeatmap grid={visibleGrid} />}
+
+        {!loading && !error && !visibleGrid && (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <p className="font-medium">Select a location to see its availability</p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { PageHeader } from '../components/layout';
 import { Card, Button } from '../components/ui';
-import { AppointmentList, TestHealthWidget } from '../components/features';
+import { AppointmentList, TestHealthWidget, WaitlistMatchesWidget } from '../components/features';
 import { useAppointments, useAppSelector } from '../hooks';
 import { selectUpcomingAppointments } from '../store/slices/appointmentSlice';
 import { ROUTES } from '../utils/constants';
@@ -110,6 +110,9 @@ export function Dashboard() {
         <TestHealthWidget />
       </div>
 
+      {/* Waitlisted patients with a matching opening */}
+      <WaitlistMatchesWidget />
+
       {/* Upcoming Appointments */}
       <div>
         <div className="flex items-center justify-between mb-4">
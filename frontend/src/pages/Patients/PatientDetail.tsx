@@ -12,6 +12,7 @@ import { PatientCard, AppointmentList } from '../../components/features';
 import { AppointmentWizard } from '../../components/features/appointments/wizard';
 import { usePatients, useAppointments } from '../../hooks';
 import { ROUTES } from '../../utils/constants';
+import type { Appointment } from '../../types';
 
 export function PatientDetail() {
   const { patientGuid } = useParams<{ patientGuid: string }>();
@@ -25,6 +26,7 @@ export function PatientDetail() {
   } = useAppointments();
 
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<Appointment | null>(null);
 
   useEffect(() => {
     if (patientGuid) {
@@ -60,6 +62,13 @@ export function PatientDetail() {
     }
   };
 
+  const handleRescheduled = () => {
+    setRescheduleTarget(null);
+    if (patientGuid) {
+      fetchPatientAppointments(patientGuid);
+    }
+  };
+
   if (patientLoading && !selectedPatient) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -111,6 +120,7 @@ export function PatientDetail() {
           appointments={appointments}
           onConfirm={handleConfirmAppointment}
           onCancel={handleCancelAppointment}
+          onReschedule={setRescheduleTarget}
           showPatientName={true}
           isLoading={appointmentsLoading}
           emptyMessage="No appointments scheduled for this patient."
@@ -124,6 +134,16 @@ export function PatientDetail() {
         initialPatient={selectedPatient || undefined}
         onSuccess={handleAppointmentCreated}
       />
+
+      {/* Reschedule Wizard (mounted per appointment so it preloads patient and type) */}
+      {rescheduleTarget && (
+        <AppointmentWizard
+          isOpen={true}
+          onClose={() => setRescheduleTarget(null)}
+          rescheduleAppointment={rescheduleTarget}
+          onRescheduled={handleRescheduled}
+        />
+      )}
     </div>
   );
 }
@@ -6,22 +6,31 @@
 import { useState } from 'react';
 import { PageHeader } from '../../components/layout';
 import { Button, Modal } from '../../components/ui';
-import { PatientSearchBar, PatientSearchResultGrid } from '../../components/features';
+import { PatientImportModal, PatientSearchBar, PatientSearchResultGrid } from '../../components/features';
 import { AppointmentWizard } from '../../components/features/appointments/wizard/AppointmentWizard';
 import { CopyToPostmanButton } from '../../components/features/postman/CopyToPostmanButton';
 import { PatientForm } from '../../components/forms';
 import { usePatients } from '../../hooks';
+import { useToast } from '../../hooks/useToast';
+import { exportPatients } from '../../services/api/patientApi';
+import { getErrorMessage } from '../../services/utils/apiUtils';
 import { useAppSelector } from '../../store/hooks';
 import { selectLastSearchParams } from '../../store/slices/patientSlice';
+import { newIdempotencyKey } from '../../utils/idempotency';
 import type { PatientFormData, PatientSearchParams, Patient } from '../../types';
 
 export function PatientList() {
   const { searchResults, loading, search, createPatient } = usePatients();
   const lastSearchParams = useAppSelector(selectLastSearchParams);
+  const toast = useToast();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [wizardOpen, setWizardOpen] = useState(false);
   const [selectedPatientForSchedule, setSelectedPatientForSchedule] = useState<Patient | null>(null);
+  // One key per new patient, so a double submit or retry cannot create duplicates
+  const [createKey, setCreateKey] = useState(newIdempotencyKey);
 
   const handleSearch = (params: PatientSearchParams) => {
     search(params);
@@ -39,10 +48,29 @@ export function PatientList() {
       locationGuid: data.locationGuid || '',
       note: data.note,
       address: data.address,
-    });
+    }, createKey);
+    setCreateKey(newIdempotencyKey());
     setIsCreateModalOpen(false);
   };
 
+  const handleExport = async () => {
+    if (!lastSearchParams) return;
+    setExporting(true);
+    try {
+      const blob = await exportPatients(lastSearchParams);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `patients-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.showError(getErrorMessage(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleSchedule = (patient: Patient) => {
     setSelectedPatientForSchedule(patient);
     setWizardOpen(true);
@@ -106,6 +134,9 @@ export function PatientList() {
                 size="md"
               />
             )}
+            <Button variant="secondary" onClick={() => setIsImportModalOpen(true)}>
+              Import CSV
+            </Button>
             <Button onClick={() => setIsCreateModalOpen(true)}>
               Add New Patient
             </Button>
@@ -122,11 +153,16 @@ export function PatientList() {
       {hasSearched && (
         <div className="bg-white dark:bg-slate-800 rounded-lg shadow-md dark:shadow-xl border border-gray-200 dark:border-slate-700 transition-colors">
           {searchResults && (
-            <div className="p-4 border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50 transition-colors">
+            <div className="p-4 border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50 transition-colors flex items-center justify-between">
               <p className="text-sm font-medium text-gray-600 dark:text-slate-300">
                 Found {searchResults.pagination?.totalCount || patients.length} patient
                 {patients.length !== 1 ? 's' : ''}
               </p>
+              {patients.length > 0 && (
+                <Button variant="secondary" size="sm" onClick={handleExport} disabled={exporting}>
+                  {exporting ? 'Exporting...' : 'Export CSV'}
+                </Button>
+              )}
             </div>
           )}
           <div className="p-4">
@@ -161,6 +197,9 @@ export function PatientList() {
         />
       </Modal>
 
+      {/* Import Patients Modal */}
+      <PatientImportModal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} />
+
       {/* Appointment Wizard Modal */}
       <AppointmentWizard
         isOpen={wizardOpen}
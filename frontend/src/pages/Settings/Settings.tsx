@@ -3,22 +3,44 @@
  * Application settings and cache management
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { PageHeader } from '../../components/layout';
-import { Card, Button, ConfirmationModal } from '../../components/ui';
+import { Card, Button, ConfirmationModal, Select } from '../../components/ui';
 import { CopyToPostmanButton } from '../../components/features/postman/CopyToPostmanButton';
 import { FlowiseConfigManager, LangfuseConfigManager } from '../../components/features/settings';
 import { useAppSelector, useAppDispatch } from '../../store/hooks';
-import { selectEnvironment, toggleEnvironment } from '../../store/slices/authSlice';
-import { refreshAllCaches } from '../../store/slices/referenceSlice';
+import { selectEnvironment, selectTenant, setTenant, toggleEnvironment } from '../../store/slices/authSlice';
+import { fetchAllReferenceData, refreshAllCaches } from '../../store/slices/referenceSlice';
+import { getTenants } from '../../services/api/referenceApi';
 import { useToast } from '../../hooks';
+import type { Tenant } from '../../types';
+
+const PMS_LABELS: Record<Tenant['provider'], string> = {
+  cloud9: 'Cloud 9',
+  nexhealth: 'NexHealth',
+};
 
 export function Settings() {
   const dispatch = useAppDispatch();
   const environment = useAppSelector(selectEnvironment);
+  const tenant = useAppSelector(selectTenant);
   const toast = useToast();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showProductionWarning, setShowProductionWarning] = useState(false);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+
+  useEffect(() => {
+    getTenants()
+      .then(setTenants)
+      .catch(() => setTenants([]));
+  }, []);
+
+  const handleTenantChange = (value: string) => {
+    dispatch(setTenant(value || null));
+    // Reference data belongs to the previous practice's PMS
+    dispatch(fetchAllReferenceData());
+    toast.showSuccess(value ? `Switched to practice ${value}` : 'Switched to the default practice');
+  };
 
   const handleToggleEnvironment = () => {
     // Show warning when switching TO production
@@ -95,6 +117,34 @@ export function Settings() {
           </div>
         </Card>
 
+        {/* Practice (tenant) selection; only shown when PMS_TENANTS is configured */}
+        {tenants.length > 0 && (
+          <Card>
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                  Practice
+                </h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Choose which practice's practice management system patients and appointments come from
+                </p>
+              </div>
+
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-md">
+                <Select
+                  label="Current Practice"
+                  value={tenant ?? ''}
+                  onChange={handleTenantChange}
+                  options={[
+                    { value: '', label: 'Default practice' },
+                    ...tenants.map((t) => ({ value: t.id, label: `${t.id} (${PMS_LABELS[t.provider]})` })),
+                  ]}
+                />
+              </div>
+            </div>
+          </Card>
+        )}
+
         {/* Flowise Configurations */}
         <Card>
           <FlowiseConfigManager />
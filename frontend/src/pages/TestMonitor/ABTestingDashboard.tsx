@@ -7,6 +7,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { PageHeader } from '../../components/layout';
 import { Card, Button, Spinner } from '../../components/ui';
 import { API_CONFIG } from '../../utils/constants';
+import { getAuthHeaders } from '../../services/api/client';
 
 // Types
 interface ABExperiment {
@@ -103,7 +104,7 @@ export function ABTestingDashboard() {
   // Fetch stats
   const fetchStats = useCallback(async () => {
     try {
-      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/stats`);
+      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/stats`, { headers: getAuthHeaders() });
       const data = await response.json();
       if (data.success) {
         setStats(data.data);
@@ -116,7 +117,7 @@ export function ABTestingDashboard() {
   // Fetch experiments
   const fetchExperiments = useCallback(async () => {
     try {
-      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/experiments`);
+      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/experiments`, { headers: getAuthHeaders() });
       const data = await response.json();
       if (data.success) {
         setExperiments(data.data);
@@ -130,7 +131,7 @@ export function ABTestingDashboard() {
   // Fetch variants
   const fetchVariants = useCallback(async () => {
     try {
-      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/variants`);
+      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/variants`, { headers: getAuthHeaders() });
       const data = await response.json();
       if (data.success) {
         setVariants(data.data);
@@ -143,7 +144,7 @@ export function ABTestingDashboard() {
   // Fetch experiment detail
   const fetchExperimentDetail = useCallback(async (experimentId: string) => {
     try {
-      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/experiments/${experimentId}`);
+      const response = await fetch(`${API_CONFIG.BASE_URL}/test-monitor/ab/experiments/${experimentId}`, { headers: getAuthHeaders() });
       const data = await response.json();
       if (data.success) {
         setSelectedExperiment(data.data);
@@ -25,6 +25,7 @@ import {
   verifyFixes,
   fetchDeployedVersions,
   markPromptDeployed,
+  deployPromptToFlowise,
   selectFixes,
   selectPromptFiles,
   selectPromptHistory,
@@ -300,6 +301,10 @@ export function AgentTuning() {
     await dispatch(markPromptDeployed({ fileKey, version })).unwrap();
   }, [dispatch]);
 
+  const handleDeployToFlowise = useCallback(async (fileKey: string, version: number) => {
+    await dispatch(deployPromptToFlowise({ fileKey, version })).unwrap();
+  }, [dispatch]);
+
   const handleCopyPrompt = useCallback(async (fileKey: string): Promise<string | null> => {
     try {
       const content = await testMonitorApi.getPromptForFlowise(fileKey);
@@ -410,6 +415,7 @@ export function AgentTuning() {
             promptFiles={promptFiles}
             deployedVersions={deployedVersions}
             onMarkDeployed={handleMarkDeployed}
+            onDeployToFlowise={handleDeployToFlowise}
             onCopyPrompt={handleCopyPrompt}
             loading={deploymentLoading}
             hasRecentlyAppliedFixes={appliedBotFixes.length > 0}
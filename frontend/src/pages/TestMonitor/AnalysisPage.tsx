@@ -27,6 +27,7 @@ import {
   verifyFixes,
   fetchDeployedVersions,
   markPromptDeployed,
+  deployPromptToFlowise,
   fetchEnvironmentPromptFiles,
   fetchEnvironmentDeployedVersions,
   setSelectedEnvironment,
@@ -288,6 +289,10 @@ export function AnalysisPage() {
     await dispatch(markPromptDeployed({ fileKey, version })).unwrap();
   }, [dispatch]);
 
+  const handleDeployToFlowise = useCallback(async (fileKey: string, version: number) => {
+    await dispatch(deployPromptToFlowise({ fileKey, version })).unwrap();
+  }, [dispatch]);
+
   const handleCopyPrompt = useCallback(async (fileKey: string): Promise<string | null> => {
     try {
       const content = await testMonitorApi.getPromptForFlowise(fileKey);
@@ -693,6 +698,7 @@ export function AnalysisPage() {
               promptFiles={promptFiles}
               deployedVersions={deployedVersions}
               onMarkDeployed={handleMarkDeployed}
+              onDeployToFlowise={selectedEnvironment === 'production' ? handleDeployToFlowise : undefined}
               onCopyPrompt={handleCopyPrompt}
               loading={deploymentLoading}
               hasRecentlyAppliedFixes={appliedBotFixes.length > 0}
@@ -4,6 +4,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { PageHeader } from '../../components/layout';
 import { Button, Card, Spinner } from '../../components/ui';
 import { TranscriptViewer } from '../../components/features/testMonitor/TranscriptViewer';
@@ -19,6 +20,7 @@ import {
   getProductionSessions,
   getProductionSession,
   rebuildProductionSessions,
+  createGoalTestFromSession,
 } from '../../services/api/testMonitorApi';
 import { getLangfuseConfigs } from '../../services/api/appSettingsApi';
 import type {
@@ -27,8 +29,10 @@ import type {
   ImportHistoryEntry,
   ProductionSession,
   ProductionSessionDetailResponse,
+  SessionGoalTestResult,
   TraceInsightsResponse,
 } from '../../types/testMonitor.types';
+import { ROUTES } from '../../utils/constants';
 import type { LangfuseConfigProfile } from '../../types/appSettings.types';
 
 // ============================================================================
@@ -393,6 +397,23 @@ function SessionModal({ sessionId, configId, timezone, onClose }: SessionModalPr
   const [sessionDetail, setSessionDetail] = useState<ProductionSessionDetailResponse | null>(null);
   const [activeTab, setActiveTab] = useState<SessionModalTab>('transcript');
   const [copied, setCopied] = useState(false);
+  const [creatingTest, setCreatingTest] = useState(false);
+  const [createdTest, setCreatedTest] = useState<SessionGoalTestResult | null>(null);
+  const [createTestError, setCreateTestError] = useState<string | null>(null);
+
+  // Turn this call into a permanent goal test
+  const handleCreateGoalTest = async () => {
+    try {
+      setCreatingTest(true);
+      setCreateTestError(null);
+      const result = await createGoalTestFromSession(sessionId, { configId });
+      setCreatedTest(result);
+    } catch (err) {
+      setCreateTestError(err instanceof Error ? err.message : 'Failed to create goal test');
+    } finally {
+      setCreatingTest(false);
+    }
+  };
 
   // Copy all session data to clipboard
   const handleCopyAll = async () => {
@@ -530,6 +551,18 @@ function SessionModal({ sessionId, configId, timezone, onClose }: SessionModalPr
             )}
           </div>
           <div className="flex items-center gap-2">
+            {/* Create Goal Test Button */}
+            {sessionDetail && (
+              <button
+                onClick={handleCreateGoalTest}
+                disabled={creatingTest || !!createdTest}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 hover:bg-blue-200 dark:hover:bg-blue-900/50 disabled:opacity-50"
+                title="Save this conversation as a replayable goal test"
+              >
+                {creatingTest ? <Spinner size="sm" /> : <Icons.Plus />}
+                {createdTest ? 'Goal Test Created' : 'Create Goal Test'}
+              </button>
+            )}
             {/* Copy All Button */}
             {sessionDetail && (
               <button
@@ -554,6 +587,29 @@ function SessionModal({ sessionId, configId, timezone, onClose }: SessionModalPr
           </div>
         </div>
 
+        {/* Goal Test Result */}
+        {createdTest && (
+          <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 bg-green-50 dark:bg-green-900/20 text-sm">
+            <span className="text-green-800 dark:text-green-300">
+              Created <span className="font-mono font-medium">{createdTest.testCase.caseId}</span> with{' '}
+              {createdTest.testCase.goals.length} goals from {createdTest.toolActions.length} tool calls.
+            </span>{' '}
+            <Link to={ROUTES.TEST_MONITOR_GOAL_CASES} className="text-blue-600 dark:text-blue-400 hover:underline">
+              View goal tests
+            </Link>
+            {createdTest.defaultedFields.length > 0 && (
+              <p className="mt-1 text-yellow-700 dark:text-yellow-400">
+                Not found in the call, filled with defaults: {createdTest.defaultedFields.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+        {createTestError && (
+          <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400">
+            {createTestError}
+          </div>
+        )}
+
         {/* Tab Navigation */}
         {sessionDetail && (
           <div className="px-6 pt-2 border-b border-gray-200 dark:border-gray-700">
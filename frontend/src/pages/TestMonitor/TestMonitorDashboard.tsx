@@ -279,6 +279,29 @@ export function TestMonitorDashboard() {
                   </select>
                 </div>
 
+                {/* Cost budget */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    LLM cost budget (USD)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="No limit"
+                    value={config.budgetUsd ?? ''}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      dispatch(updateConfig({ budgetUsd: value > 0 ? value : undefined }));
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                    disabled={isExecuting}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    The run is stopped once its estimated LLM cost exceeds the budget
+                  </p>
+                </div>
+
                 {/* Options */}
                 <div className="space-y-2">
                   <label className="flex items-center gap-2">
@@ -114,6 +114,9 @@ export function TestRunDetail() {
   // Diagnosis state
   const [diagnosisRunning, setDiagnosisRunning] = useState(false);
 
+  // Export state
+  const [exporting, setExporting] = useState(false);
+
   // Batch fix selection state
   const [selectedFixIds, setSelectedFixIds] = useState<Set<string>>(new Set());
   const [applyingBatch, setApplyingBatch] = useState(false);
@@ -607,6 +610,26 @@ export function TestRunDetail() {
     }
   }, [dispatch, selectedFixIds]);
 
+  // Download the selected run as JUnit XML or SARIF findings
+  const handleExport = async (format: 'junit' | 'sarif') => {
+    if (!selectedRun) return;
+
+    setExporting(true);
+    try {
+      const blob = await testMonitorApi.exportTestRun(selectedRun.runId, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = format === 'junit' ? `${selectedRun.runId}-junit.xml` : `${selectedRun.runId}-findings.sarif`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Failed to export run as ${format}:`, error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col">
       <PageHeader
@@ -623,6 +646,16 @@ export function TestRunDetail() {
                 <span className="text-xs font-medium text-red-600 dark:text-red-400">LIVE</span>
               </div>
             )}
+            {selectedRun && (
+              <>
+                <Button onClick={() => handleExport('junit')} variant="secondary" size="sm" disabled={exporting}>
+                  Export JUnit
+                </Button>
+                <Button onClick={() => handleExport('sarif')} variant="secondary" size="sm" disabled={exporting}>
+                  Export Findings
+                </Button>
+              </>
+            )}
             <Button onClick={handleRefresh} variant="secondary" size="sm">
               Refresh
             </Button>
@@ -248,6 +248,9 @@ export function TestRunHistory() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
                       Pass Rate
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      LLM Cost
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
                       Started
                     </th>
@@ -277,6 +280,14 @@ export function TestRunHistory() {
                           <span className="font-mono text-sm text-gray-900 dark:text-white">
                             {run.runId.slice(0, 8)}...
                           </span>
+                          {run.runType === 'contract' && (
+                            <span
+                              className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400"
+                              title="Node-RED endpoint contract tests"
+                            >
+                              Contract
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-3">
                           <span className={`px-2 py-1 text-xs rounded-full inline-flex items-center gap-1.5 ${
@@ -312,6 +323,22 @@ export function TestRunHistory() {
                             <span className="text-sm text-gray-600 dark:text-gray-300">{passRate}%</span>
                           </div>
                         </td>
+                        <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">
+                          {run.usage ? (
+                            <span
+                              title={[
+                                `${run.usage.inputTokens.toLocaleString()} input / ${run.usage.outputTokens.toLocaleString()} output tokens`,
+                                ...Object.entries(run.usage.costByPurpose)
+                                  .sort(([, a], [, b]) => b - a)
+                                  .map(([purpose, cost]) => `${purpose}: $${cost.toFixed(4)}`),
+                              ].join('\n')}
+                            >
+                              ${run.usage.costUsd.toFixed(2)}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400 dark:text-gray-500">--</span>
+                          )}
+                        </td>
                         <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-300">
                           {new Date(run.startedAt).toLocaleString()}
                         </td>
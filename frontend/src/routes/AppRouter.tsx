@@ -14,6 +14,7 @@ import { PatientList } from '../pages/Patients/PatientList';
 import { PatientDetail } from '../pages/Patients/PatientDetail';
 import { AppointmentList } from '../pages/Appointments/AppointmentList';
 import { AppointmentCalendar } from '../pages/Appointments/AppointmentCalendar';
+import { AvailabilityPage } from '../pages/Appointments/AvailabilityPage';
 import { Settings } from '../pages/Settings/Settings';
 import {
   TestMonitorLayout,
@@ -116,6 +117,14 @@ export function AppRouter() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path={ROUTES.AVAILABILITY}
+            element={
+              <ProtectedRoute tabKey="calendar">
+                <AvailabilityPage />
+              </ProtectedRoute>
+            }
+          />
 
           {/* Settings */}
           <Route
@@ -3,8 +3,10 @@
  * Handles admin user management API calls
  */
 
-import { get, post, put, del } from './client';
+import { get, post, put, del, apiClient } from './client';
 import type {
+  AuditLogFilters,
+  AuditLogResponse,
   CreateUserRequest,
   CreateUserResponse,
   UpdateUserRequest,
@@ -62,3 +64,27 @@ export async function setUserPermissions(id: number, data: SetPermissionsRequest
 export async function resetPassword(id: number): Promise<ResetPasswordResponse> {
   return post<ResetPasswordResponse>(`/admin/users/${id}/reset-password`);
 }
+
+/**
+ * Search the PHI access audit log
+ */
+export async function getAuditLog(
+  filters: AuditLogFilters,
+  limit: number = 50,
+  offset: number = 0
+): Promise<AuditLogResponse> {
+  return get<AuditLogResponse>('/admin/audit-log', {
+    params: { ...filters, limit, offset },
+  });
+}
+
+/**
+ * Download the audit log as CSV (same filters as the search)
+ */
+export async function exportAuditLog(filters: AuditLogFilters): Promise<Blob> {
+  const response = await apiClient.get('/admin/audit-log/export', {
+    params: filters,
+    responseType: 'blob',
+  });
+  return response.data as Blob;
+}
@@ -10,8 +10,12 @@ import type {
   CreateAppointmentRequest,
   ConfirmAppointmentRequest,
   CancelAppointmentRequest,
+  RescheduleAppointmentRequest,
+  RescheduleAppointmentResult,
   GetAvailableApptsParams,
   AvailableApptsResponse,
+  GetAvailabilityGridParams,
+  AvailabilityGrid,
 } from '../../types';
 
 /**
@@ -36,6 +40,7 @@ export async function getPatientAppointments(
 
 /**
  * Get all appointments by date range (with optional filters)
+ * Without an explicit page, every page is fetched so calendars show the whole schedule
  */
 export async function getAppointments(
   params?: GetAppointmentsParams
@@ -47,21 +52,41 @@ export async function getAppointments(
   if (params?.status) queryParams.append('status', params.status);
   if (params?.locationGuid) queryParams.append('locationGuid', params.locationGuid);
   if (params?.providerGuid) queryParams.append('providerGuid', params.providerGuid);
-
-  const queryString = queryParams.toString();
-  const url = `/appointments/date-range${queryString ? `?${queryString}` : ''}`;
-
-  const response = await get<{ data: Appointment[] }>(url);
-  return response.data || [];
+  if (params?.appointmentTypeGuid) queryParams.append('appointmentTypeGuid', params.appointmentTypeGuid);
+  if (params?.pageSize) queryParams.append('pageSize', String(params.pageSize));
+
+  const appointments: Appointment[] = [];
+  let page = params?.page || 1;
+  let totalPages = page;
+
+  do {
+    queryParams.set('page', String(page));
+    const response = await get<{
+      data: Appointment[];
+      pagination?: { totalPages: number };
+    }>(`/appointments/date-range?${queryParams.toString()}`);
+
+    appointments.push(...(response.data || []));
+    totalPages = params?.page ? page : response.pagination?.totalPages || page;
+    page += 1;
+  } while (page <= totalPages);
+
+  return appointments;
 }
 
 /**
  * Create a new appointment
+ * Pass the same idempotencyKey when retrying so the booking is only made once
  */
 export async function createAppointment(
-  appointmentData: CreateAppointmentRequest
+  appointmentData: CreateAppointmentRequest,
+  idempotencyKey?: string
 ): Promise<Appointment> {
-  const response = await post<{ data: Appointment }>('/appointments', appointmentData);
+  const response = await post<{ data: Appointment }>(
+    '/appointments',
+    appointmentData,
+    idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+  );
   return response.data;
 }
 
@@ -89,6 +114,22 @@ export async function cancelAppointment(
   return response.data;
 }
 
+/**
+ * Move an appointment to a new slot (books the new slot, then cancels the original)
+ * Pass the same idempotencyKey when retrying so the move is only made once
+ */
+export async function rescheduleAppointment(
+  { appointmentGuid, ...rescheduleData }: RescheduleAppointmentRequest,
+  idempotencyKey?: string
+): Promise<RescheduleAppointmentResult> {
+  const response = await put<{ data: RescheduleAppointmentResult }>(
+    `/appointments/${appointmentGuid}/reschedule`,
+    rescheduleData,
+    idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+  );
+  return response.data;
+}
+
 /**
  * Get available appointment slots
  */
@@ -121,3 +162,25 @@ export async function getAvailableSlots(
     count: response.count || 0,
   };
 }
+
+/**
+ * Get one location's week as chairs × time blocks (open / booked / closed)
+ */
+export async function getAvailabilityGrid(params: GetAvailabilityGridParams): Promise<AvailabilityGrid> {
+  const queryParams = new URLSearchParams({
+    locationGuid: params.locationGuid,
+    weekStart: params.weekStart,
+  });
+
+  if (params.appointmentTypeGuid) {
+    queryParams.append('appointmentTypeGuid', params.appointmentTypeGuid);
+  }
+  if (params.blockMinutes) {
+    queryParams.append('blockMinutes', params.blockMinutes.toString());
+  }
+
+  const response = await get<{ data: AvailabilityGrid }>(
+    `/appointments/availability-grid?${queryParams.toString()}`
+  );
+  return response.data;
+}
@@ -12,6 +12,7 @@ import type { ApiError, ApiResponse, Environment } from '../../types';
  * Storage keys
  */
 const ENVIRONMENT_KEY = 'dentix_environment';
+const TENANT_KEY = 'dentix_tenant';
 const AUTH_TOKEN_KEY = 'dentix_auth_token';
 
 /**
@@ -35,6 +36,26 @@ export function removeAuthToken(): void {
   localStorage.removeItem(AUTH_TOKEN_KEY);
 }
 
+/**
+ * Build the Authorization header for requests made outside the axios client
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Append the auth token as a query param (EventSource cannot send headers)
+ */
+export function withAuthToken(url: string): string {
+  const token = getAuthToken();
+  if (!token) {
+    return url;
+  }
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}token=${encodeURIComponent(token)}`;
+}
+
 /**
  * Get current environment from localStorage
  */
@@ -50,6 +71,24 @@ export function setCurrentEnvironment(environment: Environment): void {
   localStorage.setItem(ENVIRONMENT_KEY, environment);
 }
 
+/**
+ * Get current tenant (practice) from localStorage; null uses the environment's default PMS
+ */
+export function getCurrentTenant(): string | null {
+  return localStorage.getItem(TENANT_KEY) || null;
+}
+
+/**
+ * Set current tenant in localStorage (null clears it)
+ */
+export function setCurrentTenant(tenant: string | null): void {
+  if (tenant) {
+    localStorage.setItem(TENANT_KEY, tenant);
+  } else {
+    localStorage.removeItem(TENANT_KEY);
+  }
+}
+
 /**
  * Create configured Axios instance
  */
@@ -62,12 +101,17 @@ function createApiClient(): AxiosInstance {
     },
   });
 
-  // Request interceptor: Add environment header and auth token
+  // Request interceptor: Add environment and tenant headers and auth token
   client.interceptors.request.use(
     (config) => {
       const environment = getCurrentEnvironment();
       config.headers['X-Environment'] = environment;
 
+      const tenant = getCurrentTenant();
+      if (tenant) {
+        config.headers['X-Tenant'] = tenant;
+      }
+
       // Add auth token if present
       const token = getAuthToken();
       if (token) {
@@ -3,21 +3,21 @@
  * API calls for patient search, retrieval, creation, and updates
  */
 
-import { get, post, put } from './client';
+import { get, post, put, apiClient } from './client';
+import { API_CONFIG } from '../../utils/constants';
 import type {
   Patient,
   CreatePatientRequest,
   UpdatePatientRequest,
   PatientSearchParams,
   PatientSearchResponse,
+  PatientImportReport,
 } from '../../types';
 
 /**
- * Search for patients
+ * Build the GetPortalPatientLookup filter from search params
  */
-export async function searchPatients(
-  params: PatientSearchParams
-): Promise<PatientSearchResponse> {
+function buildSearchQuery(params: PatientSearchParams): string {
   let query = '';
 
   // If a direct query string is provided, use it
@@ -44,6 +44,17 @@ export async function searchPatients(
     query = queryParts.join(' ').trim();
   }
 
+  return query;
+}
+
+/**
+ * Search for patients
+ */
+export async function searchPatients(
+  params: PatientSearchParams
+): Promise<PatientSearchResponse> {
+  const query = buildSearchQuery(params);
+
   if (!query) {
     throw new Error('At least one search parameter is required');
   }
@@ -69,11 +80,17 @@ export async function getPatient(patientGuid: string): Promise<Patient> {
 
 /**
  * Create a new patient
+ * Pass the same idempotencyKey when retrying so the patient is only created once
  */
 export async function createPatient(
-  patientData: CreatePatientRequest
+  patientData: CreatePatientRequest,
+  idempotencyKey?: string
 ): Promise<Patient> {
-  const response = await post<{ data: Patient }>('/patients', patientData);
+  const response = await post<{ data: Patient }>(
+    '/patients',
+    patientData,
+    idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+  );
   return response.data;
 }
 
@@ -90,3 +107,36 @@ export async function updatePatient(
   );
   return response.data;
 }
+
+/**
+ * Import patients from a CSV file
+ * With dryRun, rows are only validated and checked for duplicates
+ */
+export async function importPatients(file: File, dryRun: boolean): Promise<PatientImportReport> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+
+  const response = await post<{ data: PatientImportReport }>('/patients/import', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: API_CONFIG.IMPORT_TIMEOUT,
+  });
+  return response.data;
+}
+
+/**
+ * Download search results as CSV (same columns the import understands)
+ */
+export async function exportPatients(params: PatientSearchParams): Promise<Blob> {
+  const query = buildSearchQuery(params);
+
+  if (!query) {
+    throw new Error('At least one search parameter is required');
+  }
+
+  const response = await apiClient.get('/patients/export', {
+    params: { query },
+    responseType: 'blob',
+  });
+  return response.data as Blob;
+}
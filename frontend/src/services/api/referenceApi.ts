@@ -4,7 +4,7 @@
  */
 
 import { get, post } from './client';
-import type { Location, AppointmentType, Provider, CacheStatsResponse } from '../../types';
+import type { Location, AppointmentType, Provider, CacheStatsResponse, Tenant } from '../../types';
 
 /**
  * Get all practice locations
@@ -34,6 +34,14 @@ export async function getProviders(locationGuid?: string): Promise<Provider[]> {
   return response.data || [];
 }
 
+/**
+ * Get the practices (tenants) configured on the backend
+ */
+export async function getTenants(): Promise<Tenant[]> {
+  const response = await get<{ data: Tenant[] }>('/reference/tenants');
+  return response.data || [];
+}
+
 /**
  * Refresh all cached reference data
  */
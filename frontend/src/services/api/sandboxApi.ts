@@ -3,7 +3,7 @@
  * API calls for A/B Testing Sandbox management and comparison testing
  */
 
-import { get, put, post } from './client';
+import { get, put, post, withAuthToken } from './client';
 import type {
   Sandbox,
   SandboxFile,
@@ -254,7 +254,7 @@ export function subscribeToComparison(
   onError?: (error: Event) => void
 ): EventSource {
   const url = `${API_BASE_URL}/test-monitor/sandboxes/comparison/${comparisonId}/stream`;
-  const eventSource = new EventSource(url);
+  const eventSource = new EventSource(withAuthToken(url));
 
   eventSource.addEventListener('comparison-started', (e) => {
     onEvent({ type: 'comparison-started', data: JSON.parse(e.data) });
@@ -3,7 +3,7 @@
  * API calls for Flowise test monitoring dashboard
  */
 
-import { get, put, post } from './client';
+import { apiClient, get, put, post, del, getAuthHeaders, withAuthToken } from './client';
 import { API_CONFIG } from '../../utils/constants';
 import type {
   TestRun,
@@ -22,6 +22,10 @@ import type {
   TestScenario,
   StartExecutionRequest,
   StartExecutionResponse,
+  TestSchedule,
+  TestScheduleWithRuns,
+  TestScheduleInput,
+  ScheduledRun,
   GoalTestCaseRecord,
   TestCaseStats,
   UserPersonaDTO,
@@ -37,6 +41,7 @@ import type {
   ProductionSession,
   ProductionSessionsResponse,
   ProductionSessionDetailResponse,
+  SessionGoalTestResult,
   TraceInsightsResponse,
 } from '../../types/testMonitor.types';
 
@@ -73,7 +78,7 @@ export function subscribeToExecution(
   onError?: (error: Event) => void
 ): EventSource {
   const url = `${API_BASE_URL}/test-monitor/execution/${runId}/stream`;
-  const eventSource = new EventSource(url);
+  const eventSource = new EventSource(withAuthToken(url));
 
   // Handle specific event types
   eventSource.addEventListener('execution-started', (e) => {
@@ -166,7 +171,7 @@ export function subscribeToTestRun(
     url += `?testId=${testId}`;
   }
 
-  const eventSource = new EventSource(url);
+  const eventSource = new EventSource(withAuthToken(url));
 
   // Handle specific event types
   eventSource.addEventListener('run-update', (e) => {
@@ -236,6 +241,17 @@ export async function getTestRun(runId: string): Promise<TestRunWithResults> {
   return response.data;
 }
 
+/**
+ * Download a test run as JUnit XML or SARIF findings
+ */
+export async function exportTestRun(runId: string, format: 'junit' | 'sarif' = 'junit'): Promise<Blob> {
+  const response = await apiClient.get(`/test-monitor/runs/${runId}/export`, {
+    params: { format },
+    responseType: 'blob',
+  });
+  return response.data as Blob;
+}
+
 /**
  * Get conversation transcript for a test
  */
@@ -608,6 +624,58 @@ export async function resumeExecution(runId: string): Promise<{ success: boolean
   return response;
 }
 
+// ============================================================================
+// TEST SCHEDULES API
+// ============================================================================
+
+/**
+ * Get all test schedules
+ */
+export async function getTestSchedules(): Promise<TestSchedule[]> {
+  const response = await get<TestMonitorApiResponse<TestSchedule[]>>('/test-monitor/schedules');
+  return response.data;
+}
+
+/**
+ * Get a test schedule with its recent runs
+ */
+export async function getTestSchedule(id: number, limit?: number): Promise<TestScheduleWithRuns> {
+  const query = limit ? `?limit=${limit}` : '';
+  const response = await get<TestMonitorApiResponse<TestScheduleWithRuns>>(`/test-monitor/schedules/${id}${query}`);
+  return response.data;
+}
+
+/**
+ * Create a test schedule
+ */
+export async function createTestSchedule(input: TestScheduleInput): Promise<TestSchedule> {
+  const response = await post<TestMonitorApiResponse<TestSchedule>>('/test-monitor/schedules', input);
+  return response.data;
+}
+
+/**
+ * Update a test schedule
+ */
+export async function updateTestSchedule(id: number, input: TestScheduleInput): Promise<TestSchedule> {
+  const response = await put<TestMonitorApiResponse<TestSchedule>>(`/test-monitor/schedules/${id}`, input);
+  return response.data;
+}
+
+/**
+ * Delete a test schedule
+ */
+export async function deleteTestSchedule(id: number): Promise<void> {
+  await del<{ success: boolean; message: string }>(`/test-monitor/schedules/${id}`);
+}
+
+/**
+ * Run a schedule's tests now
+ */
+export async function runTestScheduleNow(id: number): Promise<ScheduledRun> {
+  const response = await post<TestMonitorApiResponse<ScheduledRun>>(`/test-monitor/schedules/${id}/run`, {});
+  return response.data;
+}
+
 // ============================================================================
 // DIAGNOSIS / AGENT TUNING API
 // ============================================================================
@@ -699,6 +767,31 @@ export async function markPromptAsDeployed(
   return response;
 }
 
+export interface FlowiseDeployResult {
+  fileKey: string;
+  version: number;
+  configName: string;
+  chatflowId: string;
+  updated: Array<{ type: 'chatflow-node' | 'tool'; id: string; name: string }>;
+  warnings: string[];
+  message: string;
+}
+
+/**
+ * Push a prompt version to the Flowise chatflow of a Flowise config profile
+ * (defaults: current version, default profile) and record the deployment
+ */
+export async function deployPromptToFlowise(
+  fileKey: string,
+  options: { version?: number; configId?: number; chatflowId?: string; notes?: string } = {}
+): Promise<FlowiseDeployResult> {
+  const response = await post<TestMonitorApiResponse<FlowiseDeployResult>>(
+    `/test-monitor/prompts/${fileKey}/deploy`,
+    options
+  );
+  return response.data;
+}
+
 /**
  * Get deployment history for a prompt file
  */
@@ -896,6 +989,21 @@ export async function updateGoalTestCase(
   return response.data;
 }
 
+/**
+ * Quarantine or release a goal-based test case
+ */
+export async function setGoalTestQuarantine(
+  caseId: string,
+  quarantined: boolean,
+  reason?: string
+): Promise<GoalTestCaseRecord> {
+  const response = await put<TestMonitorApiResponse<GoalTestCaseRecord>>(
+    `/test-monitor/goal-tests/${caseId}/quarantine`,
+    { quarantined, reason }
+  );
+  return response.data;
+}
+
 /**
  * Delete (archive) a goal-based test case
  */
@@ -907,7 +1015,7 @@ export async function deleteGoalTestCase(
   // Using fetch directly since we don't have a delete helper in client
   const response = await fetch(`${API_BASE_URL}${url}`, {
     method: 'DELETE',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
   });
   return response.json();
 }
@@ -1251,6 +1359,7 @@ export async function uploadReferenceDocument(
     `${API_BASE_URL}/test-monitor/prompts/${fileKey}/references`,
     {
       method: 'POST',
+      headers: getAuthHeaders(),
       body: formData,
     }
   );
@@ -1298,6 +1407,7 @@ export async function deleteReferenceDocument(
 ): Promise<void> {
   await fetch(`${API_BASE_URL}/test-monitor/references/${documentId}`, {
     method: 'DELETE',
+    headers: getAuthHeaders(),
   });
 }
 
@@ -1426,6 +1536,20 @@ export async function getProductionSession(
   return response.data;
 }
 
+/**
+ * Create a goal-oriented regression test from a production session
+ */
+export async function createGoalTestFromSession(
+  sessionId: string,
+  options: { configId?: number; category?: GoalTestCaseRecord['category']; name?: string } = {}
+): Promise<SessionGoalTestResult> {
+  const response = await post<TestMonitorApiResponse<SessionGoalTestResult>>(
+    `/test-monitor/production-calls/sessions/${sessionId}/goal-test`,
+    options
+  );
+  return response.data;
+}
+
 /**
  * Rebuild session aggregates from existing traces
  */
@@ -0,0 +1,39 @@
+/**
+ * Waitlist API Service
+ * API calls for the appointment waitlist and its slot matches
+ */
+
+import { get, post, put } from './client';
+import type {
+  WaitlistEntry,
+  WaitlistStatus,
+  CreateWaitlistEntryRequest,
+} from '../../types';
+
+/**
+ * Get waitlist entries, optionally limited to some statuses
+ */
+export async function getWaitlist(statuses?: WaitlistStatus[]): Promise<WaitlistEntry[]> {
+  const query = statuses?.length ? `?status=${statuses.join(',')}` : '';
+  const response = await get<{ data: WaitlistEntry[] }>(`/waitlist${query}`);
+  return response.data || [];
+}
+
+/**
+ * Put a patient on the waitlist
+ */
+export async function addToWaitlist(data: CreateWaitlistEntryRequest): Promise<WaitlistEntry> {
+  const response = await post<{ data: WaitlistEntry }>('/waitlist', data);
+  return response.data;
+}
+
+/**
+ * Mark an entry booked or removed, or put it back to waiting
+ */
+export async function updateWaitlistStatus(
+  id: number,
+  status: Extract<WaitlistStatus, 'waiting' | 'booked' | 'removed'>
+): Promise<WaitlistEntry> {
+  const response = await put<{ data: WaitlistEntry }>(`/waitlist/${id}/status`, { status });
+  return response.data;
+}
@@ -12,6 +12,7 @@ import type {
   CreateAppointmentRequest,
   ConfirmAppointmentRequest,
   CancelAppointmentRequest,
+  RescheduleAppointmentRequest,
   AvailableSlot,
   GetAvailableApptsParams,
 } from '../../types';
@@ -86,9 +87,12 @@ export const fetchAppointments = createAsyncThunk(
  */
 export const createAppointment = createAsyncThunk(
   'appointments/create',
-  async (appointmentData: CreateAppointmentRequest, { rejectWithValue }) => {
+  async (
+    { idempotencyKey, ...appointmentData }: CreateAppointmentRequest & { idempotencyKey?: string },
+    { rejectWithValue }
+  ) => {
     try {
-      const appointment = await appointmentApi.createAppointment(appointmentData);
+      const appointment = await appointmentApi.createAppointment(appointmentData, idempotencyKey);
       return appointment;
     } catch (error) {
       logError(error, 'createAppointment');
@@ -132,6 +136,25 @@ export const cancelAppointment = createAsyncThunk(
   }
 );
 
+/**
+ * Reschedule an appointment to a new slot
+ */
+export const rescheduleAppointment = createAsyncThunk(
+  'appointments/reschedule',
+  async (
+    { idempotencyKey, ...rescheduleData }: RescheduleAppointmentRequest & { idempotencyKey?: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await appointmentApi.rescheduleAppointment(rescheduleData, idempotencyKey);
+    } catch (error) {
+      logError(error, 'rescheduleAppointment');
+      const formattedError = handleError(error, 'Failed to reschedule appointment');
+      return rejectWithValue(formattedError.message);
+    }
+  }
+);
+
 /**
  * Fetch available appointment slots
  */
@@ -302,6 +325,28 @@ export const appointmentSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Reschedule Appointment
+    builder
+      .addCase(rescheduleAppointment.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(rescheduleAppointment.fulfilled, (state, action) => {
+        state.loading = false;
+
+        // The original is canceled in Cloud 9; drop it until the list is refetched
+        state.appointments = state.appointments.filter(
+          (a) => a.appointment_guid !== action.payload.originalAppointmentGuid
+        );
+        if (state.selectedAppointment?.appointment_guid === action.payload.originalAppointmentGuid) {
+          state.selectedAppointment = null;
+        }
+      })
+      .addCase(rescheduleAppointment.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      });
+
     // Fetch Available Slots
     builder
       .addCase(fetchAvailableSlots.pending, (state) => {
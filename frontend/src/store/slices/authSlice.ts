@@ -9,11 +9,19 @@ import type { RootState } from '../store';
 import type { Environment } from '../../types';
 import type { User, TabKey } from '../../types/auth.types';
 import { API_CONFIG, STORAGE_KEYS } from '../../utils/constants';
-import { setCurrentEnvironment, setAuthToken, removeAuthToken, getAuthToken } from '../../services/api/client';
+import {
+  setCurrentEnvironment,
+  setCurrentTenant,
+  getCurrentTenant,
+  setAuthToken,
+  removeAuthToken,
+  getAuthToken,
+} from '../../services/api/client';
 import * as authApi from '../../services/api/authApi';
 
 interface AuthState {
   environment: Environment;
+  tenant: string | null;
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
@@ -36,6 +44,7 @@ function getInitialEnvironment(): Environment {
 
 const initialState: AuthState = {
   environment: getInitialEnvironment(),
+  tenant: getCurrentTenant(),
   user: null,
   token: getAuthToken(),
   isAuthenticated: false,
@@ -133,6 +142,16 @@ export const authSlice = createSlice({
       setCurrentEnvironment(newEnvironment);
     },
 
+    /**
+     * Set the practice requests are for (null for the environment's default PMS)
+     */
+    setTenant: (state, action: PayloadAction<string | null>) => {
+      state.tenant = action.payload;
+
+      // Persist to localStorage and update API client
+      setCurrentTenant(action.payload);
+    },
+
     /**
      * Logout user
      */
@@ -225,6 +244,7 @@ export const authSlice = createSlice({
 export const {
   setEnvironment,
   toggleEnvironment,
+  setTenant,
   logout,
   clearError,
   clearMustChangePassword
@@ -232,6 +252,7 @@ export const {
 
 // Selectors
 export const selectEnvironment = (state: RootState) => state.auth.environment;
+export const selectTenant = (state: RootState) => state.auth.tenant;
 export const selectIsSandbox = (state: RootState) => state.auth.environment === 'sandbox';
 export const selectIsProduction = (state: RootState) => state.auth.environment === 'production';
 export const selectUser = (state: RootState) => state.auth.user;
@@ -183,6 +183,23 @@ export const deleteGoalTestCase = createAsyncThunk(
   }
 );
 
+/**
+ * Quarantine or release a goal test case
+ */
+export const setGoalTestQuarantine = createAsyncThunk(
+  'goalTestCases/setQuarantine',
+  async (
+    { caseId, quarantined, reason }: { caseId: string; quarantined: boolean; reason?: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await testMonitorApi.setGoalTestQuarantine(caseId, quarantined, reason);
+    } catch (error) {
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update quarantine');
+    }
+  }
+);
+
 /**
  * Clone a goal test case
  */
@@ -562,6 +579,26 @@ const goalTestCasesSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Quarantine
+    builder
+      .addCase(setGoalTestQuarantine.pending, (state) => {
+        state.saving = true;
+      })
+      .addCase(setGoalTestQuarantine.fulfilled, (state, action) => {
+        state.saving = false;
+        const index = state.testCases.findIndex(tc => tc.caseId === action.payload.caseId);
+        if (index !== -1) {
+          state.testCases[index] = action.payload;
+        }
+        if (state.selectedTestCase?.caseId === action.payload.caseId) {
+          state.selectedTestCase = action.payload;
+        }
+      })
+      .addCase(setGoalTestQuarantine.rejected, (state, action) => {
+        state.saving = false;
+        state.error = action.payload as string;
+      });
+
     // Clone
     builder
       .addCase(cloneGoalTestCase.pending, (state) => {
@@ -103,9 +103,12 @@ export const fetchPatientDetails = createAsyncThunk(
  */
 export const createPatient = createAsyncThunk(
   'patients/create',
-  async (patientData: CreatePatientRequest, { rejectWithValue }) => {
+  async (
+    { idempotencyKey, ...patientData }: CreatePatientRequest & { idempotencyKey?: string },
+    { rejectWithValue }
+  ) => {
     try {
-      const patient = await patientApi.createPatient(patientData);
+      const patient = await patientApi.createPatient(patientData, idempotencyKey);
       return patient;
     } catch (error) {
       logError(error, 'createPatient');
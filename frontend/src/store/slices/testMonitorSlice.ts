@@ -512,6 +512,22 @@ export const markPromptDeployed = createAsyncThunk(
   }
 );
 
+/**
+ * Push a prompt version to Flowise and record the deployment
+ */
+export const deployPromptToFlowise = createAsyncThunk(
+  'testMonitor/deployPromptToFlowise',
+  async ({ fileKey, version }: { fileKey: string; version: number }, { rejectWithValue }) => {
+    try {
+      return await testMonitorApi.deployPromptToFlowise(fileKey, { version });
+    } catch (error) {
+      logError(error, 'deployPromptToFlowise');
+      const formattedError = handleError(error, 'Failed to deploy prompt to Flowise');
+      return rejectWithValue(formattedError.message);
+    }
+  }
+);
+
 // ============================================================================
 // PROMPT VERSION MANAGEMENT THUNKS
 // ============================================================================
@@ -1277,6 +1293,18 @@ export const testMonitorSlice = createSlice({
       .addCase(markPromptDeployed.rejected, (state, action) => {
         state.deployment.loading = false;
         state.deployment.error = action.payload as string;
+      })
+      .addCase(deployPromptToFlowise.pending, (state) => {
+        state.deployment.loading = true;
+        state.deployment.error = null;
+      })
+      .addCase(deployPromptToFlowise.fulfilled, (state, action) => {
+        state.deployment.loading = false;
+        state.deployment.deployedVersions[action.payload.fileKey] = action.payload.version;
+      })
+      .addCase(deployPromptToFlowise.rejected, (state, action) => {
+        state.deployment.loading = false;
+        state.deployment.error = action.payload as string;
       });
 
     // ========================================================================
@@ -5,6 +5,14 @@
 
 export type Environment = 'sandbox' | 'production';
 
+/**
+ * A practice configured on the backend (PMS_TENANTS), sent as X-Tenant
+ */
+export interface Tenant {
+  id: string;
+  provider: 'cloud9' | 'nexhealth';
+}
+
 /**
  * Standard API response wrapper from backend
  */
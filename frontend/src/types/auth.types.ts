@@ -104,6 +104,57 @@ export interface UserResponse {
   };
 }
 
+// PHI audit log types
+export type AuditAction =
+  | 'patient.search'
+  | 'patient.view'
+  | 'patient.create'
+  | 'patient.update'
+  | 'patient.import'
+  | 'patient.export'
+  | 'appointment.list'
+  | 'appointment.book'
+  | 'appointment.confirm'
+  | 'appointment.cancel'
+  | 'appointment.reschedule'
+  | 'waitlist.view'
+  | 'waitlist.add'
+  | 'waitlist.update';
+
+export interface AuditLogEntry {
+  id: number;
+  created_at: string;
+  user_id: number | null;
+  user_email: string | null;
+  environment: string;
+  action: AuditAction;
+  patient_guid: string | null;
+  appointment_guid: string | null;
+  outcome: 'success' | 'failure';
+  status_code: number;
+  error_message: string | null;
+  details: string | null;
+  ip_address: string | null;
+}
+
+export interface AuditLogFilters {
+  userId?: number;
+  patientGuid?: string;
+  action?: AuditAction;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLogResponse {
+  status: string;
+  data: {
+    entries: AuditLogEntry[];
+    total: number;
+    limit: number;
+    offset: number;
+  };
+}
+
 // Tab keys constant
 export const TAB_KEYS = [
   'dashboard',
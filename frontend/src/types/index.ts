@@ -9,6 +9,9 @@ export type {
   CreatePatientRequest,
   UpdatePatientRequest,
   PatientSearchResponse,
+  PatientImportRowStatus,
+  PatientImportRowResult,
+  PatientImportReport,
 } from '../../../shared/types/Patient';
 
 export type {
@@ -21,9 +24,15 @@ export type {
   AvailableSlot,
   GetAvailableApptsParams,
   AvailableApptsResponse,
+  AvailabilityCellState,
+  GetAvailabilityGridParams,
+  AvailabilityChairRow,
+  AvailabilityGrid,
   GetAppointmentsParams,
   ConfirmAppointmentRequest,
   CancelAppointmentRequest,
+  RescheduleAppointmentRequest,
+  RescheduleAppointmentResult,
 } from '../../../shared/types/Appointment';
 
 export type {
@@ -31,6 +40,14 @@ export type {
   LocationListResponse,
 } from '../../../shared/types/Location';
 
+export type {
+  WaitlistEntry,
+  WaitlistStatus,
+  WaitlistMatchedSlot,
+  TimeOfDayPreference,
+  CreateWaitlistEntryRequest,
+} from '../../../shared/types/Waitlist';
+
 // Export frontend-specific types
 export * from './api.types';
 export * from './ui.types';
@@ -14,6 +14,18 @@ export interface TestRun {
   failed: number;
   skipped: number;
   summary?: Record<string, any>;
+  /** 'contract' for Node-RED endpoint contract runs */
+  runType?: 'goal' | 'contract';
+  /** LLM usage recorded for the run (null if none was recorded) */
+  usage?: RunLLMUsage | null;
+}
+
+export interface RunLLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  /** Estimated cost per generation purpose (semantic-evaluation, response-generation, ...) */
+  costByPurpose: Record<string, number>;
 }
 
 export interface TestResult {
@@ -189,6 +201,8 @@ export interface ExecutionConfig {
   retryFailed: boolean;
   timeoutMs: number;
   enableSemanticEval: boolean;
+  /** Stop the run once its estimated LLM cost exceeds this many USD */
+  budgetUsd?: number;
 }
 
 export interface WorkerStatus {
@@ -205,6 +219,13 @@ export interface ExecutionProgress {
   passed: number;
   failed: number;
   skipped: number;
+  /** LLM usage so far in the running execution */
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    budgetUsd?: number;
+  };
 }
 
 // Enhanced execution metrics for parallel execution optimization
@@ -264,6 +285,52 @@ export interface StartExecutionResponse {
   status: 'started';
 }
 
+// Scheduled Run Types
+export interface TestSchedule {
+  id: number;
+  name: string;
+  cronExpression: string;
+  scenarioIds: string[];
+  category: string | null;
+  concurrency: number;
+  flowiseConfigId: number | null;
+  enabled: boolean;
+  /** Alert when the pass rate is this many percentage points below the recent average */
+  alertDropThreshold: number;
+  /** Number of previous completed runs the pass rate is compared against */
+  comparisonWindow: number;
+  alertWebhookUrl: string | null;
+  alertEmails: string[];
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduledRun {
+  id: number;
+  scheduleId: number;
+  executionRunId: string | null;
+  testRunId: string | null;
+  trigger: 'cron' | 'manual';
+  status: 'running' | 'completed' | 'failed' | 'skipped';
+  startedAt: string;
+  completedAt: string | null;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  passRate: number | null;
+  baselinePassRate: number | null;
+  alertSent: boolean;
+  message: string | null;
+}
+
+export interface TestScheduleWithRuns extends TestSchedule {
+  runs: ScheduledRun[];
+}
+
+export type TestScheduleInput = Partial<Omit<TestSchedule, 'id' | 'lastRunAt' | 'nextRunAt' | 'createdAt' | 'updatedAt'>>;
+
 // Analytics Types
 export interface TrendDataPoint {
   date: string;
@@ -410,6 +477,17 @@ export interface PersonaTraitsDTO {
   providesExtraInfo: TristateValue;
   patienceLevel?: 'patient' | 'moderate' | 'impatient';
   techSavviness?: 'low' | 'moderate' | 'high';
+  /** Language the persona speaks on the call (default 'en') */
+  language?: 'en' | 'es';
+  /** Simulated speech-recognition noise and keypad input; rates are 0-1 */
+  voice?: {
+    spokenDigits?: boolean;
+    spokenEmails?: boolean;
+    nameHomophoneRate?: number;
+    wordDropRate?: number;
+    dtmfRate?: number;
+    seed?: number;
+  };
 }
 
 /**
@@ -504,11 +582,19 @@ export interface GoalTestCaseRecord {
   responseConfig: ResponseConfigDTO;
   initialMessage: string;
   isArchived: boolean;
+  /** Share of recent same-prompt-version runs where the result flipped (0-1); absent until the test has run */
+  flakyScore?: number;
+  /** Quarantined tests still run but are excluded from the run pass rate and regression checks */
+  isQuarantined?: boolean;
+  quarantineReason?: string;
   version: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Flaky score at which a goal test is flagged as flaky */
+export const FLAKY_SCORE_THRESHOLD = 0.2;
+
 // ============================================================================
 // DYNAMIC FIELD TYPES
 // ============================================================================
@@ -1086,6 +1172,16 @@ export interface ProductionSessionDetailResponse {
   apiCalls: any[];
 }
 
+/**
+ * Goal test created from a production session
+ */
+export interface SessionGoalTestResult {
+  testCase: GoalTestCaseRecord;
+  toolActions: { tool: string; action: string; failed: boolean }[];
+  /** Persona fields not found in the call and filled with defaults */
+  defaultedFields: string[];
+}
+
 // ============================================================================
 // Trace Insights Types
 // ============================================================================
@@ -17,6 +17,7 @@ export const ROUTES = {
   APPOINTMENTS: '/appointments',
   APPOINTMENT_NEW: '/appointments/new',
   CALENDAR: '/calendar',
+  AVAILABILITY: '/availability',
   SETTINGS: '/settings',
   TEST_MONITOR: '/test-monitor',
   TEST_MONITOR_DASHBOARD: '/test-monitor',
@@ -46,6 +47,7 @@ export const API_CONFIG = {
   DEFAULT_ENVIRONMENT: (import.meta.env.VITE_DEFAULT_ENVIRONMENT || 'sandbox') as 'sandbox' | 'production',
   TIMEOUT: 30000, // 30 seconds
   AI_TIMEOUT: 600000, // 10 minutes for AI enhancement operations (large prompts need more time)
+  IMPORT_TIMEOUT: 600000, // 10 minutes for bulk imports (one Cloud 9 lookup + create per row)
 } as const;
 
 /**
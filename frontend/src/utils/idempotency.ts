@@ -0,0 +1,20 @@
+/**
+ * Idempotency Key Utility
+ * Keys the backend uses to recognise a retried or double-submitted write
+ */
+
+/**
+ * Generate a new idempotency key
+ * crypto.randomUUID is only available in secure contexts (HTTPS or localhost),
+ * so plain-HTTP deployments fall back to a random, non-cryptographic ID
+ * @returns Unique key string
+ *
+ * @example
+ * newIdempotencyKey() // => '3b241101-e2bb-4255-8caf-4136c566a962'
+ */
+export function newIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}-${Math.random().toString(36).slice(2, 10)}`;
+}
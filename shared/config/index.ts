@@ -7,5 +7,12 @@ export {
   getLLMConfig,
   getApiKey,
   hasLLMProvider,
+  getLLMBackendRoute,
+  getOpenAICompatibleConfig,
+  getLLMFixtureConfig,
   type LLMConfig,
+  type LLMBackendType,
+  type LLMBackendRoute,
+  type OpenAICompatibleConfig,
+  type LLMFixtureConfig,
 } from './llm-config';
@@ -7,6 +7,7 @@ import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type { GenerationPurpose } from '../types/langfuse.types';
 
 // Load environment variables
 dotenv.config();
@@ -22,6 +23,33 @@ export interface LLMConfig {
   timeout: number;
 }
 
+/**
+ * LLM backends LLMProvider can route a call to
+ * - claude: Anthropic API or Claude CLI (USE_CLAUDE_CLI)
+ * - openai-compatible: any /v1/chat/completions server (llama.cpp, Ollama, vLLM, ...)
+ * - fixture: canned responses keyed by prompt hash, for offline runs
+ */
+export type LLMBackendType = 'claude' | 'openai-compatible' | 'fixture';
+
+export interface LLMBackendRoute {
+  backend: LLMBackendType;
+  /** Model for this purpose; replaces the model the caller asked for */
+  model?: string;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeout: number;
+}
+
+export interface LLMFixtureConfig {
+  directory: string;
+  /** Record missing fixtures by calling the Claude backend */
+  record: boolean;
+}
+
 interface ClaudeCredentials {
   claudeAiOauth?: {
     accessToken: string;
@@ -147,6 +175,64 @@ export function getLLMConfig(): LLMConfig {
   };
 }
 
+const LLM_BACKEND_TYPES: LLMBackendType[] = ['claude', 'openai-compatible', 'fixture'];
+
+/**
+ * Read a backend name from the environment, ignoring unknown values
+ */
+function parseBackendType(envVar: string): LLMBackendType | undefined {
+  const value = process.env[envVar]?.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+  if (!LLM_BACKEND_TYPES.includes(value as LLMBackendType)) {
+    console.warn(`[LLMConfig] Unknown ${envVar} "${value}", expected one of: ${LLM_BACKEND_TYPES.join(', ')}`);
+    return undefined;
+  }
+  return value as LLMBackendType;
+}
+
+/**
+ * Get the backend (and model) for a generation purpose
+ *
+ * LLM_BACKEND sets the default backend. Each purpose can be routed on its own
+ * with LLM_BACKEND_<PURPOSE> and LLM_MODEL_<PURPOSE>, e.g.
+ * LLM_BACKEND_RESPONSE_GENERATION=openai-compatible or
+ * LLM_MODEL_FAILURE_ANALYSIS=claude-opus-4-5
+ */
+export function getLLMBackendRoute(purpose: GenerationPurpose = 'generic-llm-call'): LLMBackendRoute {
+  const suffix = purpose.toUpperCase().replace(/-/g, '_');
+  const model = process.env[`LLM_MODEL_${suffix}`]?.trim();
+
+  return {
+    backend: parseBackendType(`LLM_BACKEND_${suffix}`) || parseBackendType('LLM_BACKEND') || 'claude',
+    model: model || undefined,
+  };
+}
+
+/**
+ * Get the OpenAI-compatible backend configuration
+ * Defaults to a local Ollama server
+ */
+export function getOpenAICompatibleConfig(): OpenAICompatibleConfig {
+  return {
+    baseUrl: (process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_COMPAT_API_KEY || undefined,
+    model: process.env.OPENAI_COMPAT_MODEL || 'llama3.1',
+    timeout: parseInt(process.env.OPENAI_COMPAT_TIMEOUT_MS || '', 10) || 120000,
+  };
+}
+
+/**
+ * Get the fixture backend configuration
+ */
+export function getLLMFixtureConfig(): LLMFixtureConfig {
+  return {
+    directory: path.resolve(process.env.LLM_FIXTURE_DIR || path.join('fixtures', 'llm')),
+    record: process.env.LLM_FIXTURE_RECORD === 'true',
+  };
+}
+
 /**
  * Get the API key/token for LLM access
  * Priority:
@@ -174,6 +260,11 @@ export function getApiKey(): string | undefined {
  * Check if any LLM provider is available (CLI or API)
  */
 export function hasLLMProvider(): boolean {
+  const backend = parseBackendType('LLM_BACKEND');
+  if (backend && backend !== 'claude') {
+    // Local and fixture backends need no credentials
+    return true;
+  }
   if (isClaudeCliEnabled()) {
     // CLI mode - will check availability at runtime
     return true;
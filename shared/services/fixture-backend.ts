@@ -0,0 +1,119 @@
+/**
+ * Fixture Backend
+ * Deterministic LLM responses for offline runs (CI). Each response is a JSON
+ * file named by the hash of the request's purpose, system prompt and prompt.
+ *
+ * With LLM_FIXTURE_RECORD=true, missing fixtures are recorded by calling the
+ * Claude backend, so a suite can be recorded once and replayed offline.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMFixtureConfig } from '../config/llm-config';
+import type { LLMBackend, LLMProviderStatus, LLMRequest, LLMResponse } from './llm-provider';
+
+export interface LLMFixture {
+  hash: string;
+  purpose: string;
+  /** Start of the prompt, to tell fixtures apart when reviewing them */
+  promptPreview: string;
+  content: string;
+  recordedAt: string;
+}
+
+/** Prompt characters kept in a fixture's preview */
+const PROMPT_PREVIEW_LENGTH = 200;
+
+/**
+ * Hash identifying a request's fixture
+ * The model is left out so re-routing a purpose to another model keeps its fixtures
+ */
+export function hashLLMRequest(request: Pick<LLMRequest, 'prompt' | 'systemPrompt' | 'purpose'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([request.purpose || 'generic-llm-call', request.systemPrompt || '', request.prompt]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+export class FixtureBackend implements LLMBackend {
+  readonly name = 'fixture' as const;
+
+  constructor(
+    private config: LLMFixtureConfig,
+    private recorder?: LLMBackend
+  ) {
+    console.log(`[LLMProvider] Initialized fixture backend at ${config.directory}${recorder ? ' (recording)' : ''}`);
+  }
+
+  async checkAvailability(): Promise<LLMProviderStatus> {
+    if (this.isAvailable()) {
+      return { available: true, provider: 'fixture' };
+    }
+    return {
+      available: false,
+      provider: 'none',
+      error: `LLM fixture directory not found: ${this.config.directory}`,
+    };
+  }
+
+  isAvailable(): boolean {
+    return !!this.recorder || fs.existsSync(this.config.directory);
+  }
+
+  async execute(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const hash = hashLLMRequest(request);
+    const fixturePath = path.join(this.config.directory, `${hash}.json`);
+
+    if (fs.existsSync(fixturePath)) {
+      try {
+        const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as LLMFixture;
+        return {
+          success: true,
+          content: fixture.content,
+          provider: 'fixture',
+          durationMs: Date.now() - startTime,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Invalid LLM fixture ${fixturePath}: ${error.message}`,
+          provider: 'fixture',
+          durationMs: Date.now() - startTime,
+        };
+      }
+    }
+
+    if (this.recorder) {
+      const response = await this.recorder.execute(request);
+      if (response.success && response.content !== undefined) {
+        this.writeFixture(fixturePath, {
+          hash,
+          purpose: request.purpose || 'generic-llm-call',
+          promptPreview: request.prompt.substring(0, PROMPT_PREVIEW_LENGTH),
+          content: response.content,
+          recordedAt: new Date().toISOString(),
+        });
+      }
+      return response;
+    }
+
+    return {
+      success: false,
+      error: `No LLM fixture for ${request.purpose || 'generic-llm-call'} request ${hash} in ${this.config.directory}`,
+      provider: 'fixture',
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  private writeFixture(fixturePath: string, fixture: LLMFixture): void {
+    try {
+      fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+      fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+    } catch (error: any) {
+      console.warn(`[LLMProvider] Failed to record LLM fixture ${fixturePath}: ${error.message}`);
+    }
+  }
+}
@@ -14,13 +14,36 @@ export {
 // LLM Provider
 export {
   LLMProvider,
+  ClaudeBackend,
   getLLMProvider,
   resetLLMProvider,
   type LLMRequest,
   type LLMResponse,
   type LLMProviderStatus,
+  type LLMProviderType,
+  type LLMBackend,
 } from './llm-provider';
 
+// LLM Backends
+export { OpenAICompatibleBackend } from './openai-compatible-backend';
+export {
+  FixtureBackend,
+  hashLLMRequest,
+  type LLMFixture,
+} from './fixture-backend';
+
+// LLM Usage Tracking
+export {
+  estimateLLMCost,
+  runWithUsageScope,
+  getCurrentUsageScope,
+  onLLMUsage,
+  reportLLMUsage,
+  type LLMUsageScope,
+  type LLMUsageEvent,
+  type LLMUsageListener,
+} from './llm-usage';
+
 // Langfuse Service
 export {
   LangfuseService,
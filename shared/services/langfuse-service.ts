@@ -153,7 +153,10 @@ export class LangfuseService {
 
       const response = await fetch(
         'http://localhost:3001/api/test-monitor/app-settings/langfuse-config',
-        { signal: controller.signal }
+        {
+          signal: controller.signal,
+          headers: { 'X-Service-Key': process.env.SERVICE_API_KEY || '' },
+        }
       );
       clearTimeout(timeoutId);
 
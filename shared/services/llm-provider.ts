@@ -1,20 +1,34 @@
 /**
  * LLM Provider Abstraction
- * Strategy pattern to switch between Claude CLI and Anthropic API
+ * Strategy pattern to route calls to an LLM backend per GenerationPurpose:
+ * Claude (CLI or Anthropic API), an OpenAI-compatible server, or fixtures
  * Enhanced with Langfuse tracing for comprehensive observability
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { claudeCliService, ClaudeCliRequest } from './claude-cli-service';
-import { getLLMConfig, isClaudeCliEnabled, getApiKey } from '../config/llm-config';
+import {
+  getLLMConfig,
+  isClaudeCliEnabled,
+  getApiKey,
+  getLLMBackendRoute,
+  getOpenAICompatibleConfig,
+  getLLMFixtureConfig,
+  type LLMBackendType,
+} from '../config/llm-config';
+import { OpenAICompatibleBackend } from './openai-compatible-backend';
+import { FixtureBackend } from './fixture-backend';
 import { getLangfuseService } from './langfuse-service';
 import { getCurrentTraceContext } from './langfuse-context';
+import { reportLLMUsage } from './llm-usage';
 import type { GenerationPurpose } from '../types/langfuse.types';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+export type LLMProviderType = 'api' | 'cli' | 'openai-compatible' | 'fixture' | 'none';
+
 export interface LLMRequest {
   prompt: string;
   model?: string;
@@ -36,13 +50,13 @@ export interface LLMResponse {
     inputTokens: number;
     outputTokens: number;
   };
-  provider: 'api' | 'cli' | 'none';
+  provider: LLMProviderType;
   durationMs?: number;
 }
 
 export interface LLMProviderStatus {
   available: boolean;
-  provider: 'api' | 'cli' | 'none';
+  provider: LLMProviderType;
   error?: string;
   cliStatus?: {
     installed: boolean;
@@ -51,11 +65,23 @@ export interface LLMProviderStatus {
   };
 }
 
+/**
+ * A backend LLMProvider can route requests to
+ */
+export interface LLMBackend {
+  readonly name: LLMBackendType;
+  checkAvailability(): Promise<LLMProviderStatus>;
+  /** Sync check based on config */
+  isAvailable(): boolean;
+  execute(request: LLMRequest): Promise<LLMResponse>;
+}
+
 // ============================================================================
-// LLM Provider
+// Claude Backend
 // ============================================================================
 
-export class LLMProvider {
+export class ClaudeBackend implements LLMBackend {
+  readonly name = 'claude' as const;
   private anthropicClient: Anthropic | null = null;
   private useCliMode: boolean;
 
@@ -285,6 +311,14 @@ export class LLMProvider {
         }
       }
 
+      reportLLMUsage({
+        purpose: request.purpose || 'generic-llm-call',
+        provider: 'api',
+        model,
+        inputTokens: response.usage?.input_tokens || 0,
+        outputTokens: response.usage?.output_tokens || 0,
+      });
+
       return {
         success: true,
         content,
@@ -384,6 +418,16 @@ export class LLMProvider {
       }
     }
 
+    if (cliResponse.usage) {
+      reportLLMUsage({
+        purpose: request.purpose || 'generic-llm-call',
+        provider: 'cli',
+        model: request.model || getLLMConfig().defaultModel,
+        inputTokens: cliResponse.usage.inputTokens,
+        outputTokens: cliResponse.usage.outputTokens,
+      });
+    }
+
     return {
       success: cliResponse.success,
       content: cliResponse.result,
@@ -395,6 +439,76 @@ export class LLMProvider {
   }
 }
 
+// ============================================================================
+// LLM Provider
+// ============================================================================
+
+export class LLMProvider {
+  private backends = new Map<LLMBackendType, LLMBackend>();
+
+  /**
+   * Get (creating on first use) a backend, so backends that are never routed
+   * to never load credentials or log about them
+   */
+  getBackend(type: LLMBackendType): LLMBackend {
+    let backend = this.backends.get(type);
+    if (!backend) {
+      switch (type) {
+        case 'openai-compatible':
+          backend = new OpenAICompatibleBackend(getOpenAICompatibleConfig());
+          break;
+        case 'fixture': {
+          const fixtureConfig = getLLMFixtureConfig();
+          backend = new FixtureBackend(fixtureConfig, fixtureConfig.record ? this.getBackend('claude') : undefined);
+          break;
+        }
+        default:
+          backend = new ClaudeBackend();
+      }
+      this.backends.set(type, backend);
+    }
+    return backend;
+  }
+
+  /**
+   * Get the backend name a purpose is routed to
+   */
+  getBackendName(purpose?: GenerationPurpose): LLMBackendType {
+    return getLLMBackendRoute(purpose).backend;
+  }
+
+  /**
+   * Check if LLM is available for a purpose (default route when omitted)
+   */
+  async checkAvailability(purpose?: GenerationPurpose): Promise<LLMProviderStatus> {
+    return this.getBackend(this.getBackendName(purpose)).checkAvailability();
+  }
+
+  /**
+   * Check if the provider is available (sync check based on config)
+   */
+  isAvailable(purpose?: GenerationPurpose): boolean {
+    return this.getBackend(this.getBackendName(purpose)).isAvailable();
+  }
+
+  /**
+   * Get the current Claude mode
+   */
+  getMode(): 'cli' | 'api' {
+    return isClaudeCliEnabled() ? 'cli' : 'api';
+  }
+
+  /**
+   * Execute an LLM request on the backend routed for its purpose
+   */
+  async execute(request: LLMRequest): Promise<LLMResponse> {
+    const route = getLLMBackendRoute(request.purpose);
+    // Callers name Claude models; other backends use their own model unless the route sets one
+    const model = route.model || (route.backend === 'claude' ? request.model : undefined);
+    return this.getBackend(route.backend).execute({ ...request, model });
+  }
+}
+
 // ============================================================================
 // Singleton Factory
 // ============================================================================
@@ -0,0 +1,121 @@
+/**
+ * LLM Usage Tracking
+ * Reports the token usage of every LLMProvider call, with an estimated cost,
+ * to registered listeners. Calls are attributed to the run/test scope they
+ * were made in so test runs can account for (and cap) their spend.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getCurrentTraceContext } from './langfuse-context';
+import type { GenerationPurpose } from '../types/langfuse.types';
+import type { LLMProviderType } from './llm-provider';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LLMUsageScope {
+  runId: string;
+  testId?: string;
+}
+
+export interface LLMUsageEvent {
+  runId?: string;
+  testId?: string;
+  purpose: GenerationPurpose;
+  provider: Exclude<LLMProviderType, 'none'>;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export type LLMUsageListener = (event: LLMUsageEvent) => void;
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * List prices in USD per million tokens, first match on the model name wins.
+ * CLI calls are billed to a subscription, but are estimated the same way so
+ * runs are comparable whichever provider served them.
+ */
+const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus-4-5', input: 5, output: 25 },
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'sonnet', input: 3, output: 15 },
+  { match: 'haiku-4-5', input: 1, output: 5 },
+  { match: 'haiku', input: 0.8, output: 4 },
+];
+
+/** Unknown models are priced like Sonnet */
+const FALLBACK_PRICING = { input: 3, output: 15 };
+
+/**
+ * Estimate the cost of a Claude call in USD
+ */
+export function estimateLLMCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = MODEL_PRICING.find(p => model.includes(p.match)) || FALLBACK_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+// ============================================================================
+// Scope + Listeners
+// ============================================================================
+
+const usageScopeStorage = new AsyncLocalStorage<LLMUsageScope>();
+const listeners = new Set<LLMUsageListener>();
+
+/**
+ * Run a function with LLM usage attributed to a run (and optionally a test)
+ */
+export function runWithUsageScope<T>(scope: LLMUsageScope, fn: () => T | Promise<T>): Promise<T> {
+  return usageScopeStorage.run(scope, async () => fn());
+}
+
+/**
+ * Get the current usage scope, falling back to the Langfuse trace context
+ */
+export function getCurrentUsageScope(): Partial<LLMUsageScope> {
+  const scope = usageScopeStorage.getStore();
+  if (scope) return scope;
+
+  const traceContext = getCurrentTraceContext();
+  return { runId: traceContext?.runId, testId: traceContext?.testId };
+}
+
+/**
+ * Subscribe to usage events
+ * Returns a function that removes the listener
+ */
+export function onLLMUsage(listener: LLMUsageListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Report the usage of a completed call (called by LLMProvider)
+ */
+export function reportLLMUsage(usage: Omit<LLMUsageEvent, 'runId' | 'testId' | 'costUsd'>): void {
+  if (listeners.size === 0) return;
+
+  const event: LLMUsageEvent = {
+    ...getCurrentUsageScope(),
+    ...usage,
+    // OpenAI-compatible backends are assumed self-hosted, so only Claude calls cost anything
+    costUsd: usage.provider === 'api' || usage.provider === 'cli'
+      ? estimateLLMCost(usage.model, usage.inputTokens, usage.outputTokens)
+      : 0,
+  };
+
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (e: any) {
+      console.warn(`[LLMUsage] Listener failed: ${e.message}`);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * OpenAI-Compatible Backend
+ * Sends LLMProvider requests to any server implementing /v1/chat/completions
+ * (llama.cpp server, Ollama, vLLM, LM Studio, ...)
+ */
+
+import type { OpenAICompatibleConfig } from '../config/llm-config';
+import { getLangfuseService } from './langfuse-service';
+import { getCurrentTraceContext } from './langfuse-context';
+import { reportLLMUsage } from './llm-usage';
+import type { LLMBackend, LLMProviderStatus, LLMRequest, LLMResponse } from './llm-provider';
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/** Timeout for the /models availability probe */
+const STATUS_TIMEOUT_MS = 5000;
+
+export class OpenAICompatibleBackend implements LLMBackend {
+  readonly name = 'openai-compatible' as const;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    console.log(`[LLMProvider] Initialized OpenAI-compatible backend at ${config.baseUrl} (model: ${config.model})`);
+  }
+
+  /**
+   * Check the server is reachable by listing its models
+   */
+  async checkAvailability(): Promise<LLMProviderStatus> {
+    try {
+      const response = await fetch(`${this.config.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(STATUS_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return {
+          available: false,
+          provider: 'none',
+          error: `OpenAI-compatible server returned ${response.status} ${response.statusText}`,
+        };
+      }
+      return { available: true, provider: 'openai-compatible' };
+    } catch (error: any) {
+      return {
+        available: false,
+        provider: 'none',
+        error: `OpenAI-compatible server not reachable at ${this.config.baseUrl}: ${error.message}`,
+      };
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!this.config.baseUrl;
+  }
+
+  async execute(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const model = request.model || this.config.model;
+
+    const langfuse = getLangfuseService();
+    const traceContext = getCurrentTraceContext();
+    let generation: any = null;
+
+    if (traceContext && await langfuse.ensureInitialized()) {
+      try {
+        generation = await langfuse.startGeneration({
+          name: 'llm-provider-openai-compatible',
+          traceId: traceContext.traceId,
+          parentObservationId: traceContext.parentObservationId,
+          model,
+          modelParameters: {
+            temperature: request.temperature ?? 0.2,
+            maxTokens: request.maxTokens || 4096,
+          },
+          input: {
+            prompt: request.prompt.substring(0, 1000),
+            systemPrompt: request.systemPrompt?.substring(0, 500),
+          },
+          metadata: {
+            provider: 'openai-compatible',
+            baseUrl: this.config.baseUrl,
+            purpose: request.purpose || 'generic-llm-call',
+            ...request.metadata,
+          },
+        });
+      } catch (e: any) {
+        console.warn(`[LLMProvider] Langfuse generation start failed: ${e.message}`);
+      }
+    }
+
+    const endGeneration = (output: Record<string, any>, usage?: { input: number; output: number }) => {
+      if (!generation) return;
+      try {
+        langfuse.endGeneration(generation.id, {
+          output,
+          usage: usage ? { ...usage, total: usage.input + usage.output } : undefined,
+          level: output.error ? 'ERROR' : 'DEFAULT',
+          statusMessage: output.error,
+        });
+      } catch (e: any) {
+        console.warn(`[LLMProvider] Langfuse generation end failed: ${e.message}`);
+      }
+    };
+
+    try {
+      const messages = [
+        ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+        { role: 'user', content: request.prompt },
+      ];
+
+      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers() },
+        body: JSON.stringify({
+          model,
+          messages,
+          max_tokens: request.maxTokens || 4096,
+          temperature: request.temperature ?? 0.2,
+          stream: false,
+        }),
+        signal: AbortSignal.timeout(request.timeout || this.config.timeout),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status} ${response.statusText}${body ? `: ${body.substring(0, 200)}` : ''}`);
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const content = data.choices?.[0]?.message?.content || '';
+      const inputTokens = data.usage?.prompt_tokens || 0;
+      const outputTokens = data.usage?.completion_tokens || 0;
+
+      endGeneration({ content: content.substring(0, 1000) }, { input: inputTokens, output: outputTokens });
+
+      reportLLMUsage({
+        purpose: request.purpose || 'generic-llm-call',
+        provider: 'openai-compatible',
+        model,
+        inputTokens,
+        outputTokens,
+      });
+
+      return {
+        success: true,
+        content,
+        usage: { inputTokens, outputTokens },
+        provider: 'openai-compatible',
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error: any) {
+      endGeneration({ error: error.message });
+
+      return {
+        success: false,
+        error: error.message,
+        provider: 'openai-compatible',
+        durationMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+  }
+}
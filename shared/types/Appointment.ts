@@ -119,12 +119,46 @@ export interface AvailableApptsResponse {
   count: number;
 }
 
+// Availability grid (chairs × time blocks for one location's week)
+export type AvailabilityCellState = 'open' | 'booked' | 'closed';
+
+export interface GetAvailabilityGridParams {
+  locationGuid: string;
+  weekStart: string; // YYYY-MM-DD
+  appointmentTypeGuid?: string; // only count openings long enough for this type
+  blockMinutes?: 15 | 30 | 60;
+}
+
+export interface AvailabilityChairRow {
+  scheduleViewGuid: string;
+  scheduleViewDescription: string;
+  scheduleColumnGuid: string;
+  scheduleColumnDescription: string;
+  cells: AvailabilityCellState[][]; // [dayIndex][blockIndex]
+  openBlocks: number;
+  bookedBlocks: number;
+}
+
+export interface AvailabilityGrid {
+  locationGuid: string;
+  weekStart: string;
+  weekEnd: string;
+  blockMinutes: number;
+  days: string[]; // YYYY-MM-DD
+  times: string[]; // HH:mm block start times
+  chairs: AvailabilityChairRow[];
+  unplacedAppointments: number; // appointments without a chair GUID
+}
+
 export interface GetAppointmentsParams {
   startDate?: string;
   endDate?: string;
   status?: string;
   locationGuid?: string;
-  providerGuid?: string;
+  providerGuid?: string; // orthodontist, schedule view or chair GUID
+  appointmentTypeGuid?: string;
+  page?: number; // omit to fetch every page
+  pageSize?: number;
 }
 
 export interface ConfirmAppointmentRequest {
@@ -134,3 +168,24 @@ export interface ConfirmAppointmentRequest {
 export interface CancelAppointmentRequest {
   appointmentGuid: string;
 }
+
+export interface RescheduleAppointmentRequest {
+  appointmentGuid: string; // appointment being moved
+  patientGuid: string;
+  startTime: string; // Format: MM/DD/YYYY hh:mm:ss AM/PM
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  appointmentTypeGuid?: string; // defaults to the original's
+  durationMinutes?: number; // defaults to the original's
+}
+
+export interface RescheduleAppointmentResult {
+  originalAppointmentGuid: string;
+  appointmentGuid: string; // the new booking
+  previousDateTime: string;
+  newDateTime: string;
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  appointmentTypeGuid: string;
+  durationMinutes: number;
+}
@@ -62,3 +62,26 @@ export interface PatientSearchResponse {
   };
   environment: string;
 }
+
+// Bulk CSV import
+export type PatientImportRowStatus = 'valid' | 'created' | 'duplicate' | 'invalid' | 'failed';
+
+export interface PatientImportRowResult {
+  row: number; // line in the file (the header is line 1)
+  firstName: string;
+  lastName: string;
+  birthdate: string;
+  status: PatientImportRowStatus;
+  errors: string[];
+  locationGuid?: string;
+  providerGuid?: string;
+  patientGuid?: string; // created patient
+  duplicateOf?: string; // existing PatientGUID, or "row N" for a repeat within the file
+}
+
+export interface PatientImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  summary: Record<PatientImportRowStatus, number>;
+  rows: PatientImportRowResult[];
+}
@@ -0,0 +1,53 @@
+/**
+ * Shared Waitlist types
+ * Used by both frontend and backend
+ */
+
+export type WaitlistStatus = 'waiting' | 'matched' | 'booked' | 'removed' | 'expired';
+export type TimeOfDayPreference = 'any' | 'morning' | 'afternoon';
+
+export interface WaitlistMatchedSlot {
+  dateTime: string;
+  endTime: string;
+  scheduleViewGuid: string;
+  scheduleColumnGuid: string;
+  scheduleViewDescription?: string;
+  scheduleColumnDescription?: string;
+  durationMinutes: number;
+  locationGuid: string;
+  appointmentTypeGuid?: string;
+}
+
+export interface WaitlistEntry {
+  id: number;
+  environment: string;
+  tenant: string | null; // practice (X-Tenant), or null for the environment's default
+  patient_guid: string;
+  patient_name: string | null;
+  location_guid: string;
+  appointment_type_guid: string;
+  provider_guid: string | null;
+  earliest_date: string; // YYYY-MM-DD
+  latest_date: string; // YYYY-MM-DD
+  time_of_day: TimeOfDayPreference;
+  notes: string | null;
+  status: WaitlistStatus;
+  matched_slots: WaitlistMatchedSlot[];
+  matched_at: string | null;
+  last_checked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateWaitlistEntryRequest {
+  patientGuid: string;
+  patientName?: string;
+  locationGuid: string;
+  appointmentTypeGuid: string;
+  providerGuid?: string;
+  earliestDate: string; // YYYY-MM-DD
+  latestDate: string; // YYYY-MM-DD
+  timeOfDay: TimeOfDayPreference;
+  notes?: string;
+}
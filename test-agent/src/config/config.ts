@@ -5,7 +5,9 @@
 export const config = {
   // Flowise API Configuration
   flowise: {
-    endpoint: 'https://app.c1elly.ai/api/v1/prediction/5f1fa57c-e6fd-463c-ac6e-c73fd5fb578b',
+    endpoint: process.env.FLOWISE_ENDPOINT || 'https://app.c1elly.ai/api/v1/prediction/5f1fa57c-e6fd-463c-ac6e-c73fd5fb578b',
+    // FLOWISE_ENDPOINT_OVERRIDE wins over the backend's active config (e.g. the local stub in CI)
+    endpointOverride: process.env.FLOWISE_ENDPOINT_OVERRIDE || '',
     timeout: 90000, // 90 seconds - increased to allow for Cloud9 API retries
     retryAttempts: 2, // Reduced to 2 - scheduling tool handles internal retries
     retryDelay: 1000, // 1 second
@@ -15,6 +17,25 @@ export const config = {
   backend: {
     baseUrl: process.env.BACKEND_URL || 'http://localhost:3001',
     timeout: 30000, // 30 seconds
+    serviceKey: process.env.SERVICE_API_KEY || '', // Must match backend SERVICE_API_KEY
+    // Cloud 9 environment the backend should use: sandbox, production or mock (local stand-in for CI)
+    cloud9Environment: process.env.CLOUD9_ENVIRONMENT || 'sandbox',
+  },
+
+  // Node-RED Contract Tests (/chord/ortho endpoints called by the Flowise tools)
+  noderedContracts: {
+    // Root the flow's `http in` paths hang off, e.g. https://host/FabricWorkflow/api
+    baseUrl: process.env.NODERED_BASE_URL || '',
+    // Basic auth the Flowise tools send (httpNodeAuth)
+    username: process.env.NODERED_HTTP_USERNAME || '',
+    password: process.env.NODERED_HTTP_PASSWORD || '',
+    timeout: 90000, // phone lookups check patients one by one
+    // Seed data for read-only runs (write cases create their own patient)
+    patientFilter: process.env.NODERED_CONTRACT_PATIENT_FILTER || '',
+    patientGUID: process.env.NODERED_CONTRACT_PATIENT_GUID || '',
+    // Local runtime (--local): Node-RED executable and port for the V1 flow file
+    localBin: process.env.NODERED_BIN || 'node-red',
+    localPort: Number(process.env.NODERED_LOCAL_PORT) || 1881,
   },
 
   // Database Configuration
@@ -11,9 +11,13 @@ import { Cloud9Client } from './cloud9-client';
 import { TestRunner } from '../tests/test-runner';
 import { ResponseAnalyzer } from '../analysis/response-analyzer';
 import { RecommendationEngine, Recommendation } from '../analysis/recommendation-engine';
-import { Database, TestRun, TestResult } from '../storage/database';
+import { Database, TestRun, TestResult, getBaseTestId } from '../storage/database';
 import { ConsoleReporter } from '../reporters/console-reporter';
 import { MarkdownReporter } from '../reporters/markdown-reporter';
+import { JUnitReporter } from '../reporters/junit-reporter';
+import { FindingsExporter } from '../reporters/findings-exporter';
+import { loadRunExportData } from '../reporters/run-export';
+import { RunUsageTracker } from '../services/run-usage-tracker';
 import { TestCase, TestContext } from '../tests/test-case';
 import { allScenarios } from '../tests/scenarios';
 import {
@@ -21,6 +25,7 @@ import {
   runWithTrace,
   createTraceContext,
   scoreTestRun,
+  runWithUsageScope,
 } from '../../../shared/services';
 import {
   AdaptiveConcurrencyManager,
@@ -39,6 +44,9 @@ export interface AgentOptions {
   adaptiveConfig?: Partial<ConcurrencyConfig>; // Adaptive scaling configuration
 }
 
+export type ReportFormat = 'markdown' | 'json' | 'junit' | 'sarif';
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'json', 'junit', 'sarif'];
+
 export interface WorkerStatus {
   workerId: number;
   status: 'idle' | 'running' | 'completed' | 'error';
@@ -63,6 +71,8 @@ export interface TestSuiteResult {
   skipped: number;
   duration: number;
   results: TestResult[];
+  /** Quarantined tests that ran but are left out of the counts above */
+  quarantined?: number;
   langfuseTraceId?: string;
 }
 
@@ -75,6 +85,8 @@ export class TestAgent extends EventEmitter {
   private database: Database;
   private consoleReporter: ConsoleReporter;
   private markdownReporter: MarkdownReporter;
+  private junitReporter: JUnitReporter;
+  private findingsExporter: FindingsExporter;
   private initialized: boolean = false;
 
   // Worker status tracking
@@ -98,6 +110,8 @@ export class TestAgent extends EventEmitter {
     this.database = new Database();
     this.consoleReporter = new ConsoleReporter();
     this.markdownReporter = new MarkdownReporter();
+    this.junitReporter = new JUnitReporter();
+    this.findingsExporter = new FindingsExporter();
   }
 
   /**
@@ -165,8 +179,11 @@ export class TestAgent extends EventEmitter {
     let scenarios = this.getScenarios(options);
     console.log(`Found ${scenarios.length} test scenarios to run\n`);
 
-    // Create test run record
+    // Create test run record; the backend launcher links scheduled runs by this ID
     const runId = this.database.createTestRun();
+    console.log(JSON.stringify({ type: 'run-started', runId }));
+    const usageTracker = new RunUsageTracker(this.database, runId);
+    usageTracker.start();
 
     // Initialize Langfuse trace for this run
     const langfuse = getLangfuseService();
@@ -229,27 +246,35 @@ export class TestAgent extends EventEmitter {
     };
 
     // Run with trace context if available
-    if (traceContext) {
-      results = await runWithTrace(traceContext, executeTests);
-    } else {
-      results = await executeTests();
+    try {
+      if (traceContext) {
+        results = await runWithTrace(traceContext, () => runWithUsageScope({ runId }, executeTests));
+      } else {
+        results = await runWithUsageScope({ runId }, executeTests);
+      }
+    } finally {
+      usageTracker.stop();
     }
 
     const duration = Date.now() - startTime;
 
-    // Calculate summary
+    // Calculate summary (quarantined tests ran but do not count toward the pass rate)
+    const quarantinedIds = this.database.getQuarantinedTestIds();
+    const counted = results.filter(r => !quarantinedIds.has(getBaseTestId(r.testId)));
     const summary: TestSuiteResult = {
       runId,
-      totalTests: results.length,
-      passed: results.filter(r => r.status === 'passed').length,
-      failed: results.filter(r => r.status === 'failed').length,
-      skipped: results.filter(r => r.status === 'skipped').length,
+      totalTests: counted.length,
+      passed: counted.filter(r => r.status === 'passed').length,
+      failed: counted.filter(r => r.status === 'failed').length,
+      skipped: counted.filter(r => r.status === 'skipped').length,
       duration,
       results,
+      quarantined: results.length - counted.length,
     };
 
     // Update run record
     this.database.completeTestRun(runId, summary);
+    this.database.updateTestHistoryStats(runId);
 
     // Score the test run in Langfuse
     if (trace) {
@@ -600,29 +625,43 @@ export class TestAgent extends EventEmitter {
   }
 
   /**
-   * Generate markdown report
+   * Generate a report for a run (defaults to the last run)
+   * - markdown/json: results plus recommendations
+   * - junit: JUnit XML for CI dashboards
+   * - sarif: findings, failed goals and constraint violations as SARIF
    */
-  async generateReport(format: 'markdown' | 'json' = 'markdown'): Promise<string> {
-    const lastRun = this.database.getLastTestRun();
-    if (!lastRun) {
-      return 'No test runs found.';
+  async generateReport(format: ReportFormat = 'markdown', runId?: string): Promise<string> {
+    const run = runId ? this.database.getTestRun(runId) : this.database.getLastTestRun();
+
+    if (format === 'junit' || format === 'sarif') {
+      const data = run && loadRunExportData(this.database, run.runId);
+      if (!data) {
+        throw new Error(runId ? `Run not found: ${runId}` : 'No test runs found.');
+      }
+      return format === 'junit'
+        ? this.junitReporter.generateReport(data)
+        : this.findingsExporter.generateReport(data);
     }
 
-    const results = this.database.getTestResults(lastRun.runId);
+    if (!run) {
+      return runId ? `Run not found: ${runId}` : 'No test runs found.';
+    }
+
+    const results = this.database.getTestResults(run.runId);
     const recommendations = await this.generateRecommendations(results);
 
     if (format === 'markdown') {
-      return this.markdownReporter.generateReport(lastRun, results, recommendations);
+      return this.markdownReporter.generateReport(run, results, recommendations);
     }
 
-    return JSON.stringify({ run: lastRun, results, recommendations }, null, 2);
+    return JSON.stringify({ run, results, recommendations }, null, 2);
   }
 
   /**
-   * Check for regressions compared to previous run
+   * Check for regressions compared to previous run (quarantined tests are ignored)
    */
   checkRegressions(): { test: string; type: string; details: string }[] {
-    const runs = this.database.getRecentRuns(2);
+    const runs = this.database.getRecentRuns(2, 'goal');
     if (runs.length < 2) {
       return [];
     }
@@ -630,10 +669,13 @@ export class TestAgent extends EventEmitter {
     const [currentRun, previousRun] = runs;
     const currentResults = this.database.getTestResults(currentRun.runId);
     const previousResults = this.database.getTestResults(previousRun.runId);
+    const quarantinedIds = this.database.getQuarantinedTestIds();
 
     const regressions: { test: string; type: string; details: string }[] = [];
 
     for (const current of currentResults) {
+      if (quarantinedIds.has(getBaseTestId(current.testId))) continue;
+
       const previous = previousResults.find(p => p.testId === current.testId);
 
       if (previous && previous.status === 'passed' && current.status === 'failed') {
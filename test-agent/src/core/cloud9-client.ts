@@ -1,6 +1,6 @@
 /**
  * Cloud 9 Sandbox Data Client
- * Fetches test data from the backend API (which connects to Cloud 9 sandbox)
+ * Fetches test data from the backend API (which connects to Cloud 9 sandbox, or the local mock)
  */
 
 import axios, { AxiosInstance } from 'axios';
@@ -66,7 +66,8 @@ export class Cloud9Client {
       timeout: config.backend.timeout,
       headers: {
         'Content-Type': 'application/json',
-        'X-Environment': 'sandbox',
+        'X-Environment': config.backend.cloud9Environment,
+        'X-Service-Key': config.backend.serviceKey,
       },
     });
     this.cache = { lastFetched: {} };
@@ -36,12 +36,34 @@ export interface FlowiseError {
   statusCode?: number;
 }
 
+/**
+ * One request/response pair captured in record mode and served back in replay mode
+ */
+export interface FlowiseExchange {
+  sessionId: string;
+  turnIndex: number;
+  question: string;
+  text: string;
+  toolCalls: ToolCall[];
+  responseTime: number;
+  rawResponse: any;
+}
+
+/**
+ * live: call Flowise; record: call Flowise and capture each exchange; replay: serve captured exchanges
+ */
+export type FlowiseTranscriptMode = 'live' | 'record' | 'replay';
+
 export class FlowiseClient {
   private client: AxiosInstance;
   private sessionId: string;
   private endpoint: string;
   private apiKey?: string;
   private sessionVars: Record<string, string>;
+  private mode: FlowiseTranscriptMode = 'live';
+  private turnIndex = 0;
+  private onExchange?: (exchange: FlowiseExchange) => void;
+  private replayQueue: FlowiseExchange[] = [];
 
   /**
    * Create a new FlowiseClient
@@ -111,6 +133,34 @@ export class FlowiseClient {
     }
   }
 
+  /**
+   * Create a FlowiseClient that serves recorded exchanges in order instead of calling Flowise
+   * @param exchanges - Exchanges captured by a client in record mode
+   */
+  static forReplay(exchanges: FlowiseExchange[], sessionId?: string): FlowiseClient {
+    const client = new FlowiseClient(sessionId || exchanges[0]?.sessionId, 'replay://recorded');
+    client.mode = 'replay';
+    client.replayQueue = [...exchanges].sort((a, b) => a.turnIndex - b.turnIndex);
+    return client;
+  }
+
+  /**
+   * Capture every live exchange from now on
+   * @param onExchange - Called after each successful response (e.g. to persist it)
+   */
+  startRecording(onExchange: (exchange: FlowiseExchange) => void): void {
+    this.mode = 'record';
+    this.turnIndex = 0;
+    this.onExchange = onExchange;
+  }
+
+  /**
+   * Get the transcript mode (live, record or replay)
+   */
+  getMode(): FlowiseTranscriptMode {
+    return this.mode;
+  }
+
   /**
    * Set session variables (for use after construction)
    */
@@ -123,6 +173,10 @@ export class FlowiseClient {
    * Includes Langfuse span tracking for observability
    */
   async sendMessage(question: string): Promise<FlowiseResponse> {
+    if (this.mode === 'replay') {
+      return this.replayNext(question);
+    }
+
     const startTime = Date.now();
 
     const payload = {
@@ -216,6 +270,18 @@ export class FlowiseClient {
           }
         }
 
+        if (this.mode === 'record') {
+          this.recordExchange({
+            sessionId: this.sessionId,
+            turnIndex: this.turnIndex++,
+            question,
+            text,
+            toolCalls,
+            responseTime,
+            rawResponse: response.data,
+          });
+        }
+
         return {
           text,
           sessionId: this.sessionId,
@@ -262,6 +328,47 @@ export class FlowiseClient {
     throw this.createError(lastError);
   }
 
+  /**
+   * Hand an exchange to the recorder; a failed write must not fail the conversation
+   */
+  private recordExchange(exchange: FlowiseExchange): void {
+    try {
+      this.onExchange?.(exchange);
+    } catch (e: any) {
+      console.warn(`[FlowiseClient] Failed to record exchange ${exchange.turnIndex}: ${e.message}`);
+    }
+  }
+
+  /**
+   * Serve the next recorded exchange. The question is not required to match, since
+   * LLM-generated caller responses can vary, but a mismatch is logged.
+   */
+  private async replayNext(question: string): Promise<FlowiseResponse> {
+    const exchange = this.replayQueue.shift();
+
+    if (!exchange) {
+      const error: FlowiseError = {
+        message: `No recorded response left to replay for: "${question.substring(0, 80)}"`,
+        code: 'REPLAY_EXHAUSTED',
+      };
+      throw error;
+    }
+
+    if (exchange.question.trim() !== question.trim()) {
+      console.warn(
+        `[FlowiseClient] Replay turn ${exchange.turnIndex} diverged: recorded "${exchange.question.substring(0, 60)}", sent "${question.substring(0, 60)}"`
+      );
+    }
+
+    return {
+      text: exchange.text,
+      sessionId: this.sessionId,
+      responseTime: exchange.responseTime,
+      rawResponse: exchange.rawResponse,
+      toolCalls: exchange.toolCalls,
+    };
+  }
+
   /**
    * Extract text from various Flowise response formats
    */
@@ -7,15 +7,19 @@
 
 import 'dotenv/config';
 import { Command } from 'commander';
-import { TestAgent } from './core/agent';
+import { TestAgent, REPORT_FORMATS } from './core/agent';
+import { config } from './config/config';
 import { ConsoleReporter } from './reporters/console-reporter';
 import { MarkdownReporter } from './reporters/markdown-reporter';
-import { Database } from './storage/database';
+import { Database, getBaseTestId } from './storage/database';
 import { getScenarioSummary, getScenarioById } from './tests/scenarios';
 import { AgentFailureAnalyzer } from './analysis/agent-failure-analyzer';
 import { FlowiseClient } from './core/flowise-client';
 import { GoalTestRunner } from './tests/goal-test-runner';
+import { NodeRedContractRunner } from './tests/contract-test-runner';
+import { startLocalNodeRed, LocalNodeRedRuntime } from './services/local-nodered-runtime';
 import { IntentDetector } from './services/intent-detector';
+import { RunUsageTracker } from './services/run-usage-tracker';
 import { goalHappyPathScenarios } from './tests/scenarios/goal-happy-path';
 import type { GoalOrientedTestCase } from './tests/types/goal-test';
 import type { TestResult } from './storage/database';
@@ -28,6 +32,7 @@ import {
   runWithTrace,
   createTraceContext,
   scoreTestRun,
+  runWithUsageScope,
 } from '../../shared/services';
 
 /**
@@ -79,6 +84,63 @@ interface WorkItem {
   maxRetries: number;
 }
 
+/**
+ * Flowise transcript handling for a goal test run
+ */
+interface TranscriptOptions {
+  /** Store every Flowise exchange so the run can be replayed later */
+  record?: boolean;
+  /** Serve Flowise responses recorded in this run instead of calling Flowise */
+  replayRunId?: string;
+}
+
+/**
+ * Create the Flowise client for one test, live/recording or replaying a recorded run
+ */
+async function createGoalTestClient(
+  db: Database,
+  runId: string,
+  testId: string,
+  sessionVars: Record<string, string>,
+  transcript: TranscriptOptions
+): Promise<FlowiseClient> {
+  if (transcript.replayRunId) {
+    const recordings = db.getFlowiseRecordings(transcript.replayRunId, testId);
+    if (recordings.length === 0) {
+      console.warn(`[GoalTest] No recorded exchanges for ${testId} in run ${transcript.replayRunId}`);
+    }
+    return FlowiseClient.forReplay(recordings.map(recording => ({
+      sessionId: recording.sessionId,
+      turnIndex: recording.turnIndex,
+      question: recording.question,
+      text: recording.responseText,
+      toolCalls: JSON.parse(recording.toolCallsJson || '[]'),
+      responseTime: recording.responseTimeMs,
+      rawResponse: recording.rawResponseJson ? JSON.parse(recording.rawResponseJson) : null,
+    })));
+  }
+
+  const client = await FlowiseClient.forActiveConfig(undefined, sessionVars);
+
+  if (transcript.record) {
+    // A retry re-records the test from scratch
+    db.clearFlowiseRecordings(runId, testId);
+    client.startRecording(exchange => db.saveFlowiseRecording({
+      runId,
+      testId,
+      sessionId: exchange.sessionId,
+      turnIndex: exchange.turnIndex,
+      question: exchange.question,
+      responseText: exchange.text,
+      toolCallsJson: JSON.stringify(exchange.toolCalls),
+      responseTimeMs: exchange.responseTime,
+      rawResponseJson: JSON.stringify(exchange.rawResponse),
+    }));
+  }
+
+  return client;
+}
+
 /**
  * Run goal-oriented tests with parallel worker execution
  */
@@ -86,11 +148,18 @@ async function runGoalTests(
   scenarioIds: string[],
   concurrency: number,
   db: Database,
-  maxRetries: number = 0
+  maxRetries: number = 0,
+  transcript: TranscriptOptions = {},
+  budgetUsd?: number
 ): Promise<TestSuiteResult> {
   console.log('\n=== Goal-Oriented Test Runner ===\n');
   const retryInfo = maxRetries > 0 ? ` (with ${maxRetries} retr${maxRetries > 1 ? 'ies' : 'y'})` : '';
   console.log(`Running ${scenarioIds.length} goal test(s) with concurrency ${concurrency}${retryInfo}\n`);
+  if (transcript.replayRunId) {
+    console.log(`Replaying recorded Flowise responses from run ${transcript.replayRunId} (Flowise will not be called)\n`);
+  } else if (transcript.record) {
+    console.log('Recording Flowise exchanges for replay\n');
+  }
 
   // Get all available goal scenarios (TypeScript + database)
   const dbScenarios = loadGoalTestsFromDatabase();
@@ -123,8 +192,9 @@ async function runGoalTests(
 
   console.log(`Found ${scenariosToRun.length} goal test(s) to run\n`);
 
-  // Create run record
+  // Create run record; the backend launcher links scheduled runs by this ID
   const runId = db.createTestRun();
+  console.log(JSON.stringify({ type: 'run-started', runId }));
   const startTime = Date.now();
   const results: TestResult[] = [];
   let runCompleted = false;
@@ -133,6 +203,17 @@ async function runGoalTests(
   currentRunId = runId;
   currentDb = db;
 
+  // Account LLM usage; going over the budget stops the run like a user stop would
+  const usageTracker = new RunUsageTracker(db, runId, budgetUsd, totals => {
+    const reason = `Cost budget exceeded: $${totals.costUsd.toFixed(4)} of $${budgetUsd!.toFixed(2)}`;
+    console.log(`[GoalTest] ${reason} - stopping run`);
+    gracefulShutdown('budget limit', 1, reason).catch(() => process.exit(1));
+  });
+  usageTracker.start();
+  if (budgetUsd) {
+    console.log(`[GoalTest] Cost budget: $${budgetUsd.toFixed(2)}`);
+  }
+
   // Initialize Langfuse trace for this run
   const langfuse = getLangfuseService();
   let trace: any = null;
@@ -234,13 +315,16 @@ async function runGoalTests(
         sessionVars.c1mg_variable_caller_id_number = scenario.persona.inventory.parentPhone;
         console.log(`[Worker ${workerId}] Using caller ID: ${scenario.persona.inventory.parentPhone}`);
       }
-      const flowiseClient = await FlowiseClient.forActiveConfig(undefined, sessionVars);
+      const flowiseClient = await createGoalTestClient(db, runId, testIdWithRun, sessionVars, transcript);
       const intentDetector = new IntentDetector();
       const runner = new GoalTestRunner(flowiseClient, db, intentDetector);
 
       try {
         // Pass testIdWithRun to ensure multiple runs of same test are stored separately
-        const result = await runner.runTest(scenario, runId, testIdWithRun);
+        const result = await runWithUsageScope(
+          { runId, testId: testIdWithRun },
+          () => runner.runTest(scenario, runId, testIdWithRun)
+        );
 
         const testResult: TestResult = {
           runId,
@@ -302,6 +386,8 @@ async function runGoalTests(
           console.log(`[Worker ${workerId}] ✗ Error: ${testIdWithRun}${retriedNote} - ${error.message}`);
         }
       }
+
+      console.log(usageTracker.formatUsageLine());
     }
 
     return workerResults;
@@ -338,19 +424,24 @@ async function runGoalTests(
     }
 
     const duration = Date.now() - startTime;
+    // Quarantined tests ran but do not count toward the pass rate
+    const quarantinedIds = db.getQuarantinedTestIds();
+    const counted = results.filter(r => !quarantinedIds.has(getBaseTestId(r.testId)));
     const summary: TestSuiteResult = {
       runId,
-      totalTests: results.length,
-      passed: results.filter(r => r.status === 'passed').length,
-      failed: results.filter(r => r.status === 'failed' || r.status === 'error').length,
-      skipped: results.filter(r => r.status === 'skipped').length,
+      totalTests: counted.length,
+      passed: counted.filter(r => r.status === 'passed').length,
+      failed: counted.filter(r => r.status === 'failed' || r.status === 'error').length,
+      skipped: counted.filter(r => r.status === 'skipped').length,
       duration,
       results,
+      quarantined: results.length - counted.length,
       langfuseTraceId: traceId || undefined,
     };
 
     // Update run record
     db.completeTestRun(runId, summary);
+    db.updateTestHistoryStats(runId);
     runCompleted = true;
 
     // Score the test run in Langfuse
@@ -374,6 +465,11 @@ async function runGoalTests(
 
     console.log('\n=== Goal Test Results ===');
     console.log(`Passed: ${summary.passed}, Failed: ${summary.failed}, Total: ${summary.totalTests}`);
+    if (summary.quarantined) {
+      console.log(`Quarantined (not counted): ${summary.quarantined}`);
+    }
+    const usage = usageTracker.getTotals();
+    console.log(`LLM usage: ${usage.inputTokens} input / ${usage.outputTokens} output tokens (~$${usage.costUsd.toFixed(4)})`);
     console.log(`Duration: ${(duration / 1000).toFixed(1)}s\n`);
     if (traceId) {
       console.log(`Langfuse Trace: ${traceId}\n`);
@@ -381,6 +477,8 @@ async function runGoalTests(
 
     return summary;
   } finally {
+    usageTracker.stop();
+
     // Clear tracking after run
     currentRunId = null;
     currentDb = null;
@@ -404,13 +502,13 @@ let currentDb: Database | null = null;
 /**
  * Graceful shutdown handler - flushes Langfuse and cleans up resources
  */
-async function gracefulShutdown(signal: string, exitCode: number): Promise<void> {
+async function gracefulShutdown(signal: string, exitCode: number, reason?: string): Promise<void> {
   console.log(`\n[TestAgent] Received ${signal}, cleaning up...`);
 
   // Abort current test run if any
   if (currentRunId && currentDb) {
     try {
-      currentDb.abortTestRun(currentRunId);
+      currentDb.abortTestRun(currentRunId, reason);
       console.log(`[TestAgent] Marked run ${currentRunId} as aborted`);
     } catch (error: any) {
       console.error(`[TestAgent] Failed to abort run: ${error.message}`);
@@ -497,6 +595,9 @@ program
   .option('-n, --concurrency <number>', 'Number of parallel workers (1-20, default: 1)', '1')
   .option('-r, --retries <number>', 'Number of retries for flaky tests (0-3, default: 0)', '0')
   .option('--adaptive', 'Enable adaptive concurrency scaling based on API latency')
+  .option('--record', 'Record Flowise exchanges of goal tests so the run can be replayed')
+  .option('--replay <runId>', 'Re-run goal tests against the Flowise exchanges recorded in a previous run')
+  .option('--budget <usd>', 'Stop goal test runs once estimated LLM cost exceeds this many USD (default: TEST_RUN_BUDGET_USD)')
   .action(async (options) => {
     try {
       // Cleanup stale runs at startup
@@ -540,6 +641,13 @@ program
       // Parse retries option (0-3)
       const maxRetries = Math.min(3, Math.max(0, parseInt(options.retries, 10) || 0));
 
+      // Parse cost budget (USD); unset means no budget
+      const budgetUsd = parseFloat(options.budget ?? process.env.TEST_RUN_BUDGET_USD ?? '') || undefined;
+      if (budgetUsd !== undefined && budgetUsd <= 0) {
+        console.log('\n --budget must be a positive number of USD\n');
+        process.exit(1);
+      }
+
       // Check if any scenario IDs are goal-oriented tests (start with "GOAL-")
       let hasGoalTests = scenarioIds?.some(id => id.startsWith('GOAL-')) || false;
       let goalScenarioIds = scenarioIds?.filter(id => id.startsWith('GOAL-')) || [];
@@ -555,6 +663,16 @@ program
         }
       }
 
+      // Replaying without a selection re-runs every test recorded in that run
+      if (options.replay && !scenarioIds?.length && !options.category) {
+        const db = new Database();
+        db.initialize();
+        // Repeat runs are recorded as GOAL-X#2; the run-count suffix is re-added when queued
+        goalScenarioIds = db.getFlowiseRecordedTestIds(options.replay).map(id => id.split('#')[0]);
+        hasGoalTests = goalScenarioIds.length > 0;
+        console.log(`[GoalTest] Replaying recorded tests from run ${options.replay}: ${goalScenarioIds.join(', ') || 'none'}`);
+      }
+
       let result;
 
       if (hasGoalTests && goalScenarioIds.length > 0) {
@@ -562,7 +680,10 @@ program
         console.log('\nDetected goal-oriented test IDs, using GoalTestRunner...\n');
         const db = new Database();
         db.initialize();
-        result = await runGoalTests(goalScenarioIds, concurrency, db, maxRetries);
+        result = await runGoalTests(goalScenarioIds, concurrency, db, maxRetries, {
+          record: options.record,
+          replayRunId: options.replay,
+        }, budgetUsd);
 
         // If there are also regular tests, run those too
         if (regularScenarioIds && regularScenarioIds.length > 0) {
@@ -626,7 +747,7 @@ program
       db.initialize();
 
       if (options.list) {
-        const runs = db.getRecentRuns(10);
+        const runs = db.getRecentRuns(10, null);
 
         if (runs.length === 0) {
           console.log('\nNo test runs found.\n');
@@ -756,14 +877,19 @@ program
 program
   .command('report')
   .description('Generate a detailed report')
-  .option('-f, --format <format>', 'Output format (markdown, json)', 'markdown')
+  .option('-f, --format <format>', 'Output format (markdown, json, junit, sarif)', 'markdown')
   .option('-o, --output <file>', 'Output file path')
+  .option('-r, --run <runId>', 'Report on a specific run (default: last run)')
   .action(async (options) => {
     try {
+      if (!REPORT_FORMATS.includes(options.format)) {
+        throw new Error(`Unknown format "${options.format}" (expected ${REPORT_FORMATS.join(', ')})`);
+      }
+
       const agent = new TestAgent();
       agent.initialize();
 
-      const report = await agent.generateReport(options.format);
+      const report = await agent.generateReport(options.format, options.run);
 
       if (options.output) {
         fs.writeFileSync(options.output, report, 'utf-8');
@@ -816,6 +942,186 @@ program
     }
   });
 
+// Usage command - LLM tokens and estimated cost of a run
+program
+  .command('usage [runId]')
+  .description('Show LLM token usage and estimated cost for a run (default: last run)')
+  .action((runId) => {
+    try {
+      const db = new Database();
+      db.initialize();
+
+      const targetRunId = runId || db.getLastTestRun()?.runId;
+      if (!targetRunId) {
+        console.log('\n No test runs found.\n');
+        return;
+      }
+
+      const usage = db.getRunLLMUsage(targetRunId);
+      const formatTotals = (t: { calls: number; inputTokens: number; outputTokens: number; costUsd: number }) =>
+        `${t.calls} calls, ${t.inputTokens} in / ${t.outputTokens} out tokens, ~$${t.costUsd.toFixed(4)}`;
+
+      console.log(`\n LLM Usage: ${targetRunId}\n`);
+      console.log('─'.repeat(60));
+      console.log(` Total: ${formatTotals(usage)}`);
+
+      if (usage.calls === 0) {
+        console.log('\n No LLM calls recorded for this run.\n');
+        return;
+      }
+
+      console.log('\n By purpose:');
+      for (const p of usage.byPurpose) {
+        console.log(`   ${p.purpose}: ${formatTotals(p)}`);
+      }
+      console.log('\n By model:');
+      for (const m of usage.byModel) {
+        console.log(`   ${m.model}: ${formatTotals(m)}`);
+      }
+      console.log('\n By test:');
+      for (const t of usage.byTest) {
+        console.log(`   ${t.testId || '(outside tests)'}: ${formatTotals(t)}`);
+      }
+      console.log('\n' + '─'.repeat(60) + '\n');
+
+    } catch (error: any) {
+      reporter.printError(error.message);
+      process.exit(1);
+    }
+  });
+
+// Flaky command - Tests that flip between pass and fail on unchanged prompts
+program
+  .command('flaky')
+  .description('List tests by flakiness score (pass/fail flips on the same prompt version)')
+  .option('-m, --min-score <score>', 'Only show tests at or above this score (0-1)', '0.01')
+  .action((options) => {
+    try {
+      const db = new Database();
+      db.initialize();
+
+      const minScore = parseFloat(options.minScore) || 0;
+      const quarantinedIds = db.getQuarantinedTestIds();
+      const stats = db.getTestHistoryStats().filter(s => s.flakyScore >= minScore);
+
+      if (stats.length === 0) {
+        console.log('\n No flaky tests found.\n');
+        return;
+      }
+
+      console.log('\n Flaky Tests\n');
+      console.log('─'.repeat(60));
+
+      for (const stat of stats) {
+        const quarantined = quarantinedIds.has(stat.testId) ? ' [quarantined]' : '';
+        console.log(`\n ${stat.testId}${quarantined}`);
+        console.log(`   Flaky score: ${(stat.flakyScore * 100).toFixed(0)}%`);
+        console.log(`   Recent pass rate: ${(stat.lastPassRate * 100).toFixed(0)}% (${stat.passCount}/${stat.runCount} overall)`);
+        console.log(`   Last: ${stat.lastStatus} at ${stat.lastRunAt}`);
+      }
+
+      console.log('\n' + '─'.repeat(60) + '\n');
+
+    } catch (error: any) {
+      reporter.printError(error.message);
+      process.exit(1);
+    }
+  });
+
+// Quarantine command - Quarantined tests run but do not affect the pass rate or regression-check
+program
+  .command('quarantine [testId]')
+  .description('List quarantined tests, or quarantine/release a test')
+  .option('--reason <reason>', 'Why the test is quarantined')
+  .option('--release', 'Release the test from quarantine')
+  .action((testId, options) => {
+    try {
+      const db = new Database();
+      db.initialize();
+
+      if (!testId) {
+        const quarantined = db.getQuarantinedTests();
+        if (quarantined.length === 0) {
+          console.log('\n No quarantined tests.\n');
+          return;
+        }
+        console.log('\n Quarantined Tests\n');
+        for (const test of quarantined) {
+          console.log(` ${test.testId} (since ${test.quarantinedAt})${test.reason ? ` - ${test.reason}` : ''}`);
+        }
+        console.log('');
+        return;
+      }
+
+      if (options.release) {
+        if (!db.releaseQuarantine(testId)) {
+          console.log(`\n Test is not quarantined: ${testId}\n`);
+          return;
+        }
+        reporter.printSuccess(`Released ${getBaseTestId(testId)} from quarantine`);
+        return;
+      }
+
+      db.quarantineTest(testId, options.reason);
+      reporter.printSuccess(`Quarantined ${getBaseTestId(testId)}`);
+
+    } catch (error: any) {
+      reporter.printError(error.message);
+      process.exit(1);
+    }
+  });
+
+// Contracts command - Node-RED /chord/ortho endpoint contract tests
+program
+  .command('contracts')
+  .description('Run contract tests against the Node-RED /chord/ortho endpoints')
+  .option('-u, --base-url <url>', 'Node-RED base URL (default: NODERED_BASE_URL)')
+  .option('--local', 'Run the V1 flow file in a local Node-RED against the Cloud 9 mock')
+  .option('-w, --include-writes', 'Also run cases that create or change patients and appointments')
+  .option('-e, --endpoint <names>', 'Only test these endpoints (comma-separated, e.g. getApptSlots,createAppt)')
+  .action(async (options) => {
+    let runtime: LocalNodeRedRuntime | undefined;
+    try {
+      let baseUrl: string = options.baseUrl || config.noderedContracts.baseUrl;
+
+      if (options.local) {
+        reporter.printInfo('Starting local Node-RED with the V1 flow and the Cloud 9 mock...');
+        runtime = await startLocalNodeRed({
+          bin: config.noderedContracts.localBin,
+          port: config.noderedContracts.localPort,
+        });
+        baseUrl = runtime.baseUrl;
+        // The mock has no data to seed from; write cases create their own
+        options.includeWrites = true;
+      }
+
+      if (!baseUrl) {
+        reporter.printError('No Node-RED base URL. Pass --base-url, set NODERED_BASE_URL or use --local');
+        process.exit(1);
+      }
+
+      const db = new Database();
+      db.initialize();
+
+      const runner = new NodeRedContractRunner(db);
+      const summary = await runner.run({
+        baseUrl,
+        includeWrites: options.includeWrites,
+        endpoints: options.endpoint?.split(',').map((name: string) => name.trim()),
+        onResult: result => reporter.printTestResult(result),
+      });
+
+      reporter.printSummary(summary);
+      if (runtime) await runtime.stop();
+      process.exit(summary.failed > 0 ? 1 : 0);
+
+    } catch (error: any) {
+      if (runtime) await runtime.stop();
+      reporter.printError(error.message);
+      process.exit(1);
+    }
+  });
+
 // Scenarios command
 program
   .command('scenarios')
@@ -321,17 +321,24 @@ export async function retryWithClassification<T>(
 }
 
 /**
- * Calculate flaky score based on failure history
+ * Calculate flaky score based on failure history (oldest first).
+ * When results carry a prompt version, only consecutive results on the same
+ * version are compared - a flip across a prompt change is not flakiness.
  */
 export function calculateFlakyScore(
-  recentResults: Array<{ status: 'passed' | 'failed' | 'error' }>
+  recentResults: Array<{ status: 'passed' | 'failed' | 'error'; promptVersion?: string | null }>
 ): number {
   if (recentResults.length < 2) {
     return 0;
   }
 
   let transitions = 0;
+  let comparisons = 0;
   for (let i = 1; i < recentResults.length; i++) {
+    if ((recentResults[i - 1].promptVersion ?? null) !== (recentResults[i].promptVersion ?? null)) {
+      continue;
+    }
+    comparisons++;
     const prev = recentResults[i - 1].status === 'passed';
     const curr = recentResults[i].status === 'passed';
     if (prev !== curr) {
@@ -340,7 +347,7 @@ export function calculateFlakyScore(
   }
 
   // More transitions = more flaky
-  // Max score when transitions = results - 1 (alternating)
-  return transitions / (recentResults.length - 1);
+  // Max score when transitions = comparisons (alternating)
+  return comparisons > 0 ? transitions / comparisons : 0;
 }
 
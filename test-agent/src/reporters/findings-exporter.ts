@@ -0,0 +1,149 @@
+/**
+ * Findings Exporter
+ * Machine-readable findings for a run in SARIF 2.1.0 form.
+ *
+ * Analyzer findings, failed goals and constraint violations become SARIF
+ * results. There are no source files to point at, so each result's location
+ * is the test it came from (a logical location of kind "test").
+ */
+
+import { ExportedFinding, RunExportData } from './run-export';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    logicalLocations: Array<{ name: string; fullyQualifiedName: string; kind: string }>;
+  }>;
+  properties: Record<string, unknown>;
+}
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  'bug': 'Agent behavior that is wrong',
+  'enhancement': 'Agent behavior that could be improved',
+  'prompt-issue': 'Problem traced to the Flowise prompt',
+  'tool-issue': 'Problem traced to a Flowise tool',
+  'regression': 'Test that passed in the previous run now fails',
+  'goal-failed': 'Goal-oriented test goal not met',
+  'constraint-violation': 'Goal-oriented test constraint violated',
+};
+
+const SEVERITY_LEVELS: Record<string, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+export class FindingsExporter {
+  /**
+   * Generate the SARIF log (as JSON text) for a run
+   */
+  generateReport(data: RunExportData): string {
+    const { run, tests } = data;
+    const results: SarifResult[] = [];
+
+    for (const finding of data.findings) {
+      results.push(this.findingResult(run.runId, finding));
+    }
+
+    for (const test of tests) {
+      if (!test.goal) continue;
+      const testId = test.result.testId;
+
+      for (const goal of test.goal.goalResults.filter(g => !g.passed)) {
+        results.push(this.result(run.runId, testId, 'goal-failed', 'error', `${goal.goalId}: ${goal.message}`, {
+          goalId: goal.goalId,
+          details: goal.details,
+        }));
+      }
+      for (const violation of test.goal.constraintViolations) {
+        results.push(this.result(run.runId, testId, 'constraint-violation', 'error', violation.message, {
+          constraintType: violation.type,
+          constraintDescription: violation.description,
+          turnNumber: violation.turnNumber,
+        }));
+      }
+    }
+
+    const ruleIds = Array.from(new Set(results.map(r => r.ruleId)));
+
+    return JSON.stringify({
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'e2e-test-agent',
+              rules: ruleIds.map(id => ({
+                id,
+                shortDescription: { text: RULE_DESCRIPTIONS[id] || id },
+              })),
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful: run.status === 'completed',
+              startTimeUtc: run.startedAt,
+              ...(run.completedAt ? { endTimeUtc: run.completedAt } : {}),
+            },
+          ],
+          results,
+          properties: {
+            runId: run.runId,
+            status: run.status,
+            totalTests: run.totalTests,
+            passed: run.passed,
+            failed: run.failed,
+            skipped: run.skipped,
+          },
+        },
+      ],
+    }, null, 2);
+  }
+
+  private findingResult(runId: string, finding: ExportedFinding): SarifResult {
+    return this.result(
+      runId,
+      finding.testId || 'unknown',
+      finding.type,
+      SEVERITY_LEVELS[finding.severity] || 'warning',
+      finding.description ? `${finding.title}: ${finding.description}` : finding.title,
+      {
+        severity: finding.severity,
+        affectedStep: finding.affectedStep,
+        agentQuestion: finding.agentQuestion,
+        expectedBehavior: finding.expectedBehavior,
+        actualBehavior: finding.actualBehavior,
+        recommendation: finding.recommendation,
+      }
+    );
+  }
+
+  private result(
+    runId: string,
+    testId: string,
+    ruleId: string,
+    level: SarifLevel,
+    text: string,
+    properties: Record<string, unknown>
+  ): SarifResult {
+    return {
+      ruleId,
+      level,
+      message: { text },
+      locations: [
+        {
+          logicalLocations: [{ name: testId, fullyQualifiedName: `${runId}/${testId}`, kind: 'test' }],
+        },
+      ],
+      properties,
+    };
+  }
+}
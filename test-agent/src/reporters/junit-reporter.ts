@@ -0,0 +1,203 @@
+/**
+ * JUnit Reporter
+ * Generates JUnit XML from a test run for CI dashboards.
+ *
+ * One <testsuite> per category and one <testcase> per test. Failure bodies
+ * carry the goal results, constraint violations, findings and the tail of
+ * the transcript.
+ */
+
+import { ConversationTurn } from '../tests/test-case';
+import { ExportedTest, RunExportData } from './run-export';
+
+/** Turns of transcript included in a failure body */
+const TRANSCRIPT_EXCERPT_TURNS = 10;
+/** Longest message kept per transcript turn */
+const MAX_TURN_LENGTH = 500;
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML 1.0 cannot carry
+ */
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number | undefined): string {
+  return ((ms || 0) / 1000).toFixed(3);
+}
+
+export class JUnitReporter {
+  /**
+   * Generate the JUnit XML document for a run
+   */
+  generateReport(data: RunExportData): string {
+    const { run, tests } = data;
+    const suites = new Map<string, ExportedTest[]>();
+    for (const test of tests) {
+      const category = test.result.category || 'uncategorized';
+      suites.set(category, [...(suites.get(category) || []), test]);
+    }
+
+    const totals = this.countStatuses(tests);
+    const totalMs = tests.reduce((sum, t) => sum + (t.result.durationMs || 0), 0);
+
+    const lines: string[] = [];
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    lines.push(
+      `<testsuites name="E2E Test Agent" tests="${tests.length}" failures="${totals.failures}" ` +
+      `errors="${totals.errors}" skipped="${totals.skipped}" time="${seconds(totalMs)}" ` +
+      `timestamp="${escapeXml(run.startedAt)}">`
+    );
+
+    for (const [category, suiteTests] of suites) {
+      const counts = this.countStatuses(suiteTests);
+      const suiteMs = suiteTests.reduce((sum, t) => sum + (t.result.durationMs || 0), 0);
+
+      lines.push(
+        `  <testsuite name="${escapeXml(category)}" tests="${suiteTests.length}" failures="${counts.failures}" ` +
+        `errors="${counts.errors}" skipped="${counts.skipped}" time="${seconds(suiteMs)}" ` +
+        `timestamp="${escapeXml(run.startedAt)}">`
+      );
+      lines.push('    <properties>');
+      lines.push(`      <property name="runId" value="${escapeXml(run.runId)}"/>`);
+      lines.push(`      <property name="runStatus" value="${escapeXml(run.status)}"/>`);
+      lines.push('    </properties>');
+
+      for (const test of suiteTests) {
+        lines.push(...this.formatTestCase(test, category));
+      }
+
+      lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  private countStatuses(tests: ExportedTest[]): { failures: number; errors: number; skipped: number } {
+    return {
+      failures: tests.filter(t => t.result.status === 'failed').length,
+      errors: tests.filter(t => t.result.status === 'error').length,
+      skipped: tests.filter(t => t.result.status === 'skipped').length,
+    };
+  }
+
+  private formatTestCase(test: ExportedTest, category: string): string[] {
+    const { result } = test;
+    const attributes =
+      `classname="${escapeXml(`e2e.${category}`)}" name="${escapeXml(`${result.testId}: ${result.testName}`)}" ` +
+      `time="${seconds(result.durationMs)}"`;
+
+    if (result.status === 'passed') {
+      return [`    <testcase ${attributes}/>`];
+    }
+
+    const lines = [`    <testcase ${attributes}>`];
+
+    if (result.langfuseTraceId || result.flowiseSessionId) {
+      lines.push('      <properties>');
+      if (result.langfuseTraceId) {
+        lines.push(`        <property name="langfuseTraceId" value="${escapeXml(result.langfuseTraceId)}"/>`);
+      }
+      if (result.flowiseSessionId) {
+        lines.push(`        <property name="flowiseSessionId" value="${escapeXml(result.flowiseSessionId)}"/>`);
+      }
+      lines.push('      </properties>');
+    }
+
+    if (result.status === 'skipped') {
+      lines.push('      <skipped/>');
+    } else {
+      const tag = result.status === 'error' ? 'error' : 'failure';
+      const type = result.status === 'error' ? 'TestError' : test.goal ? 'GoalFailure' : 'AssertionFailure';
+      lines.push(
+        `      <${tag} message="${escapeXml(this.failureMessage(test))}" type="${type}">` +
+        `${escapeXml(this.failureBody(test))}</${tag}>`
+      );
+    }
+
+    lines.push('    </testcase>');
+    return lines;
+  }
+
+  /**
+   * One-line reason: the error, else the first failed goal or violation
+   */
+  private failureMessage(test: ExportedTest): string {
+    if (test.result.errorMessage) {
+      return test.result.errorMessage;
+    }
+    const failedGoal = test.goal?.goalResults.find(g => !g.passed);
+    if (failedGoal) {
+      return `Goal ${failedGoal.goalId} failed: ${failedGoal.message}`;
+    }
+    const violation = test.goal?.constraintViolations[0];
+    if (violation) {
+      return `Constraint violated: ${violation.message}`;
+    }
+    return `Test ${test.result.status}`;
+  }
+
+  private failureBody(test: ExportedTest): string {
+    const sections: string[] = [];
+
+    if (test.result.errorMessage) {
+      sections.push(`Error: ${test.result.errorMessage}`);
+    }
+
+    if (test.goal) {
+      if (test.goal.summary) {
+        sections.push(`Summary: ${test.goal.summary}`);
+      }
+      if (test.goal.goalResults.length > 0) {
+        sections.push([
+          'Goals:',
+          ...test.goal.goalResults.map(g => `  [${g.passed ? 'PASS' : 'FAIL'}] ${g.goalId}: ${g.message}`),
+        ].join('\n'));
+      }
+      if (test.goal.constraintViolations.length > 0) {
+        sections.push([
+          'Constraint violations:',
+          ...test.goal.constraintViolations.map(v =>
+            `  - ${v.type}${v.turnNumber !== undefined ? ` (turn ${v.turnNumber})` : ''}: ${v.message}`
+          ),
+        ].join('\n'));
+      }
+    }
+
+    if (test.findings.length > 0) {
+      sections.push([
+        'Findings:',
+        ...test.findings.map(f => `  - [${f.severity}] ${f.type}: ${f.title}`),
+      ].join('\n'));
+    }
+
+    if (test.transcript.length > 0) {
+      sections.push(this.transcriptExcerpt(test.transcript));
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private transcriptExcerpt(transcript: ConversationTurn[]): string {
+    const turns = transcript.slice(-TRANSCRIPT_EXCERPT_TURNS);
+    const omitted = transcript.length - turns.length;
+
+    return [
+      `Transcript (last ${turns.length} of ${transcript.length} turns):`,
+      ...(omitted > 0 ? ['  ...'] : []),
+      ...turns.map(turn => {
+        const content = turn.content.length > MAX_TURN_LENGTH
+          ? `${turn.content.slice(0, MAX_TURN_LENGTH)}...`
+          : turn.content;
+        return `  ${turn.role === 'user' ? 'CALLER' : 'AGENT'}: ${content.replace(/\s+/g, ' ')}`;
+      }),
+    ].join('\n');
+  }
+}
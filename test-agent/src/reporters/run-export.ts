@@ -0,0 +1,88 @@
+/**
+ * Run Export Data
+ * Everything the machine-readable reporters (JUnit, findings) need for one run,
+ * loaded in one place so the CLI and the backend export the same thing
+ */
+
+import { Database, TestRun, TestResult } from '../storage/database';
+import { ConversationTurn, Finding } from '../tests/test-case';
+import { GoalResult } from '../tests/types/goals';
+
+export interface ExportedConstraintViolation {
+  type: string;
+  description: string;
+  message: string;
+  turnNumber?: number;
+}
+
+export interface ExportedFinding extends Finding {
+  testId?: string;
+}
+
+export interface ExportedTest {
+  result: TestResult;
+  /** Present for goal-oriented tests */
+  goal?: {
+    passed: boolean;
+    turnCount: number;
+    goalResults: GoalResult[];
+    constraintViolations: ExportedConstraintViolation[];
+    summary?: string;
+  };
+  transcript: ConversationTurn[];
+  findings: ExportedFinding[];
+}
+
+export interface RunExportData {
+  run: TestRun;
+  tests: ExportedTest[];
+  findings: ExportedFinding[];
+}
+
+function parseJson<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Load a run with its results, goal outcomes, transcripts and findings
+ */
+export function loadRunExportData(database: Database, runId: string): RunExportData | null {
+  const run = database.getTestRun(runId);
+  if (!run) {
+    return null;
+  }
+
+  const findings: ExportedFinding[] = database.getFindings(runId);
+  const goalResults = new Map(database.getGoalTestResults(runId).map(r => [r.testId, r]));
+
+  const tests = database.getTestResults(runId).map((result): ExportedTest => {
+    const goal = goalResults.get(result.testId);
+    const violations = parseJson<any[]>(goal?.constraintViolationsJson, []);
+
+    return {
+      result,
+      goal: goal && {
+        passed: !!goal.passed,
+        turnCount: goal.turnCount,
+        goalResults: parseJson<GoalResult[]>(goal.goalResultsJson, []),
+        // Constraints are stored as serialized objects (their condition functions are dropped)
+        constraintViolations: violations.map(v => ({
+          type: v.constraint?.type ?? 'unknown',
+          description: v.constraint?.description ?? '',
+          message: v.message,
+          turnNumber: v.turnNumber,
+        })),
+        summary: goal.summaryText,
+      },
+      transcript: database.getTranscript(result.testId, runId),
+      findings: findings.filter(f => f.testId === result.testId),
+    };
+  });
+
+  return { run, tests, findings };
+}
@@ -0,0 +1,205 @@
+/**
+ * Zod Schemas for the Node-RED /chord/ortho Endpoints
+ *
+ * Request and response contracts of the `http in` endpoints in the V1 flow
+ * (nodered_Cloud9_flows.json) that the Flowise patient and scheduling tools
+ * call. Requests describe what the tools send; responses describe what the
+ * tools (and the LLM reading their output) rely on. Objects are passthrough:
+ * extra fields are fine, missing or retyped ones break the contract.
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Shared
+// =============================================================================
+
+/** Call identifier every tool request carries */
+const Uui = z.string().min(1);
+
+const Guid = z.string().min(1);
+
+/** Guidance block the tools pass through to the LLM */
+const LlmGuidanceSchema = z.object({}).passthrough();
+
+/**
+ * Body of a 500 response when a flow's function node throws
+ */
+export const NodeRedErrorSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+  timestamp: z.string(),
+}).passthrough();
+
+/** { success, message } reply of the write-and-acknowledge endpoints */
+const AcknowledgementSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+}).passthrough();
+
+const SlotSchema = z.object({
+  startTime: z.string(),
+  scheduleViewGUID: Guid,
+  scheduleColumnGUID: Guid,
+  appointmentTypeGUID: Guid,
+  minutes: z.string(),
+}).passthrough();
+
+// =============================================================================
+// Patient Endpoints (chord_ortho_patient tool)
+// =============================================================================
+
+export const GetPatientByFilterRequestSchema = z.object({
+  uui: Uui,
+  phoneNumber: z.string().optional(),
+  filter: z.string().optional(),
+  locationGUID: Guid.optional(),
+});
+
+export const GetPatientByFilterResponseSchema = z.object({
+  patients: z.array(z.object({
+    patientGUID: Guid,
+    PatientFirstName: z.string().optional(),
+    PatientLastName: z.string().optional(),
+  }).passthrough()),
+  count: z.number().int().nonnegative(),
+}).passthrough();
+
+export const GetPatientRequestSchema = z.object({
+  uui: Uui,
+  patientGUID: Guid.optional(),
+});
+
+export const GetPatientResponseSchema = z.object({
+  patient: z.record(z.string()).nullable(),
+}).passthrough();
+
+export const CreatePatientRequestSchema = z.object({
+  uui: Uui,
+  patientFirstName: z.string().optional(),
+  patientLastName: z.string().optional(),
+  birthdayDateTime: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  emailAddress: z.string().optional(),
+  gender: z.string().optional(),
+  providerGUID: Guid.optional(),
+  locationGUID: Guid.optional(),
+});
+
+export const CreatePatientResponseSchema = z.object({
+  success: z.boolean(),
+  patientGUID: Guid.nullable(),
+  message: z.string(),
+  llm_guidance: LlmGuidanceSchema,
+}).passthrough();
+
+export const GetPatientApptsRequestSchema = z.object({
+  uui: Uui,
+  patientGUID: Guid.optional(),
+});
+
+export const GetPatientApptsResponseSchema = z.object({
+  appointments: z.array(z.object({
+    GUID: z.string().optional(),
+    StartTime: z.string().optional(),
+    Status: z.string().optional(),
+  }).passthrough()),
+  count: z.number().int().nonnegative(),
+}).passthrough();
+
+export const GetLocationRequestSchema = z.object({
+  uui: Uui,
+  locationGUID: Guid.optional(),
+});
+
+export const GetLocationResponseSchema = z.object({
+  success: z.literal(true),
+  location: z.record(z.string()).nullable(),
+  locations: z.array(z.record(z.string())).optional(),
+  matchType: z.literal('guid').optional(),
+}).passthrough();
+
+export const EditInsuranceRequestSchema = z.object({
+  uui: Uui,
+  patientGUID: Guid.optional(),
+  insuranceProvider: z.string().optional(),
+  insuranceGroupId: z.string().optional(),
+  insuranceMemberId: z.string().optional(),
+});
+
+export const EditInsuranceResponseSchema = AcknowledgementSchema;
+
+export const ConfirmApptRequestSchema = z.object({
+  uui: Uui,
+  appointmentId: Guid.optional(),
+});
+
+export const ConfirmApptResponseSchema = AcknowledgementSchema;
+
+// =============================================================================
+// Scheduling Endpoints (schedule_appointment_ortho tool)
+// =============================================================================
+
+export const GetApptSlotsRequestSchema = z.object({
+  uui: Uui,
+  startDate: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, 'MM/DD/YYYY').optional(),
+  endDate: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/, 'MM/DD/YYYY').optional(),
+  scheduleViewGUIDs: z.string().optional(),
+});
+
+export const GetApptSlotsResponseSchema = z.object({
+  slots: z.array(SlotSchema),
+  count: z.number().int().nonnegative(),
+  attempts: z.number().int().optional(),
+  llm_guidance: LlmGuidanceSchema,
+}).passthrough();
+
+export const GetGroupedApptSlotsRequestSchema = GetApptSlotsRequestSchema.extend({
+  numberOfPatients: z.number().int().positive().optional(),
+  timeWindowMinutes: z.number().int().positive().optional(),
+});
+
+export const GetGroupedApptSlotsResponseSchema = z.object({
+  groups: z.array(z.object({
+    slots: z.array(SlotSchema),
+  }).passthrough()),
+  totalGroups: z.number().int().nonnegative(),
+  llm_guidance: LlmGuidanceSchema,
+}).passthrough();
+
+export const CreateApptRequestSchema = z.object({
+  uui: Uui,
+  patientGUID: Guid.optional(),
+  startTime: z.string().optional(),
+  scheduleViewGUID: Guid.optional(),
+  scheduleColumnGUID: Guid.optional(),
+  appointmentTypeGUID: Guid.optional(),
+  minutes: z.union([z.number(), z.string()]).optional(),
+  childName: z.string().optional(),
+});
+
+export const CreateApptResponseSchema = z.object({
+  success: z.boolean(),
+  appointmentGUID: Guid.optional(),
+  message: z.string(),
+  llm_guidance: LlmGuidanceSchema,
+}).passthrough();
+
+/**
+ * Missing slot fields are answered with 200 + success:false so the LLM can
+ * re-fetch slots instead of treating it as an outage
+ */
+export const CreateApptValidationResponseSchema = CreateApptResponseSchema.extend({
+  success: z.literal(false),
+  _debug: z.object({
+    error_type: z.literal('VALIDATION_ERROR'),
+    missing_fields: z.array(z.string()).min(1),
+  }).passthrough(),
+});
+
+export const CancelApptRequestSchema = z.object({
+  uui: Uui,
+  appointmentGUID: Guid.optional(),
+});
+
+export const CancelApptResponseSchema = AcknowledgementSchema;
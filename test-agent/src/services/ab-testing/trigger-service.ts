@@ -216,7 +216,7 @@ export class TriggerService {
   checkPassRateDrop(threshold: number = 0.1): PassRateAlert[] {
     const alerts: PassRateAlert[] = [];
 
-    const recentRuns = this.db.getRecentRuns(10);
+    const recentRuns = this.db.getRecentRuns(10, 'goal');
     if (recentRuns.length < 2) {
       return alerts;
     }
@@ -851,7 +851,7 @@ export class CategoryClassifier {
    * Check if LLM is available for Tier 2
    */
   async isLlmAvailable(): Promise<boolean> {
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('semantic-evaluation');
     return status.available && this.classifierConfig.useLlm;
   }
 
@@ -980,6 +980,7 @@ export class CategoryClassifier {
       maxTokens: this.classifierConfig.maxTokens,
       temperature: this.classifierConfig.temperature,
       timeout: this.classifierConfig.timeout,
+      purpose: 'semantic-evaluation',
     });
 
     if (!response.success || !response.content) {
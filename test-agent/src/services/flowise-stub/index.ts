@@ -0,0 +1,23 @@
+/**
+ * Flowise Stub
+ *
+ * Local scripted stand-in for the Flowise prediction API, for CI runs.
+ */
+
+export {
+  startFlowiseStubServer,
+  type FlowiseStubServer,
+  type FlowiseStubServerOptions,
+} from './server';
+export {
+  loadStubScripts,
+  validateStubScript,
+  renderStep,
+  BUILT_IN_SCRIPTS_DIR,
+  STUB_BEHAVIORS,
+  type StubBehavior,
+  type StubFault,
+  type StubScript,
+  type StubStep,
+  type StubToolCall,
+} from './script';
@@ -0,0 +1,225 @@
+/**
+ * Flowise Stub Scripts
+ *
+ * A script is an ordered list of agent behaviors the stub plays back, one per
+ * caller message, for every session that hits its chatflow. Scripts are JSON
+ * files (the test agent has no YAML parser dependency).
+ *
+ * Example:
+ *   {
+ *     "name": "booking-happy-path",
+ *     "defaults": { "latencyMs": 50 },
+ *     "steps": [
+ *       { "behavior": "greet" },
+ *       { "behavior": "ask_parent_name" },
+ *       { "behavior": "offer_slots", "fault": { "status": 503 } },
+ *       { "behavior": "confirm_booking" }
+ *     ]
+ *   }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type StubBehavior =
+  | 'greet'
+  | 'ask_parent_name'
+  | 'ask_phone'
+  | 'ask_child_name'
+  | 'ask_dob'
+  | 'ask_insurance'
+  | 'offer_slots'
+  | 'confirm_booking'
+  | 'transfer'
+  | 'error'
+  | 'end_call'
+  | 'custom';
+
+export const STUB_BEHAVIORS: StubBehavior[] = [
+  'greet',
+  'ask_parent_name',
+  'ask_phone',
+  'ask_child_name',
+  'ask_dob',
+  'ask_insurance',
+  'offer_slots',
+  'confirm_booking',
+  'transfer',
+  'error',
+  'end_call',
+  'custom',
+];
+
+/**
+ * Tool call as Flowise reports it in `usedTools`
+ */
+export interface StubToolCall {
+  tool: string;
+  toolInput: Record<string, any>;
+  toolOutput: string;
+}
+
+export interface StubFault {
+  /** Extra delay before responding */
+  latencyMs?: number;
+  /** HTTP status to fail with (e.g. 500, 503) */
+  status?: number;
+  /** How many requests for this step fail with `status` before it is served (default 1) */
+  failAttempts?: number;
+  /** Replace `usedTools` with entries that have no tool name and unparseable input/output */
+  malformedTools?: boolean;
+}
+
+export interface StubStep {
+  behavior: StubBehavior;
+  /** Overrides the behavior's default agent text (required for 'custom') */
+  text?: string;
+  /** Overrides the behavior's default tool calls */
+  usedTools?: StubToolCall[];
+  fault?: StubFault;
+}
+
+export interface StubScript {
+  name: string;
+  description?: string;
+  /** Fault settings applied to every step (step faults take precedence) */
+  defaults?: StubFault;
+  steps: StubStep[];
+  /** What to do once the steps run out: repeat the last step, or end the call (default) */
+  onExhausted?: 'repeat_last' | 'end_call';
+}
+
+/**
+ * Agent text per behavior. Phrased so the keyword intent fallback
+ * (INTENT_KEYWORDS) classifies each one as the matching intent.
+ */
+const DEFAULT_TEXT: Record<Exclude<StubBehavior, 'custom'>, string> = {
+  greet: 'Hello! My name is Allie. How can I help you today?',
+  ask_parent_name: 'May I have your first and last name, please?',
+  ask_phone: 'Is the number you are calling from the best number to reach you?',
+  ask_child_name: "What is your child's first and last name?",
+  ask_dob: "What is your child's date of birth?",
+  ask_insurance: 'Do you have insurance for your child?',
+  offer_slots: 'I have an opening on Monday at 9:00 AM. Would that work for you?',
+  confirm_booking: 'Your appointment has been scheduled for Monday at 9:00 AM.',
+  transfer: 'Let me transfer you to a live agent who can help with that.',
+  error: "I'm sorry, I'm having trouble with our system right now. Could you please try again?",
+  end_call: 'Thank you for calling. Have a great day! Goodbye.',
+};
+
+const STUB_SLOT = {
+  startTime: '01/12/2026 9:00:00 AM',
+  endTime: '01/12/2026 9:40:00 AM',
+  scheduleViewGUID: 'stub-schedule-view',
+  scheduleColumnGUID: 'stub-schedule-column',
+  appointmentTypeGUID: 'stub-appointment-type',
+  minutes: '40',
+};
+
+function toolCall(tool: string, toolInput: Record<string, any>, output: Record<string, any>): StubToolCall {
+  return { tool, toolInput, toolOutput: JSON.stringify(output) };
+}
+
+/**
+ * Tool calls per behavior, shaped like the production Flowise tools
+ */
+function defaultToolCalls(behavior: StubBehavior, sessionId: string): StubToolCall[] {
+  switch (behavior) {
+    case 'offer_slots':
+      return [
+        toolCall('schedule_appointment_ortho', { action: 'slots' }, { success: true, slots: [STUB_SLOT] }),
+      ];
+    case 'confirm_booking':
+      return [
+        toolCall(
+          'schedule_appointment_ortho',
+          { action: 'book_child', startTime: STUB_SLOT.startTime },
+          { success: true, appointmentGUID: `stub-appt-${sessionId.substring(0, 8)}` }
+        ),
+      ];
+    case 'transfer':
+      return [
+        toolCall('chord_handleEscalation', { reason: 'caller requested live agent' }, { success: true, escalated: true }),
+      ];
+    case 'error':
+      return [
+        toolCall('schedule_appointment_ortho', { action: 'slots' }, { success: false, error: 'Cloud 9 request timed out' }),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Agent text and tool calls for a step
+ */
+export function renderStep(step: StubStep, sessionId: string): { text: string; usedTools: StubToolCall[] } {
+  const text = step.text ?? (step.behavior === 'custom' ? '' : DEFAULT_TEXT[step.behavior]);
+  return { text, usedTools: step.usedTools ?? defaultToolCalls(step.behavior, sessionId) };
+}
+
+/**
+ * Validate a parsed script, returning a list of problems (empty when valid)
+ */
+export function validateStubScript(script: any): string[] {
+  const errors: string[] = [];
+
+  if (!script || typeof script !== 'object') {
+    return ['Script must be a JSON object'];
+  }
+  if (!script.name || typeof script.name !== 'string') {
+    errors.push('name is required');
+  }
+  if (!Array.isArray(script.steps) || script.steps.length === 0) {
+    errors.push('steps must be a non-empty array');
+    return errors;
+  }
+  if (script.onExhausted && !['repeat_last', 'end_call'].includes(script.onExhausted)) {
+    errors.push(`onExhausted must be "repeat_last" or "end_call"`);
+  }
+
+  script.steps.forEach((step: any, index: number) => {
+    if (!STUB_BEHAVIORS.includes(step?.behavior)) {
+      errors.push(`steps[${index}].behavior must be one of: ${STUB_BEHAVIORS.join(', ')}`);
+    }
+    if (step?.behavior === 'custom' && typeof step.text !== 'string') {
+      errors.push(`steps[${index}].text is required for custom steps`);
+    }
+    if (step?.usedTools !== undefined && !Array.isArray(step.usedTools)) {
+      errors.push(`steps[${index}].usedTools must be an array`);
+    }
+    const status = step?.fault?.status;
+    if (status !== undefined && (!Number.isInteger(status) || status < 400 || status > 599)) {
+      errors.push(`steps[${index}].fault.status must be an HTTP error status (400-599)`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load one script file, or every *.json script in a directory
+ */
+export function loadStubScripts(scriptPath: string): StubScript[] {
+  const files = fs.statSync(scriptPath).isDirectory()
+    ? fs.readdirSync(scriptPath)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => path.join(scriptPath, file))
+    : [scriptPath];
+
+  return files.map(file => {
+    const script = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const errors = validateStubScript(script);
+    if (errors.length > 0) {
+      throw new Error(`Invalid Flowise stub script ${file}: ${errors.join('; ')}`);
+    }
+    return script as StubScript;
+  });
+}
+
+/**
+ * Directory of the scripts shipped with the test agent (relative to the test-agent root,
+ * like the other paths in config, since tsc does not copy the JSON files into dist)
+ */
+export const BUILT_IN_SCRIPTS_DIR = './src/services/flowise-stub/scripts';
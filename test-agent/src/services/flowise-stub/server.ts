@@ -0,0 +1,190 @@
+/**
+ * Flowise Stub Server
+ * Local stand-in for the hosted chatbot's `POST /api/v1/prediction/:id`, so
+ * goal tests can run end-to-end in CI without Flowise.
+ *
+ * Each session (overrideConfig.sessionId) walks through a script's steps, one
+ * step per caller message. The chatflow id picks the script by name; unknown
+ * ids get the default script.
+ *
+ * Run standalone with `npm run stub:flowise` (FLOWISE_STUB_PORT,
+ * FLOWISE_STUB_SCRIPTS), then point the test agent at it with
+ * FLOWISE_ENDPOINT_OVERRIDE=http://localhost:3902/api/v1/prediction/booking-happy-path
+ *
+ * Test hooks:
+ *   POST /__stub/reset   clear all session state
+ */
+
+import * as http from 'http';
+import {
+  BUILT_IN_SCRIPTS_DIR,
+  loadStubScripts,
+  renderStep,
+  StubFault,
+  StubScript,
+  StubStep,
+} from './script';
+
+export interface FlowiseStubServerOptions {
+  port?: number;
+  /** Scripts to serve (defaults to the scripts in FLOWISE_STUB_SCRIPTS or the built-in directory) */
+  scripts?: StubScript[];
+  /** Script used for chatflow ids that match no script name (defaults to the first script) */
+  defaultScript?: string;
+}
+
+export interface FlowiseStubServer {
+  server: http.Server;
+  port: number;
+  /** Prediction URL for a script, ready to use as the Flowise endpoint */
+  endpointFor(scriptName?: string): string;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface SessionState {
+  turn: number;
+  /** Failed attempts served for the current step's fault */
+  failures: number;
+}
+
+const PREDICTION_PATH = /^\/api\/v1\/prediction\/([^/?]+)\/?$/;
+
+const END_CALL_STEP: StubStep = { behavior: 'end_call' };
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function getConfiguredPort(): number {
+  const port = Number(process.env.FLOWISE_STUB_PORT);
+  return port > 0 ? port : 3902;
+}
+
+export function startFlowiseStubServer(options: FlowiseStubServerOptions = {}): Promise<FlowiseStubServer> {
+  const { port = getConfiguredPort() } = options;
+  const scripts = options.scripts ?? loadStubScripts(process.env.FLOWISE_STUB_SCRIPTS || BUILT_IN_SCRIPTS_DIR);
+  if (scripts.length === 0) {
+    return Promise.reject(new Error('Flowise stub needs at least one script'));
+  }
+
+  const scriptsByName = new Map(scripts.map(script => [script.name, script]));
+  const defaultScript = (options.defaultScript && scriptsByName.get(options.defaultScript)) || scripts[0];
+  const sessions = new Map<string, SessionState>();
+
+  const nextStep = (script: StubScript, state: SessionState): StubStep => {
+    if (state.turn < script.steps.length) {
+      return script.steps[state.turn];
+    }
+    return script.onExhausted === 'repeat_last' ? script.steps[script.steps.length - 1] : END_CALL_STEP;
+  };
+
+  const handlePrediction = async (chatflowId: string, req: http.IncomingMessage, res: http.ServerResponse) => {
+    let payload: any;
+    try {
+      payload = JSON.parse((await readBody(req)) || '{}');
+    } catch {
+      sendJson(res, 400, { message: 'Request body must be JSON' });
+      return;
+    }
+    if (typeof payload.question !== 'string') {
+      sendJson(res, 400, { message: 'question is required' });
+      return;
+    }
+
+    const script = scriptsByName.get(chatflowId) || defaultScript;
+    const sessionId: string = payload.overrideConfig?.sessionId || 'default';
+    const sessionKey = `${script.name}:${sessionId}`;
+    const state = sessions.get(sessionKey) || { turn: 0, failures: 0 };
+    sessions.set(sessionKey, state);
+
+    const step = nextStep(script, state);
+    const fault: StubFault = { ...script.defaults, ...step.fault };
+
+    if (fault.latencyMs) {
+      await delay(fault.latencyMs);
+    }
+
+    // Fail this step's first N attempts, then serve it (lets client retries recover)
+    if (fault.status && state.failures < (fault.failAttempts ?? 1)) {
+      state.failures++;
+      sendJson(res, fault.status, { message: `Flowise stub injected ${fault.status} (${script.name} step ${state.turn + 1})` });
+      return;
+    }
+
+    const { text, usedTools } = renderStep(step, sessionId);
+    state.turn++;
+    state.failures = 0;
+
+    sendJson(res, 200, {
+      text,
+      question: payload.question,
+      chatId: sessionId,
+      sessionId,
+      usedTools: fault.malformedTools
+        ? usedTools.map(tool => ({ toolInput: JSON.stringify(tool.toolInput).slice(0, -1), toolOutput: '<html>502 Bad Gateway' }))
+        : usedTools,
+    });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = (req.url || '').split('?')[0];
+    const predictionMatch = url.match(PREDICTION_PATH);
+
+    if (req.method === 'POST' && predictionMatch) {
+      handlePrediction(decodeURIComponent(predictionMatch[1]), req, res).catch(error => {
+        sendJson(res, 500, { message: error instanceof Error ? error.message : String(error) });
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && url === '/__stub/reset') {
+      sessions.clear();
+      sendJson(res, 200, { success: true });
+      return;
+    }
+
+    sendJson(res, 404, { message: `No route for ${req.method} ${url}` });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.on('error', reject);
+    server.listen(port, () => {
+      const address = server.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+
+      console.log(`[FlowiseStub] Listening on port ${boundPort} with scripts: ${scripts.map(s => s.name).join(', ')}`);
+
+      resolve({
+        server,
+        port: boundPort,
+        endpointFor: (scriptName = defaultScript.name) =>
+          `http://localhost:${boundPort}/api/v1/prediction/${encodeURIComponent(scriptName)}`,
+        reset: () => sessions.clear(),
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run standalone if this file is executed directly
+if (require.main === module) {
+  startFlowiseStubServer().catch(error => {
+    console.error(`[FlowiseStub] Failed to start: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  });
+}
@@ -14,6 +14,7 @@ import {
   INTENT_KEYWORDS,
 } from '../tests/types/intent';
 import type { CollectableField } from '../tests/types/goals';
+import type { PersonaLanguage } from '../tests/types/persona';
 import type { ConversationTurn } from '../tests/test-case';
 
 /**
@@ -77,20 +78,22 @@ export class IntentDetector {
    * Check if LLM-based detection is available
    */
   async isLlmAvailable(): Promise<boolean> {
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('semantic-evaluation');
     return status.available && this.detectorConfig.useLlm;
   }
 
   /**
    * Detect the intent from an agent response
+   * @param language - Language of the conversation (the persona's language)
    */
   async detectIntent(
     agentResponse: string,
     conversationHistory: ConversationTurn[],
-    pendingFields: CollectableField[] = []
+    pendingFields: CollectableField[] = [],
+    language: PersonaLanguage = 'en'
   ): Promise<IntentDetectionResult> {
     // Check cache first
-    const cacheKey = this.getCacheKey(agentResponse, pendingFields);
+    const cacheKey = this.getCacheKey(agentResponse, pendingFields, language);
     const cached = this.getFromCache(cacheKey);
     if (cached) {
       return cached;
@@ -100,7 +103,7 @@ export class IntentDetector {
     const llmAvailable = await this.isLlmAvailable();
     if (llmAvailable) {
       try {
-        const result = await this.detectWithLlm(agentResponse, conversationHistory, pendingFields);
+        const result = await this.detectWithLlm(agentResponse, conversationHistory, pendingFields, language);
         this.saveToCache(cacheKey, result);
         return result;
       } catch (error) {
@@ -109,7 +112,7 @@ export class IntentDetector {
     }
 
     // Fall back to keyword detection
-    const result = this.detectWithKeywords(agentResponse);
+    const result = this.detectWithKeywords(agentResponse, language);
     this.saveToCache(cacheKey, result);
     return result;
   }
@@ -120,9 +123,10 @@ export class IntentDetector {
   private async detectWithLlm(
     agentResponse: string,
     conversationHistory: ConversationTurn[],
-    pendingFields: CollectableField[]
+    pendingFields: CollectableField[],
+    language: PersonaLanguage
   ): Promise<IntentDetectionResult> {
-    const prompt = this.buildPrompt(agentResponse, conversationHistory, pendingFields);
+    const prompt = this.buildPrompt(agentResponse, conversationHistory, pendingFields, language);
 
     const response = await this.llmProvider.execute({
       prompt,
@@ -130,6 +134,7 @@ export class IntentDetector {
       maxTokens: this.detectorConfig.maxTokens,
       temperature: this.detectorConfig.temperature,
       timeout: this.detectorConfig.timeout,
+      purpose: 'semantic-evaluation',
     });
 
     if (!response.success || !response.content) {
@@ -145,7 +150,8 @@ export class IntentDetector {
   private buildPrompt(
     agentResponse: string,
     conversationHistory: ConversationTurn[],
-    pendingFields: CollectableField[]
+    pendingFields: CollectableField[],
+    language: PersonaLanguage
   ): string {
     // Get recent history (last 4 turns)
     const recentHistory = conversationHistory.slice(-4);
@@ -163,7 +169,11 @@ ${historyText}
 
 ## Fields Not Yet Collected
 ${pendingFields.length > 0 ? pendingFields.join(', ') : 'None specified'}
-
+${language === 'es' ? `
+## Language
+The caller speaks Spanish, so the agent's response is likely in Spanish (possibly mixed with English).
+Classify by meaning and return the English intent names below. Quote the Spanish text in "reasoning".
+` : ''}
 ## Your Task
 Identify the agent's PRIMARY intent from this response. What information is the agent asking for or what action is it taking?
 
@@ -262,12 +272,13 @@ Note: Use asking_proceed_confirmation when agent asks "Would you like to proceed
   /**
    * Detect intent using keyword matching
    */
-  private detectWithKeywords(agentResponse: string): IntentDetectionResult {
-    const primaryIntent = detectIntentByKeywords(agentResponse);
+  private detectWithKeywords(agentResponse: string, language: PersonaLanguage): IntentDetectionResult {
+    const primaryIntent = detectIntentByKeywords(agentResponse, language);
 
     // Determine if it's a question
-    const isQuestion = /\?/.test(agentResponse) ||
-      /\b(what|how|when|where|who|which|could you|would you|can you|may i)\b/i.test(agentResponse);
+    const isQuestion = /[?¿]/.test(agentResponse) ||
+      /\b(what|how|when|where|who|which|could you|would you|can you|may i)\b/i.test(agentResponse) ||
+      (language === 'es' && /(qué|cómo|cuándo|dónde|quién|cuál|puede|podría)/i.test(agentResponse));
 
     // Determine if response is expected
     const terminalIntents: AgentIntent[] = ['saying_goodbye', 'confirming_booking', 'initiating_transfer'];
@@ -290,10 +301,10 @@ Note: Use asking_proceed_confirmation when agent asks "Would you like to proceed
   /**
    * Generate cache key
    */
-  private getCacheKey(response: string, pendingFields: CollectableField[]): string {
-    // Use first 100 chars of response + pending fields
+  private getCacheKey(response: string, pendingFields: CollectableField[], language: PersonaLanguage): string {
+    // Use first 100 chars of response + pending fields + language
     const prefix = response.slice(0, 100).toLowerCase().replace(/\s+/g, ' ');
-    return `${prefix}|${pendingFields.sort().join(',')}`;
+    return `${prefix}|${pendingFields.sort().join(',')}|${language}`;
   }
 
   /**
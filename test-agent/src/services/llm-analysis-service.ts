@@ -146,7 +146,7 @@ export class LLMAnalysisService {
 
   private async logInitialization(): Promise<void> {
     const mode = isClaudeCliEnabled() ? 'CLI' : 'API';
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('failure-analysis');
     if (status.available) {
       console.log(`[LLMAnalysisService] Initialized with ${mode} mode (provider: ${status.provider})`);
     } else {
@@ -190,7 +190,7 @@ export class LLMAnalysisService {
    * Check if the service is available (API key or CLI configured)
    */
   isAvailable(): boolean {
-    return this.llmProvider.isAvailable();
+    return this.llmProvider.isAvailable('failure-analysis');
   }
 
   /**
@@ -234,7 +234,7 @@ export class LLMAnalysisService {
       }
     }
 
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('failure-analysis');
     console.log(`[Diagnosis:LLM] LLM Provider status:`, status);
 
     if (!status.available) {
@@ -0,0 +1,164 @@
+/**
+ * Local Node-RED Runtime
+ * Runs the V1 flow file (nodered_Cloud9_flows.json) in a throwaway Node-RED
+ * instance wired to the backend's in-process Cloud 9 mock, so the Node-RED
+ * contract tests can run without a deployed Node-RED or Cloud 9 credentials.
+ *
+ * Needs a Node-RED install (`npm i -g node-red`, or NODERED_BIN pointing at
+ * its executable). The function nodes load node-fetch as an external module,
+ * which Node-RED installs into the temporary user directory on first start.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const V1_FLOW_PATH = path.resolve(__dirname, '../../../docs/v1/nodered_Cloud9_flows.json');
+
+/** Node-RED has to install node-fetch for the function nodes before the flows start */
+const STARTUP_TIMEOUT_MS = 120000;
+
+/** Node-RED's log line once every flow is running */
+const STARTED_PATTERN = /Started flows/;
+
+export interface LocalNodeRedOptions {
+  /** Node-RED executable */
+  bin: string;
+  port: number;
+}
+
+export interface LocalNodeRedRuntime {
+  /** Root of the flow's `http in` paths */
+  baseUrl: string;
+  cloud9Endpoint: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Copy of the V1 flow with the tab's env variables (Cloud 9 endpoint,
+ * credentials, default GUIDs) replaced by the given values
+ */
+function buildFlows(envOverrides: Record<string, string>): unknown[] {
+  const flows = JSON.parse(fs.readFileSync(V1_FLOW_PATH, 'utf-8')) as any[];
+
+  for (const node of flows) {
+    if (node.type !== 'tab' || !Array.isArray(node.env)) continue;
+    for (const variable of node.env) {
+      if (variable.name in envOverrides) variable.value = envOverrides[variable.name];
+    }
+  }
+
+  return flows;
+}
+
+function waitForStartup(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Node-RED did not start within ${STARTUP_TIMEOUT_MS / 1000}s:\n${output.slice(-2000)}`));
+    }, STARTUP_TIMEOUT_MS);
+
+    const onData = (chunk: Buffer) => {
+      output += chunk.toString();
+      if (STARTED_PATTERN.test(output)) finish();
+    };
+    const onExit = (code: number | null) => {
+      finish(new Error(`Node-RED exited with code ${code} before starting:\n${output.slice(-2000)}`));
+    };
+    const onError = (error: Error) => finish(error);
+
+    function finish(error?: Error) {
+      clearTimeout(timer);
+      child.stdout?.off('data', onData);
+      child.stderr?.off('data', onData);
+      child.off('exit', onExit);
+      child.off('error', onError);
+      if (error) reject(error);
+      else resolve();
+    }
+
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('exit', onExit);
+    child.on('error', onError);
+  });
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve();
+  return new Promise(resolve => {
+    child.once('exit', () => resolve());
+    child.kill('SIGTERM');
+  });
+}
+
+/**
+ * Start the Cloud 9 mock and a Node-RED instance running the V1 flow against it
+ */
+export async function startLocalNodeRed(options: LocalNodeRedOptions): Promise<LocalNodeRedRuntime> {
+  // Loaded lazily so contract runs against a remote Node-RED don't pull in the backend
+  const { startMockCloud9Server } = await import('../../../backend/src/services/cloud9/mock/server');
+  const { MOCK_CONFIG } = await import('../../../backend/src/config/cloud9');
+
+  const cloud9 = await startMockCloud9Server({ port: 0 });
+  const cloud9Endpoint = `http://127.0.0.1:${cloud9.port}/GetData.ashx`;
+
+  // The mock rejects unknown location and appointment type GUIDs, so the
+  // production defaults are swapped for records from the mock dataset
+  const dataset = cloud9.getDataset();
+  const scheduleView = dataset.scheduleViews[0];
+  const flows = buildFlows({
+    cloud9Endpoint,
+    cloud9ClientId: MOCK_CONFIG.credentials.clientId,
+    cloud9UserName: MOCK_CONFIG.credentials.userName,
+    cloud9Password: MOCK_CONFIG.credentials.password,
+    vendorUserName: MOCK_CONFIG.credentials.userName,
+    defaultProviderGUID: scheduleView.orthodontistGuid,
+    defaultLocationGUID: scheduleView.locationGuid,
+    defaultApptTypeGUID: dataset.appointmentTypes[0].guid,
+    defaultScheduleViewGUID: scheduleView.guid,
+    defaultScheduleColumnGUID: scheduleView.columns[0].guid,
+    testPatientGUID: dataset.patients[0].guid,
+  });
+
+  const userDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nodered-contract-'));
+  fs.writeFileSync(path.join(userDir, 'flows.json'), JSON.stringify(flows, null, 2));
+  fs.writeFileSync(path.join(userDir, 'settings.js'), `module.exports = {
+  flowFile: 'flows.json',
+  credentialSecret: false,
+  functionExternalModules: true,
+  httpAdminRoot: false,
+  logging: { console: { level: 'info' } },
+};
+`);
+
+  const cleanup = async (child?: ChildProcess) => {
+    if (child) await stopProcess(child);
+    await cloud9.close();
+    fs.rmSync(userDir, { recursive: true, force: true });
+  };
+
+  let child: ChildProcess | undefined;
+  try {
+    child = spawn(options.bin, [
+      '--userDir', userDir,
+      '--settings', path.join(userDir, 'settings.js'),
+      '--port', String(options.port),
+      'flows.json',
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    await waitForStartup(child);
+  } catch (error) {
+    await cleanup(child);
+    throw error;
+  }
+
+  const runningChild = child;
+  return {
+    baseUrl: `http://127.0.0.1:${options.port}`,
+    cloud9Endpoint,
+    stop: () => cleanup(runningChild),
+  };
+}
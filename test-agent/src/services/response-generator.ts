@@ -8,10 +8,11 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import type { UserPersona, DataInventory, ChildData } from '../tests/types/persona';
+import type { UserPersona, DataInventory, ChildData, PersonaLanguage } from '../tests/types/persona';
 import type { AgentIntent, IntentDetectionResult } from '../tests/types/intent';
 import type { CollectableField } from '../tests/types/goals';
 import type { ConversationTurn } from '../tests/test-case';
+import { VoiceChannelSimulator } from './voice-channel-simulator';
 import {
   getLangfuseService,
   getCurrentTraceContext,
@@ -192,6 +193,140 @@ const RESPONSE_TEMPLATES: Partial<Record<AgentIntent, ResponseTemplate>> = {
   'unknown': () => 'Yes',  // Fallback only if smartFallback also fails
 };
 
+/**
+ * Spanish response templates, used for personas with language 'es'.
+ * Intents without a Spanish template fall back to the English one.
+ */
+const RESPONSE_TEMPLATES_ES: Partial<Record<AgentIntent, ResponseTemplate>> = {
+  // Parent info
+  'asking_parent_name': (inv) =>
+    `${inv.parentFirstName} ${inv.parentLastName}`,
+
+  'asking_spell_name': (inv) => {
+    const fullName = `${inv.parentFirstName} ${inv.parentLastName}`;
+    return fullName.split('').join('-').toUpperCase();
+  },
+
+  'asking_phone': (inv) =>
+    inv.parentPhone,
+
+  'asking_email': (inv) =>
+    inv.parentEmail || 'No tengo correo electrónico',
+
+  'asking_parent_dob': (inv) => {
+    if (!inv.parentDateOfBirth) {
+      const parentYear = new Date().getFullYear() - 40;
+      return `15 de enero de ${parentYear}`;
+    }
+    const dob = new Date(inv.parentDateOfBirth);
+    return dob.toLocaleDateString('es-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  },
+
+  // Child info
+  'asking_child_count': (inv) => {
+    const count = inv.children.length;
+    if (count === 1) return 'Un hijo';
+    if (count === 2) return 'Dos hijos';
+    return `${count} hijos`;
+  },
+
+  'asking_child_name': (inv, ctx) => {
+    const child = inv.children[ctx.currentChildIndex] || inv.children[0];
+    if (!child) return 'Perdón, no tengo esa información';
+    return `${child.firstName} ${child.lastName}`;
+  },
+
+  'asking_child_dob': (inv, ctx) => {
+    const child = inv.children[ctx.currentChildIndex] || inv.children[0];
+    if (!child) return 'No lo sé';
+    const dob = new Date(child.dateOfBirth);
+    return dob.toLocaleDateString('es-US', { month: 'long', day: 'numeric', year: 'numeric' });
+  },
+
+  'asking_child_age': (inv, ctx) => {
+    const child = inv.children[ctx.currentChildIndex] || inv.children[0];
+    if (!child) return 'No lo sé';
+    const dob = new Date(child.dateOfBirth);
+    const age = Math.floor((Date.now() - dob.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+    return `${age} años`;
+  },
+
+  // Patient status
+  'asking_new_patient': (inv) => {
+    const firstChild = inv.children[0];
+    if (!firstChild) return 'Sí, paciente nuevo';
+    return firstChild.isNewPatient ? 'Sí, sería nuestra primera visita' : 'No, ya hemos venido antes';
+  },
+
+  'asking_previous_visit': (inv) =>
+    inv.previousVisitToOffice ? 'Sí, ya hemos ido antes' : 'No, es nuestra primera vez',
+
+  'asking_previous_ortho': (inv) => {
+    if (inv.previousOrthoTreatment) return 'Sí, tuvo frenos antes';
+    const child = inv.children[0];
+    if (child?.hadBracesBefore) return 'Sí, tuvo frenos antes con otro ortodoncista';
+    return 'No, nunca ha tenido tratamiento de ortodoncia';
+  },
+
+  // Preferences
+  'asking_insurance': (inv) => {
+    if (!inv.insuranceProvider && inv.hasInsurance === false) return 'No tenemos seguro';
+    if (!inv.insuranceProvider) return 'No sé qué seguro tenemos';
+    return inv.insuranceProvider;
+  },
+
+  'asking_special_needs': (inv) => {
+    const child = inv.children[0];
+    if (child?.specialNeeds) return child.specialNeeds;
+    return 'No, ninguna necesidad especial ni condición médica';
+  },
+
+  'asking_time_preference': (inv) => {
+    if (inv.preferredTimeOfDay === 'morning') return 'Por la mañana es mejor';
+    if (inv.preferredTimeOfDay === 'afternoon') return 'Por la tarde es mejor';
+    return 'Cualquier hora nos funciona';
+  },
+
+  'asking_location_preference': (inv) =>
+    inv.preferredLocation || 'Cualquier oficina está bien',
+
+  // Confirmations
+  'confirming_information': () => 'Sí, es correcto',
+  'confirming_spelling': () => 'Sí, así es',
+  'asking_proceed_confirmation': () => 'Sí, por favor continúe',
+  'reminding_bring_card': () => 'Está bien, llevaré la tarjeta del seguro',
+
+  // Booking flow
+  'searching_availability': () => 'Está bien, gracias',
+  'offering_time_slots': () => 'Sí, ese horario me funciona',
+  'confirming_booking': () => '¡Perfecto, muchas gracias!',
+
+  // Post-booking info
+  'offering_address': () => 'Sí, ¿me puede dar la dirección?',
+  'providing_address': () => 'Gracias, ya tengo la dirección',
+  'providing_parking_info': () => 'Perfecto, gracias por la información del estacionamiento',
+
+  // Terminal
+  'saying_goodbye': () => 'Gracias, ¡adiós!',
+
+  // Transfers
+  'initiating_transfer': () => 'Está bien, espero',
+
+  // Error handling
+  'handling_error': () => '¿Puede intentarlo de nuevo, por favor?',
+  'asking_clarification': () => 'Perdón, ¿puede repetir?',
+
+  // Greeting
+  'greeting': () => 'Hola, necesito hacer una cita de ortodoncia para mi hijo',
+
+  'unknown': () => 'Sí',
+};
+
+const RESPONSE_TEMPLATE_SETS: Record<PersonaLanguage, Partial<Record<AgentIntent, ResponseTemplate>>> = {
+  en: RESPONSE_TEMPLATES,
+  es: RESPONSE_TEMPLATES_ES,
+};
+
 /**
  * Keyword patterns for smart fallback when intent classification fails.
  * Maps keywords in agent's message to the data field to provide.
@@ -302,6 +437,24 @@ const SMART_FALLBACK_PATTERNS: Array<{
   },
 ];
 
+/**
+ * Spanish smart fallback: maps keywords in a Spanish agent message to the
+ * intent whose Spanish template should answer it. Tried before the English
+ * patterns for Spanish personas.
+ */
+const SMART_FALLBACK_PATTERNS_ES: Array<{ pattern: RegExp; intent: AgentIntent }> = [
+  { pattern: /\bnombre.*(hij[oa]|ni[nñ][oa]|paciente)/i, intent: 'asking_child_name' },
+  { pattern: /\b(fecha de nacimiento|naci[oó]|cumplea[nñ]os)/i, intent: 'asking_child_dob' },
+  { pattern: /\b(cu[aá]ntos a[nñ]os|edad)/i, intent: 'asking_child_age' },
+  { pattern: /\b(tel[eé]fono|n[uú]mero)/i, intent: 'asking_phone' },
+  { pattern: /\bcorreo/i, intent: 'asking_email' },
+  { pattern: /\b(su nombre|nombre completo|apellido)/i, intent: 'asking_parent_name' },
+  { pattern: /\b(seguro|aseguranza|cobertura)/i, intent: 'asking_insurance' },
+  { pattern: /\b(paciente nuev[oa]|primera vez)/i, intent: 'asking_new_patient' },
+  { pattern: /\b(oficina|ubicaci[oó]n)/i, intent: 'asking_location_preference' },
+  { pattern: /\b(ma[nñ]ana|tarde|horario|hora)/i, intent: 'asking_time_preference' },
+];
+
 /**
  * Response Generator Service
  */
@@ -310,6 +463,7 @@ export class ResponseGenerator {
   private config: ResponseGeneratorConfig;
   private persona: UserPersona;
   private context: ResponseContext;
+  private voiceChannel: VoiceChannelSimulator | null = null;
 
   constructor(persona: UserPersona, cfg?: Partial<ResponseGeneratorConfig>) {
     this.config = { ...DEFAULT_CONFIG, ...cfg };
@@ -320,6 +474,11 @@ export class ResponseGenerator {
       conversationHistory: [],
     };
     this.initializeClient();
+
+    if (persona.traits.voice) {
+      this.voiceChannel = new VoiceChannelSimulator(persona.traits.voice, persona.inventory, persona.traits.language);
+      console.log(`[ResponseGenerator] Voice channel simulation enabled (seed: ${this.voiceChannel.getSeed()})`);
+    }
   }
 
   private initializeClient(): void {
@@ -352,12 +511,46 @@ export class ResponseGenerator {
     // Decide: template or LLM?
     const useTemplate = !this.shouldUseLlm(intent);
 
-    if (useTemplate) {
-      return this.generateTemplateResponse(intent.primaryIntent, data);
-    }
+    const response = useTemplate
+      ? this.generateTemplateResponse(intent.primaryIntent, data)
+      : await this.generateLlmResponse(intent, data, conversationHistory); // Use LLM when enabled via config
+
+    return this.applyVoiceChannel(response, intent.primaryIntent);
+  }
+
+  /**
+   * Distort a reply the way the phone channel would (ASR noise / DTMF), if the
+   * persona has voice traits. Public so replies from other generators can go
+   * through the same channel.
+   */
+  applyVoiceChannel(
+    response: string,
+    intent: AgentIntent,
+    childIndex: number = this.context.currentChildIndex
+  ): string {
+    if (!this.voiceChannel) return response;
 
-    // Use LLM when enabled via config
-    return this.generateLlmResponse(intent, data, conversationHistory);
+    const inv = this.persona.inventory;
+    const child = inv.children[childIndex] || inv.children[0];
+    // Keypad entry: phone digits, dates as MMDDYYYY
+    const toKeypadDate = (iso?: string) => {
+      const match = iso?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+      return match ? `${match[2]}${match[3]}${match[1]}` : undefined;
+    };
+    const dtmfValue =
+      intent === 'asking_phone' ? inv.parentPhone?.replace(/\D/g, '') :
+      intent === 'asking_child_dob' ? toKeypadDate(child?.dateOfBirth) :
+      intent === 'asking_parent_dob' ? toKeypadDate(inv.parentDateOfBirth) :
+      undefined;
+
+    return this.voiceChannel.transform(response, intent, dtmfValue);
+  }
+
+  /**
+   * Seed of the voice channel simulation, or null when it is off
+   */
+  getVoiceChannelSeed(): number | null {
+    return this.voiceChannel?.getSeed() ?? null;
   }
 
   /**
@@ -523,11 +716,18 @@ export class ResponseGenerator {
     return Array.from(this.context.providedData);
   }
 
+  /**
+   * Language the persona speaks
+   */
+  private get language(): PersonaLanguage {
+    return this.persona.traits.language || 'en';
+  }
+
   /**
    * Generate response using template
    */
   private generateTemplateResponse(intent: AgentIntent, data: Record<string, any>): string {
-    const template = RESPONSE_TEMPLATES[intent];
+    const template = RESPONSE_TEMPLATE_SETS[this.language][intent] || RESPONSE_TEMPLATES[intent];
 
     // For unknown intents, try smart fallback first
     if (!template || intent === 'unknown') {
@@ -565,6 +765,15 @@ export class ResponseGenerator {
 
     const agentMessage = lastAgentTurn.content;
 
+    if (this.language === 'es') {
+      const match = SMART_FALLBACK_PATTERNS_ES.find(({ pattern }) => pattern.test(agentMessage));
+      const template = match && RESPONSE_TEMPLATES_ES[match.intent];
+      if (match && template) {
+        console.log(`[ResponseGenerator] Spanish smart fallback matched: ${match.pattern.source} -> ${match.intent}`);
+        return template(this.persona.inventory, this.context);
+      }
+    }
+
     // Check each smart fallback pattern
     for (const { pattern, getResponse } of SMART_FALLBACK_PATTERNS) {
       if (pattern.test(agentMessage)) {
@@ -614,6 +823,7 @@ Your children: ${childInfo}
 - Name: ${this.persona.name} (you are the PARENT)
 - Verbosity: ${traits.verbosity}
 - Provides extra unrequested info: ${traits.providesExtraInfo}
+- Language: ${this.language === 'es' ? 'Spanish' : 'English'}
 
 ## Agent's Question Intent
 ${intent.primaryIntent} (confidence: ${intent.confidence})
@@ -630,6 +840,7 @@ Generate a natural response as this persona would give.
 ${traits.verbosity === 'terse' ? 'Keep it very brief - just the requested info.' : ''}
 ${traits.verbosity === 'verbose' ? 'Be conversational and add some natural filler.' : ''}
 ${traits.providesExtraInfo ? 'You can volunteer related information if natural.' : 'Only answer what was asked.'}
+${this.language === 'es' ? 'IMPORTANT: You speak Spanish. Reply ONLY in natural, conversational Spanish (as a Spanish-speaking parent in Philadelphia would), even if the agent writes in English. Keep names, phone numbers and insurance provider names exactly as given.' : ''}
 IMPORTANT: If asked who the appointment is for, ALWAYS say it's for your CHILD, not yourself.
 IMPORTANT: When discussing scheduling preferences, NEVER request specific days of the week (Monday, Tuesday, Wednesday, etc.). Only express general preferences like "morning", "afternoon", or "anytime". Be flexible about which day - just express time-of-day preference.
 
@@ -664,6 +875,7 @@ Return ONLY the response text, nothing else.`;
             personaName: this.persona.name,
             intentType: intent.primaryIntent,
             verbosityLevel: traits.verbosity,
+            language: this.language,
             childIndex: this.context.currentChildIndex,
           },
         });
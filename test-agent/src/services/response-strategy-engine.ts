@@ -641,6 +641,7 @@ export class ResponseStrategyEngine {
         maxTokens: this.engineConfig.maxTokens,
         temperature: this.engineConfig.temperature,
         timeout: this.engineConfig.timeout,
+        purpose: 'response-generation',
       });
 
       if (response.success && response.content) {
@@ -0,0 +1,72 @@
+/**
+ * Run Usage Tracker
+ * Persists the LLM token usage of one test run (per test, purpose and model)
+ * and enforces the run's cost budget
+ */
+
+import { Database, LLMUsageTotals } from '../storage/database';
+import { onLLMUsage, type LLMUsageEvent } from '../../../shared/services';
+
+export class RunUsageTracker {
+  private totals: LLMUsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  private unsubscribe: (() => void) | null = null;
+  private budgetExceeded = false;
+
+  constructor(
+    private database: Database,
+    private runId: string,
+    private budgetUsd?: number,
+    private onBudgetExceeded?: (totals: LLMUsageTotals) => void
+  ) {}
+
+  /**
+   * Start recording usage. Calls made outside any usage scope are counted
+   * against this run, since a test-agent process runs one run at a time.
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = onLLMUsage(event => this.record(event));
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  getTotals(): LLMUsageTotals {
+    return { ...this.totals };
+  }
+
+  isBudgetExceeded(): boolean {
+    return this.budgetExceeded;
+  }
+
+  /**
+   * Progress line for the console; the backend parses it for live execution metrics
+   */
+  formatUsageLine(): string {
+    const budget = this.budgetUsd ? ` budget_usd=${this.budgetUsd.toFixed(2)}` : '';
+    return `[Usage] tokens_in=${this.totals.inputTokens} tokens_out=${this.totals.outputTokens} ` +
+      `cost_usd=${this.totals.costUsd.toFixed(4)}${budget}`;
+  }
+
+  private record(event: LLMUsageEvent): void {
+    if (event.runId && event.runId !== this.runId) return;
+
+    try {
+      this.database.recordLLMUsage({ ...event, runId: this.runId });
+    } catch (e: any) {
+      console.warn(`[Usage] Failed to record LLM usage: ${e.message}`);
+    }
+
+    this.totals.calls++;
+    this.totals.inputTokens += event.inputTokens;
+    this.totals.outputTokens += event.outputTokens;
+    this.totals.costUsd += event.costUsd;
+
+    if (this.budgetUsd && !this.budgetExceeded && this.totals.costUsd >= this.budgetUsd) {
+      this.budgetExceeded = true;
+      this.onBudgetExceeded?.(this.getTotals());
+    }
+  }
+}
@@ -28,7 +28,7 @@ import {
 } from '../schemas/response-category-schemas';
 import type { IntentDetectionResult, AgentIntent } from '../tests/types/intent';
 import type { ConversationTurn } from '../tests/test-case';
-import type { UserPersona } from '../tests/types/persona';
+import type { UserPersona, PersonaLanguage } from '../tests/types/persona';
 
 // =============================================================================
 // Configuration
@@ -258,7 +258,7 @@ export class SemanticClassifier {
       return compatibleResult;
     } catch (error: any) {
       console.error('[SemanticClassifier] LLM classification failed:', error.message);
-      return this.getFallbackResult(agentResponse);
+      return this.getFallbackResult(agentResponse, persona.traits.language);
     }
   }
 
@@ -341,7 +341,12 @@ ${historyText}
 ${childInfo}
 - Has insurance: ${persona.inventory.hasInsurance ?? 'unknown'}
 - Insurance provider: ${persona.inventory.insuranceProvider ?? 'unknown'}
-
+${persona.traits.language === 'es' ? `
+## Language
+The caller speaks Spanish, so the agent's message is likely in Spanish (possibly mixed with English).
+Classify by meaning; keep every JSON value (categories, fields, options) in English as listed below.
+Spanish terminal examples: "Su cita ha sido programada" = booking_confirmed, "Le voy a transferir" = transfer_initiated, "Que tenga un buen día" = conversation_ended.
+` : ''}
 ## Classification Instructions
 
 ### Response Categories
@@ -539,12 +544,16 @@ Include only relevant optional fields. Always include: category, confidence, ter
   /**
    * Fallback result when LLM fails
    */
-  private getFallbackResult(agentResponse: string): CategoryClassificationResult {
+  private getFallbackResult(agentResponse: string, language: PersonaLanguage = 'en'): CategoryClassificationResult {
     // Basic heuristics as absolute fallback
     const isQuestion = agentResponse.includes('?');
-    const hasBookingWords = /\b(book|schedule|appointment)\b/i.test(agentResponse);
-    const hasConfirmationWords = /\b(confirmed|scheduled|booked|set)\b/i.test(agentResponse);
-    const isPastTense = /\b(has been|have been|is confirmed|are confirmed|'ve |'s been)\b/i.test(agentResponse);
+    const spanish = language === 'es';
+    const hasBookingWords = /\b(book|schedule|appointment)\b/i.test(agentResponse) ||
+      (spanish && /\b(cita|consulta|programar|agendar)/i.test(agentResponse));
+    const hasConfirmationWords = /\b(confirmed|scheduled|booked|set)\b/i.test(agentResponse) ||
+      (spanish && /\b(confirmada|programada|agendada|reservada)\b/i.test(agentResponse));
+    const isPastTense = /\b(has been|have been|is confirmed|are confirmed|'ve |'s been)\b/i.test(agentResponse) ||
+      (spanish && /\b(ha sido|fue|qued[oó]|est[aá] (confirmada|programada))/i.test(agentResponse));
 
     return {
       category: isQuestion ? 'provide_data' : 'acknowledge',
@@ -552,7 +561,8 @@ Include only relevant optional fields. Always include: category, confidence, ter
       dataFields: ['unknown'],
       terminalState: (hasConfirmationWords && isPastTense) ? 'booking_confirmed' : 'none',
       bookingMentioned: hasBookingWords,
-      transferMentioned: /\b(transfer|connect)\b/i.test(agentResponse),
+      transferMentioned: /\b(transfer|connect)\b/i.test(agentResponse) ||
+        (spanish && /\b(transferir|comunicar|conectar)/i.test(agentResponse)),
       bookingConfirmedThisTurn: hasConfirmationWords && isPastTense,
       reasoning: 'Fallback classification - LLM unavailable',
     };
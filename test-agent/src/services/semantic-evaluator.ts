@@ -75,7 +75,7 @@ export class SemanticEvaluator {
 
   private async logInitialization(): Promise<void> {
     const mode = isClaudeCliEnabled() ? 'CLI' : 'API';
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('semantic-evaluation');
     if (status.available) {
       console.log(`[SemanticEvaluator] Initialized with ${mode} mode (provider: ${status.provider})`);
     } else {
@@ -87,7 +87,7 @@ export class SemanticEvaluator {
    * Check if LLM-based evaluation is available
    */
   isAvailable(): boolean {
-    return this.llmProvider.isAvailable() && this.evaluatorConfig.enabled;
+    return this.llmProvider.isAvailable('semantic-evaluation') && this.evaluatorConfig.enabled;
   }
 
   /**
@@ -141,7 +141,7 @@ export class SemanticEvaluator {
     }
 
     // Check if LLM is available
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('semantic-evaluation');
     if (!status.available || !this.evaluatorConfig.enabled) {
       const evaluation = this.fallbackEvaluation(context, startTime);
       await this.endEvaluationSpan(span, evaluation, traceContext);
@@ -239,7 +239,7 @@ export class SemanticEvaluator {
     if (contexts.length === 0) return [];
 
     // Check if LLM is available
-    const status = await this.llmProvider.checkAvailability();
+    const status = await this.llmProvider.checkAvailability('semantic-evaluation');
     if (!status.available || !this.evaluatorConfig.enabled) {
       return contexts.map(ctx => this.fallbackEvaluation(ctx, Date.now()));
     }
@@ -271,6 +271,7 @@ export class SemanticEvaluator {
         maxTokens: 4096,
         temperature: 0.1,
         timeout: this.evaluatorConfig.timeout,
+        purpose: 'semantic-evaluation',
       });
 
       if (!response.success) {
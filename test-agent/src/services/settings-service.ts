@@ -43,7 +43,7 @@ export async function getActiveFlowiseConfig(): Promise<FlowiseConfig | null> {
   try {
     const response = await axios.get(
       `${config.backend.baseUrl}/api/test-monitor/flowise-configs/active`,
-      { timeout: 10000 }
+      { timeout: 10000, headers: { 'X-Service-Key': config.backend.serviceKey } }
     );
 
     if (response.data?.success && response.data?.data) {
@@ -71,7 +71,7 @@ export async function getActiveLangfuseConfig(): Promise<LangfuseConfig | null>
   try {
     const response = await axios.get(
       `${config.backend.baseUrl}/api/test-monitor/langfuse-configs/active`,
-      { timeout: 10000 }
+      { timeout: 10000, headers: { 'X-Service-Key': config.backend.serviceKey } }
     );
 
     if (response.data?.success && response.data?.data) {
@@ -97,9 +97,17 @@ export function clearSettingsCache(): void {
 }
 
 /**
- * Get Flowise endpoint URL, with fallback to hardcoded config
+ * Get Flowise endpoint URL, with fallback to hardcoded config.
+ * FLOWISE_ENDPOINT_OVERRIDE, when set, takes precedence over the backend's active config.
  */
 export async function getFlowiseEndpoint(): Promise<{ url: string; apiKey?: string }> {
+  if (config.flowise.endpointOverride) {
+    return {
+      url: config.flowise.endpointOverride,
+      apiKey: process.env.FLOWISE_API_KEY || undefined,
+    };
+  }
+
   const activeConfig = await getActiveFlowiseConfig();
 
   if (activeConfig) {
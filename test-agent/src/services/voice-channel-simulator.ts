@@ -0,0 +1,191 @@
+/**
+ * Voice Channel Simulator
+ *
+ * The bot runs as a phone IVA, so what it receives is a speech-recognition
+ * transcript, not what the caller "typed". This service distorts persona
+ * replies the way ASR does - digits read as words, misheard names, dropped
+ * words, spelled-out emails - and can answer numeric questions with keypad
+ * (DTMF) input instead of speech.
+ *
+ * All randomness comes from a seeded RNG so a failing run can be replayed
+ * with the same distortions: the seed is saved with the goal test result
+ * (voice_seed) and goes back in as the persona's traits.voice.seed.
+ */
+
+import type { AgentIntent } from '../tests/types/intent';
+import type { DataInventory, PersonaLanguage, VoiceChannelTraits } from '../tests/types/persona';
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const DIGIT_WORDS: Record<PersonaLanguage, string[]> = {
+  en: ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'],
+  es: ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve'],
+};
+
+const EMAIL_WORDS: Record<PersonaLanguage, Record<string, string>> = {
+  en: { '.': 'dot', '@': 'at', '_': 'underscore', '-': 'dash' },
+  es: { '.': 'punto', '@': 'arroba', '_': 'guion bajo', '-': 'guion' },
+};
+
+/**
+ * Common ASR mishearings of names used by the standard personas
+ */
+const NAME_HOMOPHONES: Record<string, string[]> = {
+  sarah: ['Sara'],
+  emma: ['Ema', 'Emmy'],
+  johnson: ['Jonson', 'Johnston'],
+  michael: ['Micheal'],
+  davis: ['Davies'],
+  lily: ['Lilly', 'Lili'],
+  smith: ['Smyth'],
+  chen: ['Chan', 'Chin'],
+  lucas: ['Lukas'],
+  garcia: ['Garsia'],
+  sofia: ['Sophia'],
+  wilson: ['Willson'],
+  brown: ['Braun'],
+  max: ['Macs'],
+  katherine: ['Catherine', 'Kathryn'],
+  reid: ['Read', 'Reed'],
+  aidan: ['Aiden', 'Hayden'],
+  rosa: ['Rose'],
+  martinez: ['Martines'],
+  carlos: ['Carlo'],
+  mateo: ['Matteo'],
+};
+
+/**
+ * Phonetic rewrites for names without a known homophone (first match wins)
+ */
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/ph/i, 'f'],
+  [/ck/i, 'k'],
+  [/([a-z])\1/i, '$1'],
+  [/y$/i, 'ie'],
+  [/ie$/i, 'y'],
+  [/c(?=[aou])/i, 'k'],
+  [/s$/i, 'z'],
+];
+
+/** Intents answered with keypad input when DTMF kicks in */
+const DTMF_INTENTS: AgentIntent[] = ['asking_phone', 'asking_child_dob', 'asking_parent_dob'];
+
+const PHONE_OR_ID_PATTERN = /\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}|\d{5,}/g;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+/**
+ * Voice Channel Simulator Service
+ */
+export class VoiceChannelSimulator {
+  private traits: VoiceChannelTraits;
+  private language: PersonaLanguage;
+  private seed: number;
+  private random: () => number;
+  private names: string[];
+
+  constructor(traits: VoiceChannelTraits, inventory: DataInventory, language: PersonaLanguage = 'en') {
+    this.traits = traits;
+    this.language = language;
+    this.seed = traits.seed ?? Math.floor(Math.random() * 1_000_000_000);
+    this.random = createSeededRandom(this.seed);
+    this.names = [
+      inventory.parentFirstName,
+      inventory.parentLastName,
+      ...inventory.children.flatMap(c => [c.firstName, c.lastName]),
+    ].filter(Boolean);
+  }
+
+  /**
+   * Seed used for this simulator (for reproducibility)
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Transform a clean persona reply into what the IVA would receive
+   * @param dtmfValue - Digits to key in if this reply goes out as DTMF (phone, or DOB as MMDDYYYY)
+   */
+  transform(response: string, intent: AgentIntent, dtmfValue?: string): string {
+    if (dtmfValue && DTMF_INTENTS.includes(intent) && this.chance(this.traits.dtmfRate)) {
+      return `${dtmfValue}#`;
+    }
+
+    let result = response;
+    if (this.traits.spokenEmails) result = this.speakEmails(result);
+    if (this.traits.spokenDigits) result = this.speakDigits(result);
+    if (this.traits.nameHomophoneRate) result = this.mishearNames(result);
+    if (this.traits.wordDropRate) result = this.dropWords(result);
+    return result;
+  }
+
+  private chance(rate: number | undefined): boolean {
+    return !!rate && this.random() < rate;
+  }
+
+  /**
+   * "j.smith@gmail.com" -> "j dot smith at gmail dot com"
+   */
+  private speakEmails(text: string): string {
+    const words = EMAIL_WORDS[this.language];
+    return text.replace(EMAIL_PATTERN, email =>
+      email.replace(/[.@_-]/g, symbol => ` ${words[symbol]} `).replace(/\s+/g, ' ').trim()
+    );
+  }
+
+  /**
+   * "215-555-1234" -> "two one five five five five one two three four"
+   */
+  private speakDigits(text: string): string {
+    const words = DIGIT_WORDS[this.language];
+    return text.replace(PHONE_OR_ID_PATTERN, match =>
+      match.replace(/\D/g, '').split('').map(d => words[Number(d)]).join(' ')
+    );
+  }
+
+  private mishearNames(text: string): string {
+    let result = text;
+    for (const name of this.names) {
+      if (!this.chance(this.traits.nameHomophoneRate)) continue;
+      const pattern = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g');
+      result = result.replace(pattern, () => this.homophoneFor(name));
+    }
+    return result;
+  }
+
+  private homophoneFor(name: string): string {
+    const known = NAME_HOMOPHONES[name.toLowerCase()];
+    if (known) {
+      return known[Math.floor(this.random() * known.length)];
+    }
+    for (const [pattern, replacement] of PHONETIC_RULES) {
+      if (pattern.test(name)) {
+        return name.replace(pattern, replacement);
+      }
+    }
+    return name.toLowerCase();
+  }
+
+  /**
+   * Drop words at random, keeping at least one
+   */
+  private dropWords(text: string): string {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length <= 2) return text;
+
+    const kept = words.filter(() => !this.chance(this.traits.wordDropRate));
+    return kept.length > 0 ? kept.join(' ') : words[0];
+  }
+}
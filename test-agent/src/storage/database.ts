@@ -8,9 +8,13 @@ import { v4 as uuidv4 } from 'uuid';
 // config import removed - not currently used
 import { ConversationTurn, Finding } from '../tests/test-case';
 import { Recommendation } from '../analysis/recommendation-engine';
+import { calculateFlakyScore } from '../parallel/failure-classifier';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/** 'goal': conversation tests through Flowise; 'contract': Node-RED endpoint contract tests */
+export type TestRunType = 'goal' | 'contract';
+
 export interface TestRun {
   runId: string;
   startedAt: string;
@@ -21,6 +25,7 @@ export interface TestRun {
   failed: number;
   skipped: number;
   summary?: string;
+  runType: TestRunType;
 }
 
 export interface TestResult {
@@ -220,12 +225,31 @@ export interface GoalTestResultRecord {
   // Dynamic data resolution fields
   resolvedPersonaJson?: string;
   generationSeed?: number;
+  // Voice channel simulation seed (replay with the persona's traits.voice.seed)
+  voiceSeed?: number;
   // Langfuse tracing
   langfuseTraceId?: string;
   // Flowise session ID (UUID) - used for Langfuse session URL
   flowiseSessionId?: string;
 }
 
+/**
+ * One recorded Flowise request/response pair, used to replay a conversation offline
+ */
+export interface FlowiseRecordingRecord {
+  id?: number;
+  runId: string;
+  testId: string;
+  sessionId: string;
+  turnIndex: number;
+  question: string;
+  responseText: string;
+  toolCallsJson: string;
+  responseTimeMs: number;
+  rawResponseJson?: string;
+  recordedAt?: string;
+}
+
 export interface GoalProgressSnapshot {
   id?: number;
   runId: string;
@@ -287,6 +311,49 @@ export interface TestCaseRecord {
   updatedAt: string;
 }
 
+export interface TestHistoryStats {
+  testId: string;
+  avgDurationMs: number;
+  lastPassRate: number;
+  runCount: number;
+  passCount: number;
+  failCount: number;
+  flakyScore: number;
+  lastStatus: TestResult['status'];
+  lastRunAt: string;
+  category?: string;
+}
+
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface RunLLMUsage extends LLMUsageTotals {
+  runId: string;
+  byTest: Array<LLMUsageTotals & { testId: string }>;
+  byPurpose: Array<LLMUsageTotals & { purpose: string }>;
+  byModel: Array<LLMUsageTotals & { model: string }>;
+}
+
+export interface QuarantinedTest {
+  testId: string;
+  reason?: string;
+  quarantinedAt: string;
+}
+
+/** Most recent results per test considered when scoring flakiness */
+const FLAKY_HISTORY_WINDOW = 20;
+
+/**
+ * Test ID without the "#n" suffix added when a test is run more than once in a run
+ */
+export function getBaseTestId(testId: string): string {
+  return testId.replace(/#\d+$/, '');
+}
+
 export class Database {
   private db: BetterSqlite3.Database | null = null;
   private dbPath: string;
@@ -594,6 +661,24 @@ export class Database {
       CREATE INDEX IF NOT EXISTS idx_goal_progress_snapshots_run_id ON goal_progress_snapshots(run_id);
       CREATE INDEX IF NOT EXISTS idx_goal_progress_snapshots_test_id ON goal_progress_snapshots(test_id);
 
+      -- Flowise Recordings: request/response pairs captured in record mode for offline replay
+      CREATE TABLE IF NOT EXISTS flowise_recordings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        test_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        turn_index INTEGER NOT NULL,
+        question TEXT NOT NULL,
+        response_text TEXT NOT NULL,
+        tool_calls_json TEXT DEFAULT '[]',
+        response_time_ms INTEGER,
+        raw_response_json TEXT,
+        recorded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(run_id, test_id, turn_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_flowise_recordings_run_test ON flowise_recordings(run_id, test_id);
+
       -- ========================================================================
       -- A/B TESTING FRAMEWORK TABLES
       -- ========================================================================
@@ -958,6 +1043,30 @@ export class Database {
       CREATE INDEX IF NOT EXISTS idx_test_history_category ON test_history_stats(category);
       CREATE INDEX IF NOT EXISTS idx_test_history_flaky ON test_history_stats(flaky_score DESC);
 
+      -- LLM token usage and estimated cost, aggregated per run, test, purpose and model
+      -- (test_id is '' for calls made outside any test)
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        test_id TEXT NOT NULL DEFAULT '',
+        purpose TEXT NOT NULL,
+        model TEXT NOT NULL,
+        call_count INTEGER DEFAULT 0,
+        input_tokens INTEGER DEFAULT 0,
+        output_tokens INTEGER DEFAULT 0,
+        cost_usd REAL DEFAULT 0,
+        UNIQUE(run_id, test_id, purpose, model)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_llm_usage_run ON llm_usage(run_id);
+
+      -- Quarantined tests still run but do not count toward the run pass rate or regressions
+      CREATE TABLE IF NOT EXISTS test_quarantine (
+        test_id TEXT PRIMARY KEY,
+        reason TEXT,
+        quarantined_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+
       -- Parallel execution metrics
       CREATE TABLE IF NOT EXISTS parallel_execution_metrics (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -1086,6 +1195,7 @@ export class Database {
     // Migration: Add resolved persona fields to goal_test_results
     this.addColumnIfNotExists('goal_test_results', 'resolved_persona_json', 'TEXT');
     this.addColumnIfNotExists('goal_test_results', 'generation_seed', 'INTEGER');
+    this.addColumnIfNotExists('goal_test_results', 'voice_seed', 'INTEGER');
 
     // Migration: Add classification_json column to generated_fixes
     this.addColumnIfNotExists('generated_fixes', 'classification_json', 'TEXT');
@@ -1126,6 +1236,12 @@ export class Database {
     this.addColumnIfNotExists('ai_enhancement_history', 'context', "TEXT DEFAULT 'production'");
     this.addColumnIfNotExists('ai_enhancement_history', 'sandbox_id', 'TEXT');
 
+    // Migration: Record the prompt versions each run executed against (for flakiness scoring)
+    this.addColumnIfNotExists('test_runs', 'prompt_version', 'TEXT');
+
+    // Migration: Distinguish contract runs from goal test runs
+    this.addColumnIfNotExists('test_runs', 'run_type', "TEXT DEFAULT 'goal'");
+
     // Add index for context-based queries (db already declared at top of method)
     db.exec(`CREATE INDEX IF NOT EXISTS idx_ai_enhancement_context ON ai_enhancement_history(context, file_key)`);
 
@@ -1298,18 +1414,47 @@ export class Database {
   /**
    * Create a new test run
    */
-  createTestRun(): string {
+  createTestRun(runType: TestRunType = 'goal'): string {
     const db = this.getDb();
     const runId = `run-${new Date().toISOString().slice(0, 10)}-${uuidv4().slice(0, 8)}`;
 
     db.prepare(`
-      INSERT INTO test_runs (run_id, started_at, status)
-      VALUES (?, ?, 'running')
-    `).run(runId, new Date().toISOString());
+      INSERT INTO test_runs (run_id, started_at, status, prompt_version, run_type)
+      VALUES (?, ?, 'running', ?, ?)
+    `).run(runId, new Date().toISOString(), this.getCurrentPromptVersion(), runType);
 
     return runId;
   }
 
+  /**
+   * Signature of the prompt versions tests currently run against, e.g. "system_prompt@12,scheduling_tool@4".
+   * Uses the last deployed version of each prompt, falling back to the working copies
+   * when nothing has been deployed yet
+   */
+  getCurrentPromptVersion(): string | null {
+    const db = this.getDb();
+
+    const hasDeployments = db.prepare(`
+      SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'prompt_deployments'
+    `).get();
+
+    let rows: Array<{ file_key: string; version: number }> = hasDeployments
+      ? db.prepare(`
+          SELECT d.file_key, d.version
+          FROM prompt_deployments d
+          WHERE d.deployed_at = (SELECT MAX(deployed_at) FROM prompt_deployments WHERE file_key = d.file_key)
+        `).all() as any[]
+      : [];
+
+    if (rows.length === 0) {
+      rows = db.prepare(`SELECT file_key, version FROM prompt_working_copies`).all() as any[];
+    }
+
+    if (rows.length === 0) return null;
+
+    return rows.map(row => `${row.file_key}@${row.version}`).sort().join(',');
+  }
+
   /**
    * Complete a test run
    */
@@ -1383,9 +1528,9 @@ export class Database {
   }
 
   /**
-   * Mark a test run as aborted (for user cancellation)
+   * Mark a test run as aborted (user cancellation, or the run hit its cost budget)
    */
-  abortTestRun(runId: string): void {
+  abortTestRun(runId: string, reason?: string): void {
     const db = this.getDb();
 
     // Get current counts from existing results
@@ -1404,6 +1549,7 @@ export class Database {
       failed: stats?.failed || 0,
       skipped: stats?.skipped || 0,
       aborted: true,
+      ...(reason ? { reason } : {}),
     };
 
     db.prepare(`
@@ -1675,17 +1821,18 @@ export class Database {
   }
 
   /**
-   * Get the last test run
+   * Get the last test run of a type (null for any type)
    */
-  getLastTestRun(): TestRun | null {
+  getLastTestRun(runType: TestRunType | null = 'goal'): TestRun | null {
     const db = this.getDb();
 
     const row = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, run_type
       FROM test_runs
+      ${runType ? "WHERE COALESCE(run_type, 'goal') = ?" : ''}
       ORDER BY started_at DESC
       LIMIT 1
-    `).get() as any;
+    `).get(...(runType ? [runType] : [])) as any;
 
     if (!row) return null;
 
@@ -1699,21 +1846,23 @@ export class Database {
       failed: row.failed,
       skipped: row.skipped,
       summary: row.summary,
+      runType: row.run_type || 'goal',
     };
   }
 
   /**
-   * Get recent runs
+   * Get recent runs of a type (null for any type); goal and contract runs share test_runs
    */
-  getRecentRuns(limit: number = 10): TestRun[] {
+  getRecentRuns(limit: number = 10, runType: TestRunType | null = 'goal'): TestRun[] {
     const db = this.getDb();
 
     const rows = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, run_type
       FROM test_runs
+      ${runType ? "WHERE COALESCE(run_type, 'goal') = ?" : ''}
       ORDER BY started_at DESC
       LIMIT ?
-    `).all(limit) as any[];
+    `).all(...(runType ? [runType] : []), limit) as any[];
 
     return rows.map(row => ({
       runId: row.run_id,
@@ -1725,6 +1874,7 @@ export class Database {
       failed: row.failed,
       skipped: row.skipped,
       summary: row.summary,
+      runType: row.run_type || 'goal',
     }));
   }
 
@@ -1941,7 +2091,7 @@ export class Database {
     const db = this.getDb();
 
     const rows = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, run_type
       FROM test_runs
       ORDER BY started_at DESC
       LIMIT ? OFFSET ?
@@ -1957,6 +2107,7 @@ export class Database {
       failed: row.failed,
       skipped: row.skipped,
       summary: row.summary,
+      runType: row.run_type || 'goal',
     }));
   }
 
@@ -1967,7 +2118,7 @@ export class Database {
     const db = this.getDb();
 
     const row = db.prepare(`
-      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary
+      SELECT run_id, started_at, completed_at, status, total_tests, passed, failed, skipped, summary, run_type
       FROM test_runs
       WHERE run_id = ?
     `).get(runId) as any;
@@ -1984,13 +2135,14 @@ export class Database {
       failed: row.failed,
       skipped: row.skipped,
       summary: row.summary,
+      runType: row.run_type || 'goal',
     };
   }
 
   /**
    * Get findings for a run or all findings
    */
-  getFindings(runId?: string): (Finding & { id?: number })[] {
+  getFindings(runId?: string): (Finding & { id?: number; testId?: string })[] {
     const db = this.getDb();
 
     let query = `
@@ -2011,6 +2163,7 @@ export class Database {
 
     return rows.map(row => ({
       id: row.id,
+      testId: row.test_id,
       type: row.type,
       severity: row.severity,
       title: row.title,
@@ -2643,8 +2796,8 @@ export class Database {
       INSERT OR REPLACE INTO goal_test_results
       (run_id, test_id, passed, turn_count, duration_ms, started_at, completed_at,
        goal_results_json, constraint_violations_json, summary_text,
-       resolved_persona_json, generation_seed, langfuse_trace_id, flowise_session_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       resolved_persona_json, generation_seed, voice_seed, langfuse_trace_id, flowise_session_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       result.runId,
       result.testId,
@@ -2658,6 +2811,7 @@ export class Database {
       result.summaryText,
       result.resolvedPersonaJson,
       result.generationSeed,
+      result.voiceSeed ?? null,
       result.langfuseTraceId || null,
       result.flowiseSessionId || null
     );
@@ -2674,7 +2828,7 @@ export class Database {
     const rows = db.prepare(`
       SELECT id, run_id, test_id, passed, turn_count, duration_ms, started_at, completed_at,
              goal_results_json, constraint_violations_json, summary_text,
-             resolved_persona_json, generation_seed, langfuse_trace_id, flowise_session_id
+             resolved_persona_json, generation_seed, voice_seed, langfuse_trace_id, flowise_session_id
       FROM goal_test_results
       WHERE run_id = ?
     `).all(runId) as any[];
@@ -2693,6 +2847,7 @@ export class Database {
       summaryText: row.summary_text,
       resolvedPersonaJson: row.resolved_persona_json,
       generationSeed: row.generation_seed,
+      voiceSeed: row.voice_seed ?? undefined,
       langfuseTraceId: row.langfuse_trace_id,
       flowiseSessionId: row.flowise_session_id,
     }));
@@ -2707,7 +2862,7 @@ export class Database {
     const row = db.prepare(`
       SELECT id, run_id, test_id, passed, turn_count, duration_ms, started_at, completed_at,
              goal_results_json, constraint_violations_json, summary_text,
-             resolved_persona_json, generation_seed, langfuse_trace_id, flowise_session_id
+             resolved_persona_json, generation_seed, voice_seed, langfuse_trace_id, flowise_session_id
       FROM goal_test_results
       WHERE run_id = ? AND test_id = ?
     `).get(runId, testId) as any;
@@ -2728,6 +2883,7 @@ export class Database {
       summaryText: row.summary_text,
       resolvedPersonaJson: row.resolved_persona_json,
       generationSeed: row.generation_seed,
+      voiceSeed: row.voice_seed ?? undefined,
       langfuseTraceId: row.langfuse_trace_id,
       flowiseSessionId: row.flowise_session_id,
     };
@@ -2777,6 +2933,77 @@ export class Database {
     }));
   }
 
+  /**
+   * Save a recorded Flowise exchange
+   */
+  saveFlowiseRecording(recording: FlowiseRecordingRecord): void {
+    const db = this.getDb();
+
+    db.prepare(`
+      INSERT OR REPLACE INTO flowise_recordings
+      (run_id, test_id, session_id, turn_index, question, response_text, tool_calls_json, response_time_ms, raw_response_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      recording.runId,
+      recording.testId,
+      recording.sessionId,
+      recording.turnIndex,
+      recording.question,
+      recording.responseText,
+      recording.toolCallsJson,
+      recording.responseTimeMs,
+      recording.rawResponseJson || null
+    );
+  }
+
+  /**
+   * Get the recorded Flowise exchanges for a test, in turn order
+   */
+  getFlowiseRecordings(runId: string, testId: string): FlowiseRecordingRecord[] {
+    const db = this.getDb();
+
+    const rows = db.prepare(`
+      SELECT * FROM flowise_recordings
+      WHERE run_id = ? AND test_id = ?
+      ORDER BY turn_index ASC
+    `).all(runId, testId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      runId: row.run_id,
+      testId: row.test_id,
+      sessionId: row.session_id,
+      turnIndex: row.turn_index,
+      question: row.question,
+      responseText: row.response_text,
+      toolCallsJson: row.tool_calls_json,
+      responseTimeMs: row.response_time_ms,
+      rawResponseJson: row.raw_response_json,
+      recordedAt: row.recorded_at,
+    }));
+  }
+
+  /**
+   * Get the test IDs that have recorded exchanges in a run
+   */
+  getFlowiseRecordedTestIds(runId: string): string[] {
+    const db = this.getDb();
+
+    const rows = db.prepare(`
+      SELECT DISTINCT test_id FROM flowise_recordings WHERE run_id = ? ORDER BY test_id
+    `).all(runId) as any[];
+
+    return rows.map(row => row.test_id);
+  }
+
+  /**
+   * Clear recorded exchanges for a test before it is recorded again (e.g. on retry)
+   */
+  clearFlowiseRecordings(runId: string, testId: string): void {
+    const db = this.getDb();
+    db.prepare('DELETE FROM flowise_recordings WHERE run_id = ? AND test_id = ?').run(runId, testId);
+  }
+
   /**
    * Get goal test statistics
    */
@@ -2815,9 +3042,237 @@ export class Database {
     const db = this.getDb();
 
     db.prepare('DELETE FROM goal_progress_snapshots WHERE run_id = ?').run(runId);
+    db.prepare('DELETE FROM flowise_recordings WHERE run_id = ?').run(runId);
     db.prepare('DELETE FROM goal_test_results WHERE run_id = ?').run(runId);
   }
 
+  // ============================================================================
+  // TEST HEALTH METHODS (flakiness + quarantine)
+  // ============================================================================
+
+  /**
+   * Recompute test_history_stats for every test in a run.
+   * The flaky score counts pass/fail flips between consecutive results that ran
+   * against the same prompt version, so a prompt change that fixes or breaks a
+   * test does not make it look flaky
+   */
+  updateTestHistoryStats(runId: string): void {
+    const db = this.getDb();
+
+    const testIds = new Set(
+      (db.prepare('SELECT test_id FROM test_results WHERE run_id = ?').all(runId) as any[])
+        .map(row => getBaseTestId(row.test_id))
+    );
+
+    // Matches the test and its "#n" repeat runs
+    const historyStmt = db.prepare(`
+      SELECT r.status, r.duration_ms, r.category, r.started_at, t.prompt_version
+      FROM test_results r
+      JOIN test_runs t ON t.run_id = r.run_id
+      WHERE (r.test_id = ? OR substr(r.test_id, 1, ?) = ?)
+        AND r.status != 'skipped'
+      ORDER BY r.started_at DESC, r.id DESC
+    `);
+
+    const upsertStmt = db.prepare(`
+      INSERT INTO test_history_stats (
+        test_id, avg_duration_ms, last_pass_rate, run_count, pass_count, fail_count,
+        flaky_score, last_status, last_run_at, category, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(test_id) DO UPDATE SET
+        avg_duration_ms = excluded.avg_duration_ms,
+        last_pass_rate = excluded.last_pass_rate,
+        run_count = excluded.run_count,
+        pass_count = excluded.pass_count,
+        fail_count = excluded.fail_count,
+        flaky_score = excluded.flaky_score,
+        last_status = excluded.last_status,
+        last_run_at = excluded.last_run_at,
+        category = excluded.category,
+        updated_at = excluded.updated_at
+    `);
+
+    const update = db.transaction(() => {
+      for (const testId of testIds) {
+        const history = historyStmt.all(testId, testId.length + 1, `${testId}#`) as any[];
+        if (history.length === 0) continue;
+
+        const passCount = history.filter(h => h.status === 'passed').length;
+        const recent = history.slice(0, FLAKY_HISTORY_WINDOW);
+        const recentPassed = recent.filter(h => h.status === 'passed').length;
+        const flakyScore = calculateFlakyScore(
+          recent.reverse().map(h => ({ status: h.status, promptVersion: h.prompt_version }))
+        );
+
+        upsertStmt.run(
+          testId,
+          history.reduce((sum, h) => sum + (h.duration_ms || 0), 0) / history.length,
+          recentPassed / recent.length,
+          history.length,
+          passCount,
+          history.length - passCount,
+          flakyScore,
+          history[0].status,
+          history[0].started_at,
+          history[0].category,
+          new Date().toISOString()
+        );
+      }
+    });
+
+    update();
+  }
+
+  /**
+   * Get history stats, most flaky first
+   */
+  getTestHistoryStats(): TestHistoryStats[] {
+    const db = this.getDb();
+
+    const rows = db.prepare(`
+      SELECT test_id, avg_duration_ms, last_pass_rate, run_count, pass_count, fail_count,
+             flaky_score, last_status, last_run_at, category
+      FROM test_history_stats
+      ORDER BY flaky_score DESC, test_id
+    `).all() as any[];
+
+    return rows.map(row => ({
+      testId: row.test_id,
+      avgDurationMs: row.avg_duration_ms,
+      lastPassRate: row.last_pass_rate,
+      runCount: row.run_count,
+      passCount: row.pass_count,
+      failCount: row.fail_count,
+      flakyScore: row.flaky_score,
+      lastStatus: row.last_status,
+      lastRunAt: row.last_run_at,
+      category: row.category,
+    }));
+  }
+
+  /**
+   * Get quarantined tests
+   */
+  getQuarantinedTests(): QuarantinedTest[] {
+    const db = this.getDb();
+
+    const rows = db.prepare(`
+      SELECT test_id, reason, quarantined_at
+      FROM test_quarantine
+      ORDER BY test_id
+    `).all() as any[];
+
+    return rows.map(row => ({
+      testId: row.test_id,
+      reason: row.reason || undefined,
+      quarantinedAt: row.quarantined_at,
+    }));
+  }
+
+  /**
+   * Get the IDs of quarantined tests (base IDs, without "#n" run suffixes)
+   */
+  getQuarantinedTestIds(): Set<string> {
+    return new Set(this.getQuarantinedTests().map(t => t.testId));
+  }
+
+  /**
+   * Quarantine a test, or update the reason if it is already quarantined
+   */
+  quarantineTest(testId: string, reason?: string): void {
+    const db = this.getDb();
+
+    db.prepare(`
+      INSERT INTO test_quarantine (test_id, reason, quarantined_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(test_id) DO UPDATE SET reason = excluded.reason
+    `).run(getBaseTestId(testId), reason || null, new Date().toISOString());
+  }
+
+  /**
+   * Release a test from quarantine
+   * Returns false if it was not quarantined
+   */
+  releaseQuarantine(testId: string): boolean {
+    const db = this.getDb();
+    const result = db.prepare('DELETE FROM test_quarantine WHERE test_id = ?').run(getBaseTestId(testId));
+    return result.changes > 0;
+  }
+
+  // ============================================================================
+  // LLM USAGE METHODS
+  // ============================================================================
+
+  /**
+   * Add one LLM call to the usage totals of its run/test/purpose/model
+   */
+  recordLLMUsage(usage: {
+    runId: string;
+    testId?: string;
+    purpose: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+  }): void {
+    const db = this.getDb();
+
+    db.prepare(`
+      INSERT INTO llm_usage (run_id, test_id, purpose, model, call_count, input_tokens, output_tokens, cost_usd)
+      VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+      ON CONFLICT(run_id, test_id, purpose, model) DO UPDATE SET
+        call_count = call_count + 1,
+        input_tokens = input_tokens + excluded.input_tokens,
+        output_tokens = output_tokens + excluded.output_tokens,
+        cost_usd = cost_usd + excluded.cost_usd
+    `).run(
+      usage.runId,
+      usage.testId || '',
+      usage.purpose,
+      usage.model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.costUsd
+    );
+  }
+
+  /**
+   * Get LLM usage for a run with per-test, per-purpose and per-model breakdowns
+   */
+  getRunLLMUsage(runId: string): RunLLMUsage {
+    const db = this.getDb();
+
+    const totalsBy = (column: string): any[] => db.prepare(`
+      SELECT ${column} AS key, SUM(call_count) AS calls, SUM(input_tokens) AS input_tokens,
+             SUM(output_tokens) AS output_tokens, SUM(cost_usd) AS cost_usd
+      FROM llm_usage
+      WHERE run_id = ?
+      GROUP BY ${column}
+      ORDER BY cost_usd DESC
+    `).all(runId) as any[];
+
+    const toTotals = (row: any): LLMUsageTotals => ({
+      calls: row.calls || 0,
+      inputTokens: row.input_tokens || 0,
+      outputTokens: row.output_tokens || 0,
+      costUsd: row.cost_usd || 0,
+    });
+
+    const byPurpose = totalsBy('purpose').map(row => ({ purpose: row.key, ...toTotals(row) }));
+
+    return {
+      runId,
+      calls: byPurpose.reduce((sum, p) => sum + p.calls, 0),
+      inputTokens: byPurpose.reduce((sum, p) => sum + p.inputTokens, 0),
+      outputTokens: byPurpose.reduce((sum, p) => sum + p.outputTokens, 0),
+      costUsd: byPurpose.reduce((sum, p) => sum + p.costUsd, 0),
+      byTest: totalsBy('test_id').map(row => ({ testId: row.key, ...toTotals(row) })),
+      byPurpose,
+      byModel: totalsBy('model').map(row => ({ model: row.key, ...toTotals(row) })),
+    };
+  }
+
   // ============================================================================
   // A/B TESTING FRAMEWORK METHODS
   // ============================================================================
@@ -282,6 +282,11 @@ export class RetentionService {
         DELETE FROM goal_progress_snapshots WHERE run_id IN (${placeholders})
       `).run(...runIdList);
 
+      // Delete recorded Flowise exchanges
+      this.db.prepare(`
+        DELETE FROM flowise_recordings WHERE run_id IN (${placeholders})
+      `).run(...runIdList);
+
       // Delete parallel execution metrics
       this.db.prepare(`
         DELETE FROM parallel_execution_metrics WHERE run_id IN (${placeholders})
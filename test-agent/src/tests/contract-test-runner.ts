@@ -0,0 +1,208 @@
+/**
+ * Node-RED Contract Test Runner
+ * Sends each contract case to its /chord/ortho endpoint, checks the response
+ * against the endpoint's schema and stores the outcome as a 'contract' run
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { Database, TestResult } from '../storage/database';
+import { Finding } from './test-case';
+import { config } from '../config/config';
+import { NodeRedErrorSchema } from '../schemas/nodered-contract-schemas';
+import {
+  ContractCase,
+  ContractContext,
+  EndpointContract,
+  NODERED_ENDPOINT_CONTRACTS,
+  getContractTestId,
+} from './contracts/nodered-endpoints';
+
+export interface ContractRunOptions {
+  baseUrl: string;
+  /** Run cases that create or change patients and appointments */
+  includeWrites?: boolean;
+  /** Only run these endpoints (by name) */
+  endpoints?: string[];
+  onResult?: (result: TestResult) => void;
+}
+
+export interface ContractRunSummary {
+  runId: string;
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+export class NodeRedContractRunner {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  async run(options: ContractRunOptions): Promise<ContractRunSummary> {
+    const startTime = Date.now();
+    const contracts = options.endpoints?.length
+      ? NODERED_ENDPOINT_CONTRACTS.filter(contract => options.endpoints!.includes(contract.name))
+      : NODERED_ENDPOINT_CONTRACTS;
+
+    if (contracts.length === 0) {
+      throw new Error(`Unknown endpoint(s): ${options.endpoints!.join(', ')}`);
+    }
+
+    const client = axios.create({
+      baseURL: options.baseUrl.replace(/\/+$/, ''),
+      timeout: config.noderedContracts.timeout,
+      auth: config.noderedContracts.username
+        ? { username: config.noderedContracts.username, password: config.noderedContracts.password }
+        : undefined,
+      // Status codes are part of the contract, not transport errors
+      validateStatus: () => true,
+    });
+
+    const ctx: ContractContext = {};
+    if (config.noderedContracts.patientFilter) ctx.patientFilter = config.noderedContracts.patientFilter;
+    if (config.noderedContracts.patientGUID) ctx.patientGUID = config.noderedContracts.patientGUID;
+
+    const runId = this.database.createTestRun('contract');
+    const counts = { totalTests: 0, passed: 0, failed: 0, skipped: 0 };
+
+    try {
+      for (const contract of contracts) {
+        for (const contractCase of contract.cases) {
+          const result = await this.runCase(client, runId, contract, contractCase, ctx, options);
+          this.database.saveTestResult(result);
+          options.onResult?.(result);
+
+          counts.totalTests++;
+          if (result.status === 'passed') counts.passed++;
+          else if (result.status === 'skipped') counts.skipped++;
+          else counts.failed++;
+        }
+      }
+    } catch (error: any) {
+      this.database.failTestRun(runId, error.message);
+      throw error;
+    }
+
+    this.database.completeTestRun(runId, counts);
+    return { runId, ...counts, duration: Date.now() - startTime };
+  }
+
+  private async runCase(
+    client: AxiosInstance,
+    runId: string,
+    contract: EndpointContract,
+    contractCase: ContractCase,
+    ctx: ContractContext,
+    options: ContractRunOptions
+  ): Promise<TestResult> {
+    const startedAt = new Date().toISOString();
+    const startTime = Date.now();
+    const testId = getContractTestId(contract, contractCase);
+    const base = {
+      runId,
+      testId,
+      testName: `${contract.path} ${contractCase.description}`,
+      category: 'contract',
+      startedAt,
+      transcript: [],
+    };
+    const finish = (status: TestResult['status'], errorMessage?: string, findings: Finding[] = []): TestResult => ({
+      ...base,
+      status,
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - startTime,
+      errorMessage,
+      findings,
+    });
+
+    if (contractCase.writes && !options.includeWrites) {
+      return finish('skipped', 'Writes to Cloud 9 (run with --include-writes)');
+    }
+    const missing = (contractCase.requires || []).filter(key => !ctx[key]);
+    if (missing.length > 0) {
+      return finish('skipped', `No ${missing.join(', ')} from earlier cases or config`);
+    }
+
+    const body = contractCase.body(ctx);
+    const request = contract.requestSchema.safeParse(body);
+    if (!request.success) {
+      return finish('error', `Request does not match the ${contract.name} request schema: ${formatIssues(request.error)}`);
+    }
+
+    let status: number;
+    let data: unknown;
+    try {
+      const response = await client.post(contract.path, body);
+      status = response.status;
+      data = response.data;
+    } catch (error: any) {
+      this.database.saveApiCall({
+        runId,
+        testId,
+        toolName: contract.name,
+        requestPayload: JSON.stringify(body),
+        status: 'error',
+        durationMs: Date.now() - startTime,
+        timestamp: startedAt,
+      });
+      return finish('error', `${contract.path} unreachable: ${error.message}`);
+    }
+
+    this.database.saveApiCall({
+      runId,
+      testId,
+      toolName: contract.name,
+      requestPayload: JSON.stringify(body),
+      responsePayload: JSON.stringify(data),
+      status: String(status),
+      durationMs: Date.now() - startTime,
+      timestamp: startedAt,
+    });
+
+    const violation = this.checkResponse(contract, contractCase, status, data);
+    if (violation) {
+      return finish('failed', violation, [{
+        type: 'bug',
+        severity: 'high',
+        title: `${contract.name} broke its contract`,
+        description: violation,
+        affectedStep: contractCase.id,
+        expectedBehavior: contractCase.expect === 'success'
+          ? `2xx response matching the ${contract.name} response schema`
+          : '500 response with { error, message, timestamp }',
+        actualBehavior: `HTTP ${status}: ${JSON.stringify(data).slice(0, 500)}`,
+        recommendation: `Check the ${contract.path} flow in nodered_Cloud9_flows.json and the ${contract.toolAction} tool action that reads it`,
+      }]);
+    }
+
+    contractCase.capture?.(data, ctx);
+    return finish('passed');
+  }
+
+  /**
+   * Returns a description of the contract violation, or null when the response holds up
+   */
+  private checkResponse(contract: EndpointContract, contractCase: ContractCase, status: number, data: unknown): string | null {
+    if (contractCase.expect === 'error') {
+      if (status !== 500) return `Expected HTTP 500, got ${status}`;
+      const parsed = NodeRedErrorSchema.safeParse(data);
+      return parsed.success ? null : `Error body does not match the error schema: ${formatIssues(parsed.error)}`;
+    }
+
+    if (status < 200 || status >= 300) return `Expected HTTP 2xx, got ${status}`;
+    const schema = contractCase.responseSchema || contract.responseSchema;
+    const parsed = schema.safeParse(data);
+    return parsed.success ? null : `Response does not match the ${contract.name} response schema: ${formatIssues(parsed.error)}`;
+  }
+}
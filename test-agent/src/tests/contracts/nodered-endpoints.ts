@@ -0,0 +1,363 @@
+/**
+ * Node-RED Endpoint Contracts
+ * The eleven /chord/ortho endpoints of the V1 flow with their request and
+ * response schemas, and the cases the contract runner sends to each.
+ *
+ * Cases run in order and share a context: values captured from one response
+ * (a location, a slot, a created patient) feed later requests. A case whose
+ * inputs were never captured is skipped. Cases that write to Cloud 9 only run
+ * when writes are enabled.
+ */
+
+import { z } from 'zod';
+import {
+  CancelApptRequestSchema,
+  CancelApptResponseSchema,
+  ConfirmApptRequestSchema,
+  ConfirmApptResponseSchema,
+  CreateApptRequestSchema,
+  CreateApptResponseSchema,
+  CreateApptValidationResponseSchema,
+  CreatePatientRequestSchema,
+  CreatePatientResponseSchema,
+  EditInsuranceRequestSchema,
+  EditInsuranceResponseSchema,
+  GetApptSlotsRequestSchema,
+  GetApptSlotsResponseSchema,
+  GetGroupedApptSlotsRequestSchema,
+  GetGroupedApptSlotsResponseSchema,
+  GetLocationRequestSchema,
+  GetLocationResponseSchema,
+  GetPatientApptsRequestSchema,
+  GetPatientApptsResponseSchema,
+  GetPatientByFilterRequestSchema,
+  GetPatientByFilterResponseSchema,
+  GetPatientRequestSchema,
+  GetPatientResponseSchema,
+} from '../../schemas/nodered-contract-schemas';
+
+/**
+ * Values shared between cases (patientFilter, patientGUID, slot fields, ...)
+ * patientFilter/patientGUID can be seeded from config for read-only runs
+ */
+export type ContractContext = Record<string, string>;
+
+export interface ContractCase {
+  /** Unique within the endpoint */
+  id: string;
+  description: string;
+  /** Writes to Cloud 9 (creates/changes patients or appointments) */
+  writes?: boolean;
+  /** Context keys the request needs */
+  requires?: string[];
+  body: (ctx: ContractContext) => Record<string, unknown>;
+  /** 'success': 2xx matching the endpoint's response schema; 'error': 500 matching NodeRedErrorSchema */
+  expect: 'success' | 'error';
+  /** Replaces the endpoint's response schema for this case */
+  responseSchema?: z.ZodTypeAny;
+  /** Store values from a matching response for later cases */
+  capture?: (response: any, ctx: ContractContext) => void;
+}
+
+export interface EndpointContract {
+  name: string;
+  /** Path of the `http in` node, e.g. /chord/ortho/getApptSlots */
+  path: string;
+  /** Flowise tool action that calls the endpoint */
+  toolAction: string;
+  requestSchema: z.ZodTypeAny;
+  responseSchema: z.ZodTypeAny;
+  cases: ContractCase[];
+}
+
+/** Call identifier sent by the tools when Flowise has none (same fallback as the tools) */
+export const CONTRACT_TEST_UUI = 'contract-test|000000|CONTRACT|00000000-0000-0000-0000-000000000000|FSV';
+
+const withUui = (body: Record<string, unknown>) => ({ uui: CONTRACT_TEST_UUI, ...body });
+
+/**
+ * Endpoints in execution order (reads that discover data first, then writes that depend on it)
+ */
+export const NODERED_ENDPOINT_CONTRACTS: EndpointContract[] = [
+  {
+    name: 'getLocation',
+    path: '/chord/ortho/getLocation',
+    toolAction: 'chord_ortho_patient:clinic_info',
+    requestSchema: GetLocationRequestSchema,
+    responseSchema: GetLocationResponseSchema,
+    cases: [
+      {
+        id: 'all',
+        description: 'lists locations without a locationGUID',
+        body: () => withUui({}),
+        expect: 'success',
+        capture: (response, ctx) => {
+          const guid = response.location?.LocationGUID;
+          if (guid) ctx.locationGUID = guid;
+        },
+      },
+      {
+        id: 'by-guid',
+        description: 'matches a location by GUID',
+        requires: ['locationGUID'],
+        body: ctx => withUui({ locationGUID: ctx.locationGUID }),
+        expect: 'success',
+        responseSchema: GetLocationResponseSchema.and(z.object({ matchType: z.literal('guid') })),
+      },
+    ],
+  },
+  {
+    name: 'getApptSlots',
+    path: '/chord/ortho/getApptSlots',
+    toolAction: 'schedule_appointment_ortho:slots',
+    requestSchema: GetApptSlotsRequestSchema,
+    responseSchema: GetApptSlotsResponseSchema,
+    cases: [
+      {
+        id: 'default-range',
+        description: 'returns slots for the default date range',
+        body: () => withUui({}),
+        expect: 'success',
+        capture: (response, ctx) => {
+          const slot = response.slots?.[0];
+          if (!slot) return;
+          ctx.startTime = slot.startTime;
+          ctx.scheduleViewGUID = slot.scheduleViewGUID;
+          ctx.scheduleColumnGUID = slot.scheduleColumnGUID;
+          ctx.appointmentTypeGUID = slot.appointmentTypeGUID;
+          ctx.minutes = slot.minutes;
+        },
+      },
+    ],
+  },
+  {
+    name: 'getGroupedApptSlots',
+    path: '/chord/ortho/getGroupedApptSlots',
+    toolAction: 'schedule_appointment_ortho:grouped_slots',
+    requestSchema: GetGroupedApptSlotsRequestSchema,
+    responseSchema: GetGroupedApptSlotsResponseSchema,
+    cases: [
+      {
+        id: 'siblings',
+        description: 'groups consecutive slots for two patients',
+        body: () => withUui({ numberOfPatients: 2, timeWindowMinutes: 30 }),
+        expect: 'success',
+      },
+    ],
+  },
+  {
+    name: 'createPatient',
+    path: '/chord/ortho/createPatient',
+    toolAction: 'chord_ortho_patient:create',
+    requestSchema: CreatePatientRequestSchema,
+    responseSchema: CreatePatientResponseSchema,
+    cases: [
+      {
+        id: 'missing-name',
+        description: 'rejects a patient without a name',
+        body: () => withUui({}),
+        expect: 'error',
+      },
+      {
+        id: 'new-patient',
+        description: 'creates a patient',
+        writes: true,
+        body: ctx => {
+          ctx.patientFilter = `Contract${Date.now().toString(36)}`;
+          return withUui({
+            patientFirstName: 'Test',
+            patientLastName: ctx.patientFilter,
+            birthdayDateTime: '01/15/2015',
+            phoneNumber: '5555550123',
+            emailAddress: 'contract-test@example.com',
+            ...(ctx.locationGUID ? { locationGUID: ctx.locationGUID } : {}),
+          });
+        },
+        expect: 'success',
+        capture: (response, ctx) => {
+          if (response.patientGUID) ctx.patientGUID = response.patientGUID;
+        },
+      },
+    ],
+  },
+  {
+    name: 'getPatientByFilter',
+    path: '/chord/ortho/getPatientByFilter',
+    toolAction: 'chord_ortho_patient:lookup',
+    requestSchema: GetPatientByFilterRequestSchema,
+    responseSchema: GetPatientByFilterResponseSchema,
+    cases: [
+      {
+        id: 'missing-criteria',
+        description: 'rejects a lookup without phoneNumber or filter',
+        body: () => withUui({}),
+        expect: 'error',
+      },
+      {
+        id: 'by-name',
+        description: 'finds patients by name',
+        requires: ['patientFilter'],
+        body: ctx => withUui({ filter: ctx.patientFilter }),
+        expect: 'success',
+        capture: (response, ctx) => {
+          const guid = response.patients?.[0]?.patientGUID;
+          if (guid && !ctx.patientGUID) ctx.patientGUID = guid;
+        },
+      },
+    ],
+  },
+  {
+    name: 'getPatient',
+    path: '/chord/ortho/getPatient',
+    toolAction: 'chord_ortho_patient:get',
+    requestSchema: GetPatientRequestSchema,
+    responseSchema: GetPatientResponseSchema,
+    cases: [
+      {
+        id: 'missing-guid',
+        description: 'rejects a request without patientGUID',
+        body: () => withUui({}),
+        expect: 'error',
+      },
+      {
+        id: 'by-guid',
+        description: 'returns the patient record',
+        requires: ['patientGUID'],
+        body: ctx => withUui({ patientGUID: ctx.patientGUID }),
+        expect: 'success',
+      },
+    ],
+  },
+  {
+    name: 'getPatientAppts',
+    path: '/chord/ortho/getPatientAppts',
+    toolAction: 'chord_ortho_patient:appointments',
+    requestSchema: GetPatientApptsRequestSchema,
+    responseSchema: GetPatientApptsResponseSchema,
+    cases: [
+      {
+        id: 'by-guid',
+        description: "lists the patient's appointments",
+        requires: ['patientGUID'],
+        body: ctx => withUui({ patientGUID: ctx.patientGUID }),
+        expect: 'success',
+      },
+    ],
+  },
+  {
+    name: 'editInsurance',
+    path: '/chord/ortho/editInsurance',
+    toolAction: 'chord_ortho_patient:edit_insurance',
+    requestSchema: EditInsuranceRequestSchema,
+    responseSchema: EditInsuranceResponseSchema,
+    cases: [
+      {
+        id: 'missing-guid',
+        description: 'rejects a request without patientGUID',
+        body: () => withUui({ insuranceProvider: 'Delta Dental' }),
+        expect: 'error',
+      },
+      {
+        id: 'update',
+        description: "saves the patient's insurance details",
+        writes: true,
+        requires: ['patientGUID'],
+        body: ctx => withUui({
+          patientGUID: ctx.patientGUID,
+          insuranceProvider: 'Delta Dental',
+          insuranceGroupId: 'CONTRACT-GRP',
+          insuranceMemberId: 'CONTRACT-MBR',
+        }),
+        expect: 'success',
+      },
+    ],
+  },
+  {
+    name: 'createAppt',
+    path: '/chord/ortho/createAppt',
+    toolAction: 'schedule_appointment_ortho:book_child',
+    requestSchema: CreateApptRequestSchema,
+    responseSchema: CreateApptResponseSchema,
+    cases: [
+      {
+        id: 'missing-slot',
+        description: 'answers missing slot fields with a validation result',
+        body: () => withUui({ patientGUID: '00000000-0000-0000-0000-000000000000' }),
+        expect: 'success',
+        responseSchema: CreateApptValidationResponseSchema,
+      },
+      {
+        id: 'book',
+        description: 'books the first available slot',
+        writes: true,
+        requires: ['patientGUID', 'startTime', 'scheduleViewGUID', 'scheduleColumnGUID'],
+        body: ctx => withUui({
+          patientGUID: ctx.patientGUID,
+          startTime: ctx.startTime,
+          scheduleViewGUID: ctx.scheduleViewGUID,
+          scheduleColumnGUID: ctx.scheduleColumnGUID,
+          appointmentTypeGUID: ctx.appointmentTypeGUID,
+          minutes: Number(ctx.minutes) || 45,
+          childName: 'Test',
+        }),
+        expect: 'success',
+        capture: (response, ctx) => {
+          if (response.appointmentGUID) ctx.appointmentGUID = response.appointmentGUID;
+        },
+      },
+    ],
+  },
+  {
+    name: 'confirmAppt',
+    path: '/chord/ortho/confirmAppt',
+    toolAction: 'chord_ortho_patient:confirm_appointment',
+    requestSchema: ConfirmApptRequestSchema,
+    responseSchema: ConfirmApptResponseSchema,
+    cases: [
+      {
+        id: 'missing-id',
+        description: 'rejects a request without appointmentId',
+        body: () => withUui({}),
+        expect: 'error',
+      },
+      {
+        id: 'confirm',
+        description: 'confirms the booked appointment',
+        writes: true,
+        requires: ['appointmentGUID'],
+        body: ctx => withUui({ appointmentId: ctx.appointmentGUID }),
+        expect: 'success',
+      },
+    ],
+  },
+  {
+    name: 'cancelAppt',
+    path: '/chord/ortho/cancelAppt',
+    toolAction: 'schedule_appointment_ortho:cancel',
+    requestSchema: CancelApptRequestSchema,
+    responseSchema: CancelApptResponseSchema,
+    cases: [
+      {
+        id: 'missing-guid',
+        description: 'rejects a request without appointmentGUID',
+        body: () => withUui({}),
+        expect: 'error',
+      },
+      {
+        id: 'cancel',
+        description: 'cancels the booked appointment',
+        writes: true,
+        requires: ['appointmentGUID'],
+        body: ctx => withUui({ appointmentGUID: ctx.appointmentGUID }),
+        expect: 'success',
+      },
+    ],
+  },
+];
+
+/**
+ * Test ID of a contract case, as stored in test_results
+ */
+export function getContractTestId(endpoint: EndpointContract, contractCase: ContractCase): string {
+  return `CONTRACT-${endpoint.name}-${contractCase.id}`;
+}
@@ -398,6 +398,14 @@ export class GoalTestRunner {
         console.log(`[GoalTestRunner] Extracted volunteered ${field}: ${value}`);
       }
 
+      // The category strategy engine only formats English replies, so personas
+      // speaking another language use the language-aware IntentDetector + ResponseGenerator
+      const language = personaToUse.traits.language || 'en';
+      const useCategoryBasedSystem = this.config.useCategoryBasedSystem && language === 'en';
+      if (this.config.useCategoryBasedSystem && !useCategoryBasedSystem) {
+        console.log(`[GoalTestRunner] Persona language '${language}': using IntentDetector + ResponseGenerator`);
+      }
+
       // Main conversation loop
       while (!this.shouldStop(progressTracker, turnNumber, testCase)) {
         // Get the last agent response
@@ -407,7 +415,7 @@ export class GoalTestRunner {
         let intentResult: IntentDetectionResult;
         let userResponse: string;
 
-        if (this.config.useCategoryBasedSystem) {
+        if (useCategoryBasedSystem) {
           // Select classifier based on config
           const classifier = this.config.useSemanticClassifier
             ? this.semanticClassifier
@@ -490,12 +498,16 @@ export class GoalTestRunner {
 
           // Convert to legacy intent for progress tracker
           intentResult = classifier.toLegacyIntent(classification);
+
+          // Strategy engine replies are clean text; pass them through the persona's voice channel
+          userResponse = responseGenerator.applyVoiceChannel(userResponse, intentResult.primaryIntent, currentChildIndex);
         } else {
           // Legacy intent-based system
           intentResult = await this.intentDetector.detectIntent(
             lastAgentTurn.content,
             transcript,
-            progressTracker.getPendingFields()
+            progressTracker.getPendingFields(),
+            language
           );
 
           // Check if conversation should end
@@ -617,7 +629,17 @@ export class GoalTestRunner {
 
     // Save to database (include resolved persona if dynamic fields were used)
     // Use effectiveTestId to ensure multiple runs of same test are stored separately
-    this.saveGoalTestResult(runId, effectiveTestId, testCase, result, transcript, lastError, resolvedPersona, flowiseSessionId);
+    this.saveGoalTestResult(
+      runId,
+      effectiveTestId,
+      testCase,
+      result,
+      transcript,
+      lastError,
+      resolvedPersona,
+      flowiseSessionId,
+      responseGenerator.getVoiceChannelSeed() ?? undefined
+    );
 
     return result;
   }
@@ -1018,6 +1040,7 @@ export class GoalTestRunner {
    * @param errorMessage Optional error message
    * @param resolvedPersona Optional resolved persona for dynamic tests
    * @param flowiseSessionId Optional Flowise session ID for Langfuse session URL
+   * @param voiceSeed Seed of the voice channel simulation, when the persona has voice traits
    */
   private saveGoalTestResult(
     runId: string,
@@ -1027,7 +1050,8 @@ export class GoalTestRunner {
     transcript: ConversationTurn[],
     errorMessage?: string,
     resolvedPersona?: ResolvedPersona,
-    flowiseSessionId?: string
+    flowiseSessionId?: string,
+    voiceSeed?: number
   ): void {
     try {
       // Convert to TestResult format for compatibility
@@ -1112,6 +1136,7 @@ export class GoalTestRunner {
         // Include resolved persona data for debugging/reproducibility
         resolvedPersonaJson: resolvedPersona ? JSON.stringify(resolvedPersona.resolved) : undefined,
         generationSeed: resolvedPersona?.metadata.seed,
+        voiceSeed,
         langfuseTraceId,
         // Flowise session ID for Langfuse session URL
         flowiseSessionId,
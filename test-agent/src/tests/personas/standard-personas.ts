@@ -32,6 +32,29 @@ const VERBOSE_TRAITS: PersonaTraits = {
   techSavviness: 'moderate',
 };
 
+const SPANISH_TRAITS: PersonaTraits = {
+  ...NORMAL_TRAITS,
+  language: 'es',
+};
+
+const SPANISH_TERSE_TRAITS: PersonaTraits = {
+  ...TERSE_TRAITS,
+  language: 'es',
+};
+
+// Typical phone-channel ASR noise; fixed seed so runs are reproducible
+const VOICE_CHANNEL_TRAITS: PersonaTraits = {
+  ...NORMAL_TRAITS,
+  voice: {
+    spokenDigits: true,
+    spokenEmails: true,
+    nameHomophoneRate: 0.3,
+    wordDropRate: 0.05,
+    dtmfRate: 0.3,
+    seed: 20240615,
+  },
+};
+
 // ============================================================================
 // STANDARD PERSONAS
 // ============================================================================
@@ -283,6 +306,102 @@ export const TERSE_TOM: UserPersona = {
   traits: TERSE_TRAITS,
 };
 
+/**
+ * Rosa Martinez - Spanish-speaking parent, single child
+ */
+export const ROSA_MARTINEZ: UserPersona = {
+  name: 'Rosa Martinez',
+  description: 'Spanish-speaking parent with one child, new patient, Keystone First insurance',
+  inventory: {
+    parentFirstName: 'Rosa',
+    parentLastName: 'Martinez',
+    parentPhone: '2155556666',
+    parentEmail: 'rosa.martinez@email.com',
+    parentDateOfBirth: '1986-02-17',
+    children: [
+      {
+        firstName: 'Valentina',
+        lastName: 'Martinez',
+        dateOfBirth: '2013-09-05',
+        isNewPatient: true,
+        hadBracesBefore: false,
+      },
+    ],
+    hasInsurance: true,
+    insuranceProvider: 'Keystone First',
+    insuranceMemberId: 'KF666777888',
+    insuranceGroupNumber: 'GRP004567',
+    previousVisitToOffice: false,
+    previousOrthoTreatment: false,
+    preferredLocation: 'Philadelphia',
+    preferredTimeOfDay: 'afternoon',
+  },
+  traits: SPANISH_TRAITS,
+};
+
+/**
+ * Carlos Rivera - Spanish-speaking parent, no insurance, brief answers
+ */
+export const CARLOS_RIVERA: UserPersona = {
+  name: 'Carlos Rivera',
+  description: 'Spanish-speaking parent without insurance who gives brief answers',
+  inventory: {
+    parentFirstName: 'Carlos',
+    parentLastName: 'Rivera',
+    parentPhone: '2155557777',
+    parentEmail: 'carlos.rivera@email.com',
+    parentDateOfBirth: '1981-10-29',
+    children: [
+      {
+        firstName: 'Mateo',
+        lastName: 'Rivera',
+        dateOfBirth: '2012-12-12',
+        isNewPatient: true,
+        hadBracesBefore: false,
+      },
+    ],
+    hasInsurance: false,
+    previousVisitToOffice: false,
+    previousOrthoTreatment: false,
+    preferredLocation: 'Philadelphia',
+    preferredTimeOfDay: 'morning',
+  },
+  traits: SPANISH_TERSE_TRAITS,
+};
+
+/**
+ * Katherine Reid - Phone caller heard through speech recognition
+ */
+export const KATHERINE_REID: UserPersona = {
+  name: 'Katherine Reid',
+  description: 'Phone caller whose replies carry ASR noise (spoken digits, misheard names, keypad input)',
+  inventory: {
+    parentFirstName: 'Katherine',
+    parentLastName: 'Reid',
+    parentPhone: '2155558888',
+    parentEmail: 'k.reid@email.com',
+    parentDateOfBirth: '1984-05-09',
+    children: [
+      {
+        firstName: 'Aidan',
+        lastName: 'Reid',
+        dateOfBirth: '2013-07-21',
+        isNewPatient: true,
+        hadBracesBefore: false,
+      },
+    ],
+    hasInsurance: true,
+    insuranceProvider: 'Aetna Better Health',
+    insuranceMemberId: 'ABH222333444',
+    insuranceGroupNumber: 'ABH1234',
+    previousVisitToOffice: false,
+    previousOrthoTreatment: false,
+    preferredLocation: 'Alleghany',
+    preferredTimeOfDay: 'morning',
+  },
+  traits: VOICE_CHANNEL_TRAITS,
+};
+
 // ============================================================================
 // PERSONA CATALOG
 // ============================================================================
@@ -298,6 +417,9 @@ export const STANDARD_PERSONAS: Record<string, UserPersona> = {
   'maria-garcia': MARIA_GARCIA,
   'david-wilson': DAVID_WILSON,
   'terse-tom': TERSE_TOM,
+  'rosa-martinez': ROSA_MARTINEZ,
+  'carlos-rivera': CARLOS_RIVERA,
+  'katherine-reid': KATHERINE_REID,
 };
 
 /**
@@ -20,6 +20,9 @@ import {
   JANE_SMITH,
   DAVID_WILSON,
   TERSE_TOM,
+  ROSA_MARTINEZ,
+  CARLOS_RIVERA,
+  KATHERINE_REID,
 } from '../personas/standard-personas';
 
 // ============================================================================
@@ -296,6 +299,148 @@ export const GOAL_HAPPY_005: GoalOrientedTestCase = {
   initialMessage: 'Need appointment',
 };
 
+/**
+ * GOAL-HAPPY-006: Spanish-Speaking Parent
+ *
+ * Same outcome as GOAL-HAPPY-001, with the caller speaking Spanish throughout.
+ */
+export const GOAL_HAPPY_006: GoalOrientedTestCase = {
+  id: 'GOAL-HAPPY-006',
+  name: 'Spanish-Speaking Parent (Goal-Based)',
+  description: 'Book a new patient consult for one child with a caller who speaks Spanish',
+  category: 'happy-path',
+  tags: ['goal-based', 'booking', 'new-patient', 'single-child', 'spanish'],
+
+  persona: ROSA_MARTINEZ,
+
+  goals: [
+    {
+      ...PRESET_GOALS.collectParentInfo(),
+      id: 'collect-parent-info',
+      requiredFields: ['parent_name', 'parent_phone'],
+    },
+    {
+      ...PRESET_GOALS.collectChildInfo(),
+      id: 'collect-child-info',
+      requiredFields: ['child_names', 'child_dob'],
+    },
+    {
+      ...PRESET_GOALS.bookingConfirmed(),
+      id: 'booking-confirmed',
+      required: true,
+    },
+  ],
+
+  constraints: [
+    PRESET_CONSTRAINTS.noErrors(),
+    PRESET_CONSTRAINTS.noInternalExposure(),
+    PRESET_CONSTRAINTS.maxTurns(50),
+  ],
+
+  responseConfig: {
+    maxTurns: 50,
+    useLlmResponses: false,
+    handleUnknownIntents: 'clarify',
+  },
+
+  initialMessage: 'Hola, necesito hacer una cita de ortodoncia para mi hija',
+};
+
+/**
+ * GOAL-HAPPY-007: Spanish-Speaking Parent Without Insurance
+ *
+ * Terse Spanish caller with no insurance coverage.
+ */
+export const GOAL_HAPPY_007: GoalOrientedTestCase = {
+  id: 'GOAL-HAPPY-007',
+  name: 'Spanish-Speaking Parent, No Insurance (Goal-Based)',
+  description: 'Book a new patient consult for a Spanish-speaking caller without insurance',
+  category: 'happy-path',
+  tags: ['goal-based', 'booking', 'new-patient', 'no-insurance', 'spanish', 'terse-user'],
+
+  persona: CARLOS_RIVERA,
+
+  goals: [
+    {
+      ...PRESET_GOALS.collectParentInfo(),
+      id: 'collect-parent-info',
+      requiredFields: ['parent_name', 'parent_phone'],
+    },
+    {
+      ...PRESET_GOALS.collectChildInfo(),
+      id: 'collect-child-info',
+      requiredFields: ['child_names', 'child_dob'],
+    },
+    {
+      ...PRESET_GOALS.bookingConfirmed(),
+      id: 'booking-confirmed',
+      required: true,
+    },
+  ],
+
+  constraints: [
+    PRESET_CONSTRAINTS.noErrors(),
+    PRESET_CONSTRAINTS.noInternalExposure(),
+    PRESET_CONSTRAINTS.maxTurns(50),
+  ],
+
+  responseConfig: {
+    maxTurns: 50,
+    useLlmResponses: false,
+    handleUnknownIntents: 'clarify',
+  },
+
+  initialMessage: 'Necesito una cita para mi hijo',
+};
+
+/**
+ * GOAL-HAPPY-008: Voice Channel Caller
+ *
+ * Replies go through simulated speech recognition: digits read as words,
+ * misheard names, dropped words and keypad (DTMF) answers.
+ */
+export const GOAL_HAPPY_008: GoalOrientedTestCase = {
+  id: 'GOAL-HAPPY-008',
+  name: 'Voice Channel Caller with ASR Noise (Goal-Based)',
+  description: 'Book a new patient consult when caller replies arrive as noisy speech-recognition transcripts',
+  category: 'happy-path',
+  tags: ['goal-based', 'booking', 'new-patient', 'single-child', 'voice', 'asr'],
+
+  persona: KATHERINE_REID,
+
+  goals: [
+    {
+      ...PRESET_GOALS.collectParentInfo(),
+      id: 'collect-parent-info',
+      requiredFields: ['parent_name', 'parent_phone'],
+    },
+    {
+      ...PRESET_GOALS.collectChildInfo(),
+      id: 'collect-child-info',
+      requiredFields: ['child_names', 'child_dob'],
+    },
+    {
+      ...PRESET_GOALS.bookingConfirmed(),
+      id: 'booking-confirmed',
+      required: true,
+    },
+  ],
+
+  constraints: [
+    PRESET_CONSTRAINTS.noErrors(),
+    PRESET_CONSTRAINTS.noInternalExposure(),
+    PRESET_CONSTRAINTS.maxTurns(50),
+  ],
+
+  responseConfig: {
+    maxTurns: 50,
+    useLlmResponses: false,
+    handleUnknownIntents: 'clarify',
+  },
+
+  initialMessage: 'hi i need to schedule a orthodontic appointment for my son',
+};
+
 // ============================================================================
 // EXPORT ALL GOAL-BASED HAPPY PATH TESTS
 // ============================================================================
@@ -306,6 +451,9 @@ export const goalHappyPathScenarios: GoalOrientedTestCase[] = [
   GOAL_HAPPY_003,
   GOAL_HAPPY_004,
   GOAL_HAPPY_005,
+  GOAL_HAPPY_006,
+  GOAL_HAPPY_007,
+  GOAL_HAPPY_008,
 ];
 
 /**
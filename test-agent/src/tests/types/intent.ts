@@ -4,6 +4,8 @@
  * Defines what the agent is asking for / doing in a response.
  */
 
+import type { PersonaLanguage } from './persona';
+
 /**
  * Possible intents detected from agent responses
  */
@@ -281,6 +283,86 @@ export const INTENT_KEYWORDS: Record<AgentIntent, RegExp[]> = {
   'unknown': [],
 };
 
+/**
+ * Spanish keywords for the same intents, used when the persona speaks Spanish
+ * and the agent answers in kind. Accented letters are matched optionally since
+ * transcripts often drop them; \b is avoided next to accented letters because
+ * JavaScript treats them as non-word characters.
+ */
+export const INTENT_KEYWORDS_ES: Partial<Record<AgentIntent, RegExp[]>> = {
+  'greeting': [/\b(hola|bienvenid[oa]|buenos d[ií]as|buenas tardes)/i, /\bmi nombre es allie\b/i],
+  'saying_goodbye': [
+    /\b(adi[oó]s|hasta luego)/i,
+    /\bque tenga (un )?(buen|excelente|lindo) d[ií]a/i,
+    /\bcu[ií]dese\b/i,
+  ],
+
+  'asking_parent_name': [/\bsu nombre\b/i, /\bnombre y apellido\b/i, /\bc[oó]mo se llama usted\b/i],
+  'asking_spell_name': [/\bdeletre/i],
+  'asking_phone': [/\b(n[uú]mero de )?tel[eé]fono/i, /\bmejor n[uú]mero\b/i, /\bn[uú]mero (para|de) contacto\b/i],
+  'asking_email': [/\bcorreo( electr[oó]nico)?\b/i, /\bemail\b/i],
+  'asking_parent_dob': [
+    // Parent's own DOB - no child qualifier after it
+    /\bsu (propia )?fecha de nacimiento\b(?!.*(hij[oa]|ni[nñ][oa]|paciente|menor))/i,
+  ],
+
+  'asking_child_count': [/\bcu[aá]nt[oa]s (hij[oa]s|ni[nñ][oa]s|pacientes)/i],
+  'asking_child_name': [
+    /\bnombre (completo |y apellido )?de(l| su| la)? ?(hij[oa]|ni[nñ][oa]|paciente|menor)/i,
+    /\bc[oó]mo se llama (su )?(hij[oa]|ni[nñ][oa])/i,
+  ],
+  'asking_child_dob': [
+    /\bfecha de nacimiento de(l| su| la)? ?(hij[oa]|ni[nñ][oa]|paciente|menor)/i,
+    /\bcu[aá]ndo naci[oó]/i,
+  ],
+  'asking_child_age': [/\b(cu[aá]ntos a[nñ]os|qu[eé] edad)/i],
+
+  'asking_new_patient': [/\b(paciente nuev[oa]|nuev[oa] paciente|primera vez)\b/i],
+  'asking_previous_visit': [/\b(ha|han) (visitado|estado en)\b.*\b(oficina|consultorio)/i],
+  'asking_previous_ortho': [/\b(frenos|brackets|tratamiento de ortodoncia)\b/i],
+
+  'asking_insurance': [
+    /\b(tiene|tienen|cuenta con) (alg[uú]n )?seguro/i,
+    /\b(qu[eé]|cu[aá]l) (tipo de |es su )?seguro/i,
+  ],
+  'asking_special_needs': [/\bnecesidades especiales\b/i, /\bcondici(o|ó)n(es)? m[eé]dica/i, /\balergi/i],
+  'asking_time_preference': [
+    /\b(prefiere|preferencia).*(ma[nñ]ana|tarde|hora|d[ií]a)/i,
+    /\bpor la ma[nñ]ana o por la tarde/i,
+  ],
+  'asking_location_preference': [
+    /\b(qu[eé]|cu[aá]l) (oficina|ubicaci[oó]n|consultorio)/i,
+    /\b(prefiere|preferencia).*(oficina|ubicaci[oó]n)/i,
+  ],
+
+  'confirming_information': [/\b(confirmar|correcto|verificar|gracias)\b/i],
+  'confirming_spelling': [/\bse escribe\b/i],
+  'asking_proceed_confirmation': [/\b(desea|quiere) (continuar|proceder)\b/i],
+  'reminding_bring_card': [/\btraiga (su )?tarjeta de(l)? seguro/i],
+
+  'searching_availability': [
+    /\b(perm[ií]tame|d[eé]jeme|un momento)\b.*\b(disponib|horario|cita)/i,
+    /\bbuscando (horarios|citas|disponibilidad)/i,
+  ],
+  'offering_time_slots': [
+    /\b(tengo|tenemos|hay)\b.*\b(disponible|espacio|horario)/i,
+    /\b(lunes|martes|mi[eé]rcoles|jueves|viernes|s[aá]bado|domingo)\b.*\b(a las|disponible)/i,
+  ],
+  'confirming_booking': [
+    /\b(cita|consulta) (ha sido|fue|qued[oó]|est[aá]) (programada|agendada|confirmada|reservada)/i,
+    /\b(he|hemos) (programado|agendado|reservado)\b/i,
+  ],
+
+  'offering_address': [/\b(le gustar[ií]a|quiere|necesita)\b.*(direcci[oó]n|indicaciones)/i],
+  'providing_address': [/\b(oficina|consultorio) (est[aá] ubicad[oa]|queda) en\b/i, /\bla direcci[oó]n es\b/i],
+  'providing_parking_info': [/\bestacionamiento\b/i],
+  'providing_hours_info': [/\b(nuestro horario|estamos abiertos|abrimos)\b/i],
+
+  'initiating_transfer': [/\b(transferir|transfiriendo|comunicar|conectar)(le|lo|la)?\b/i, /\bespere en la l[ií]nea/i],
+  'handling_error': [/\b(lo siento|disculpe|problema|intente de nuevo)/i],
+  'asking_clarification': [/\b(no entend|puede repetir|c[oó]mo dijo)/i],
+};
+
 /**
  * Priority order for intent detection - terminal/important intents checked first
  * This prevents less specific patterns from matching before terminal intents
@@ -342,13 +424,11 @@ const INTENT_PRIORITY_ORDER: AgentIntent[] = [
 ];
 
 /**
- * Simple keyword-based intent detection (fallback when LLM unavailable)
- * Uses priority ordering to check terminal intents first
+ * Match a response against a keyword table in priority order
  */
-export function detectIntentByKeywords(response: string): AgentIntent {
-  // Check intents in priority order
+function matchKeywords(response: string, keywords: Partial<Record<AgentIntent, RegExp[]>>): AgentIntent {
   for (const intent of INTENT_PRIORITY_ORDER) {
-    const patterns = INTENT_KEYWORDS[intent];
+    const patterns = keywords[intent];
     if (!patterns || patterns.length === 0) continue;
 
     for (const pattern of patterns) {
@@ -359,3 +439,17 @@ export function detectIntentByKeywords(response: string): AgentIntent {
   }
   return 'unknown';
 }
+
+/**
+ * Simple keyword-based intent detection (fallback when LLM unavailable)
+ * Uses priority ordering to check terminal intents first.
+ * For Spanish, the Spanish keywords are tried first; the English ones still
+ * apply because the agent sometimes answers a Spanish caller in English.
+ */
+export function detectIntentByKeywords(response: string, language: PersonaLanguage = 'en'): AgentIntent {
+  if (language === 'es') {
+    const intent = matchKeywords(response, INTENT_KEYWORDS_ES);
+    if (intent !== 'unknown') return intent;
+  }
+  return matchKeywords(response, INTENT_KEYWORDS);
+}
@@ -62,6 +62,35 @@ export interface DataInventory {
   custom?: Record<string, any>;
 }
 
+/**
+ * Language the persona speaks on the call
+ */
+export type PersonaLanguage = 'en' | 'es';
+
+/**
+ * Speech-recognition distortions applied to the persona's replies, as the
+ * phone IVA would hear them. Rates are probabilities from 0 to 1.
+ */
+export interface VoiceChannelTraits {
+  /** Phone numbers and IDs read digit by digit ("five five five") */
+  spokenDigits?: boolean;
+
+  /** Emails spelled out ("j dot smith at gmail dot com") */
+  spokenEmails?: boolean;
+
+  /** Chance each persona name is misheard as a homophone */
+  nameHomophoneRate?: number;
+
+  /** Chance each word is dropped */
+  wordDropRate?: number;
+
+  /** Chance a phone/DOB answer is keyed in on the keypad (DTMF) instead of spoken */
+  dtmfRate?: number;
+
+  /** RNG seed so the same distortions can be replayed */
+  seed?: number;
+}
+
 /**
  * Personality traits that affect response style
  */
@@ -89,6 +118,12 @@ export interface PersonaTraits {
 
   /** Simulated typing delay in ms */
   responseDelay?: number;
+
+  /** Language the persona speaks (default 'en') */
+  language?: PersonaLanguage;
+
+  /** Simulated speech-recognition noise and keypad input (voice channel) */
+  voice?: VoiceChannelTraits;
 }
 
 /**